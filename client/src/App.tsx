@@ -11,7 +11,9 @@ import Home from "@/pages/home"; // Eagerly load home page to avoid Suspense on
 // Lazy load all other pages for code splitting
 const Create = lazy(() => import("@/pages/create"));
 const View = lazy(() => import("@/pages/view"));
+const Draft = lazy(() => import("@/pages/draft"));
 const Library = lazy(() => import("@/pages/library"));
+const Characters = lazy(() => import("@/pages/characters"));
 const Gallery = lazy(() => import("@/pages/gallery"));
 const Cart = lazy(() => import("@/pages/cart"));
 const Checkout = lazy(() => import("@/pages/checkout"));
@@ -32,6 +34,8 @@ const AdminHeroManagement = lazy(() => import("@/pages/admin/hero-management"));
 const AdminFeatured = lazy(() => import("@/pages/admin/featured"));
 const AdminAuditLogs = lazy(() => import("@/pages/admin/audit-logs"));
 const AdminSamplePrompts = lazy(() => import("@/pages/admin/sample-prompts"));
+const AdminIllustrationStyles = lazy(() => import("@/pages/admin/illustration-styles"));
+const AdminModeration = lazy(() => import("@/pages/admin/moderation"));
 
 // Loading fallback component
 function PageLoader() {
@@ -67,6 +71,7 @@ function Router() {
         <Route path="/reset-password" component={ResetPassword} />
         <Route path="/create" component={Create} />
         <Route path="/library" component={Library} />
+        <Route path="/characters" component={Characters} />
         <Route path="/gallery" component={Gallery} />
         <Route path="/cart" component={Cart} />
         <Route path="/checkout" component={Checkout} />
@@ -77,6 +82,7 @@ function Router() {
         <Route path="/orders/:orderId" component={OrderDetails} />
         <Route path="/account" component={Account} />
         <Route path="/view/:id" component={View} />
+        <Route path="/draft/:id" component={Draft} />
         <Route path="/shared/:shareUrl" component={View} />
         
         {/* Admin Routes */}
@@ -91,6 +97,8 @@ function Router() {
         <Route path="/admin/hero" component={AdminHeroManagement} />
         <Route path="/admin/featured" component={AdminFeatured} />
         <Route path="/admin/sample-prompts" component={AdminSamplePrompts} />
+        <Route path="/admin/illustration-styles" component={AdminIllustrationStyles} />
+        <Route path="/admin/moderation" component={AdminModeration} />
         <Route path="/admin/audit-logs" component={AdminAuditLogs} />
         
         <Route component={NotFound} />
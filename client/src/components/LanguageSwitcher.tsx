@@ -7,13 +7,13 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
-const languages = [
+export const languages = [
   { code: 'en', name: 'English' },
   { code: 'es', name: 'Español' },
   { code: 'fr', name: 'Français' },
   { code: 'de', name: 'Deutsch' },
   { code: 'zh', name: '中文' },
-];
+] as const;
 
 export default function LanguageSwitcher({ testId = "language-switcher" }: { testId?: string }) {
   const { i18n } = useTranslation();
@@ -14,7 +14,9 @@ import {
   Home,
   TrendingUp,
   Menu,
-  ShoppingCart
+  ShoppingCart,
+  ShieldAlert,
+  Palette
 } from "lucide-react";
 import {
   Sheet,
@@ -39,6 +41,8 @@ const navItems = [
   { icon: Settings, label: "Settings", path: "/admin/settings", testId: "nav-settings" },
   { icon: Star, label: "Hero Management", path: "/admin/hero", testId: "nav-hero" },
   { icon: Sparkles, label: "Featured Content", path: "/admin/featured", testId: "nav-featured" },
+  { icon: Palette, label: "Illustration Styles", path: "/admin/illustration-styles", testId: "nav-illustration-styles" },
+  { icon: ShieldAlert, label: "Moderation", path: "/admin/moderation", testId: "nav-moderation" },
   { icon: FileText, label: "Audit Logs", path: "/admin/audit-logs", testId: "nav-audit-logs" },
 ];
 
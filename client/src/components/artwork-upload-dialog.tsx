@@ -0,0 +1,179 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ImageUp, Loader2 } from "lucide-react";
+import type { ArtworkTarget, Storybook } from "@shared/schema";
+
+interface ArtworkUploadDialogProps {
+  storybook: Storybook;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Same limit as the server's upload config
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Select values: "cover", "back_cover" or a page number
+const targetOf = (value: string): ArtworkTarget => value === 'cover' || value === 'back_cover' ? value : 'page';
+
+export function ArtworkUploadDialog({ storybook, open, onOpenChange }: ArtworkUploadDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [target, setTarget] = useState("1");
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFile(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!file) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const currentImageUrl = target === 'cover'
+    ? storybook.coverImageUrl
+    : target === 'back_cover'
+      ? storybook.backCoverImageUrl
+      : storybook.pages.find(page => String(page.pageNumber) === target)?.imageUrl;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    if (selected && selected.size > MAX_FILE_SIZE) {
+      toast({
+        title: t('storybook.viewer.artwork.toast.tooLarge'),
+        description: t('storybook.viewer.artwork.toast.tooLargeDescription'),
+        variant: "destructive",
+      });
+      e.target.value = "";
+      return;
+    }
+    setFile(selected);
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (): Promise<Storybook> => {
+      const formData = new FormData();
+      formData.append("target", targetOf(target));
+      if (targetOf(target) === 'page') {
+        formData.append("pageNumber", target);
+      }
+      formData.append("image", file!);
+
+      const response = await fetch(`/api/storybooks/${storybook.id}/artwork`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ message: response.statusText }));
+        throw new Error(errorData.message || t('storybook.viewer.artwork.toast.failed'));
+      }
+      return response.json();
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/storybooks', storybook.id], updated);
+      if (targetOf(target) === 'page') {
+        queryClient.invalidateQueries({ queryKey: ['/api/storybooks', storybook.id, 'pages', Number(target), 'revisions'] });
+      }
+      toast({
+        title: t('storybook.viewer.artwork.toast.added'),
+        description: t('storybook.viewer.artwork.toast.addedDescription'),
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('storybook.viewer.artwork.toast.failed'),
+        description: error.message || t('common.errors.tryAgainLater'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !uploadMutation.isPending && onOpenChange(next)}>
+      <DialogContent className="max-w-[95vw] md:max-w-2xl max-h-[90vh] overflow-y-auto rounded-xl" data-testid="dialog-artwork-upload">
+        <DialogHeader>
+          <DialogTitle>{t('storybook.viewer.artwork.title')}</DialogTitle>
+          <DialogDescription>
+            {t(storybook.orientation === 'landscape' ? 'storybook.viewer.artwork.description.landscape' : 'storybook.viewer.artwork.description.portrait')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="artwork-target">{t('storybook.viewer.artwork.target')}</Label>
+            <Select value={target} onValueChange={setTarget} disabled={uploadMutation.isPending}>
+              <SelectTrigger id="artwork-target" data-testid="select-artwork-target">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cover">{t('storybook.viewer.artwork.frontCover')}</SelectItem>
+                {storybook.pages.map(page => (
+                  <SelectItem key={page.pageNumber} value={String(page.pageNumber)}>{t('storybook.viewer.artwork.page', { page: page.pageNumber })}</SelectItem>
+                ))}
+                <SelectItem value="back_cover">{t('storybook.viewer.artwork.backCover')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="artwork-file">{t('storybook.viewer.artwork.picture')}</Label>
+            <Input
+              id="artwork-file"
+              type="file"
+              accept="image/png,image/jpeg,image/webp"
+              onChange={handleFileChange}
+              disabled={uploadMutation.isPending}
+              data-testid="input-artwork-file"
+            />
+            <p className="text-xs text-muted-foreground">{t('storybook.viewer.artwork.fileHint')}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {[{ label: t('storybook.viewer.artwork.current'), url: currentImageUrl }, { label: t('storybook.viewer.artwork.preview'), url: previewUrl }].map(image => (
+              <figure key={image.label} className="space-y-1">
+                {image.url ? (
+                  <img src={image.url} alt={image.label} className="w-full aspect-square rounded-lg border object-contain bg-white" />
+                ) : (
+                  <div className="w-full aspect-square rounded-lg border bg-muted" />
+                )}
+                <figcaption className="text-sm text-center text-muted-foreground">{image.label}</figcaption>
+              </figure>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={uploadMutation.isPending}>
+            {t('common.buttons.cancel')}
+          </Button>
+          <Button
+            onClick={() => uploadMutation.mutate()}
+            disabled={!file || uploadMutation.isPending}
+            data-testid="button-confirm-artwork-upload"
+          >
+            {uploadMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ImageUp className="w-4 h-4 mr-2" />}
+            {uploadMutation.isPending ? t('storybook.viewer.artwork.uploading') : t('storybook.viewer.artwork.submit')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { languages } from "@/components/LanguageSwitcher";
+import { useToast } from "@/hooks/use-toast";
+import { Globe, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { Storybook } from "@shared/schema";
+
+interface BilingualDialogProps {
+  storybook: Storybook;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select has no empty value, so "none" stands for a single-language book
+const NONE = "none";
+
+export function BilingualDialog({ storybook, open, onOpenChange }: BilingualDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [secondaryLanguage, setSecondaryLanguage] = useState(storybook.secondaryLanguage || NONE);
+
+  useEffect(() => {
+    if (open) {
+      setSecondaryLanguage(storybook.secondaryLanguage || NONE);
+    }
+  }, [open, storybook.secondaryLanguage]);
+
+  const bilingualMutation = useMutation({
+    mutationFn: async (): Promise<Storybook> => {
+      const res = await apiRequest('PUT', `/api/storybooks/${storybook.id}/bilingual`, {
+        secondaryLanguage: secondaryLanguage === NONE ? null : secondaryLanguage,
+      });
+      return res.json();
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/storybooks', storybook.id], updated);
+      queryClient.invalidateQueries({ queryKey: ['/api/storybooks'] });
+      onOpenChange(false);
+      toast({
+        title: t(updated.secondaryLanguage ? 'storybook.viewer.bilingual.toast.ready' : 'storybook.viewer.bilingual.toast.removed'),
+        description: updated.secondaryLanguage
+          ? t('storybook.viewer.bilingual.toast.readyDescription')
+          : t('storybook.viewer.bilingual.toast.removedDescription'),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('storybook.viewer.bilingual.toast.failed'),
+        description: error.message || t('common.errors.tryAgainLater'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unchanged = secondaryLanguage === (storybook.secondaryLanguage || NONE);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !bilingualMutation.isPending && onOpenChange(next)}>
+      <DialogContent className="max-w-[95vw] md:max-w-md rounded-xl" data-testid="dialog-bilingual">
+        <DialogHeader>
+          <DialogTitle>{t('storybook.viewer.bilingual.title')}</DialogTitle>
+          <DialogDescription>
+            {t('storybook.viewer.bilingual.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="bilingual-language">{t('storybook.viewer.bilingual.language')}</Label>
+          <Select value={secondaryLanguage} onValueChange={setSecondaryLanguage} disabled={bilingualMutation.isPending}>
+            <SelectTrigger id="bilingual-language" data-testid="select-bilingual-language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>{t('storybook.viewer.bilingual.none')}</SelectItem>
+              {languages.filter(option => option.code !== storybook.language).map(option => (
+                <SelectItem key={option.code} value={option.code}>
+                  {option.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={bilingualMutation.isPending}>
+            {t('common.buttons.cancel')}
+          </Button>
+          <Button
+            onClick={() => bilingualMutation.mutate()}
+            disabled={unchanged || bilingualMutation.isPending}
+            data-testid="button-confirm-bilingual"
+          >
+            {bilingualMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Globe className="w-4 h-4 mr-2" />}
+            {bilingualMutation.isPending ? t('storybook.viewer.bilingual.translating') : t('common.buttons.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
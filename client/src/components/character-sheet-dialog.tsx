@@ -0,0 +1,89 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, RefreshCw, Users } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { Storybook } from "@shared/schema";
+
+interface CharacterSheetDialogProps {
+  storybook: Storybook;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CharacterSheetDialog({ storybook, open, onOpenChange }: CharacterSheetDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (): Promise<Storybook> => {
+      const res = await apiRequest('POST', `/api/storybooks/${storybook.id}/character-sheet`);
+      return res.json();
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/storybooks', storybook.id], updated);
+      toast({
+        title: t('storybook.viewer.characterSheet.toast.updated'),
+        description: t('storybook.viewer.characterSheet.toast.updatedDescription'),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('storybook.viewer.characterSheet.toast.failed'),
+        description: error.message || t('common.errors.tryAgainLater'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !regenerateMutation.isPending && onOpenChange(next)}>
+      <DialogContent className="max-w-[95vw] md:max-w-2xl rounded-xl" data-testid="dialog-character-sheet">
+        <DialogHeader>
+          <DialogTitle>{t('storybook.viewer.characterSheet.title')}</DialogTitle>
+          <DialogDescription>
+            {t('storybook.viewer.characterSheet.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-lg border bg-muted/40 overflow-hidden flex items-center justify-center min-h-[240px]">
+          {regenerateMutation.isPending ? (
+            <div className="flex flex-col items-center gap-2 text-muted-foreground py-12">
+              <Loader2 className="w-8 h-8 animate-spin" />
+              <span className="text-sm">{t('storybook.viewer.characterSheet.drawing')}</span>
+            </div>
+          ) : storybook.characterSheetUrl ? (
+            <img
+              src={storybook.characterSheetUrl}
+              alt={t('storybook.viewer.characterSheet.alt', { title: storybook.title })}
+              className="w-full h-auto max-h-[60vh] object-contain"
+              data-testid="img-character-sheet"
+            />
+          ) : (
+            <div className="flex flex-col items-center gap-2 text-muted-foreground py-12 px-6 text-center">
+              <Users className="w-8 h-8" />
+              <span className="text-sm">{t('storybook.viewer.characterSheet.missing')}</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={regenerateMutation.isPending}>
+            {t('common.buttons.close')}
+          </Button>
+          <Button
+            onClick={() => regenerateMutation.mutate()}
+            disabled={regenerateMutation.isPending}
+            data-testid="button-regenerate-character-sheet"
+          >
+            {regenerateMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            {storybook.characterSheetUrl ? t('storybook.viewer.characterSheet.regenerate') : t('storybook.viewer.characterSheet.create')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Undo2, Wand2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { PageRevision, Storybook } from "@shared/schema";
+
+interface EditPictureDialogProps {
+  storybook: Storybook;
+  pageNumber: number | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface EditResult {
+  beforeUrl: string;
+  afterUrl: string;
+}
+
+export function EditPictureDialog({ storybook, pageNumber, open, onOpenChange }: EditPictureDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [instruction, setInstruction] = useState("");
+  const [result, setResult] = useState<EditResult | null>(null);
+
+  // Each page starts from a blank instruction
+  useEffect(() => {
+    if (open) {
+      setInstruction("");
+      setResult(null);
+    }
+  }, [open, pageNumber]);
+
+  const page = storybook.pages.find(p => p.pageNumber === pageNumber);
+
+  const editMutation = useMutation({
+    mutationFn: async (): Promise<Storybook> => {
+      const res = await apiRequest('POST', `/api/storybooks/${storybook.id}/edit-page-image`, {
+        pageNumber,
+        instruction,
+      });
+      return res.json();
+    },
+    onSuccess: (updated) => {
+      const afterUrl = updated.pages.find(p => p.pageNumber === pageNumber)?.imageUrl;
+      if (page && afterUrl) {
+        setResult({ beforeUrl: page.imageUrl, afterUrl });
+      }
+      queryClient.setQueryData(['/api/storybooks', storybook.id], updated);
+      queryClient.invalidateQueries({ queryKey: ['/api/storybooks', storybook.id, 'pages', pageNumber, 'revisions'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('storybook.viewer.editPicture.toast.failed'),
+        description: error.message || t('common.errors.tryAgainLater'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Undoing restores the newest revision, which is the picture the edit replaced
+  const undoMutation = useMutation({
+    mutationFn: async () => {
+      const revisionsRes = await apiRequest('GET', `/api/storybooks/${storybook.id}/pages/${pageNumber}/revisions`);
+      const [previous]: PageRevision[] = await revisionsRes.json();
+      if (!previous) {
+        throw new Error(t('storybook.viewer.editPicture.noEarlierVersion'));
+      }
+      const res = await apiRequest('POST', `/api/storybooks/${storybook.id}/pages/${pageNumber}/revisions/${previous.id}/revert`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/storybooks', storybook.id] });
+      toast({
+        title: t('storybook.viewer.editPicture.toast.undone'),
+        description: t('storybook.viewer.editPicture.toast.undoneDescription', { page: pageNumber }),
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('storybook.viewer.editPicture.toast.undoFailed'),
+        description: error.message || t('common.errors.tryAgainLater'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const busy = editMutation.isPending || undoMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !busy && onOpenChange(next)}>
+      <DialogContent className="max-w-[95vw] md:max-w-3xl max-h-[90vh] overflow-y-auto rounded-xl" data-testid="dialog-edit-picture">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="w-5 h-5" />
+            {t('storybook.viewer.editPicture.title', { page: pageNumber })}
+          </DialogTitle>
+          <DialogDescription>
+            {t('storybook.viewer.editPicture.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="grid grid-cols-2 gap-3">
+            {([['before', result.beforeUrl], ['after', result.afterUrl]] as const).map(([side, url]) => (
+              <figure key={side} className="space-y-1">
+                <img
+                  src={url}
+                  alt={t(`storybook.viewer.editPicture.${side}Alt`, { page: pageNumber })}
+                  className="w-full rounded-lg border object-contain"
+                  data-testid={`img-edit-${side}`}
+                />
+                <figcaption className="text-sm text-center text-muted-foreground">{t(`storybook.viewer.editPicture.${side}`)}</figcaption>
+              </figure>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {page?.imageUrl && (
+              <div className="relative rounded-lg border overflow-hidden">
+                <img src={page.imageUrl} alt={t('storybook.viewer.editPicture.imageAlt', { page: pageNumber })} className="w-full max-h-[45vh] object-contain" />
+                {editMutation.isPending && (
+                  <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-background/70">
+                    <Loader2 className="w-8 h-8 animate-spin" />
+                    <span className="text-sm">{t('storybook.viewer.editPicture.editing')}</span>
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="edit-picture-instruction">{t('storybook.viewer.editPicture.instruction')}</Label>
+              <Textarea
+                id="edit-picture-instruction"
+                value={instruction}
+                onChange={(e) => setInstruction(e.target.value)}
+                placeholder={t('storybook.viewer.editPicture.instructionPlaceholder')}
+                maxLength={500}
+                rows={3}
+                disabled={busy}
+                data-testid="input-edit-picture-instruction"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          {result ? (
+            <>
+              <Button variant="outline" onClick={() => undoMutation.mutate()} disabled={busy} data-testid="button-undo-edit">
+                {undoMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Undo2 className="w-4 h-4 mr-2" />}
+                {t('storybook.viewer.editPicture.undo')}
+              </Button>
+              <Button variant="outline" onClick={() => setResult(null)} disabled={busy} data-testid="button-edit-again">
+                {t('storybook.viewer.editPicture.editAgain')}
+              </Button>
+              <Button onClick={() => onOpenChange(false)} disabled={busy} data-testid="button-keep-edit">
+                {t('storybook.viewer.editPicture.keep')}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+                {t('common.buttons.cancel')}
+              </Button>
+              <Button
+                onClick={() => editMutation.mutate()}
+                disabled={busy || !instruction.trim()}
+                data-testid="button-apply-edit"
+              >
+                {editMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Wand2 className="w-4 h-4 mr-2" />}
+                {editMutation.isPending ? t('storybook.viewer.editPicture.submitting') : t('storybook.viewer.editPicture.submit')}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Images, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  MIN_ILLUSTRATION_CANDIDATES,
+  MAX_ILLUSTRATION_CANDIDATES,
+  ILLUSTRATION_CANDIDATE_RETENTION_DAYS,
+  type IllustrationCandidate,
+  type Storybook,
+} from "@shared/schema";
+
+interface IllustrationOptionsDialogProps {
+  storybook: Storybook;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select values: "cover" or a page number
+const COVER = "cover";
+
+const targetKey = (candidate: IllustrationCandidate) => candidate.target === 'cover' ? COVER : String(candidate.pageNumber);
+
+export function IllustrationOptionsDialog({ storybook, open, onOpenChange }: IllustrationOptionsDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [target, setTarget] = useState(COVER);
+  const [count, setCount] = useState(String(MIN_ILLUSTRATION_CANDIDATES));
+  const targetLabel = (key: string) => key === COVER ? t('storybook.viewer.illustrationOptions.cover') : t('storybook.viewer.illustrationOptions.page', { page: key });
+  const candidatesKey = ['/api/storybooks', storybook.id, 'illustration-candidates'];
+
+  const { data: candidates, isLoading } = useQuery<IllustrationCandidate[]>({
+    queryKey: candidatesKey,
+    enabled: open,
+  });
+
+  // Open on the first illustration with options waiting, e.g. those drawn when the book was created
+  useEffect(() => {
+    if (open && candidates && candidates.length > 0) {
+      setTarget(targetKey(candidates[0]));
+    }
+  }, [open, candidates === undefined]);
+
+  const waitingTargets = Array.from(new Set((candidates || []).map(targetKey)));
+  const targetCandidates = (candidates || []).filter(candidate => targetKey(candidate) === target);
+  const batch = targetCandidates.length > 0
+    ? targetCandidates.filter(candidate => candidate.batchId === targetCandidates[0].batchId)
+    : [];
+  const currentPage = storybook.pages.find(page => String(page.pageNumber) === target);
+  const currentImageUrl = target === COVER ? storybook.coverImageUrl : currentPage?.imageUrl;
+  // The owner's own pictures are never redrawn
+  const isUserSupplied = target === COVER ? storybook.coverImageUserSupplied : !!currentPage?.userSupplied;
+
+  const drawMutation = useMutation({
+    mutationFn: async (): Promise<IllustrationCandidate[]> => {
+      const res = await apiRequest('POST', `/api/storybooks/${storybook.id}/illustration-candidates`, {
+        target: target === COVER ? 'cover' : 'page',
+        pageNumber: target === COVER ? undefined : Number(target),
+        count: Number(count),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: candidatesKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('storybook.viewer.illustrationOptions.toast.drawFailed'),
+        description: error.message || t('common.errors.tryAgainLater'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const chooseMutation = useMutation({
+    mutationFn: async (candidateId: string | null): Promise<Storybook> => {
+      const res = await apiRequest('POST', `/api/storybooks/${storybook.id}/illustration-candidates/choose`, {
+        batchId: batch[0].batchId,
+        candidateId,
+      });
+      return res.json();
+    },
+    onSuccess: (updated, candidateId) => {
+      queryClient.setQueryData(['/api/storybooks', storybook.id], updated);
+      queryClient.invalidateQueries({ queryKey: candidatesKey });
+      toast({
+        title: t(candidateId ? 'storybook.viewer.illustrationOptions.toast.chosen' : 'storybook.viewer.illustrationOptions.toast.keptCurrent'),
+        description: candidateId && target !== COVER ? t('storybook.viewer.illustrationOptions.toast.chosenDescription') : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('storybook.viewer.illustrationOptions.toast.chooseFailed'),
+        description: error.message || t('common.errors.tryAgainLater'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const busy = drawMutation.isPending || chooseMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !busy && onOpenChange(next)}>
+      <DialogContent className="max-w-[95vw] md:max-w-4xl max-h-[90vh] overflow-y-auto rounded-xl" data-testid="dialog-illustration-options">
+        <DialogHeader>
+          <DialogTitle>{t('storybook.viewer.illustrationOptions.title')}</DialogTitle>
+          <DialogDescription>
+            {t('storybook.viewer.illustrationOptions.description', { days: ILLUSTRATION_CANDIDATE_RETENTION_DAYS })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {waitingTargets.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-muted-foreground">{t('storybook.viewer.illustrationOptions.waiting')}</span>
+            {waitingTargets.map(key => (
+              <Badge
+                key={key}
+                variant={key === target ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => !busy && setTarget(key)}
+                data-testid={`badge-options-${key}`}
+              >
+                {targetLabel(key)}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="options-target">{t('storybook.viewer.illustrationOptions.illustration')}</Label>
+          <Select value={target} onValueChange={setTarget} disabled={busy}>
+            <SelectTrigger id="options-target" data-testid="select-options-target">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={COVER}>{targetLabel(COVER)}</SelectItem>
+              {storybook.pages.map(page => (
+                <SelectItem key={page.pageNumber} value={String(page.pageNumber)}>{targetLabel(String(page.pageNumber))}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : batch.length > 0 ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">{t('storybook.viewer.illustrationOptions.pickHint')}</p>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {[{ id: null, imageUrl: currentImageUrl, label: t('storybook.viewer.illustrationOptions.current') }, ...batch.map((candidate, index) => ({ id: candidate.id, imageUrl: candidate.imageUrl, label: t('storybook.viewer.illustrationOptions.option', { number: index + 1 }) }))].map(option => (
+                <button
+                  key={option.id ?? 'current'}
+                  type="button"
+                  className="group relative rounded-lg border overflow-hidden text-left hover:ring-2 hover:ring-primary disabled:opacity-60"
+                  onClick={() => chooseMutation.mutate(option.id)}
+                  disabled={busy}
+                  data-testid={`button-choose-${option.id ?? 'current'}`}
+                >
+                  {option.imageUrl ? (
+                    <img src={option.imageUrl} alt={option.label} className="w-full aspect-square object-cover" />
+                  ) : (
+                    <div className="w-full aspect-square bg-muted" />
+                  )}
+                  <div className="flex items-center justify-between px-3 py-2 text-sm font-medium">
+                    {option.label}
+                    {chooseMutation.isPending && chooseMutation.variables === option.id
+                      ? <Loader2 className="w-4 h-4 animate-spin" />
+                      : <Check className="w-4 h-4 opacity-0 group-hover:opacity-100" />}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : isUserSupplied ? (
+          <p className="rounded-lg border p-4 text-sm text-muted-foreground" data-testid="text-options-user-supplied">
+            {target === COVER ? t('storybook.viewer.illustrationOptions.userSupplied.cover') : t('storybook.viewer.illustrationOptions.userSupplied.page', { page: target })}
+          </p>
+        ) : (
+          <div className="flex flex-col sm:flex-row sm:items-end gap-3 rounded-lg border p-4">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="options-count">{t('storybook.viewer.illustrationOptions.count')}</Label>
+              <Select value={count} onValueChange={setCount} disabled={busy}>
+                <SelectTrigger id="options-count" data-testid="select-options-count">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_ILLUSTRATION_CANDIDATES - MIN_ILLUSTRATION_CANDIDATES + 1 }, (_, i) => String(MIN_ILLUSTRATION_CANDIDATES + i)).map(value => (
+                    <SelectItem key={value} value={value}>{t('storybook.viewer.illustrationOptions.countOption', { number: value })}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => drawMutation.mutate()} disabled={busy} data-testid="button-draw-options">
+              {drawMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Images className="w-4 h-4 mr-2" />}
+              {drawMutation.isPending ? t('storybook.viewer.illustrationOptions.drawing') : target === COVER ? t('storybook.viewer.illustrationOptions.draw.cover') : t('storybook.viewer.illustrationOptions.draw.page', { page: target })}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,262 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { Storybook } from "@shared/schema";
+
+interface ManagePagesDialogProps {
+  storybook: Storybook;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ManagePagesDialog({ storybook, open, onOpenChange }: ManagePagesDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [order, setOrder] = useState<number[]>([]);
+  const [insertPosition, setInsertPosition] = useState<number | null>(null);
+  const [insertInstruction, setInsertInstruction] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<number | null>(null);
+
+  const savedOrder = storybook.pages.map(page => page.pageNumber);
+  const isReordered = order.some((pageNumber, index) => pageNumber !== savedOrder[index]);
+  const pagesByNumber = new Map(storybook.pages.map(page => [page.pageNumber, page]));
+
+  // Start from the saved structure each time the dialog opens or the book changes
+  useEffect(() => {
+    if (open) {
+      setOrder(storybook.pages.map(page => page.pageNumber));
+      setInsertPosition(null);
+      setPendingDelete(null);
+    }
+  }, [open, storybook.pages]);
+
+  const onStructureChanged = (updated: Storybook) => {
+    queryClient.setQueryData(['/api/storybooks', storybook.id], updated);
+    // Page histories move with their pages
+    queryClient.invalidateQueries({ queryKey: ['/api/storybooks', storybook.id, 'pages'] });
+  };
+
+  const onMutationError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message || t('common.errors.tryAgainLater'),
+      variant: "destructive",
+    });
+  };
+
+  const addPageMutation = useMutation({
+    mutationFn: async ({ position, instruction }: { position: number; instruction: string }): Promise<Storybook> => {
+      const res = await apiRequest('POST', `/api/storybooks/${storybook.id}/pages`, {
+        position,
+        instruction: instruction.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (updated, { position }) => {
+      onStructureChanged(updated);
+      setInsertPosition(null);
+      setInsertInstruction("");
+      toast({
+        title: t('storybook.viewer.managePages.toast.added'),
+        description: t(storybook.status === 'complete' ? 'storybook.viewer.managePages.toast.addedIllustratedDescription' : 'storybook.viewer.managePages.toast.addedDescription', { page: position }),
+      });
+    },
+    onError: onMutationError(t('storybook.viewer.managePages.toast.addFailed')),
+  });
+
+  const removePageMutation = useMutation({
+    mutationFn: async (pageNumber: number): Promise<Storybook> => {
+      const res = await apiRequest('DELETE', `/api/storybooks/${storybook.id}/pages/${pageNumber}`);
+      return res.json();
+    },
+    onSuccess: (updated, pageNumber) => {
+      onStructureChanged(updated);
+      setPendingDelete(null);
+      toast({
+        title: t('storybook.viewer.managePages.toast.removed'),
+        description: t('storybook.viewer.managePages.toast.removedDescription', { page: pageNumber }),
+      });
+    },
+    onError: onMutationError(t('storybook.viewer.managePages.toast.removeFailed')),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async (newOrder: number[]): Promise<Storybook> => {
+      const res = await apiRequest('PUT', `/api/storybooks/${storybook.id}/pages/order`, { order: newOrder });
+      return res.json();
+    },
+    onSuccess: (updated) => {
+      onStructureChanged(updated);
+      toast({
+        title: t('storybook.viewer.managePages.toast.orderSaved'),
+      });
+    },
+    onError: onMutationError(t('storybook.viewer.managePages.toast.reorderFailed')),
+  });
+
+  const isBusy = addPageMutation.isPending || removePageMutation.isPending || reorderMutation.isPending;
+
+  const movePage = (index: number, offset: number) => {
+    setOrder(current => {
+      const next = [...current];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const renderInsertSlot = (position: number) => (
+    insertPosition === position ? (
+      <div className="flex flex-col sm:flex-row gap-2 rounded-lg border border-dashed p-3" data-testid={`insert-form-${position}`}>
+        <Input
+          value={insertInstruction}
+          onChange={(e) => setInsertInstruction(e.target.value)}
+          maxLength={500}
+          placeholder={t('storybook.viewer.managePages.insertPlaceholder')}
+          disabled={isBusy}
+          data-testid="input-insert-instruction"
+        />
+        <div className="flex gap-2 shrink-0">
+          <Button
+            size="sm"
+            onClick={() => addPageMutation.mutate({ position, instruction: insertInstruction })}
+            disabled={isBusy}
+            data-testid="button-confirm-insert"
+          >
+            {addPageMutation.isPending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+            {addPageMutation.isPending ? t('storybook.viewer.managePages.writing') : t('storybook.viewer.managePages.addPage')}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setInsertPosition(null)} disabled={isBusy}>
+            {t('common.buttons.cancel')}
+          </Button>
+        </div>
+      </div>
+    ) : (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="w-full h-7 text-xs text-muted-foreground"
+        onClick={() => {
+          setInsertPosition(position);
+          setInsertInstruction("");
+        }}
+        disabled={isBusy || isReordered}
+        data-testid={`button-insert-page-${position}`}
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        {t('storybook.viewer.managePages.insertHere')}
+      </Button>
+    )
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isBusy && onOpenChange(next)}>
+      <DialogContent className="max-w-[95vw] md:max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-manage-pages">
+        <DialogHeader>
+          <DialogTitle>{t('storybook.viewer.managePages.title')}</DialogTitle>
+          <DialogDescription>
+            {t('storybook.viewer.managePages.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          {order.map((pageNumber, index) => {
+            const page = pagesByNumber.get(pageNumber);
+            if (!page) return null;
+
+            return (
+              <div key={pageNumber} className="space-y-1">
+                {renderInsertSlot(index + 1)}
+                <div className="flex items-center gap-3 rounded-lg border p-2" data-testid={`manage-page-${pageNumber}`}>
+                  {page.imageUrl ? (
+                    <img src={page.imageUrl} alt={t('storybook.viewer.managePages.page', { page: index + 1 })} className="w-14 h-14 object-cover rounded shrink-0" loading="lazy" />
+                  ) : (
+                    <div className="w-14 h-14 rounded bg-muted shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">{t('storybook.viewer.managePages.page', { page: index + 1 })}</p>
+                    <p className="text-xs text-muted-foreground line-clamp-2">{page.text}</p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => movePage(index, -1)}
+                      disabled={isBusy || index === 0}
+                      aria-label={t('storybook.viewer.managePages.moveUp', { page: index + 1 })}
+                      data-testid={`button-move-up-${pageNumber}`}
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => movePage(index, 1)}
+                      disabled={isBusy || index === order.length - 1}
+                      aria-label={t('storybook.viewer.managePages.moveDown', { page: index + 1 })}
+                      data-testid={`button-move-down-${pageNumber}`}
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    {pendingDelete === pageNumber ? (
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => removePageMutation.mutate(pageNumber)}
+                        disabled={isBusy}
+                        data-testid={`button-confirm-remove-${pageNumber}`}
+                      >
+                        {removePageMutation.isPending ? t('storybook.viewer.managePages.removing') : t('storybook.viewer.managePages.confirmRemove')}
+                      </Button>
+                    ) : (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="text-destructive"
+                        onClick={() => setPendingDelete(pageNumber)}
+                        disabled={isBusy || isReordered || order.length <= 1}
+                        aria-label={t('storybook.viewer.managePages.remove', { page: index + 1 })}
+                        data-testid={`button-remove-page-${pageNumber}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+          {renderInsertSlot(order.length + 1)}
+        </div>
+
+        {isReordered && (
+          <p className="text-xs text-muted-foreground">{t('storybook.viewer.managePages.reorderFirst')}</p>
+        )}
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setOrder(savedOrder)}
+            disabled={isBusy || !isReordered}
+            data-testid="button-reset-order"
+          >
+            {t('storybook.viewer.managePages.resetOrder')}
+          </Button>
+          <Button
+            onClick={() => reorderMutation.mutate(order)}
+            disabled={isBusy || !isReordered}
+            data-testid="button-save-order"
+          >
+            {reorderMutation.isPending ? t('storybook.viewer.managePages.saving') : t('storybook.viewer.managePages.saveOrder')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -97,6 +97,11 @@ export default function Navigation() {
                     {t('navigation.myLibrary')}
                   </span>
                 </Link>
+                <Link href="/characters">
+                  <span className={`text-foreground/70 hover:text-foreground transition-colors cursor-pointer font-medium ${location === '/characters' ? 'text-primary' : ''}`} data-testid="link-characters">
+                    {t('navigation.myCharacters')}
+                  </span>
+                </Link>
                 <Link href="/orders">
                   <span className={`text-foreground/70 hover:text-foreground transition-colors cursor-pointer font-medium ${location === '/orders' ? 'text-primary' : ''}`} data-testid="link-orders">
                     My Orders
@@ -251,6 +256,13 @@ export default function Navigation() {
                     {t('navigation.myLibrary')}
                   </div>
                 </Link>
+                <Link href="/characters" onClick={() => setMobileMenuOpen(false)}>
+                  <div className={`text-base px-4 py-3.5 rounded-xl transition-colors active:scale-[0.98] ${
+                    location === '/characters' ? 'bg-primary/10 text-primary font-semibold' : 'text-foreground/70 font-medium hover:bg-accent/5'
+                  }`} data-testid="link-characters-mobile">
+                    {t('navigation.myCharacters')}
+                  </div>
+                </Link>
                 <Link href="/orders" onClick={() => setMobileMenuOpen(false)}>
                   <div className={`text-base px-4 py-3.5 rounded-xl flex items-center transition-colors active:scale-[0.98] ${
                     location === '/orders' ? 'bg-primary/10 text-primary font-semibold' : 'text-foreground/70 font-medium hover:bg-accent/5'
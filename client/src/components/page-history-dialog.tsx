@@ -0,0 +1,128 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useTranslation } from "react-i18next";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { History, RotateCcw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { PageRevision, PageRevisionChangeType } from "@shared/schema";
+
+interface PageHistoryDialogProps {
+  storybookId: string;
+  pageNumber: number | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Translation keys describing the change that replaced each saved version
+const CHANGE_LABELS: Record<PageRevisionChangeType, string> = {
+  regenerate_both: 'storybook.viewer.pageHistory.changes.regenerateBoth',
+  regenerate_text: 'storybook.viewer.pageHistory.changes.regenerateText',
+  regenerate_image: 'storybook.viewer.pageHistory.changes.regenerateImage',
+  edit_image: 'storybook.viewer.pageHistory.changes.editImage',
+  upload: 'storybook.viewer.pageHistory.changes.upload',
+  revert: 'storybook.viewer.pageHistory.changes.revert',
+  candidate: 'storybook.viewer.pageHistory.changes.candidate',
+};
+
+export function PageHistoryDialog({ storybookId, pageNumber, open, onOpenChange }: PageHistoryDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: revisions, isLoading } = useQuery<PageRevision[]>({
+    queryKey: ['/api/storybooks', storybookId, 'pages', pageNumber, 'revisions'],
+    enabled: open && pageNumber !== null,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      const res = await apiRequest('POST', `/api/storybooks/${storybookId}/pages/${pageNumber}/revisions/${revisionId}/revert`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      // Also refreshes this page's history, which now includes the version that was replaced
+      queryClient.invalidateQueries({ queryKey: ['/api/storybooks', storybookId] });
+      toast({
+        title: t('storybook.viewer.pageHistory.toast.restored'),
+        description: t('storybook.viewer.pageHistory.toast.restoredDescription', { page: pageNumber }),
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('storybook.viewer.pageHistory.toast.failed'),
+        description: error.message || t('common.errors.tryAgainLater'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] md:max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-page-history">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            {t('storybook.viewer.pageHistory.title', { page: pageNumber })}
+          </DialogTitle>
+          <DialogDescription>
+            {t('storybook.viewer.pageHistory.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[0, 1].map(i => (
+              <Skeleton key={i} className="h-32 w-full" />
+            ))}
+          </div>
+        ) : !revisions || revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center" data-testid="text-no-revisions">
+            {t('storybook.viewer.pageHistory.empty')}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {revisions.map(revision => (
+              <div key={revision.id} className="flex flex-col sm:flex-row gap-4 rounded-lg border p-3" data-testid={`revision-${revision.id}`}>
+                {revision.imageUrl && (
+                  <img
+                    src={revision.imageUrl}
+                    alt={t('storybook.viewer.pageHistory.imageAlt', { page: revision.pageNumber })}
+                    className="w-full sm:w-32 h-32 object-cover rounded-md shrink-0"
+                    loading="lazy"
+                  />
+                )}
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <Badge variant="outline">{CHANGE_LABELS[revision.changeType] ? t(CHANGE_LABELS[revision.changeType]) : revision.changeType}</Badge>
+                    {revision.createdAt && (
+                      <span>{formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}</span>
+                    )}
+                  </div>
+                  {revision.instruction && (
+                    <p className="text-xs italic text-muted-foreground">{t('storybook.viewer.pageHistory.requested', { instruction: revision.instruction })}</p>
+                  )}
+                  <p className="text-sm line-clamp-4">{revision.text}</p>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => revertMutation.mutate(revision.id)}
+                    disabled={revertMutation.isPending}
+                    data-testid={`button-revert-${revision.id}`}
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    {revertMutation.isPending && revertMutation.variables === revision.id ? t('storybook.viewer.pageHistory.restoring') : t('storybook.viewer.pageHistory.restore')}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
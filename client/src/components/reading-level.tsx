@@ -0,0 +1,64 @@
+import { useTranslation } from "react-i18next";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { PageReadability, ReadabilityIssue, ReadabilityReport } from "@shared/schema";
+
+// Translation keys for what puts a page outside its band
+const ISSUE_LABELS: Record<ReadabilityIssue, string> = {
+  too_short: 'storybook.readingLevel.issues.tooShort',
+  too_long: 'storybook.readingLevel.issues.tooLong',
+  long_sentences: 'storybook.readingLevel.issues.longSentences',
+  reading_level: 'storybook.readingLevel.issues.readingLevel',
+};
+
+// Word count and grade for one page, with what puts it outside the band
+export function PageReadingLevel({ page, className }: { page: PageReadability; className?: string }) {
+  const { t } = useTranslation();
+  const fits = page.issues.length === 0;
+  return (
+    <div className={cn("flex flex-wrap items-center gap-2 text-xs", className)} data-testid={`reading-level-page-${page.pageNumber}`}>
+      <span className="text-muted-foreground">
+        {t('storybook.readingLevel.pageStats', { words: page.wordCount, grade: page.gradeLevel })}
+      </span>
+      {fits ? (
+        <Badge variant="secondary">{t('storybook.readingLevel.fits')}</Badge>
+      ) : (
+        page.issues.map(issue => (
+          <Badge key={issue} variant="outline" className="border-amber-500/60 text-amber-700 dark:text-amber-400">
+            {t(ISSUE_LABELS[issue])}
+          </Badge>
+        ))
+      )}
+    </div>
+  );
+}
+
+// Reading level of the whole book, for its owner
+export function ReadingLevelSummary({ report }: { report: ReadabilityReport }) {
+  const { t } = useTranslation();
+  const outsideBand = report.pages.filter(page => page.issues.length > 0);
+
+  return (
+    <div className="space-y-3" data-testid="reading-level-summary">
+      <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1">
+        <p className="text-base">
+          {t('storybook.readingLevel.averageGrade')} <span className="font-semibold" data-testid="reading-level-average">{report.averageGradeLevel}</span>
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {outsideBand.length === 0
+            ? (report.age ? t('storybook.readingLevel.allFit.age', { age: report.age }) : t('storybook.readingLevel.allFit.default'))
+            : t(report.age ? 'storybook.readingLevel.outside.age' : 'storybook.readingLevel.outside.default', { age: report.age, outside: outsideBand.length, total: report.pages.length })}
+        </p>
+      </div>
+      <p className="text-xs text-muted-foreground">{t('storybook.readingLevel.target', { band: t('storybook.readingLevel.band', { ...report.band }) })}</p>
+      <div className="divide-y rounded-lg border">
+        {report.pages.map(page => (
+          <div key={page.pageNumber} className="flex items-center gap-3 px-3 py-2">
+            <span className="w-16 shrink-0 text-sm font-medium">{t('storybook.readingLevel.page', { page: page.pageNumber })}</span>
+            <PageReadingLevel page={page} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useTranslation } from "react-i18next";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { languages } from "@/components/LanguageSwitcher";
+import { useToast } from "@/hooks/use-toast";
+import { Languages, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { Storybook } from "@shared/schema";
+
+interface TranslateDialogProps {
+  storybook: Storybook;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TranslateDialog({ storybook, open, onOpenChange }: TranslateDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [language, setLanguage] = useState("");
+  const [regenerateCover, setRegenerateCover] = useState(true);
+
+  const { data: editions } = useQuery<Storybook[]>({
+    queryKey: ['/api/storybooks', storybook.id, 'editions'],
+    enabled: open,
+  });
+
+  // Languages the book already has an edition in (including its own)
+  const editionByLanguage = new Map((editions || [storybook]).map(edition => [edition.language, edition]));
+
+  useEffect(() => {
+    if (open) {
+      setLanguage("");
+      setRegenerateCover(true);
+    }
+  }, [open]);
+
+  const translateMutation = useMutation({
+    mutationFn: async (): Promise<Storybook> => {
+      const res = await apiRequest('POST', `/api/storybooks/${storybook.id}/translate`, { language, regenerateCover });
+      return res.json();
+    },
+    onSuccess: (edition) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/storybooks'] });
+      onOpenChange(false);
+      toast({
+        title: t('storybook.viewer.translate.toast.ready'),
+        description: t('storybook.viewer.translate.toast.readyDescription', { title: edition.title }),
+      });
+      setLocation(`/view/${edition.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('storybook.viewer.translate.toast.failed'),
+        description: error.message || t('common.errors.tryAgainLater'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !translateMutation.isPending && onOpenChange(next)}>
+      <DialogContent className="max-w-[95vw] md:max-w-md rounded-xl" data-testid="dialog-translate">
+        <DialogHeader>
+          <DialogTitle>{t('storybook.viewer.translate.title')}</DialogTitle>
+          <DialogDescription>
+            {t('storybook.viewer.translate.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="translate-language">{t('storybook.viewer.translate.language')}</Label>
+            <Select value={language} onValueChange={setLanguage} disabled={translateMutation.isPending}>
+              <SelectTrigger id="translate-language" data-testid="select-translate-language">
+                <SelectValue placeholder={t('storybook.viewer.translate.choose')} />
+              </SelectTrigger>
+              <SelectContent>
+                {languages.map(option => (
+                  <SelectItem key={option.code} value={option.code} disabled={editionByLanguage.has(option.code)}>
+                    {option.name}
+                    {editionByLanguage.has(option.code) ? t('storybook.viewer.translate.existing') : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {storybook.coverImageUrl && (
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="translate-cover" className="font-normal">
+                {t('storybook.viewer.translate.redrawCover')}
+              </Label>
+              <Switch
+                id="translate-cover"
+                checked={regenerateCover}
+                onCheckedChange={setRegenerateCover}
+                disabled={translateMutation.isPending}
+                data-testid="switch-translate-cover"
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={translateMutation.isPending}>
+            {t('common.buttons.cancel')}
+          </Button>
+          <Button
+            onClick={() => translateMutation.mutate()}
+            disabled={!language || translateMutation.isPending}
+            data-testid="button-confirm-translate"
+          >
+            {translateMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Languages className="w-4 h-4 mr-2" />}
+            {translateMutation.isPending ? t('storybook.viewer.translate.translating') : t('storybook.viewer.translate.submit')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
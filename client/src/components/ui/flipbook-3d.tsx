@@ -1,14 +1,24 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { ChevronLeft, ChevronRight, RefreshCw, Maximize2, Minimize2, Info } from 'lucide-react';
+import { ChevronLeft, ChevronRight, RefreshCw, Maximize2, Minimize2, Info, History, Wand2 } from 'lucide-react';
 import { Button } from './button';
 import { Progress } from './progress';
+import type { PageScene } from '@shared/schema';
 
 interface StoryPage {
   pageNumber: number;
   text: string;
   imageUrl: string;
+  scene?: PageScene;
+  secondaryText?: string; // Bilingual books: the page's text in the second language
+  userSupplied?: boolean; // The owner uploaded this picture; it can't be edited by the AI
 }
 
+// Describe the illustration from the page's planned scene when the book has one
+const illustrationAltText = (page: StoryPage, pageNum: number) =>
+  page.scene
+    ? `Page ${pageNum} illustration: ${page.scene.mainAction} in ${page.scene.setting}`
+    : `Illustration for page ${pageNum}`;
+
 interface FlipbookViewerProps {
   pages: StoryPage[];
   title: string;
@@ -18,6 +28,8 @@ interface FlipbookViewerProps {
   foreword?: string | null;
   isOwner?: boolean;
   onRegeneratePage?: (pageNumber: number) => void;
+  onShowPageHistory?: (pageNumber: number) => void;
+  onEditPageImage?: (pageNumber: number) => void;
   regeneratingPageNumber?: number | null;
   onPageChange?: (pageNumber: number) => void;
   orientation?: 'portrait' | 'landscape';
@@ -128,6 +140,8 @@ const ImagePage = ({
   pageNum,
   isOwner,
   onRegeneratePage,
+  onShowPageHistory,
+  onEditPageImage,
   isRegenerating,
   isMobile = false,
   zoom = 1,
@@ -137,6 +151,8 @@ const ImagePage = ({
   pageNum: number;
   isOwner?: boolean;
   onRegeneratePage?: (pageNumber: number) => void;
+  onShowPageHistory?: (pageNumber: number) => void;
+  onEditPageImage?: (pageNumber: number) => void;
   isRegenerating?: boolean;
   isMobile?: boolean;
   zoom?: number;
@@ -146,7 +162,7 @@ const ImagePage = ({
     {page.imageUrl ? (
       <img 
         src={page.imageUrl} 
-        alt={`Illustration for page ${pageNum}`} 
+        alt={illustrationAltText(page, pageNum)} 
         className="w-full h-full object-contain transition-transform duration-200" 
         loading="lazy"
         style={{
@@ -159,7 +175,41 @@ const ImagePage = ({
       </div>
     )}
     {isOwner && onRegeneratePage && (
-      <div className={`absolute ${isMobile ? 'bottom-2 right-2 opacity-100' : 'top-2 right-2 opacity-0 group-hover:opacity-100'} transition-opacity z-20`}>
+      <div className={`absolute ${isMobile ? 'bottom-2 right-2 opacity-100' : 'top-2 right-2 opacity-0 group-hover:opacity-100'} transition-opacity z-20 flex gap-2`}>
+        {onShowPageHistory && (
+          <Button
+            size={isMobile ? "default" : "sm"}
+            variant="secondary"
+            onClick={(e) => {
+              e.stopPropagation();
+              onShowPageHistory(page.pageNumber);
+            }}
+            disabled={isRegenerating}
+            data-testid={`button-page-history-${page.pageNumber}`}
+            className={`shadow-lg ${isMobile ? 'min-h-[48px] min-w-[48px] px-4' : ''}`}
+            aria-label={`Version history for page ${page.pageNumber}`}
+          >
+            <History className={`${isMobile ? 'w-5 h-5' : 'w-4 h-4'} ${isMobile ? '' : 'mr-1'}`} />
+            {isMobile ? '' : 'History'}
+          </Button>
+        )}
+        {onEditPageImage && page.imageUrl && !page.userSupplied && (
+          <Button
+            size={isMobile ? "default" : "sm"}
+            variant="secondary"
+            onClick={(e) => {
+              e.stopPropagation();
+              onEditPageImage(page.pageNumber);
+            }}
+            disabled={isRegenerating}
+            data-testid={`button-edit-picture-${page.pageNumber}`}
+            className={`shadow-lg ${isMobile ? 'min-h-[48px] min-w-[48px] px-4' : ''}`}
+            aria-label={`Edit the picture on page ${page.pageNumber}`}
+          >
+            <Wand2 className={`${isMobile ? 'w-5 h-5' : 'w-4 h-4'} ${isMobile ? '' : 'mr-1'}`} />
+            {isMobile ? '' : 'Edit picture'}
+          </Button>
+        )}
         <Button
           size={isMobile ? "default" : "sm"}
           variant="secondary"
@@ -186,6 +236,7 @@ const TextPage = ({
   onTurn,
   isOwner,
   onRegeneratePage,
+  onShowPageHistory,
   isRegenerating,
   isMobile = false
 }: { 
@@ -195,6 +246,7 @@ const TextPage = ({
   onTurn: () => void;
   isOwner?: boolean;
   onRegeneratePage?: (pageNumber: number) => void;
+  onShowPageHistory?: (pageNumber: number) => void;
   isRegenerating?: boolean;
   isMobile?: boolean;
 }) => (
@@ -231,9 +283,37 @@ const TextPage = ({
       >
         {page.text}
       </p>
+      {page.secondaryText && (
+        <p
+          className={`mt-6 pt-4 border-t border-slate-300/70 text-sky-900/80 dark:text-sky-200/80 italic ${
+            isMobile ? 'text-sm leading-relaxed' : 'text-base md:text-lg leading-relaxed'
+          } clear-both`}
+          style={{ fontFamily: '"EB Garamond", "Merriweather", Georgia, serif' }}
+          data-testid={`text-secondary-${page.pageNumber}`}
+        >
+          {page.secondaryText}
+        </p>
+      )}
     </div>
     {isOwner && onRegeneratePage && (
-      <div className={`absolute ${isMobile ? 'bottom-2 right-2 opacity-100' : 'top-2 right-2 opacity-0 group-hover:opacity-100'} transition-opacity z-10`}>
+      <div className={`absolute ${isMobile ? 'bottom-2 right-2 opacity-100' : 'top-2 right-2 opacity-0 group-hover:opacity-100'} transition-opacity z-10 flex gap-2`}>
+        {onShowPageHistory && (
+          <Button
+            size={isMobile ? "default" : "sm"}
+            variant="secondary"
+            onClick={(e) => {
+              e.stopPropagation();
+              onShowPageHistory(page.pageNumber);
+            }}
+            disabled={isRegenerating}
+            data-testid={`button-page-history-${page.pageNumber}`}
+            className={`shadow-lg ${isMobile ? 'min-h-[48px] min-w-[48px] px-4' : ''}`}
+            aria-label={`Version history for page ${page.pageNumber}`}
+          >
+            <History className={`${isMobile ? 'w-5 h-5' : 'w-4 h-4'} ${isMobile ? '' : 'mr-1'}`} />
+            {isMobile ? '' : 'History'}
+          </Button>
+        )}
         <Button
           size={isMobile ? "default" : "sm"}
           variant="secondary"
@@ -327,7 +407,7 @@ const EndPage = ({ totalPages, backCoverImageUrl }: { totalPages: number; backCo
   );
 };
 
-export function FlipbookViewer({ pages, title, author = "AI Author", coverImageUrl, backCoverImageUrl, foreword, isOwner = false, onRegeneratePage, regeneratingPageNumber, onPageChange, orientation = 'portrait' }: FlipbookViewerProps) {
+export function FlipbookViewer({ pages, title, author = "AI Author", coverImageUrl, backCoverImageUrl, foreword, isOwner = false, onRegeneratePage, onShowPageHistory, onEditPageImage, regeneratingPageNumber, onPageChange, orientation = 'portrait' }: FlipbookViewerProps) {
   const numPages = pages.length;
   const [currentPage, setCurrentPage] = useState(0);
   const [isMobile, setIsMobile] = useState(false);
@@ -507,6 +587,8 @@ export function FlipbookViewer({ pages, title, author = "AI Author", coverImageU
             pageNum={1}
             isOwner={isOwner}
             onRegeneratePage={onRegeneratePage}
+            onShowPageHistory={onShowPageHistory}
+            onEditPageImage={onEditPageImage}
             isRegenerating={regeneratingPageNumber === pages[0].pageNumber}
             isMobile={isMobile}
             zoom={imageZoom}
@@ -548,6 +630,7 @@ export function FlipbookViewer({ pages, title, author = "AI Author", coverImageU
               onTurn={goToNextPage}
               isOwner={isOwner}
               onRegeneratePage={onRegeneratePage}
+              onShowPageHistory={onShowPageHistory}
               isRegenerating={regeneratingPageNumber === page.pageNumber}
               isMobile={isMobile}
             />
@@ -558,6 +641,8 @@ export function FlipbookViewer({ pages, title, author = "AI Author", coverImageU
               pageNum={i + 2}
               isOwner={isOwner}
               onRegeneratePage={onRegeneratePage}
+              onShowPageHistory={onShowPageHistory}
+              onEditPageImage={onEditPageImage}
               isRegenerating={regeneratingPageNumber === nextPage.pageNumber}
               isMobile={isMobile}
               zoom={imageZoom}
@@ -577,6 +662,8 @@ export function FlipbookViewer({ pages, title, author = "AI Author", coverImageU
             pageNum={1}
             isOwner={isOwner}
             onRegeneratePage={onRegeneratePage}
+            onShowPageHistory={onShowPageHistory}
+            onEditPageImage={onEditPageImage}
             isRegenerating={regeneratingPageNumber === pages[0].pageNumber}
             isMobile={isMobile}
             zoom={imageZoom}
@@ -617,6 +704,7 @@ export function FlipbookViewer({ pages, title, author = "AI Author", coverImageU
               onTurn={goToNextPage}
               isOwner={isOwner}
               onRegeneratePage={onRegeneratePage}
+              onShowPageHistory={onShowPageHistory}
               isRegenerating={regeneratingPageNumber === page.pageNumber}
               isMobile={isMobile}
             />
@@ -627,6 +715,8 @@ export function FlipbookViewer({ pages, title, author = "AI Author", coverImageU
               pageNum={i + 2}
               isOwner={isOwner}
               onRegeneratePage={onRegeneratePage}
+              onShowPageHistory={onShowPageHistory}
+              onEditPageImage={onEditPageImage}
               isRegenerating={regeneratingPageNumber === nextPage.pageNumber}
               isMobile={isMobile}
               zoom={imageZoom}
@@ -644,7 +734,7 @@ export function FlipbookViewer({ pages, title, author = "AI Author", coverImageU
     });
 
     return sheets;
-  }, [pages, title, author, coverImageUrl, backCoverImageUrl, foreword, goToNextPage, numPages, isOwner, onRegeneratePage, regeneratingPageNumber, isMobile, imageZoom, imagePosition]);
+  }, [pages, title, author, coverImageUrl, backCoverImageUrl, foreword, goToNextPage, numPages, isOwner, onRegeneratePage, onShowPageHistory, onEditPageImage, regeneratingPageNumber, isMobile, imageZoom, imagePosition]);
 
   const isBookOpen = currentPage > 0;
 
@@ -713,6 +803,7 @@ export function FlipbookViewer({ pages, title, author = "AI Author", coverImageU
             onTurn={goToNextPage}
             isOwner={isOwner}
             onRegeneratePage={onRegeneratePage}
+            onShowPageHistory={onShowPageHistory}
             isRegenerating={regeneratingPageNumber === page.pageNumber}
             isMobile={true}
           />
@@ -725,6 +816,8 @@ export function FlipbookViewer({ pages, title, author = "AI Author", coverImageU
             pageNum={storyPageIndex + 1}
             isOwner={isOwner}
             onRegeneratePage={onRegeneratePage}
+            onShowPageHistory={onShowPageHistory}
+            onEditPageImage={onEditPageImage}
             isRegenerating={regeneratingPageNumber === page.pageNumber}
             isMobile={true}
             zoom={imageZoom}
@@ -3,7 +3,8 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { type StoryGenerationProgress } from "@shared/schema";
+import { Skeleton } from "@/components/ui/skeleton";
+import { type StoryGenerationProgress, type GenerationStreamEvent } from "@shared/schema";
 import { AlertCircle } from "lucide-react";
 
 interface ProgressTrackerProps {
@@ -21,17 +22,93 @@ const progressSteps = [
   { key: 'finalizing', label: 'Finalizing storybook', icon: 'fas fa-check-circle' },
 ] as const;
 
+type StoryOutline = Extract<GenerationStreamEvent, { type: 'story_outline' }>;
+
 export function ProgressTracker({ sessionId, onComplete, onRetry, shouldAutoRetry = false, "data-testid": testId }: ProgressTrackerProps) {
   const [isComplete, setIsComplete] = useState(false);
   const [hasError, setHasError] = useState(false);
   const hasAutoRetried = useRef(false);
+  const hasCompleted = useRef(false);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  // Live updates from the Server-Sent Events stream; polling is only used if the stream is unavailable
+  const [streamFailed, setStreamFailed] = useState(typeof EventSource === 'undefined');
+  const [streamProgress, setStreamProgress] = useState<StoryGenerationProgress>();
+  const [outline, setOutline] = useState<StoryOutline | null>(null);
+  const [pageImages, setPageImages] = useState<Record<number, string>>({});
+  const [backCoverUrl, setBackCoverUrl] = useState<string>();
+  const [coverUrl, setCoverUrl] = useState<string>();
 
-  const { data: progress, isLoading } = useQuery<StoryGenerationProgress>({
+  const { data: polledProgress, isLoading } = useQuery<StoryGenerationProgress>({
     queryKey: ['/api/generation', sessionId, 'progress'],
     refetchInterval: (isComplete || hasError) ? false : 2000, // Poll every 2 seconds unless complete or error
-    enabled: !!sessionId && !isComplete && !hasError,
+    enabled: !!sessionId && streamFailed && !isComplete && !hasError,
   });
 
+  const progress = streamFailed ? polledProgress : streamProgress;
+
+  const completeWith = (storybookId: string) => {
+    if (hasCompleted.current) return;
+    hasCompleted.current = true;
+    setIsComplete(true);
+    setTimeout(() => {
+      onCompleteRef.current(storybookId);
+    }, 2000); // Small delay to show completion
+  };
+
+  useEffect(() => {
+    if (!sessionId || typeof EventSource === 'undefined') return;
+
+    setStreamProgress(undefined);
+    setOutline(null);
+    setPageImages({});
+    setBackCoverUrl(undefined);
+    setCoverUrl(undefined);
+
+    const source = new EventSource(`/api/generation/${sessionId}/events`);
+    const listen = <T extends GenerationStreamEvent['type']>(
+      type: T,
+      handler: (event: Extract<GenerationStreamEvent, { type: T }>) => void
+    ) => {
+      source.addEventListener(type, (message) => {
+        handler(JSON.parse((message as MessageEvent).data));
+      });
+    };
+
+    listen('progress', (event) => setStreamProgress(event.progress));
+    listen('story_outline', (event) => setOutline(event));
+    listen('page_illustration', (event) => {
+      setPageImages(prev => ({ ...prev, [event.pageNumber]: event.imageUrl }));
+    });
+    listen('back_cover', (event) => setBackCoverUrl(event.imageUrl));
+    listen('final_cover', (event) => setCoverUrl(event.imageUrl));
+    listen('completed', (event) => {
+      source.close();
+      completeWith(event.storybookId);
+    });
+    listen('failed', (event) => {
+      source.close();
+      setStreamProgress(prev => ({
+        step: prev?.step ?? 'processing_images',
+        progress: prev?.progress ?? 0,
+        message: `Generation failed: ${event.error}`,
+        error: event.error,
+      }));
+    });
+
+    source.onerror = () => {
+      // EventSource reconnects on its own; only fall back to polling once it gives up
+      if (source.readyState === EventSource.CLOSED) {
+        setStreamFailed(true);
+      }
+    };
+
+    return () => {
+      source.close();
+    };
+  }, [sessionId]);
+
   useEffect(() => {
     // Check for errors
     if (progress?.error || progress?.message?.startsWith('Generation failed:')) {
@@ -48,20 +125,13 @@ export function ProgressTracker({ sessionId, onComplete, onRetry, shouldAutoRetr
       return;
     }
 
-    // Check for completion
-    if (progress?.progress === 100 && progress?.step === 'finalizing') {
-      setIsComplete(true);
-      // The storybook ID is stored in the message field when complete
-      const storybookId = progress.message;
-      if (storybookId) {
-        setTimeout(() => {
-          onComplete(storybookId);
-        }, 2000); // Small delay to show completion
-      }
+    // Check for completion (the stream also sends a dedicated 'completed' event)
+    if (progress?.progress === 100 && progress?.storybookId) {
+      completeWith(progress.storybookId);
     }
-  }, [progress, onComplete, onRetry]);
+  }, [progress, onRetry]);
 
-  if (isLoading || !progress) {
+  if ((streamFailed && isLoading) || !progress) {
     return (
       <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
         <Card className="rounded-3xl shadow-xl">
@@ -161,6 +231,16 @@ export function ProgressTracker({ sessionId, onComplete, onRetry, shouldAutoRetr
             }
           </p>
 
+          {/* Queue Position */}
+          {progress.step === 'queued' && progress.queuePosition && (
+            <div className="mb-6 inline-flex items-center gap-2 px-4 py-2 rounded-full bg-primary/10 text-primary text-sm font-medium" data-testid="text-queue-position">
+              <i className="fas fa-hourglass-half"></i>
+              {progress.queuePosition === 1
+                ? "You're next in line"
+                : `You're #${progress.queuePosition} in line`}
+            </div>
+          )}
+
           {/* Progress Bar */}
           <div className="mb-8">
             <Progress value={progress.progress || 0} className="h-3" />
@@ -235,6 +315,43 @@ export function ProgressTracker({ sessionId, onComplete, onRetry, shouldAutoRetr
               {progress.message}
             </div>
           )}
+
+          {/* Pages revealed as they are illustrated */}
+          {outline && (
+            <div className="mt-8 text-left" data-testid="preview-story-outline">
+              <h3 className="text-lg font-semibold mb-4 text-center" data-testid="text-preview-title">
+                {outline.title}
+              </h3>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                {coverUrl && (
+                  <div className="rounded-xl overflow-hidden bg-muted/30" data-testid="preview-cover">
+                    <img src={coverUrl} alt={outline.title} className="w-full aspect-square object-cover" />
+                  </div>
+                )}
+                {outline.pages.map(page => (
+                  <div key={page.pageNumber} className="rounded-xl overflow-hidden bg-muted/30" data-testid={`preview-page-${page.pageNumber}`}>
+                    {pageImages[page.pageNumber] ? (
+                      <img
+                        src={pageImages[page.pageNumber]}
+                        alt={`Page ${page.pageNumber}`}
+                        className="w-full aspect-square object-cover animate-in fade-in duration-500"
+                      />
+                    ) : (
+                      <Skeleton className="w-full aspect-square rounded-none" />
+                    )}
+                    <p className="p-2 text-xs text-muted-foreground line-clamp-3">
+                      <span className="font-medium text-foreground">{page.pageNumber}.</span> {page.text}
+                    </p>
+                  </div>
+                ))}
+                {backCoverUrl && (
+                  <div className="rounded-xl overflow-hidden bg-muted/30" data-testid="preview-back-cover">
+                    <img src={backCoverUrl} alt="Back cover" className="w-full aspect-square object-cover" />
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
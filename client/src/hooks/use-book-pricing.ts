@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PricedBookLength, Storybook } from "@shared/schema";
+
+// Display prices for a storybook. They depend on the book's length; books without
+// a length (or whose length is no longer offered) use the global prices.
+export function useBookPricing() {
+  const { data: pricing } = useQuery<{ digital_price: string; print_price: string }>({
+    queryKey: ['/api/settings/pricing'],
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes - pricing rarely changes
+  });
+
+  const { data: bookLengths } = useQuery<PricedBookLength[]>({
+    queryKey: ['/api/settings/book-lengths'],
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const getBookPrices = (storybook?: Pick<Storybook, 'bookLength'> | null) => {
+    const option = storybook?.bookLength ? bookLengths?.find(o => o.id === storybook.bookLength) : undefined;
+    return {
+      digitalPrice: option?.digitalPrice ?? (pricing?.digital_price ? parseInt(pricing.digital_price) : 399),
+      printPrice: option?.printPrice ?? (pricing?.print_price ? parseInt(pricing.print_price) : 2499),
+    };
+  };
+
+  return { isLoaded: !!pricing, getBookPrices };
+}
@@ -1,4 +1,23 @@
-type MoodType = 'calm' | 'adventure' | 'mystery' | 'happy' | 'suspense' | 'dramatic';
+export type MoodType = 'calm' | 'adventure' | 'mystery' | 'happy' | 'suspense' | 'dramatic';
+
+// Keywords in a page's emotional tone (e.g. "tense anticipation") that pick its music, checked in order
+const TONE_MOODS: Array<[MoodType, RegExp]> = [
+  ['suspense', /tense|suspense|anticipat|nervous|worr|afraid|fear|scar|danger/i],
+  ['mystery', /myster|curio|wonder|puzzl|secret|eerie|magic/i],
+  ['dramatic', /dramatic|intense|climax|triumph|brave|courage|determin|sad|loss/i],
+  ['adventure', /adventur|excit|discover|thrill|explor|energetic|bold/i],
+  ['happy', /happy|joy|cheer|playful|fun|delight|celebrat|laugh/i],
+  ['calm', /calm|peace|gentle|cozy|content|quiet|sleepy|warm|tender/i],
+];
+
+/**
+ * The music mood for a page, from the emotional tone stored with its scene.
+ * Pages without a tone (books created before scenes were stored) play calm music.
+ */
+export function moodForEmotionalTone(emotionalTone?: string): MoodType {
+  if (!emotionalTone) return 'calm';
+  return TONE_MOODS.find(([, pattern]) => pattern.test(emotionalTone))?.[0] ?? 'calm';
+}
 
 interface MusicTrack {
   buffer: AudioBuffer | null;
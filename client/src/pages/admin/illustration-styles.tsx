@@ -0,0 +1,449 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import ProtectedAdminRoute from "@/components/admin/ProtectedAdminRoute";
+import AdminLayout from "@/components/admin/AdminLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { STORY_AGES, type IllustrationStyle, type StoryAge } from "@shared/schema";
+import { Palette, Plus, Trash2, MoveUp, MoveDown, Edit, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+
+interface StyleFormData {
+  name: string;
+  promptFragment: string;
+  negativePrompt: string;
+  exampleImageUrl: string;
+  displayOrder: number;
+  isEnabled: boolean;
+  allowedAges: StoryAge[];
+}
+
+const emptyForm: StyleFormData = {
+  name: "",
+  promptFragment: "",
+  negativePrompt: "",
+  exampleImageUrl: "",
+  displayOrder: 0,
+  isEnabled: true,
+  allowedAges: [],
+};
+
+export default function AdminIllustrationStyles() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingStyle, setEditingStyle] = useState<IllustrationStyle | null>(null);
+  const [formData, setFormData] = useState<StyleFormData>(emptyForm);
+
+  const { data: styles, isLoading, error } = useQuery<IllustrationStyle[]>({
+    queryKey: ["/api/admin/illustration-styles"],
+  });
+
+  const invalidateStyles = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/illustration-styles"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/illustration-styles"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: StyleFormData) => {
+      const response = await apiRequest("POST", "/api/admin/illustration-styles", { ...data, exampleImageUrl: data.exampleImageUrl || null });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateStyles();
+      toast({
+        title: "Success",
+        description: "Illustration style created successfully",
+      });
+      setDialogOpen(false);
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Create",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<StyleFormData> }) => {
+      const body = data.exampleImageUrl === undefined ? data : { ...data, exampleImageUrl: data.exampleImageUrl || null };
+      const response = await apiRequest("PUT", `/api/admin/illustration-styles/${id}`, body);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateStyles();
+      toast({
+        title: "Success",
+        description: "Illustration style updated successfully",
+      });
+      setDialogOpen(false);
+      setEditingStyle(null);
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Update",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/admin/illustration-styles/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateStyles();
+      toast({
+        title: "Success",
+        description: "Illustration style deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to Delete",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetForm = () => {
+    setFormData(emptyForm);
+    setEditingStyle(null);
+  };
+
+  const handleAdd = () => {
+    resetForm();
+    setFormData({ ...emptyForm, displayOrder: styles?.length ?? 0 });
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (style: IllustrationStyle) => {
+    setEditingStyle(style);
+    setFormData({
+      name: style.name,
+      promptFragment: style.promptFragment,
+      negativePrompt: style.negativePrompt,
+      exampleImageUrl: style.exampleImageUrl || "",
+      displayOrder: style.displayOrder,
+      isEnabled: style.isEnabled,
+      allowedAges: style.allowedAges,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingStyle) {
+      updateMutation.mutate({ id: editingStyle.id, data: formData });
+    } else {
+      createMutation.mutate(formData);
+    }
+  };
+
+  const toggleAge = (age: StoryAge, checked: boolean) => {
+    setFormData({
+      ...formData,
+      allowedAges: checked ? [...formData.allowedAges, age] : formData.allowedAges.filter(a => a !== age),
+    });
+  };
+
+  const handleMove = (style: IllustrationStyle, index: number, offset: -1 | 1) => {
+    const other = sortedStyles?.[index + offset];
+    if (!other) return;
+    updateMutation.mutate({ id: style.id, data: { displayOrder: other.displayOrder } });
+    updateMutation.mutate({ id: other.id, data: { displayOrder: style.displayOrder } });
+  };
+
+  const sortedStyles = styles?.slice().sort((a, b) => a.displayOrder - b.displayOrder);
+
+  return (
+    <ProtectedAdminRoute>
+      <AdminLayout>
+        <div className="space-y-8">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-slate-100 mb-2">Illustration Styles</h1>
+              <p className="text-slate-400">Manage the art styles offered on the create page</p>
+            </div>
+            <Button
+              onClick={handleAdd}
+              className="bg-purple-600 hover:bg-purple-700 text-white"
+              data-testid="button-add-style"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Style
+            </Button>
+          </div>
+
+          <Card className="bg-slate-900 border-slate-800">
+            <CardHeader>
+              <CardTitle className="text-slate-100 flex items-center gap-2">
+                <Palette className="w-5 h-5 text-purple-500" />
+                Style Catalog
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {[...Array(3)].map((_, i) => (
+                    <Skeleton key={i} className="h-24 bg-slate-800" />
+                  ))}
+                </div>
+              ) : error ? (
+                <div className="text-center py-8">
+                  <p className="text-red-400 mb-4">Failed to load illustration styles: {error instanceof Error ? error.message : 'Unknown error'}</p>
+                  <Button onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/admin/illustration-styles"] })} variant="outline" className="border-slate-700 text-slate-300">
+                    Retry
+                  </Button>
+                </div>
+              ) : !sortedStyles || sortedStyles.length === 0 ? (
+                <div className="text-center py-12">
+                  <Palette className="w-12 h-12 text-slate-600 mx-auto mb-3" />
+                  <p className="text-slate-400">No illustration styles yet</p>
+                  <p className="text-sm text-slate-500 mt-1">Click "Add Style" to get started</p>
+                </div>
+              ) : (
+                <div className="space-y-3" data-testid="list-styles">
+                  {sortedStyles.map((style, index) => (
+                    <div
+                      key={style.id}
+                      className="flex items-start gap-4 p-4 rounded-lg bg-slate-950 border border-slate-800"
+                      data-testid={`style-${style.id}`}
+                    >
+                      <div className="flex flex-col gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleMove(style, index, -1)}
+                          disabled={index === 0}
+                          className="h-8 w-8 text-slate-400 hover:text-slate-200"
+                          data-testid={`button-move-up-${style.id}`}
+                        >
+                          <MoveUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleMove(style, index, 1)}
+                          disabled={index === sortedStyles.length - 1}
+                          className="h-8 w-8 text-slate-400 hover:text-slate-200"
+                          data-testid={`button-move-down-${style.id}`}
+                        >
+                          <MoveDown className="w-4 h-4" />
+                        </Button>
+                      </div>
+
+                      <div className="w-20 h-16 rounded bg-slate-800 overflow-hidden flex-shrink-0 flex items-center justify-center">
+                        {style.exampleImageUrl ? (
+                          <img src={style.exampleImageUrl} alt="" className="w-full h-full object-cover" />
+                        ) : (
+                          <Palette className="w-6 h-6 text-slate-600" />
+                        )}
+                      </div>
+
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-2 flex-wrap">
+                          <h3 className="font-semibold text-slate-100" data-testid={`text-name-${style.id}`}>
+                            {style.name}
+                          </h3>
+                          {style.allowedAges.map(age => (
+                            <span key={age} className="px-2 py-0.5 bg-purple-500/20 text-purple-300 text-xs rounded">
+                              {age}
+                            </span>
+                          ))}
+                          {!style.isEnabled && (
+                            <span className="px-2 py-0.5 bg-slate-700 text-slate-300 text-xs rounded">
+                              Disabled
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-slate-400 line-clamp-2" data-testid={`text-prompt-${style.id}`}>
+                          {style.promptFragment}
+                        </p>
+                        {style.negativePrompt && (
+                          <p className="text-xs text-slate-500 mt-1 line-clamp-1">Avoid: {style.negativePrompt}</p>
+                        )}
+                      </div>
+
+                      <div className="flex gap-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleEdit(style)}
+                          className="text-blue-400 hover:text-blue-300 hover:bg-blue-950"
+                          data-testid={`button-edit-${style.id}`}
+                        >
+                          <Edit className="w-5 h-5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteMutation.mutate(style.id)}
+                          className="text-red-400 hover:text-red-300 hover:bg-red-950"
+                          data-testid={`button-delete-${style.id}`}
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="bg-slate-900 border-slate-800 text-slate-100 max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingStyle ? "Edit Illustration Style" : "Add Illustration Style"}
+              </DialogTitle>
+              <DialogDescription className="text-slate-400">
+                Books drawn in this style keep its prompt even if the style is changed or deleted later
+              </DialogDescription>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="name" className="text-slate-200">Display Name</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="bg-slate-950 border-slate-700 text-slate-100"
+                  placeholder="e.g., Watercolor Illustration"
+                  required
+                  data-testid="input-name"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="promptFragment" className="text-slate-200">Prompt Fragment</Label>
+                <Textarea
+                  id="promptFragment"
+                  value={formData.promptFragment}
+                  onChange={(e) => setFormData({ ...formData, promptFragment: e.target.value })}
+                  className="bg-slate-950 border-slate-700 text-slate-100 min-h-20"
+                  placeholder="watercolor illustration style with soft, dreamy colors and gentle blending"
+                  required
+                  data-testid="input-prompt-fragment"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="negativePrompt" className="text-slate-200">Avoid (optional)</Label>
+                <Input
+                  id="negativePrompt"
+                  value={formData.negativePrompt}
+                  onChange={(e) => setFormData({ ...formData, negativePrompt: e.target.value })}
+                  className="bg-slate-950 border-slate-700 text-slate-100"
+                  placeholder="e.g., harsh outlines, dark shadows"
+                  data-testid="input-negative-prompt"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="exampleImageUrl" className="text-slate-200">Example Thumbnail URL (optional)</Label>
+                <Input
+                  id="exampleImageUrl"
+                  value={formData.exampleImageUrl}
+                  onChange={(e) => setFormData({ ...formData, exampleImageUrl: e.target.value })}
+                  className="bg-slate-950 border-slate-700 text-slate-100"
+                  placeholder="/api/storage/..."
+                  data-testid="input-example-image-url"
+                />
+              </div>
+
+              <div>
+                <Label className="text-slate-200">Reader Ages</Label>
+                <div className="flex gap-4 mt-2">
+                  {STORY_AGES.map(age => (
+                    <div key={age} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`age-${age}`}
+                        checked={formData.allowedAges.includes(age)}
+                        onCheckedChange={(checked) => toggleAge(age, !!checked)}
+                        data-testid={`checkbox-age-${age}`}
+                      />
+                      <Label htmlFor={`age-${age}`} className="text-slate-200 cursor-pointer">{age}</Label>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-1">Leave all unticked to offer the style for every age</p>
+              </div>
+
+              <div>
+                <Label htmlFor="displayOrder" className="text-slate-200">Display Order</Label>
+                <Input
+                  id="displayOrder"
+                  type="number"
+                  value={formData.displayOrder}
+                  onChange={(e) => setFormData({ ...formData, displayOrder: parseInt(e.target.value) || 0 })}
+                  className="bg-slate-950 border-slate-700 text-slate-100"
+                  required
+                  data-testid="input-display-order"
+                />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="isEnabled"
+                  checked={formData.isEnabled}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isEnabled: !!checked })}
+                  data-testid="checkbox-is-enabled"
+                />
+                <Label htmlFor="isEnabled" className="text-slate-200 cursor-pointer">
+                  Enabled (offered on the create page)
+                </Label>
+              </div>
+
+              <div className="flex justify-end gap-2 pt-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setDialogOpen(false);
+                    resetForm();
+                  }}
+                  className="bg-slate-950 border-slate-700 text-slate-100"
+                  data-testid="button-cancel"
+                >
+                  <X className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  className="bg-purple-600 hover:bg-purple-700 text-white"
+                  disabled={createMutation.isPending || updateMutation.isPending}
+                  data-testid="button-save"
+                >
+                  {editingStyle ? "Update" : "Create"} Style
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </AdminLayout>
+    </ProtectedAdminRoute>
+  );
+}
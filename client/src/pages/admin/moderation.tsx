@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import ProtectedAdminRoute from "@/components/admin/ProtectedAdminRoute";
+import AdminLayout from "@/components/admin/AdminLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ModerationFlagStatus, ModerationQueueItem, ModerationSource } from "@shared/schema";
+import { ShieldAlert, Check, X, ExternalLink } from "lucide-react";
+
+const SOURCE_LABELS: Record<ModerationSource, string> = {
+  prompt: "Story idea",
+  character_description: "Character",
+  page_text: "Page text",
+  page_image: "Page illustration",
+  cover_image: "Cover",
+  back_cover_image: "Back cover",
+  uploaded_image: "Uploaded photo",
+};
+
+const STATUS_FILTERS: Array<{ status: ModerationFlagStatus; label: string }> = [
+  { status: "pending", label: "Pending" },
+  { status: "approved", label: "Approved" },
+  { status: "rejected", label: "Rejected" },
+];
+
+const isImageSource = (source: ModerationSource) =>
+  source === "page_image" || source === "cover_image" || source === "back_cover_image" || source === "uploaded_image";
+
+export default function ModerationQueue() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ModerationFlagStatus>("pending");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: queue, isLoading, error } = useQuery<ModerationQueueItem[]>({
+    queryKey: ["/api/admin/moderation", status],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/moderation?status=${status}`);
+      return response.json();
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision }: { id: string; decision: "approved" | "rejected" }) => {
+      const response = await apiRequest("POST", `/api/admin/moderation/${id}/review`, {
+        decision,
+        note: notes[id]?.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (_, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/moderation"] });
+      toast({
+        title: decision === "approved" ? "Content Approved" : "Content Rejected",
+        description: decision === "approved"
+          ? "The storybook is approved once all of its flags are reviewed"
+          : "The storybook has been rejected and removed from the gallery",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Review Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <ProtectedAdminRoute>
+      <AdminLayout>
+        <div className="space-y-8">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-100 mb-2">Moderation</h1>
+            <p className="text-slate-400">Review content flagged by the automated safety checks</p>
+          </div>
+
+          <div className="flex gap-2" data-testid="moderation-status-filter">
+            {STATUS_FILTERS.map(filter => (
+              <Button
+                key={filter.status}
+                variant={status === filter.status ? "default" : "outline"}
+                className={status === filter.status ? "bg-purple-600 hover:bg-purple-700 text-white" : "border-slate-700 text-slate-300 hover:bg-slate-800"}
+                onClick={() => setStatus(filter.status)}
+                data-testid={`filter-${filter.status}`}
+              >
+                {filter.label}
+              </Button>
+            ))}
+          </div>
+
+          <Card className="bg-slate-900 border-slate-800">
+            <CardHeader>
+              <CardTitle className="text-slate-100 flex items-center gap-2">
+                <ShieldAlert className="w-5 h-5 text-purple-500" />
+                Flagged Content
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {[...Array(3)].map((_, i) => (
+                    <Skeleton key={i} className="h-28 bg-slate-800" />
+                  ))}
+                </div>
+              ) : error ? (
+                <div className="text-center py-8">
+                  <p className="text-red-400 mb-4">Failed to load the moderation queue: {error instanceof Error ? error.message : 'Unknown error'}</p>
+                  <Button onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/admin/moderation"] })} variant="outline" className="border-slate-700 text-slate-300">
+                    Retry
+                  </Button>
+                </div>
+              ) : !queue || queue.length === 0 ? (
+                <div className="text-center py-12">
+                  <ShieldAlert className="w-12 h-12 text-slate-600 mx-auto mb-3" />
+                  <p className="text-slate-400">{status === "pending" ? "Nothing waiting for review" : `No ${status} items`}</p>
+                </div>
+              ) : (
+                <div className="space-y-3" data-testid="list-moderation">
+                  {queue.map(item => (
+                    <div
+                      key={item.id}
+                      className="flex flex-col sm:flex-row gap-4 p-4 rounded-lg bg-slate-950 border border-slate-800"
+                      data-testid={`moderation-item-${item.id}`}
+                    >
+                      {isImageSource(item.source) ? (
+                        <img
+                          src={item.content}
+                          alt={`Flagged ${SOURCE_LABELS[item.source].toLowerCase()}`}
+                          className="w-32 h-32 object-cover rounded shrink-0"
+                          loading="lazy"
+                        />
+                      ) : (
+                        <p className="sm:w-64 shrink-0 text-sm text-slate-300 bg-slate-900 rounded p-3 max-h-32 overflow-y-auto whitespace-pre-wrap">
+                          {item.content}
+                        </p>
+                      )}
+
+                      <div className="flex-1 min-w-0 space-y-2">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge className="bg-slate-800 text-slate-200">{SOURCE_LABELS[item.source]}</Badge>
+                          {item.pageNumber != null && (
+                            <span className="text-xs text-slate-400">Page {item.pageNumber}</span>
+                          )}
+                          {item.createdAt && (
+                            <span className="text-xs text-slate-500">{new Date(item.createdAt).toLocaleString()}</span>
+                          )}
+                        </div>
+                        <Link href={`/view/${item.storybook.id}`}>
+                          <span className="inline-flex items-center gap-1 font-semibold text-slate-100 hover:text-purple-400 cursor-pointer">
+                            {item.storybook.title}
+                            <ExternalLink className="w-3 h-3" />
+                          </span>
+                        </Link>
+                        <p className="text-sm text-slate-400">{item.reason}</p>
+
+                        {item.status === "pending" ? (
+                          <div className="flex flex-col sm:flex-row gap-2 pt-1">
+                            <Input
+                              value={notes[item.id] || ""}
+                              onChange={(e) => setNotes(current => ({ ...current, [item.id]: e.target.value }))}
+                              maxLength={500}
+                              placeholder="Note for the audit log (optional)"
+                              className="bg-slate-900 border-slate-700 text-slate-100 placeholder:text-slate-500"
+                              data-testid={`input-moderation-note-${item.id}`}
+                            />
+                            <div className="flex gap-2 shrink-0">
+                              <Button
+                                onClick={() => reviewMutation.mutate({ id: item.id, decision: "approved" })}
+                                disabled={reviewMutation.isPending}
+                                className="bg-green-700 hover:bg-green-600 text-white"
+                                data-testid={`button-approve-${item.id}`}
+                              >
+                                <Check className="w-4 h-4 mr-1" />
+                                Approve
+                              </Button>
+                              <Button
+                                onClick={() => reviewMutation.mutate({ id: item.id, decision: "rejected" })}
+                                disabled={reviewMutation.isPending}
+                                variant="destructive"
+                                data-testid={`button-reject-${item.id}`}
+                              >
+                                <X className="w-4 h-4 mr-1" />
+                                Reject
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
+                          <p className="text-xs text-slate-500">
+                            {item.status === "approved" ? "Approved" : "Rejected"}
+                            {item.reviewedAt && ` on ${new Date(item.reviewedAt).toLocaleString()}`}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </AdminLayout>
+    </ProtectedAdminRoute>
+  );
+}
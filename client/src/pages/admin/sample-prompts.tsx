@@ -10,7 +10,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { SamplePrompt } from "@shared/schema";
+import { SamplePrompt, PROMPT_FIELD_TYPES, type PromptFieldType, type PromptTemplateField } from "@shared/schema";
+import { findTemplateDefinitionError } from "@shared/promptTemplates";
 import { Lightbulb, Plus, Trash2, MoveUp, MoveDown, Edit, X } from "lucide-react";
 import {
   Dialog,
@@ -20,6 +21,16 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+const FIELD_TYPE_LABELS: Record<PromptFieldType, string> = {
+  text: "Text",
+  name: "Name",
+  number: "Number",
+  select: "Choice",
+};
+
+const newField = (): PromptTemplateField => ({ key: "", label: "", type: "text", required: true });
 
 export default function AdminSamplePrompts() {
   const { toast } = useToast();
@@ -28,6 +39,7 @@ export default function AdminSamplePrompts() {
   const [formData, setFormData] = useState({
     title: "",
     prompt: "",
+    fields: [] as PromptTemplateField[],
     ageRange: "",
     isActive: true,
     displayOrder: '0',
@@ -112,6 +124,7 @@ export default function AdminSamplePrompts() {
     setFormData({
       title: "",
       prompt: "",
+      fields: [],
       ageRange: "",
       isActive: true,
       displayOrder: '0',
@@ -129,6 +142,7 @@ export default function AdminSamplePrompts() {
     setFormData({
       title: prompt.title,
       prompt: prompt.prompt,
+      fields: prompt.fields,
       ageRange: prompt.ageRange,
       isActive: prompt.isActive,
       displayOrder: prompt.displayOrder,
@@ -136,12 +150,36 @@ export default function AdminSamplePrompts() {
     setDialogOpen(true);
   };
 
+  const updateField = (index: number, changes: Partial<PromptTemplateField>) => {
+    setFormData({
+      ...formData,
+      fields: formData.fields.map((field, i) => i === index ? { ...field, ...changes } : field),
+    });
+  };
+
+  const templateError = formData.fields.length > 0 ? findTemplateDefinitionError(formData.prompt, formData.fields) : null;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (templateError) {
+      toast({
+        title: "Check the template fields",
+        description: templateError,
+        variant: "destructive",
+      });
+      return;
+    }
+    // Choices are typed as one comma-separated line
+    const data = {
+      ...formData,
+      fields: formData.fields.map(field => field.type === "select"
+        ? { ...field, options: (field.options || []).map(option => option.trim()).filter(Boolean) }
+        : { ...field, options: undefined }),
+    };
     if (editingPrompt) {
-      updateMutation.mutate({ id: editingPrompt.id, data: formData });
+      updateMutation.mutate({ id: editingPrompt.id, data });
     } else {
-      createMutation.mutate(formData);
+      createMutation.mutate(data);
     }
   };
 
@@ -258,6 +296,11 @@ export default function AdminSamplePrompts() {
                           <span className="px-2 py-0.5 bg-purple-500/20 text-purple-300 text-xs rounded" data-testid={`badge-age-${prompt.id}`}>
                             {prompt.ageRange}
                           </span>
+                          {prompt.fields.length > 0 && (
+                            <span className="px-2 py-0.5 bg-blue-500/20 text-blue-300 text-xs rounded" data-testid={`badge-template-${prompt.id}`}>
+                              Template · {prompt.fields.length} {prompt.fields.length === 1 ? 'field' : 'fields'}
+                            </span>
+                          )}
                           {!prompt.isActive && (
                             <span className="px-2 py-0.5 bg-slate-700 text-slate-300 text-xs rounded">
                               Inactive
@@ -343,15 +386,95 @@ export default function AdminSamplePrompts() {
                   value={formData.prompt}
                   onChange={(e) => setFormData({ ...formData, prompt: e.target.value })}
                   className="bg-slate-950 border-slate-700 text-slate-100 min-h-32"
-                  placeholder="Write a story about {main character} who discovers..."
+                  placeholder="Write a birthday adventure for {childName}, who loves {favoriteAnimal}..."
                   required
                   data-testid="input-prompt"
                 />
                 <p className="text-xs text-slate-500 mt-1">
-                  Tip: Use placeholders like {"{main character}"}, {"{friend}"}, {"{animal}"}, etc.
+                  Tip: Placeholders like {"{childName}"} or {"{city}"} become fields on the create page. Define one field per placeholder below, and put optional ones in brackets with their words, like {"[ in {city}]"}, so the sentence still reads well when they are left empty.
                 </p>
               </div>
 
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="text-slate-200">Personalization Fields</Label>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setFormData({ ...formData, fields: [...formData.fields, newField()] })}
+                    disabled={formData.fields.length >= 8}
+                    className="bg-slate-950 border-slate-700 text-slate-100"
+                    data-testid="button-add-field"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Field
+                  </Button>
+                </div>
+                {formData.fields.map((field, index) => (
+                  <div key={index} className="space-y-2 rounded-lg border border-slate-800 p-3" data-testid={`field-row-${index}`}>
+                    <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_8rem_auto] gap-2 items-center">
+                      <Input
+                        value={field.key}
+                        onChange={(e) => updateField(index, { key: e.target.value.trim() })}
+                        className="bg-slate-950 border-slate-700 text-slate-100"
+                        placeholder="Placeholder, e.g. childName"
+                        required
+                        data-testid={`input-field-key-${index}`}
+                      />
+                      <Input
+                        value={field.label}
+                        onChange={(e) => updateField(index, { label: e.target.value })}
+                        className="bg-slate-950 border-slate-700 text-slate-100"
+                        placeholder="Label, e.g. Child's name"
+                        required
+                        data-testid={`input-field-label-${index}`}
+                      />
+                      <Select value={field.type} onValueChange={(type) => updateField(index, { type: type as PromptFieldType })}>
+                        <SelectTrigger className="bg-slate-950 border-slate-700 text-slate-100" data-testid={`select-field-type-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {PROMPT_FIELD_TYPES.map(type => (
+                            <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setFormData({ ...formData, fields: formData.fields.filter((_, i) => i !== index) })}
+                        className="text-red-400 hover:text-red-300 hover:bg-red-950"
+                        data-testid={`button-remove-field-${index}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    {field.type === "select" && (
+                      <Input
+                        value={(field.options || []).join(",")}
+                        onChange={(e) => updateField(index, { options: e.target.value.split(",") })}
+                        className="bg-slate-950 border-slate-700 text-slate-100"
+                        placeholder="Choices, separated by commas"
+                        data-testid={`input-field-options-${index}`}
+                      />
+                    )}
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`field-required-${index}`}
+                        checked={field.required}
+                        onCheckedChange={(checked) => updateField(index, { required: !!checked })}
+                      />
+                      <Label htmlFor={`field-required-${index}`} className="text-slate-300 text-sm cursor-pointer">Required</Label>
+                    </div>
+                  </div>
+                ))}
+                {templateError && (
+                  <p className="text-xs text-amber-400" data-testid="text-template-error">{templateError}</p>
+                )}
+              </div>
+
               <div>
                 <Label htmlFor="displayOrder" className="text-slate-200">Display Order</Label>
                 <Input
@@ -1,3 +1,4 @@
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -7,12 +8,15 @@ import AdminLayout from "@/components/admin/AdminLayout";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { SiteSetting } from "@shared/schema";
-import { Save } from "lucide-react";
+import { SiteSetting, bookLengthOptionsSchema, MAX_STORY_PAGES, ILLUSTRATION_CANDIDATE_RETENTION_DAYS, type BookLengthOption, type PricedBookLength } from "@shared/schema";
+import { Plus, Save, Trash2 } from "lucide-react";
 
 const settingsSchema = z.object({
   pages_per_book: z.string().min(1, "Required").refine(val => !isNaN(Number(val)) && Number(val) > 0, "Must be a positive number"),
@@ -23,6 +27,342 @@ const settingsSchema = z.object({
 
 type SettingsForm = z.infer<typeof settingsSchema>;
 
+// Book length rows as edited, with prices in dollars; blank prices use the global prices
+interface BookLengthRow {
+  id: string;
+  label: string;
+  pages: string;
+  digitalPrice: string;
+  printPrice: string;
+}
+
+const centsToDollarInput = (cents?: number) => cents === undefined ? "" : (cents / 100).toFixed(2);
+const dollarInputToCents = (dollars: string) => dollars.trim() === "" ? undefined : Math.round(parseFloat(dollars) * 100);
+
+function BookLengthsCard({ settingsMap }: { settingsMap: Record<string, string> }) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<BookLengthRow[]>([]);
+
+  // Lengths currently offered, used to start from when none have been configured yet
+  const { data: offeredLengths } = useQuery<PricedBookLength[]>({
+    queryKey: ["/api/settings/book-lengths"],
+  });
+
+  useEffect(() => {
+    let options: BookLengthOption[] | undefined;
+    if (settingsMap.book_lengths) {
+      try {
+        options = JSON.parse(settingsMap.book_lengths);
+      } catch {
+        options = undefined;
+      }
+    }
+    if (!options && offeredLengths) {
+      // Prices equal to the global ones aren't overrides
+      options = offeredLengths.map(({ digitalPrice, printPrice, ...option }) => ({
+        ...option,
+        digitalPrice: String(digitalPrice) === settingsMap.digital_price ? undefined : digitalPrice,
+        printPrice: String(printPrice) === settingsMap.print_price ? undefined : printPrice,
+      }));
+    }
+    if (options) {
+      setRows(options.map(option => ({
+        id: option.id,
+        label: option.label,
+        pages: String(option.pages),
+        digitalPrice: centsToDollarInput(option.digitalPrice),
+        printPrice: centsToDollarInput(option.printPrice),
+      })));
+    }
+  }, [settingsMap.book_lengths, settingsMap.digital_price, settingsMap.print_price, offeredLengths]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (options: BookLengthOption[]) => {
+      const response = await apiRequest("PUT", "/api/admin/settings/book_lengths", { value: JSON.stringify(options) });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/book-lengths"] });
+      toast({
+        title: "Book Lengths Updated",
+        description: "Customers will see the new lengths on the create page",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRow = (index: number, changes: Partial<BookLengthRow>) => {
+    setRows(current => current.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const handleSave = () => {
+    const result = bookLengthOptionsSchema.safeParse(rows.map(row => ({
+      id: row.id.trim(),
+      label: row.label,
+      pages: Number(row.pages),
+      digitalPrice: dollarInputToCents(row.digitalPrice),
+      printPrice: dollarInputToCents(row.printPrice),
+    })));
+    if (!result.success) {
+      toast({
+        title: "Invalid Book Lengths",
+        description: result.error.errors[0]?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(result.data);
+  };
+
+  const inputClassName = "bg-slate-950 border-slate-700 text-slate-100 placeholder:text-slate-500 h-11 sm:h-10";
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader>
+        <CardTitle className="text-lg sm:text-xl text-slate-100">Book Lengths</CardTitle>
+        <CardDescription className="text-sm sm:text-base text-slate-400">
+          Lengths customers can pick when creating a story (up to {MAX_STORY_PAGES} pages). Leave a price blank to use the global price.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="hidden sm:grid grid-cols-[1fr_1.5fr_0.8fr_1fr_1fr_auto] gap-2 text-xs text-slate-400">
+          <span>Id</span>
+          <span>Label</span>
+          <span>Pages</span>
+          <span>Digital ($)</span>
+          <span>Print ($)</span>
+          <span className="w-10" />
+        </div>
+        {rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-2 sm:grid-cols-[1fr_1.5fr_0.8fr_1fr_1fr_auto] gap-2" data-testid={`book-length-row-${index}`}>
+            <Input value={row.id} onChange={(e) => updateRow(index, { id: e.target.value })} placeholder="standard" className={inputClassName} />
+            <Input value={row.label} onChange={(e) => updateRow(index, { label: e.target.value })} placeholder="Standard" className={inputClassName} />
+            <Input value={row.pages} onChange={(e) => updateRow(index, { pages: e.target.value })} type="number" min={1} max={MAX_STORY_PAGES} className={inputClassName} />
+            <Input value={row.digitalPrice} onChange={(e) => updateRow(index, { digitalPrice: e.target.value })} type="number" step="0.01" placeholder="Global" className={inputClassName} />
+            <Input value={row.printPrice} onChange={(e) => updateRow(index, { printPrice: e.target.value })} type="number" step="0.01" placeholder="Global" className={inputClassName} />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="text-slate-400 hover:text-red-400 hover:bg-slate-800"
+              onClick={() => setRows(current => current.filter((_, i) => i !== index))}
+              disabled={rows.length <= 1}
+              aria-label={`Remove ${row.label || 'book length'}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex flex-col sm:flex-row gap-2 pt-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="border-slate-700 text-slate-300 hover:bg-slate-800 w-full sm:w-auto"
+            onClick={() => setRows(current => [...current, { id: "", label: "", pages: "", digitalPrice: "", printPrice: "" }])}
+            disabled={rows.length >= 6}
+            data-testid="button-add-book-length"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Length
+          </Button>
+          <Button
+            type="button"
+            className="bg-purple-600 hover:bg-purple-700 text-white w-full sm:w-auto h-11 sm:h-10"
+            onClick={handleSave}
+            disabled={saveMutation.isPending || rows.length === 0}
+            data-testid="button-save-book-lengths"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? "Saving..." : "Save Book Lengths"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ContentSafetyCard({ settingsMap }: { settingsMap: Record<string, string> }) {
+  const { toast } = useToast();
+  const [blockedTerms, setBlockedTerms] = useState("");
+  const [useClassifier, setUseClassifier] = useState(true);
+
+  useEffect(() => {
+    setBlockedTerms(settingsMap.moderation_blocked_terms || "");
+    setUseClassifier(settingsMap.moderation_classifier_enabled !== "false");
+  }, [settingsMap.moderation_blocked_terms, settingsMap.moderation_classifier_enabled]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", "/api/admin/settings/moderation_blocked_terms", { value: blockedTerms.trim() });
+      await apiRequest("PUT", "/api/admin/settings/moderation_classifier_enabled", { value: String(useClassifier) });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings"] });
+      toast({
+        title: "Content Safety Updated",
+        description: "New stories will be checked with these settings",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader>
+        <CardTitle className="text-lg sm:text-xl text-slate-100">Content Safety</CardTitle>
+        <CardDescription className="text-sm sm:text-base text-slate-400">
+          Story ideas, character descriptions and instructions containing a blocked term are refused. Finished books with blocked terms, or content the classifier flags, go to the moderation queue.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="moderation-blocked-terms" className="text-slate-300">Blocked terms</Label>
+          <Textarea
+            id="moderation-blocked-terms"
+            value={blockedTerms}
+            onChange={(e) => setBlockedTerms(e.target.value)}
+            rows={6}
+            placeholder="One term or phrase per line. Leave blank to use the built-in list."
+            className="bg-slate-950 border-slate-700 text-slate-100 placeholder:text-slate-500"
+            data-testid="input-moderation-blocked-terms"
+          />
+        </div>
+        <div className="flex items-center justify-between gap-4 rounded-lg border border-slate-800 p-3">
+          <div>
+            <Label htmlFor="moderation-classifier" className="text-slate-300">Content classifier</Label>
+            <p className="text-xs text-slate-500">Have the AI model review every page&apos;s text and illustrations after generation</p>
+          </div>
+          <Switch
+            id="moderation-classifier"
+            checked={useClassifier}
+            onCheckedChange={setUseClassifier}
+            data-testid="switch-moderation-classifier"
+          />
+        </div>
+        <Button
+          type="button"
+          className="bg-purple-600 hover:bg-purple-700 text-white w-full sm:w-auto h-11 sm:h-10"
+          onClick={() => saveMutation.mutate()}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-content-safety"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saveMutation.isPending ? "Saving..." : "Save Content Safety"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReadingLevelCard({ settingsMap }: { settingsMap: Record<string, string> }) {
+  const { toast } = useToast();
+  const autoRewrite = settingsMap.readability_auto_rewrite === "true";
+
+  const saveMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const response = await apiRequest("PUT", "/api/admin/settings/readability_auto_rewrite", { value: String(enabled) });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader>
+        <CardTitle className="text-lg sm:text-xl text-slate-100">Reading Level</CardTitle>
+        <CardDescription className="text-sm sm:text-base text-slate-400">
+          Every page is scored for length, sentence length and grade level against the age chosen for the book. Owners see the scores in the viewer.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4 rounded-lg border border-slate-800 p-3">
+          <div>
+            <Label htmlFor="readability-auto-rewrite" className="text-slate-300">Rewrite pages outside the age band</Label>
+            <p className="text-xs text-slate-500">Sends each offending page back to the story model once while the story is written</p>
+          </div>
+          <Switch
+            id="readability-auto-rewrite"
+            checked={autoRewrite}
+            onCheckedChange={(checked) => saveMutation.mutate(checked)}
+            disabled={saveMutation.isPending}
+            data-testid="switch-readability-auto-rewrite"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function IllustrationOptionsCard({ settingsMap }: { settingsMap: Record<string, string> }) {
+  const { toast } = useToast();
+  const atCreation = settingsMap.illustration_candidates_at_creation === "true";
+
+  const saveMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const response = await apiRequest("PUT", "/api/admin/settings/illustration_candidates_at_creation", { value: String(enabled) });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="bg-slate-900 border-slate-800">
+      <CardHeader>
+        <CardTitle className="text-lg sm:text-xl text-slate-100">Illustration Options</CardTitle>
+        <CardDescription className="text-sm sm:text-base text-slate-400">
+          Owners can draw several options for a page or the cover from the viewer and pick one. Options nobody picks are deleted after {ILLUSTRATION_CANDIDATE_RETENTION_DAYS} days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4 rounded-lg border border-slate-800 p-3">
+          <div>
+            <Label htmlFor="illustration-candidates-at-creation" className="text-slate-300">Offer options when a book is created</Label>
+            <p className="text-xs text-slate-500">Signed-in customers can have 2-4 options drawn for every page and the cover, multiplying the illustration cost</p>
+          </div>
+          <Switch
+            id="illustration-candidates-at-creation"
+            checked={atCreation}
+            onCheckedChange={(checked) => saveMutation.mutate(checked)}
+            disabled={saveMutation.isPending}
+            data-testid="switch-illustration-candidates-at-creation"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function AdminSettings() {
   const { toast } = useToast();
 
@@ -145,7 +485,7 @@ export default function AdminSettings() {
                             />
                           </FormControl>
                           <FormDescription className="text-xs sm:text-sm text-slate-500">
-                            Number of pages in each generated storybook
+                            Pages in a Standard book while no book lengths are configured below
                           </FormDescription>
                           <FormMessage className="text-xs sm:text-sm text-red-400" />
                         </FormItem>
@@ -242,6 +582,13 @@ export default function AdminSettings() {
               )}
             </CardContent>
           </Card>
+
+          {!isLoading && !error && <BookLengthsCard settingsMap={settingsMap} />}
+
+          {!isLoading && !error && <ContentSafetyCard settingsMap={settingsMap} />}
+
+          {!isLoading && !error && <ReadingLevelCard settingsMap={settingsMap} />}
+          {!isLoading && !error && <IllustrationOptionsCard settingsMap={settingsMap} />}
         </div>
       </AdminLayout>
     </ProtectedAdminRoute>
@@ -0,0 +1,380 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useTranslation } from "react-i18next";
+import { useAuth } from "@/hooks/useAuth";
+import Navigation from "@/components/navigation";
+import { SEO } from "@/components/SEO";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { MAX_CHARACTER_PHOTOS, type SavedCharacter } from "@shared/schema";
+import { Loader2, Pencil, Plus, Sparkles, Trash2, UserRound, X } from "lucide-react";
+
+interface CharacterDialogProps {
+  character: SavedCharacter | null; // null when adding a new character
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function CharacterDialog({ character, open, onOpenChange }: CharacterDialogProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [age, setAge] = useState("");
+  const [appearance, setAppearance] = useState("");
+  const [outfit, setOutfit] = useState("");
+  const [keptPhotoUrls, setKeptPhotoUrls] = useState<string[]>([]);
+  const [newPhotos, setNewPhotos] = useState<File[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setName(character?.name || "");
+      setAge(character?.age || "");
+      setAppearance(character?.appearance || "");
+      setOutfit(character?.outfit || "");
+      setKeptPhotoUrls(character?.photoUrls || []);
+      setNewPhotos([]);
+    }
+  }, [open, character]);
+
+  const photoCount = keptPhotoUrls.length + newPhotos.length;
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<SavedCharacter> => {
+      const formData = new FormData();
+      formData.append("name", name);
+      formData.append("age", age);
+      formData.append("appearance", appearance);
+      formData.append("outfit", outfit);
+      if (character) {
+        // An empty value tells the server none of the existing photos are kept
+        formData.append("keepPhotoUrls", "");
+        keptPhotoUrls.forEach(url => formData.append("keepPhotoUrls", url));
+      }
+      newPhotos.forEach(file => formData.append("photos", file));
+
+      const response = await fetch(character ? `/api/characters/${character.id}` : "/api/characters", {
+        method: character ? "PATCH" : "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ message: response.statusText }));
+        throw new Error(errorData.message || t('characters.toast.saveFailed'));
+      }
+      return response.json();
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/characters'] });
+      onOpenChange(false);
+      toast({
+        title: character ? t('characters.toast.updated') : t('characters.toast.saved'),
+        description: t('characters.toast.savedDescription', { name: saved.name }),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('characters.toast.saveFailed'),
+        description: error.message || t('common.errors.tryAgainLater'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addPhotos = (files: FileList | null) => {
+    if (!files) return;
+    setNewPhotos(current => [...current, ...Array.from(files)].slice(0, MAX_CHARACTER_PHOTOS - keptPhotoUrls.length));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !saveMutation.isPending && onOpenChange(next)}>
+      <DialogContent className="max-w-[95vw] md:max-w-lg rounded-xl max-h-[90vh] overflow-y-auto" data-testid="dialog-character">
+        <DialogHeader>
+          <DialogTitle>{character ? t('characters.dialog.editTitle', { name: character.name }) : t('characters.dialog.newTitle')}</DialogTitle>
+          <DialogDescription>
+            {t('characters.dialog.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="character-name">{t('characters.dialog.name')}</Label>
+              <Input id="character-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={60} data-testid="input-character-name" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="character-age">{t('characters.dialog.age')}</Label>
+              <Input id="character-age" value={age} onChange={(e) => setAge(e.target.value)} maxLength={20} placeholder={t('characters.dialog.agePlaceholder')} data-testid="input-character-age" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="character-appearance">{t('characters.dialog.appearance')}</Label>
+            <Textarea
+              id="character-appearance"
+              value={appearance}
+              onChange={(e) => setAppearance(e.target.value)}
+              maxLength={500}
+              placeholder={t('characters.dialog.appearancePlaceholder')}
+              data-testid="input-character-appearance"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="character-outfit">{t('characters.dialog.outfit')}</Label>
+            <Input
+              id="character-outfit"
+              value={outfit}
+              onChange={(e) => setOutfit(e.target.value)}
+              maxLength={300}
+              placeholder={t('characters.dialog.outfitPlaceholder')}
+              data-testid="input-character-outfit"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t('characters.dialog.photos', { count: photoCount, max: MAX_CHARACTER_PHOTOS })}</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {keptPhotoUrls.map(url => (
+                <div key={url} className="relative aspect-square overflow-hidden rounded-lg border">
+                  <img src={url} alt="" className="w-full h-full object-cover" />
+                  <button
+                    type="button"
+                    onClick={() => setKeptPhotoUrls(current => current.filter(u => u !== url))}
+                    className="absolute top-1 right-1 rounded-full bg-background/90 p-1"
+                    aria-label={t('characters.dialog.removePhoto')}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {newPhotos.map((file, index) => (
+                <div key={`${file.name}-${index}`} className="relative aspect-square overflow-hidden rounded-lg border">
+                  <img src={URL.createObjectURL(file)} alt="" className="w-full h-full object-cover" />
+                  <button
+                    type="button"
+                    onClick={() => setNewPhotos(current => current.filter((_, i) => i !== index))}
+                    className="absolute top-1 right-1 rounded-full bg-background/90 p-1"
+                    aria-label={t('characters.dialog.removePhoto')}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {photoCount < MAX_CHARACTER_PHOTOS && (
+                <label className="flex aspect-square cursor-pointer flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed text-muted-foreground hover:border-primary hover:text-primary">
+                  <Plus className="w-5 h-5" />
+                  <span className="text-xs">{t('characters.dialog.addPhoto')}</span>
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg,image/webp"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => { addPhotos(e.target.files); e.target.value = ""; }}
+                    data-testid="input-character-photos"
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saveMutation.isPending}>
+            {t('common.buttons.cancel')}
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!name.trim() || photoCount === 0 || saveMutation.isPending}
+            data-testid="button-save-character"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t('common.buttons.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function Characters() {
+  const { t } = useTranslation();
+  const { user, isLoading: authLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<SavedCharacter | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleting, setDeleting] = useState<SavedCharacter | null>(null);
+
+  const { data: characters, isLoading } = useQuery<SavedCharacter[]>({
+    queryKey: ['/api/characters'],
+    enabled: !!user,
+  });
+
+  const portraitMutation = useMutation({
+    mutationFn: async (character: SavedCharacter): Promise<SavedCharacter> => {
+      const res = await apiRequest('POST', `/api/characters/${character.id}/portrait`);
+      return res.json();
+    },
+    onSuccess: (character) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/characters'] });
+      toast({ title: t('characters.toast.portraitReady'), description: t('characters.toast.portraitReadyDescription', { name: character.name }) });
+    },
+    onError: (error: Error) => {
+      toast({ title: t('characters.toast.portraitFailed'), description: error.message || t('common.errors.tryAgainLater'), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (character: SavedCharacter) => {
+      await apiRequest('DELETE', `/api/characters/${character.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/characters'] });
+      setDeleting(null);
+      toast({ title: t('characters.toast.deleted'), description: t('characters.toast.deletedDescription') });
+    },
+    onError: (error: Error) => {
+      toast({ title: t('characters.toast.deleteFailed'), description: error.message || t('common.errors.tryAgainLater'), variant: "destructive" });
+    },
+  });
+
+  const openDialog = (character: SavedCharacter | null) => {
+    setEditing(character);
+    setDialogOpen(true);
+  };
+
+  if (!authLoading && !user) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SEO title="My Characters | AI Storybook Builder" description="Save the characters who star in your stories." />
+        <Navigation />
+        <div className="container mx-auto px-4 py-16 text-center">
+          <UserRound className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
+          <h1 className="text-2xl font-bold mb-2">{t('characters.signIn.title')}</h1>
+          <p className="text-muted-foreground mb-6">
+            {t('characters.signIn.description')}
+          </p>
+          <Button onClick={() => setLocation("/login")} data-testid="button-sign-in">
+            {t('characters.signIn.button')}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <SEO title="My Characters | AI Storybook Builder" description="Save the characters who star in your stories." />
+      <Navigation />
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-3xl font-bold" data-testid="heading-characters">{t('characters.title')}</h1>
+              <p className="text-muted-foreground">{t('characters.subtitle')}</p>
+            </div>
+            <Button onClick={() => openDialog(null)} data-testid="button-add-character">
+              <Plus className="w-4 h-4 mr-2" />
+              {t('characters.add')}
+            </Button>
+          </div>
+
+          {authLoading || isLoading ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {[0, 1, 2].map(i => <Skeleton key={i} className="h-72 rounded-xl" />)}
+            </div>
+          ) : !characters || characters.length === 0 ? (
+            <div className="text-center py-16 text-muted-foreground">
+              <UserRound className="h-12 w-12 mx-auto mb-3" />
+              <p>{t('characters.empty')}</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {characters.map(character => {
+                const drawing = portraitMutation.isPending && portraitMutation.variables?.id === character.id;
+                return (
+                  <Card key={character.id} className="overflow-hidden" data-testid={`card-character-${character.id}`}>
+                    <div className="aspect-square bg-muted">
+                      <img
+                        src={character.portraitUrl || character.photoUrls[0]}
+                        alt={character.name}
+                        className="w-full h-full object-cover"
+                        loading="lazy"
+                      />
+                    </div>
+                    <CardContent className="p-4 space-y-3">
+                      <div>
+                        <h2 className="font-semibold text-lg">
+                          {character.name}
+                          {character.age && <span className="ml-2 text-sm font-normal text-muted-foreground">{t('characters.age', { age: character.age })}</span>}
+                        </h2>
+                        {character.appearance && <p className="text-sm text-muted-foreground line-clamp-2">{character.appearance}</p>}
+                        {character.outfit && <p className="text-sm text-muted-foreground line-clamp-1">{t('characters.wears', { outfit: character.outfit })}</p>}
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => portraitMutation.mutate(character)}
+                          disabled={portraitMutation.isPending}
+                          data-testid={`button-portrait-${character.id}`}
+                        >
+                          {drawing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Sparkles className="w-4 h-4 mr-1" />}
+                          {character.portraitUrl ? t('characters.redrawPortrait') : t('characters.drawPortrait')}
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => openDialog(character)} data-testid={`button-edit-character-${character.id}`}>
+                          <Pencil className="w-4 h-4 mr-1" />
+                          {t('characters.edit')}
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setDeleting(character)} data-testid={`button-delete-character-${character.id}`}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <CharacterDialog character={editing} open={dialogOpen} onOpenChange={setDialogOpen} />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('characters.delete.title', { name: deleting?.name })}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('characters.delete.description')}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.buttons.cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && deleteMutation.mutate(deleting)} data-testid="button-confirm-delete-character">
+              {t('common.buttons.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
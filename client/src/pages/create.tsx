@@ -1,26 +1,29 @@
-import { useState, useMemo } from "react";
-import { useLocation } from "wouter";
+import { useState, useMemo, useEffect } from "react";
+import { Link, useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useTranslation } from "react-i18next";
-import { SamplePrompt } from "@shared/schema";
+import { SamplePrompt, STORY_LANGUAGES, MAX_SEQUEL_REFERENCE_PAGES, MAX_SAVED_CHARACTERS_PER_BOOK, MIN_ILLUSTRATION_CANDIDATES, MAX_ILLUSTRATION_CANDIDATES, MAX_STYLE_REFERENCE_IMAGES, isStoryLanguage, type IllustrationStyle, type PricedBookLength, type SavedCharacter, type Storybook } from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { FileUpload } from "@/components/ui/file-upload";
 import { FileUploadWithDescriptions, FileWithDescription } from "@/components/ui/file-upload-with-descriptions";
 import { ProgressTracker } from "@/components/ui/progress-tracker";
 import Navigation from "@/components/navigation";
+import { languages } from "@/components/LanguageSwitcher";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { SEO } from "@/components/SEO";
 import { useRecaptcha } from "@/hooks/use-recaptcha";
+import { useAuth } from "@/hooks/useAuth";
 import {
   Dialog,
   DialogContent,
@@ -29,7 +32,8 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Info } from "lucide-react";
+import { findFieldValueError, previewPromptTemplate } from "@shared/promptTemplates";
+import { Info, BookPlus, Check, X } from "lucide-react";
 
 interface GenerationResponse {
   sessionId: string;
@@ -45,18 +49,32 @@ export default function Create() {
   const [retryCount, setRetryCount] = useState(0);
   const { toast } = useToast();
   const { executeRecaptcha } = useRecaptcha();
+  const { isAuthenticated } = useAuth();
+  // "Create sequel" in the library opens this page with the book to continue
+  const [sequelOf] = useState(() => new URLSearchParams(window.location.search).get('sequelOf'));
+  const [sequelPages, setSequelPages] = useState<number[]>([]);
+  const [savedCharacterIds, setSavedCharacterIds] = useState<string[]>([]);
+  // A templated sample prompt asks for its fields; the server assembles the final prompt from them
+  const [activeTemplate, setActiveTemplate] = useState<SamplePrompt | null>(null);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
 
   const createStorySchema = useMemo(() => z.object({
     prompt: z.string().min(10, t('common.validation.promptMinLength')),
     author: z.string().optional(),
     age: z.enum(["", "3-5", "6-8", "9-12"]).optional(),
-    illustrationStyle: z.string().default("vibrant and colorful children's book illustration"),
+    illustrationStyle: z.string().default(""), // Catalog style id, "custom", or "" for the default style
     customIllustrationStyle: z.string().optional(),
     foreword: z.string().max(500, "Foreword must be 500 characters or less").optional(),
     characterImages: z.array(z.object({
       file: z.instanceof(File),
       description: z.string(),
     })).min(0).max(5, t('common.validation.maxImagesExceeded')),
+    styleImages: z.array(z.instanceof(File)).max(MAX_STYLE_REFERENCE_IMAGES),
+    draftMode: z.boolean().default(false),
+    illustrationCandidates: z.string().default(""), // Options drawn per illustration, "" for one
+    bookLength: z.string().optional(),
+    language: z.enum(STORY_LANGUAGES),
+    secondaryLanguage: z.union([z.literal(""), z.enum(STORY_LANGUAGES)]).optional(),
   }).refine(
     (data) => {
       if (data.illustrationStyle === "custom") {
@@ -68,6 +86,12 @@ export default function Create() {
       message: "Please describe your custom illustration style",
       path: ["customIllustrationStyle"],
     }
+  ).refine(
+    (data) => data.secondaryLanguage !== data.language,
+    {
+      message: t('storybook.create.validation.secondaryLanguageSame'),
+      path: ["secondaryLanguage"],
+    }
   ), [i18n.language, t]);
 
   type CreateStoryForm = z.infer<typeof createStorySchema>;
@@ -80,21 +104,106 @@ export default function Create() {
       prompt: "",
       author: "",
       age: "",
-      illustrationStyle: "vibrant and colorful children's book illustration",
+      illustrationStyle: "",
       customIllustrationStyle: "",
       foreword: "",
       characterImages: [],
+      styleImages: [],
+      draftMode: false,
+      illustrationCandidates: "",
+      bookLength: "",
+      // Stories are written in the site's language unless the customer picks another (e.g. 'es-MX' -> 'es')
+      language: [i18n.language, i18n.language?.substring(0, 2)].find(isStoryLanguage) ?? "en",
+      secondaryLanguage: "",
     },
   });
 
+  const { data: previousBook } = useQuery<Storybook>({
+    queryKey: ['/api/storybooks', sequelOf],
+    enabled: !!sequelOf && isAuthenticated,
+  });
+
+  // A sequel starts from the previous book's author, reader age, languages and art style
+  useEffect(() => {
+    if (!previousBook) return;
+    form.reset({
+      ...form.getValues(),
+      author: previousBook.author || "",
+      age: previousBook.age === "3-5" || previousBook.age === "6-8" || previousBook.age === "9-12" ? previousBook.age : "",
+      illustrationStyle: previousBook.illustrationStyleId || (previousBook.artStyle ? "custom" : form.getValues("illustrationStyle")),
+      customIllustrationStyle: previousBook.artStyle || "",
+      language: previousBook.language,
+      secondaryLanguage: previousBook.secondaryLanguage || "",
+    });
+  }, [previousBook]);
+
+  const toggleSequelPage = (pageNumber: number) => {
+    setSequelPages(current => current.includes(pageNumber)
+      ? current.filter(p => p !== pageNumber)
+      : current.length < MAX_SEQUEL_REFERENCE_PAGES ? [...current, pageNumber] : current);
+  };
+
+  const { data: savedCharacters } = useQuery<SavedCharacter[]>({
+    queryKey: ['/api/characters'],
+    enabled: isAuthenticated,
+  });
+
+  const toggleSavedCharacter = (characterId: string) => {
+    setSavedCharacterIds(current => current.includes(characterId)
+      ? current.filter(id => id !== characterId)
+      : current.length < MAX_SAVED_CHARACTERS_PER_BOOK ? [...current, characterId] : current);
+  };
+
   const { data: samplePrompts } = useQuery<SamplePrompt[]>({
     queryKey: ["/api/sample-prompts"],
   });
 
-  const handlePromptClick = (prompt: string) => {
-    form.setValue("prompt", prompt);
+  const { data: illustrationStyles } = useQuery<IllustrationStyle[]>({
+    queryKey: ["/api/illustration-styles"],
+  });
+
+  // Styles restricted to other age groups are hidden once the reader's age is picked
+  const selectedAge = form.watch("age");
+  const availableStyles = useMemo(
+    () => (illustrationStyles || []).filter(style => !selectedAge || style.allowedAges.length === 0 || style.allowedAges.includes(selectedAge)),
+    [illustrationStyles, selectedAge]
+  );
+
+  // Start from the first style, and move off a style that the picked age no longer allows
+  useEffect(() => {
+    const current = form.getValues("illustrationStyle");
+    if (availableStyles.length > 0 && current !== "custom" && !availableStyles.some(style => style.id === current)) {
+      form.setValue("illustrationStyle", availableStyles[0].id);
+    }
+  }, [availableStyles]);
+
+  const { data: bookLengths } = useQuery<PricedBookLength[]>({
+    queryKey: ["/api/settings/book-lengths"],
+  });
+
+  const { data: candidateSettings } = useQuery<{ availableAtCreation: boolean }>({
+    queryKey: ["/api/settings/illustration-candidates"],
+    enabled: isAuthenticated,
+  });
+  const offerCandidates = isAuthenticated && !!candidateSettings?.availableAtCreation && !form.watch("draftMode");
+
+  const handlePromptClick = (samplePrompt: SamplePrompt) => {
+    if (samplePrompt.fields.length > 0) {
+      setActiveTemplate(samplePrompt);
+      setTemplateValues({});
+    } else {
+      setActiveTemplate(null);
+      form.setValue("prompt", samplePrompt.prompt);
+    }
   };
 
+  // The story idea box mirrors the template as it is filled in
+  useEffect(() => {
+    if (activeTemplate) {
+      form.setValue("prompt", previewPromptTemplate(activeTemplate.prompt, activeTemplate.fields, templateValues));
+    }
+  }, [activeTemplate, templateValues]);
+
   const createStoryMutation = useMutation({
     mutationFn: async (data: CreateStoryForm): Promise<GenerationResponse> => {
       const formData = new FormData();
@@ -105,20 +214,44 @@ export default function Create() {
       if (data.age) {
         formData.append("age", data.age);
       }
-      // Use custom illustration style if provided, otherwise use selected style
-      const finalIllustrationStyle = data.illustrationStyle === "custom" && data.customIllustrationStyle
-        ? data.customIllustrationStyle
-        : data.illustrationStyle;
-      formData.append("illustrationStyle", finalIllustrationStyle);
+      // A custom style is sent as text, a catalog style by id (the server resolves its prompt)
+      if (data.illustrationStyle === "custom" && data.customIllustrationStyle) {
+        formData.append("illustrationStyle", data.customIllustrationStyle);
+      } else if (data.illustrationStyle) {
+        formData.append("illustrationStyleId", data.illustrationStyle);
+      }
       if (data.foreword) {
         formData.append("foreword", data.foreword);
       }
+      if (data.draftMode) {
+        formData.append("draftMode", "true");
+      } else if (offerCandidates && data.illustrationCandidates) {
+        formData.append("illustrationCandidates", data.illustrationCandidates);
+      }
+      if (data.bookLength) {
+        formData.append("bookLength", data.bookLength);
+      }
+      formData.append("language", data.language);
+      if (data.secondaryLanguage) {
+        formData.append("secondaryLanguage", data.secondaryLanguage);
+      }
+      if (activeTemplate) {
+        formData.append("samplePromptId", activeTemplate.id);
+        formData.append("templateValues", JSON.stringify(templateValues));
+      }
+      if (previousBook) {
+        formData.append("sequelOf", previousBook.id);
+        sequelPages.forEach(pageNumber => formData.append("sequelPages", String(pageNumber)));
+      }
+      
+      savedCharacterIds.forEach(characterId => formData.append("savedCharacterIds", characterId));
       
       // Append character images and their descriptions
       data.characterImages.forEach((item, index) => {
         formData.append("images", item.file);
         formData.append(`characterDescriptions`, item.description);
       });
+      data.styleImages.forEach(file => formData.append("styleImages", file));
 
       // Get reCAPTCHA token for anonymous users
       try {
@@ -199,6 +332,13 @@ export default function Create() {
 
   const onSubmit = (data: CreateStoryForm) => {
     console.log('🔵 onSubmit called');
+    const templateError = activeTemplate?.fields
+      .map(field => findFieldValueError(field, (templateValues[field.key] || '').trim()))
+      .find(Boolean);
+    if (templateError) {
+      toast({ title: t('storybook.create.template.incomplete'), description: templateError, variant: "destructive" });
+      return;
+    }
     setLastFormData(data); // Save form data for retry
     setRetryCount(0); // Reset retry count on new submission
     
@@ -211,7 +351,8 @@ export default function Create() {
   const onGenerationComplete = (storybookId: string) => {
     setIsGenerating(false);
     setRetryCount(0); // Reset retry count on success
-    setLocation(`/view/${storybookId}`);
+    // Drafts open in the editor so the story can be reviewed before illustrating
+    setLocation(lastFormData?.draftMode ? `/draft/${storybookId}` : `/view/${storybookId}`);
   };
 
   const handleRetry = () => {
@@ -269,6 +410,42 @@ export default function Create() {
             <CardContent className="p-5 sm:p-6 lg:p-8">
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8 sm:space-y-8">
+                  {/* Sequel of an earlier book */}
+                  {previousBook && (
+                    <div className="space-y-3 rounded-2xl border-2 border-primary/30 bg-primary/5 p-4 sm:p-5" data-testid="panel-sequel">
+                      <h3 className="text-base sm:text-sm font-semibold flex items-center gap-2">
+                        <BookPlus className="w-4 h-4 text-primary" />
+                        {t('storybook.create.sequel.title', { title: previousBook.title })}
+                      </h3>
+                      <p className="text-sm text-muted-foreground">
+                        {t('storybook.create.sequel.description', { max: MAX_SEQUEL_REFERENCE_PAGES })}
+                      </p>
+                      <div className="grid grid-cols-4 sm:grid-cols-6 gap-2">
+                        {previousBook.pages.filter(page => page.imageUrl).map(page => {
+                          const selected = sequelPages.includes(page.pageNumber);
+                          return (
+                            <button
+                              key={page.pageNumber}
+                              type="button"
+                              onClick={() => toggleSequelPage(page.pageNumber)}
+                              className={`relative aspect-square overflow-hidden rounded-lg border-2 transition-all ${selected ? 'border-primary ring-2 ring-primary/40' : 'border-transparent opacity-80 hover:opacity-100'}`}
+                              aria-pressed={selected}
+                              aria-label={t('storybook.create.sequel.usePage', { page: page.pageNumber })}
+                              data-testid={`button-sequel-page-${page.pageNumber}`}
+                            >
+                              <img src={page.imageUrl} alt={t('storybook.create.sequel.pageAlt', { page: page.pageNumber })} className="w-full h-full object-cover" loading="lazy" />
+                              {selected && (
+                                <span className="absolute top-1 right-1 rounded-full bg-primary p-0.5 text-primary-foreground">
+                                  <Check className="w-3 h-3" />
+                                </span>
+                              )}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Sample Prompts */}
                   {samplePrompts && samplePrompts.length > 0 && (
                     <div className="space-y-3">
@@ -281,7 +458,7 @@ export default function Create() {
                           <button
                             key={samplePrompt.id}
                             type="button"
-                            onClick={() => handlePromptClick(samplePrompt.prompt)}
+                            onClick={() => handlePromptClick(samplePrompt)}
                             className="text-left p-5 sm:p-4 rounded-xl border-2 border-purple-200 dark:border-purple-900 bg-purple-50 dark:bg-purple-950/30 hover:border-purple-400 dark:hover:border-purple-700 hover:bg-purple-100 dark:hover:bg-purple-950/50 transition-all cursor-pointer active:scale-98 min-h-[80px] sm:min-h-0"
                             data-testid={`card-sample-prompt-${samplePrompt.id}`}
                           >
@@ -454,9 +631,64 @@ export default function Create() {
                             </DialogContent>
                           </Dialog>
                         </div>
+                        {activeTemplate && (
+                          <div className="space-y-3 rounded-2xl border-2 border-purple-200 dark:border-purple-900 bg-purple-50 dark:bg-purple-950/30 p-4" data-testid="panel-prompt-template">
+                            <div className="flex items-center justify-between gap-2">
+                              <h4 className="font-semibold text-purple-900 dark:text-purple-100">{activeTemplate.title}</h4>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setActiveTemplate(null)}
+                                data-testid="button-clear-template"
+                              >
+                                <X className="w-4 h-4 mr-1" />
+                                {t('storybook.create.template.writeOwn')}
+                              </Button>
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                              {activeTemplate.fields.map(templateField => (
+                                <div key={templateField.key} className="space-y-1">
+                                  <label htmlFor={`template-${templateField.key}`} className="text-sm font-medium">
+                                    {templateField.label}
+                                    {!templateField.required && <span className="ml-1 font-normal text-muted-foreground">{t('storybook.create.template.optional')}</span>}
+                                  </label>
+                                  {templateField.type === "select" ? (
+                                    <Select
+                                      value={templateValues[templateField.key] || ""}
+                                      onValueChange={(value) => setTemplateValues(current => ({ ...current, [templateField.key]: value }))}
+                                    >
+                                      <SelectTrigger id={`template-${templateField.key}`} className="rounded-2xl bg-background" data-testid={`select-template-${templateField.key}`}>
+                                        <SelectValue placeholder={templateField.placeholder || t('storybook.create.template.choose')} />
+                                      </SelectTrigger>
+                                      <SelectContent>
+                                        {(templateField.options || []).map(option => (
+                                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                  ) : (
+                                    <Input
+                                      id={`template-${templateField.key}`}
+                                      type={templateField.type === "number" ? "number" : "text"}
+                                      inputMode={templateField.type === "number" ? "numeric" : undefined}
+                                      value={templateValues[templateField.key] || ""}
+                                      onChange={(e) => setTemplateValues(current => ({ ...current, [templateField.key]: e.target.value }))}
+                                      maxLength={templateField.maxLength ?? 60}
+                                      placeholder={templateField.placeholder}
+                                      className="rounded-2xl bg-background"
+                                      data-testid={`input-template-${templateField.key}`}
+                                    />
+                                  )}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                         <FormControl>
                           <Textarea
                             {...field}
+                            readOnly={!!activeTemplate}
                             rows={8}
                             placeholder={t('storybook.create.storyIdea.placeholder')}
                             className="resize-none rounded-2xl text-base sm:text-sm"
@@ -507,31 +739,146 @@ export default function Create() {
                     )}
                   />
 
+                  {/* Story Language */}
+                  <FormField
+                    control={form.control}
+                    name="language"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-base sm:text-sm font-semibold flex items-center">
+                          <i className="fas fa-language text-primary mr-2"></i>
+                          {t('storybook.create.language.label')}
+                        </FormLabel>
+                        <FormControl>
+                          <select
+                            {...field}
+                            className="flex h-12 w-full items-center justify-between rounded-2xl border border-input bg-background px-4 py-3 text-base ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 md:h-10 md:px-3 md:py-2 md:text-sm"
+                            data-testid="select-language"
+                          >
+                            {languages.map(language => (
+                              <option key={language.code} value={language.code}>{language.name}</option>
+                            ))}
+                          </select>
+                        </FormControl>
+                        <div className="text-sm text-muted-foreground">
+                          <i className="fas fa-info-circle mr-1"></i>
+                          {t('storybook.create.language.helpText')}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Second language (bilingual book) */}
+                  <FormField
+                    control={form.control}
+                    name="secondaryLanguage"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-base sm:text-sm font-semibold flex items-center">
+                          <i className="fas fa-globe text-primary mr-2"></i>
+                          {t('storybook.create.secondaryLanguage.label')}
+                        </FormLabel>
+                        <FormControl>
+                          <select
+                            {...field}
+                            className="flex h-12 w-full items-center justify-between rounded-2xl border border-input bg-background px-4 py-3 text-base ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 md:h-10 md:px-3 md:py-2 md:text-sm"
+                            data-testid="select-secondary-language"
+                          >
+                            <option value="">{t('storybook.create.secondaryLanguage.none')}</option>
+                            {languages.filter(language => language.code !== form.watch("language")).map(language => (
+                              <option key={language.code} value={language.code}>{language.name}</option>
+                            ))}
+                          </select>
+                        </FormControl>
+                        <div className="text-sm text-muted-foreground">
+                          <i className="fas fa-info-circle mr-1"></i>
+                          {t('storybook.create.secondaryLanguage.helpText')}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Book Length */}
+                  {bookLengths && bookLengths.length > 1 && (
+                    <FormField
+                      control={form.control}
+                      name="bookLength"
+                      render={({ field }) => {
+                        // Without a pick the server uses the standard length
+                        const selectedId = field.value || (bookLengths.find(option => option.id === 'standard') ?? bookLengths[0]).id;
+                        return (
+                          <FormItem>
+                            <FormLabel className="text-base sm:text-sm font-semibold flex items-center">
+                              <i className="fas fa-book-open text-primary mr-2"></i>
+                              {t('storybook.create.bookLength.label')}
+                            </FormLabel>
+                            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2" role="radiogroup">
+                              {bookLengths.map(option => (
+                                <button
+                                  key={option.id}
+                                  type="button"
+                                  role="radio"
+                                  aria-checked={selectedId === option.id}
+                                  onClick={() => field.onChange(option.id)}
+                                  className={`rounded-2xl border p-3 text-left transition-colors ${selectedId === option.id ? 'border-primary bg-primary/10' : 'border-input hover:bg-muted'}`}
+                                  data-testid={`button-book-length-${option.id}`}
+                                >
+                                  <span className="block font-semibold text-sm">{option.label}</span>
+                                  <span className="block text-xs text-muted-foreground">
+                                    {t('storybook.create.bookLength.option', { pages: option.pages, price: `$${(option.digitalPrice / 100).toFixed(2)}` })}
+                                  </span>
+                                </button>
+                              ))}
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              <i className="fas fa-info-circle mr-1"></i>
+                              {t('storybook.create.bookLength.helpText')}
+                            </div>
+                            <FormMessage />
+                          </FormItem>
+                        );
+                      }}
+                    />
+                  )}
+
                   {/* Illustration Style */}
                   <div className="space-y-2">
                     <label className="text-base sm:text-sm font-semibold flex items-center">
                       <i className="fas fa-palette text-primary mr-2"></i>
                       Illustration Style
                     </label>
-                    <select
-                      className="flex h-12 w-full items-center justify-between rounded-2xl border border-input bg-background px-4 py-3 text-base ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 md:h-10 md:px-3 md:py-2 md:text-sm"
-                      value={form.watch("illustrationStyle")}
-                      onChange={(e) => form.setValue("illustrationStyle", e.target.value)}
-                      data-testid="select-illustration-style"
-                    >
-                      <option value="vibrant and colorful children's book illustration">Vibrant and colorful children's book illustration</option>
-                      <option value="watercolor illustration style with soft, dreamy colors and gentle blending">Watercolor Illustration</option>
-                      <option value="digital cartoon style with bold colors and clean lines">Digital Cartoon Style</option>
-                      <option value="3D digital art style with depth and dimensionality">3D Digital Art</option>
-                      <option value="vintage storybook style with classic, nostalgic aesthetic">Vintage Storybook</option>
-                      <option value="kawaii cute style with adorable characters and big eyes">Kawaii/Cute Style</option>
-                      <option value="comic book style with dynamic panels and bold outlines">Comic Book Style</option>
-                      <option value="pastel drawing style with gentle, chalk-like textures">Pastel Drawing</option>
-                      <option value="realistic illustration with photo-realistic, detailed artwork">Realistic Illustration</option>
-                      <option value="minimalist flat design with simple shapes and limited colors">Minimalist Flat Design</option>
-                      <option value="oil painting style with rich textures and classic artistic feel">Oil Painting Style</option>
-                      <option value="custom">Custom (describe your own style)</option>
-                    </select>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3" role="radiogroup" data-testid="picker-illustration-style">
+                      {[...availableStyles.map(style => ({ id: style.id, name: style.name, imageUrl: style.exampleImageUrl })), { id: "custom", name: "Custom (describe your own style)", imageUrl: null }].map(option => {
+                        const selected = form.watch("illustrationStyle") === option.id;
+                        return (
+                          <button
+                            key={option.id}
+                            type="button"
+                            role="radio"
+                            aria-checked={selected}
+                            onClick={() => form.setValue("illustrationStyle", option.id)}
+                            className={`relative flex flex-col overflow-hidden rounded-xl border-2 text-left transition-all ${selected ? 'border-primary ring-2 ring-primary/40' : 'border-border hover:border-primary/50'}`}
+                            data-testid={`button-illustration-style-${option.id}`}
+                          >
+                            <div className="aspect-[4/3] bg-muted flex items-center justify-center">
+                              {option.imageUrl ? (
+                                <img src={option.imageUrl} alt="" className="w-full h-full object-cover" loading="lazy" />
+                              ) : (
+                                <i className={`fas ${option.id === "custom" ? 'fa-pen-fancy' : 'fa-palette'} text-2xl text-muted-foreground`}></i>
+                              )}
+                            </div>
+                            <span className="px-2 py-1.5 text-sm font-medium leading-tight">{option.name}</span>
+                            {selected && (
+                              <span className="absolute top-1 right-1 rounded-full bg-primary p-0.5 text-primary-foreground">
+                                <Check className="w-3 h-3" />
+                              </span>
+                            )}
+                          </button>
+                        );
+                      })}
+                    </div>
                     
                     {/* Custom Illustration Style Input */}
                     {form.watch("illustrationStyle") === "custom" && (
@@ -657,6 +1004,139 @@ export default function Create() {
                     )}
                   />
 
+                  {/* Style references - pictures whose look the illustrations borrow, kept apart from the characters */}
+                  <FormField
+                    control={form.control}
+                    name="styleImages"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-base sm:text-sm font-semibold flex items-center">
+                          <i className="fas fa-palette text-primary mr-2"></i>
+                          {t('storybook.create.styleImages.label')}
+                          <span className="ml-auto text-muted-foreground font-normal text-xs sm:text-sm">{t('storybook.create.styleImages.count', { max: MAX_STYLE_REFERENCE_IMAGES })}</span>
+                        </FormLabel>
+                        <div className="text-sm text-muted-foreground mb-2">
+                          <i className="fas fa-info-circle mr-1"></i>
+                          {t('storybook.create.styleImages.helpText')}
+                        </div>
+                        <FormControl>
+                          <FileUpload
+                            value={field.value}
+                            onChange={field.onChange}
+                            accept="image/png,image/jpeg"
+                            maxFiles={MAX_STYLE_REFERENCE_IMAGES}
+                            maxSize={10 * 1024 * 1024} // 10MB
+                            data-testid="file-upload-style-images"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {/* Saved characters - reuse their photos and descriptions instead of uploading again */}
+                  {isAuthenticated && savedCharacters && (
+                    <div className="space-y-3" data-testid="panel-saved-characters">
+                      <h3 className="text-base sm:text-sm font-semibold flex items-center">
+                        <i className="fas fa-user-check text-secondary mr-2"></i>
+                        {t('storybook.create.savedCharacters.label')}
+                        <span className="ml-auto text-muted-foreground font-normal text-xs sm:text-sm">{t('storybook.create.savedCharacters.count', { max: MAX_SAVED_CHARACTERS_PER_BOOK })}</span>
+                      </h3>
+                      {savedCharacters.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                          {t('storybook.create.savedCharacters.empty')}{' '}
+                          <Link href="/characters" className="text-primary underline" data-testid="link-manage-characters">{t('storybook.create.savedCharacters.add')}</Link>
+                        </p>
+                      ) : (
+                        <div className="grid grid-cols-3 sm:grid-cols-4 gap-3">
+                          {savedCharacters.map(character => {
+                            const selected = savedCharacterIds.includes(character.id);
+                            const imageUrl = character.portraitUrl || character.photoUrls[0];
+                            return (
+                              <button
+                                key={character.id}
+                                type="button"
+                                onClick={() => toggleSavedCharacter(character.id)}
+                                className={`relative flex flex-col items-center gap-1 rounded-xl border-2 p-2 transition-all ${selected ? 'border-primary ring-2 ring-primary/40 bg-primary/5' : 'border-border opacity-80 hover:opacity-100'}`}
+                                aria-pressed={selected}
+                                data-testid={`button-saved-character-${character.id}`}
+                              >
+                                {imageUrl && (
+                                  <img src={imageUrl} alt={character.name} className="w-full aspect-square rounded-lg object-cover" loading="lazy" />
+                                )}
+                                <span className="text-sm font-medium truncate max-w-full">{character.name}</span>
+                                {selected && (
+                                  <span className="absolute top-1 right-1 rounded-full bg-primary p-0.5 text-primary-foreground">
+                                    <Check className="w-3 h-3" />
+                                  </span>
+                                )}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Draft Mode - review the text before any illustrations are made */}
+                  {isAuthenticated && (
+                    <FormField
+                      control={form.control}
+                      name="draftMode"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between gap-4 rounded-2xl border p-4">
+                          <div className="space-y-1">
+                            <FormLabel className="text-base sm:text-sm font-semibold flex items-center">
+                              <i className="fas fa-pen-to-square text-primary mr-2"></i>
+                              {t('storybook.create.draftMode.label')}
+                            </FormLabel>
+                            <FormDescription>
+                              {t('storybook.create.draftMode.description')}
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              data-testid="switch-draft-mode"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {/* Several options per illustration, picked later in the viewer */}
+                  {offerCandidates && (
+                    <FormField
+                      control={form.control}
+                      name="illustrationCandidates"
+                      render={({ field }) => (
+                        <FormItem className="rounded-2xl border p-4">
+                          <FormLabel className="text-base sm:text-sm font-semibold flex items-center">
+                            <i className="fas fa-images text-primary mr-2"></i>
+                            {t('storybook.create.candidates.label')}
+                          </FormLabel>
+                          <FormControl>
+                            <select
+                              {...field}
+                              className="flex h-12 w-full items-center justify-between rounded-2xl border border-input bg-background px-4 py-3 text-base ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 md:h-10 md:px-3 md:py-2 md:text-sm"
+                              data-testid="select-illustration-candidates"
+                            >
+                              <option value="">{t('storybook.create.candidates.one')}</option>
+                              {Array.from({ length: MAX_ILLUSTRATION_CANDIDATES - MIN_ILLUSTRATION_CANDIDATES + 1 }, (_, i) => MIN_ILLUSTRATION_CANDIDATES + i).map(count => (
+                                <option key={count} value={String(count)}>{t('storybook.create.candidates.many', { number: count })}</option>
+                              ))}
+                            </select>
+                          </FormControl>
+                          <FormDescription>
+                            {t('storybook.create.candidates.description')}
+                          </FormDescription>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
                   <Button 
                     type="submit" 
                     className="w-full py-4 sm:py-4 rounded-2xl font-bold text-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors shadow-lg min-h-[56px] sm:min-h-[48px] active:scale-98"
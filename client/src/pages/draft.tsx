@@ -0,0 +1,352 @@
+import { useParams, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+import Navigation from "@/components/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { ProgressTracker } from "@/components/ui/progress-tracker";
+import { SEO } from "@/components/SEO";
+import { PageReadingLevel } from "@/components/reading-level";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isReadabilityScored, type Storybook, type UpdateStorybookDraft } from "@shared/schema";
+import { Loader2, Save, Wand2 } from "lucide-react";
+
+type DraftForm = Required<Pick<UpdateStorybookDraft, 'title' | 'storyArc' | 'characters' | 'pages'>>;
+
+function toDraftForm(storybook: Storybook): DraftForm {
+  return {
+    title: storybook.title,
+    storyArc: storybook.storyArc || "",
+    characters: (storybook.characters || []).map(({ id, name, role, appearance, clothing }) => ({ id, name, role, appearance, clothing })),
+    pages: storybook.pages.map(({ pageNumber, text, imagePrompt }) => ({ pageNumber, text, imagePrompt })),
+  };
+}
+
+export default function Draft() {
+  const params = useParams();
+  const [, setLocation] = useLocation();
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const storybookId = params.id;
+  const [draft, setDraft] = useState<DraftForm | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+
+  const { data: storybook, isLoading, error } = useQuery<Storybook>({
+    queryKey: ['/api/storybooks', storybookId],
+    enabled: !!storybookId,
+    // Keep checking while another tab or an earlier visit is illustrating the book
+    refetchInterval: (query) => query.state.data?.status === 'illustrating' && !sessionId ? 5000 : false,
+  });
+
+  useEffect(() => {
+    if (!storybook) return;
+
+    // Finished books belong in the viewer
+    if (storybook.status === 'complete' && !sessionId) {
+      setLocation(`/view/${storybook.id}`);
+      return;
+    }
+
+    if (!isDirty) {
+      setDraft(toDraftForm(storybook));
+    }
+  }, [storybook]);
+
+  const updateDraft = (updater: (current: DraftForm) => DraftForm) => {
+    setDraft(current => current ? updater(current) : current);
+    setIsDirty(true);
+  };
+
+  const saveDraftMutation = useMutation({
+    mutationFn: async (data: DraftForm): Promise<Storybook> => {
+      const res = await apiRequest('PATCH', `/api/storybooks/${storybookId}/draft`, data);
+      return res.json();
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/storybooks', storybookId], updated);
+      setIsDirty(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('storybook.draft.toast.saveFailed.title'),
+        description: error.message || t('storybook.draft.toast.saveFailed.description'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const illustrateMutation = useMutation({
+    mutationFn: async (): Promise<{ sessionId: string; queuePosition: number }> => {
+      // Save pending edits first so the illustrations match what's on screen
+      if (draft && isDirty) {
+        await saveDraftMutation.mutateAsync(draft);
+      }
+      const res = await apiRequest('POST', `/api/storybooks/${storybookId}/illustrate`, {});
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setSessionId(data.sessionId);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('storybook.draft.toast.illustrateFailed.title'),
+        description: error.message || t('storybook.draft.toast.illustrateFailed.description'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (!draft) return;
+    saveDraftMutation.mutate(draft, {
+      onSuccess: () => {
+        toast({
+          title: t('storybook.draft.toast.saved.title'),
+          description: t('storybook.draft.toast.saved.description'),
+        });
+      },
+    });
+  };
+
+  const onIllustrationComplete = (completedId: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/storybooks'] });
+    setLocation(`/view/${completedId}`);
+  };
+
+  if (sessionId) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SEO
+          title="Illustrating Your Storybook - AI Storybook Builder"
+          description="Your reviewed story is being illustrated."
+          path={`/draft/${storybookId}`}
+        />
+        <Navigation />
+        <div className="py-20">
+          <ProgressTracker
+            sessionId={sessionId}
+            onComplete={onIllustrationComplete}
+            onRetry={() => {
+              setSessionId(null);
+              illustrateMutation.mutate();
+            }}
+            shouldAutoRetry={false}
+            data-testid="progress-tracker"
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading || (storybook && !draft)) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="flex items-center justify-center min-h-[50vh]">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !storybook || !draft) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navigation />
+        <div className="flex items-center justify-center min-h-[50vh]">
+          <Card className="max-w-md">
+            <CardContent className="p-6 text-center">
+              <i className="fas fa-exclamation-triangle text-4xl text-destructive mb-4"></i>
+              <h2 className="text-xl font-bold mb-2">{t('storybook.draft.notFound.title')}</h2>
+              <p className="text-muted-foreground mb-4">
+                {t('storybook.draft.notFound.description')}
+              </p>
+              <Button onClick={() => setLocation("/library")} data-testid="button-back-to-library">
+                {t('storybook.draft.notFound.button')}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const isIllustrating = storybook.status === 'illustrating';
+  const isBusy = saveDraftMutation.isPending || illustrateMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <SEO
+        title={`Review "${storybook.title}" - AI Storybook Builder`}
+        description="Review and edit your story before it is illustrated."
+        path={`/draft/${storybookId}`}
+      />
+      <Navigation />
+
+      <section className="py-8 sm:py-12">
+        <div className="max-w-4xl mx-auto px-3 sm:px-4 lg:px-8 space-y-6">
+          <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+            <div>
+              <h1 className="text-2xl sm:text-3xl font-bold">{t('storybook.draft.title')}</h1>
+              <p className="text-muted-foreground mt-1">
+                {t('storybook.draft.subtitle')}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={handleSave}
+                disabled={isBusy || isIllustrating || !isDirty}
+                data-testid="button-save-draft"
+              >
+                {saveDraftMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                {t('common.buttons.save')}
+              </Button>
+              <Button
+                onClick={() => illustrateMutation.mutate()}
+                disabled={isBusy || isIllustrating}
+                data-testid="button-illustrate"
+              >
+                {illustrateMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Wand2 className="w-4 h-4 mr-2" />}
+                {t('storybook.draft.illustrate')}
+              </Button>
+            </div>
+          </div>
+
+          {isIllustrating && (
+            <Card className="border-primary/40 bg-primary/5">
+              <CardContent className="p-4 flex items-center gap-3">
+                <Loader2 className="w-5 h-5 animate-spin text-primary" />
+                <p className="text-sm">{t('storybook.draft.illustrating')}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          <fieldset disabled={isIllustrating} className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{t('storybook.draft.story')}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="draft-title">{t('storybook.draft.storyTitle')}</Label>
+                  <Input
+                    id="draft-title"
+                    value={draft.title}
+                    maxLength={200}
+                    onChange={(e) => updateDraft(current => ({ ...current, title: e.target.value }))}
+                    data-testid="input-draft-title"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="draft-story-arc">{t('storybook.draft.storyArc')}</Label>
+                  <Textarea
+                    id="draft-story-arc"
+                    rows={3}
+                    value={draft.storyArc}
+                    onChange={(e) => updateDraft(current => ({ ...current, storyArc: e.target.value }))}
+                    className="resize-none"
+                    data-testid="input-draft-story-arc"
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            {draft.characters.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">{t('storybook.draft.characters')}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                  {draft.characters.map((character, index) => {
+                    const updateCharacter = (changes: Partial<typeof character>) =>
+                      updateDraft(current => ({
+                        ...current,
+                        characters: current.characters.map((c, i) => i === index ? { ...c, ...changes } : c),
+                      }));
+
+                    return (
+                      <div key={character.id} className="grid gap-3 sm:grid-cols-2 border-b last:border-b-0 pb-6 last:pb-0" data-testid={`draft-character-${character.id}`}>
+                        <div className="space-y-2">
+                          <Label>{t('storybook.draft.character.name')}</Label>
+                          <Input value={character.name} onChange={(e) => updateCharacter({ name: e.target.value })} />
+                        </div>
+                        <div className="space-y-2">
+                          <Label>{t('storybook.draft.character.role')}</Label>
+                          <Input value={character.role} onChange={(e) => updateCharacter({ role: e.target.value })} />
+                        </div>
+                        <div className="space-y-2 sm:col-span-2">
+                          <Label>{t('storybook.draft.character.appearance')}</Label>
+                          <Textarea
+                            rows={2}
+                            value={character.appearance}
+                            onChange={(e) => updateCharacter({ appearance: e.target.value })}
+                            className="resize-none"
+                          />
+                        </div>
+                        <div className="space-y-2 sm:col-span-2">
+                          <Label>{t('storybook.draft.character.clothing')}</Label>
+                          <Input value={character.clothing} onChange={(e) => updateCharacter({ clothing: e.target.value })} />
+                        </div>
+                      </div>
+                    );
+                  })}
+                </CardContent>
+              </Card>
+            )}
+
+            {draft.pages.map((page, index) => {
+              const updatePage = (changes: Partial<typeof page>) =>
+                updateDraft(current => ({
+                  ...current,
+                  pages: current.pages.map((p, i) => i === index ? { ...p, ...changes } : p),
+                }));
+              // Scored when the draft was last saved
+              const pageReadability = isReadabilityScored(storybook?.language)
+                ? storybook?.readability?.pages.find(p => p.pageNumber === page.pageNumber)
+                : undefined;
+
+              return (
+                <Card key={page.pageNumber} data-testid={`draft-page-${page.pageNumber}`}>
+                  <CardHeader>
+                    <CardTitle className="text-lg">{t('storybook.draft.page', { page: page.pageNumber })}</CardTitle>
+                    {pageReadability && <PageReadingLevel page={pageReadability} />}
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label>{t('storybook.draft.pageText')}</Label>
+                      <Textarea
+                        rows={6}
+                        value={page.text}
+                        onChange={(e) => updatePage({ text: e.target.value })}
+                        className="resize-none"
+                        data-testid={`input-page-text-${page.pageNumber}`}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>{t('storybook.draft.scene')}</Label>
+                      <Textarea
+                        rows={3}
+                        value={page.imagePrompt}
+                        onChange={(e) => updatePage({ imagePrompt: e.target.value })}
+                        className="resize-none"
+                        data-testid={`input-page-scene-${page.pageNumber}`}
+                      />
+                      <p className="text-xs text-muted-foreground">{t('storybook.draft.sceneHelp')}</p>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </fieldset>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -5,8 +5,9 @@ import { Helmet } from "react-helmet-async";
 import Navigation from "@/components/navigation";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Star, Eye, Share2, ChevronLeft, ChevronRight, Bookmark } from "lucide-react";
+import { Star, Eye, Share2, ChevronLeft, ChevronRight, Bookmark, Search } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -33,13 +34,19 @@ interface GalleryResponse {
 export default function Gallery() {
   const [, setLocation] = useLocation();
   const [page, setPage] = useState(1);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
   const { user } = useAuth();
   const { toast } = useToast();
 
   const { data, isLoading } = useQuery<GalleryResponse>({
-    queryKey: ['/api/gallery', page],
+    queryKey: ['/api/gallery', page, search],
     queryFn: async () => {
-      const response = await fetch(`/api/gallery?page=${page}`);
+      const params = new URLSearchParams({ page: String(page) });
+      if (search) {
+        params.set('q', search);
+      }
+      const response = await fetch(`/api/gallery?${params}`);
       if (!response.ok) {
         throw new Error('Failed to fetch gallery');
       }
@@ -102,6 +109,12 @@ export default function Gallery() {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+    setPage(1);
+  };
+
   const handleToggleSave = (e: React.MouseEvent, storybookId: string, isSaved: boolean) => {
     e.stopPropagation(); // Prevent card click
     
@@ -139,6 +152,19 @@ export default function Gallery() {
             <p className="text-lg text-muted-foreground max-w-2xl mx-auto">
               Discover amazing AI-generated storybooks created by our community
             </p>
+            <form onSubmit={handleSearch} className="mt-6 max-w-md mx-auto flex gap-2">
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                maxLength={100}
+                placeholder="Search for dragons, the seaside, bedtime..."
+                aria-label="Search storybooks"
+                data-testid="input-gallery-search"
+              />
+              <Button type="submit" variant="outline" data-testid="button-gallery-search">
+                <Search className="h-4 w-4" />
+              </Button>
+            </form>
           </div>
 
           {/* Gallery Grid */}
@@ -298,13 +324,35 @@ export default function Gallery() {
           ) : (
             <div className="text-center py-20">
               <div className="max-w-md mx-auto">
-                <h3 className="text-xl font-semibold mb-2">No public storybooks yet</h3>
-                <p className="text-muted-foreground mb-6">
-                  Be the first to share your creative storybook with the community!
-                </p>
-                <Button onClick={() => setLocation("/create")} data-testid="button-create-first">
-                  Create Your First Storybook
-                </Button>
+                {search ? (
+                  <>
+                    <h3 className="text-xl font-semibold mb-2">No storybooks match "{search}"</h3>
+                    <p className="text-muted-foreground mb-6">
+                      Try another place, object or mood.
+                    </p>
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setSearchInput("");
+                        setSearch("");
+                        setPage(1);
+                      }}
+                      data-testid="button-clear-search"
+                    >
+                      Show all storybooks
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <h3 className="text-xl font-semibold mb-2">No public storybooks yet</h3>
+                    <p className="text-muted-foreground mb-6">
+                      Be the first to share your creative storybook with the community!
+                    </p>
+                    <Button onClick={() => setLocation("/create")} data-testid="button-create-first">
+                      Create Your First Storybook
+                    </Button>
+                  </>
+                )}
               </div>
             </div>
           )}
@@ -7,7 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { BookOpen, Calendar, Plus, Trash2, ShoppingCart, Check, X, Download, Loader2, CreditCard, Bookmark, BookmarkX } from "lucide-react";
+import { BookOpen, BookPlus, Calendar, Plus, Trash2, ShoppingCart, Check, X, Download, Loader2, CreditCard, Bookmark, BookmarkX } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import {
   AlertDialog,
@@ -32,6 +32,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { getAllBookSizes, getBookSizesByOrientation } from "@shared/bookSizes";
+import type { StorybookStatus, StoryLanguage } from "@shared/schema";
+import { languages } from "@/components/LanguageSwitcher";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -73,6 +75,11 @@ interface Storybook {
   shareUrl: string | null;
   orientation?: 'portrait' | 'landscape';
   coverImageUrl?: string;
+  status: StorybookStatus;
+  language: StoryLanguage;
+  sourceStorybookId: string | null;
+  seriesId: string | null;
+  seriesNumber: number | null;
 }
 
 interface CheckoutPaymentFormProps {
@@ -1171,6 +1178,38 @@ function StorybookPurchaseButtons({
   );
 }
 
+// Translated editions sit right after their original book (editions oldest first)
+function groupEditions(books: Storybook[]): Array<Storybook & { editionCount: number }> {
+  const ids = new Set(books.map(book => book.id));
+  const groups = new Map<string, Storybook[]>();
+  for (const book of books) {
+    const groupId = book.sourceStorybookId && ids.has(book.sourceStorybookId) ? book.sourceStorybookId : book.id;
+    groups.set(groupId, [...(groups.get(groupId) || []), book]);
+  }
+  return Array.from(groups.entries()).flatMap(([groupId, group]) => {
+    const original = group.find(book => book.id === groupId)!;
+    const editions = group.filter(book => book.id !== groupId).reverse();
+    return [original, ...editions].map(book => ({ ...book, editionCount: group.length }));
+  });
+}
+
+// Keep the books of a series together, in reading order, where the newest of them would be
+function groupSeries(books: Storybook[]): Storybook[] {
+  const series = new Map<string, Storybook[]>();
+  for (const book of books) {
+    const key = book.seriesId || book.id;
+    series.set(key, [...(series.get(key) || []), book]);
+  }
+  return Array.from(series.values()).flatMap(group =>
+    [...group].sort((a, b) => (a.seriesNumber || 0) - (b.seriesNumber || 0))
+  );
+}
+
+// Drafts open in the draft editor until they have been illustrated
+function storybookHref(storybook: Storybook): string {
+  return storybook.status === 'complete' ? `/view/${storybook.id}` : `/draft/${storybook.id}`;
+}
+
 export default function Library() {
   const { t } = useTranslation();
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
@@ -1188,7 +1227,7 @@ export default function Library() {
   });
 
   // Combine owned and saved storybooks for count
-  const storybooks = ownedStorybooks || [];
+  const storybooks = groupEditions(groupSeries(ownedStorybooks || []));
   const saved = savedStorybooks || [];
   const totalCount = storybooks.length + saved.length;
   const isLoading = ownedLoading || savedLoading;
@@ -1395,7 +1434,7 @@ export default function Library() {
                       className="overflow-hidden hover:shadow-lg transition-all duration-300 active:scale-[0.98] cursor-pointer group touch-manipulation"
                       data-testid={`card-storybook-${storybook.id}`}
                     >
-                      <Link href={`/view/${storybook.id}`}>
+                      <Link href={storybookHref(storybook)}>
                         <div className="relative aspect-[3/4] bg-gradient-to-br from-primary/20 to-secondary/20 overflow-hidden">
                           {storybook.coverImageUrl ? (
                             <img 
@@ -1410,6 +1449,23 @@ export default function Library() {
                               <BookOpen className="h-16 w-16 text-muted-foreground" />
                             </div>
                           )}
+                          {storybook.status !== 'complete' && (
+                            <Badge className="absolute top-2 left-2 shadow-lg" data-testid={`badge-draft-${storybook.id}`}>
+                              {t(storybook.status === 'illustrating' ? 'storybook.library.badges.illustrating' : 'storybook.library.badges.draft')}
+                            </Badge>
+                          )}
+                          {storybook.seriesNumber && (
+                            <Badge variant="secondary" className="absolute bottom-2 left-2 shadow-lg" data-testid={`badge-series-${storybook.id}`}>
+                              {t('storybook.library.badges.series', { number: storybook.seriesNumber })}
+                            </Badge>
+                          )}
+                          {storybook.editionCount > 1 && (
+                            <Badge variant="secondary" className="absolute top-2 right-2 shadow-lg" data-testid={`badge-edition-${storybook.id}`}>
+                              {t(storybook.sourceStorybookId ? 'storybook.library.badges.edition' : 'storybook.library.badges.original', {
+                                language: languages.find(language => language.code === storybook.language)?.name || storybook.language,
+                              })}
+                            </Badge>
+                          )}
                         </div>
                       </Link>
                       
@@ -1436,19 +1492,35 @@ export default function Library() {
                             {formatDistanceToNow(new Date(storybook.createdAt), { addSuffix: true })}
                           </span>
                         </div>
-                        <StorybookPurchaseButtons 
-                          storybook={storybook} 
-                          digitalOwned={digitalOwnership?.[storybook.id] || false}
-                          printOwned={printOwnership?.[storybook.id] || false}
-                        />
+                        {storybook.status === 'complete' && (
+                          <StorybookPurchaseButtons 
+                            storybook={storybook} 
+                            digitalOwned={digitalOwnership?.[storybook.id] || false}
+                            printOwned={printOwnership?.[storybook.id] || false}
+                          />
+                        )}
                       </CardContent>
                       
                       <CardFooter className="flex items-center justify-between gap-2 px-3 sm:px-6 pt-3 pb-3 sm:pb-6">
-                        <Link href={`/view/${storybook.id}`} className="flex-1">
+                        <Link href={storybookHref(storybook)} className="flex-1">
                           <Button variant="outline" size="default" className="w-full text-sm font-medium hover:bg-accent transition-colors" data-testid={`button-view-${storybook.id}`}>
-                            {t('common.buttons.view')}
+                            {storybook.status === 'complete' ? t('common.buttons.view') : t('storybook.library.continueEditing')}
                           </Button>
                         </Link>
+                        {storybook.status === 'complete' && (
+                          <Link href={`/create?sequelOf=${storybook.id}`}>
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              className="shrink-0"
+                              title={t('storybook.library.sequel.title')}
+                              aria-label={t('storybook.library.sequel.label', { title: storybook.title })}
+                              data-testid={`button-sequel-${storybook.id}`}
+                            >
+                              <BookPlus className="h-5 w-5 md:h-4 md:w-4" />
+                            </Button>
+                          </Link>
+                        )}
                         <Button
                           variant="destructive"
                           size="icon"
@@ -15,6 +15,7 @@ import { format, subMonths, subYears, subDays, isWithinInterval, startOfYear, en
 import { SEO } from "@/components/SEO";
 import { type Purchase, type Storybook } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { useBookPricing } from "@/hooks/use-book-pricing";
 import { addToCart } from "@/lib/cartUtils";
 
 interface PrintOrderItem {
@@ -323,14 +324,9 @@ function DigitalPurchaseCard({ purchase }: { purchase: PurchaseWithStorybook })
   const [downloadingPdf, setDownloadingPdf] = useState(false);
   const [copied, setCopied] = useState(false);
 
-  // Fetch pricing settings
-  const { data: pricingSettings } = useQuery<{ digital_price: string; print_price: string }>({
-    queryKey: ['/api/settings/pricing'],
-    staleTime: 5 * 60 * 1000,
-  });
-
-  const digitalPrice = pricingSettings?.digital_price ? parseInt(pricingSettings.digital_price) : 399;
-  const printPrice = pricingSettings?.print_price ? parseInt(pricingSettings.print_price) : 2499;
+  // Prices for this book's length
+  const { getBookPrices } = useBookPricing();
+  const { digitalPrice, printPrice } = getBookPrices(purchase.storybook);
 
   const downloadEpub = async () => {
     if (!purchase.storybook) return;
@@ -10,6 +10,7 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useBookPricing } from "@/hooks/use-book-pricing";
 import { clearCart, addToCart, isInCart } from "@/lib/cartUtils";
 import { type Purchase, type Storybook } from "@shared/schema";
 import { Download, Package, Mail, BookOpen, ShoppingCart, Sparkles } from "lucide-react";
@@ -79,19 +80,8 @@ export default function Purchases() {
     enabled: !!purchases && purchases.length > 0,
   });
 
-  // Fetch pricing settings from public endpoint
-  const { data: pricingSettings } = useQuery<{ digital_price: string; print_price: string }>({
-    queryKey: ['/api/settings/pricing'],
-    staleTime: 5 * 60 * 1000, // Cache for 5 minutes - pricing rarely changes
-  });
-
-  // Get prices from settings with fallback defaults
-  const digitalPrice = pricingSettings?.digital_price 
-    ? parseInt(pricingSettings.digital_price) 
-    : 399;
-  const printPrice = pricingSettings?.print_price 
-    ? parseInt(pricingSettings.print_price) 
-    : 2499;
+  // Prices depend on each book's length
+  const { getBookPrices } = useBookPricing();
 
   // Handle success redirect from Stripe
   useEffect(() => {
@@ -217,7 +207,8 @@ export default function Purchases() {
     return type === 'digital' ? <Download className="h-4 w-4" /> : <Package className="h-4 w-4" />;
   };
 
-  const handleUpgradeToPrint = (storybookId: string, title: string) => {
+  const handleUpgradeToPrint = (storybookId: string, title: string, storybook?: Storybook) => {
+    const { digitalPrice, printPrice } = getBookPrices(storybook);
     const upgradedPrice = Math.max(0, printPrice - digitalPrice);
     
     addToCart({
@@ -314,6 +305,7 @@ export default function Purchases() {
             {Object.entries(groupedPurchases).map(([storybookId, storybookPurchases]) => {
               const firstPurchase = storybookPurchases[0];
               const storybook = firstPurchase.storybook;
+              const { digitalPrice, printPrice } = getBookPrices(storybook);
               
               return (
                 <Card key={storybookId} className="overflow-hidden">
@@ -449,7 +441,7 @@ export default function Purchases() {
                               </div>
                             </div>
                             <Button
-                              onClick={() => handleUpgradeToPrint(storybookId, storybook?.title || 'Untitled Storybook')}
+                              onClick={() => handleUpgradeToPrint(storybookId, storybook?.title || 'Untitled Storybook', storybook)}
                               disabled={isInCart(storybookId, 'print')}
                               size="lg"
                               className="gradient-bg !text-[hsl(258,90%,20%)] shadow-lg hover:scale-105 transition-all"
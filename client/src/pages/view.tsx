@@ -9,30 +9,33 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Textarea } from "@/components/ui/textarea";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
   Dialog,
   DialogContent,
   DialogDescription,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
-import { type Storybook } from "@shared/schema";
-import { ShoppingCart, Star, Share2, Info, Edit2 } from "lucide-react";
+import { useBookPricing } from "@/hooks/use-book-pricing";
+import { isReadabilityScored, type Storybook, type PageRegenerationMode } from "@shared/schema";
+import { ShoppingCart, Star, Share2, Info, Edit2, Layers, Languages, Globe, Users, Images, ImageUp } from "lucide-react";
 import { addToCart } from "@/lib/cartUtils";
 import { useAuth } from "@/hooks/useAuth";
 import { RatingDialog } from "@/components/rating-dialog";
 import { ShareDialog } from "@/components/share-dialog";
+import { PageHistoryDialog } from "@/components/page-history-dialog";
+import { EditPictureDialog } from "@/components/edit-picture-dialog";
+import { ManagePagesDialog } from "@/components/manage-pages-dialog";
+import { TranslateDialog } from "@/components/translate-dialog";
+import { BilingualDialog } from "@/components/bilingual-dialog";
+import { CharacterSheetDialog } from "@/components/character-sheet-dialog";
+import { IllustrationOptionsDialog } from "@/components/illustration-options-dialog";
+import { ArtworkUploadDialog } from "@/components/artwork-upload-dialog";
+import { ReadingLevelSummary } from "@/components/reading-level";
 import { AudioControls } from "@/components/audio-controls";
 import { audioManager } from "@/lib/audioManager";
 import { EmailVerificationDialog } from "@/components/email-verification-dialog";
@@ -52,6 +55,16 @@ export default function View() {
   const [regenerateDialogOpen, setRegenerateDialogOpen] = useState(false);
   const [infoDialogOpen, setInfoDialogOpen] = useState(false);
   const [pageToRegenerate, setPageToRegenerate] = useState<number | null>(null);
+  const [regenerateMode, setRegenerateMode] = useState<PageRegenerationMode>('both');
+  const [regenerateInstruction, setRegenerateInstruction] = useState("");
+  const [historyPageNumber, setHistoryPageNumber] = useState<number | null>(null);
+  const [editPicturePageNumber, setEditPicturePageNumber] = useState<number | null>(null);
+  const [managePagesOpen, setManagePagesOpen] = useState(false);
+  const [translateOpen, setTranslateOpen] = useState(false);
+  const [bilingualOpen, setBilingualOpen] = useState(false);
+  const [characterSheetOpen, setCharacterSheetOpen] = useState(false);
+  const [illustrationOptionsOpen, setIllustrationOptionsOpen] = useState(false);
+  const [artworkUploadOpen, setArtworkUploadOpen] = useState(false);
   const [currentPageNumber, setCurrentPageNumber] = useState(0);
   const [audioInitialized, setAudioInitialized] = useState(false);
   const [emailVerificationOpen, setEmailVerificationOpen] = useState(false);
@@ -72,6 +85,13 @@ export default function View() {
     enabled: !!(storybookId || sharedUrl),
   });
 
+  // Drafts have no illustrations yet - send the owner to the draft editor
+  useEffect(() => {
+    if (storybook && storybookId && storybook.status !== 'complete') {
+      setLocation(`/draft/${storybookId}`);
+    }
+  }, [storybook, storybookId]);
+
   // Combined purchase check - optimized to reduce API calls from 2 to 1
   const { data: purchaseStatus } = useQuery<{ digital: boolean; print: boolean }>({
     queryKey: ['/api/purchases/check-combined', storybookId],
@@ -93,32 +113,34 @@ export default function View() {
     enabled: !!storybookId,
   });
 
-  const { data: pricing } = useQuery<{ digital_price: string; print_price: string }>({
-    queryKey: ['/api/settings/pricing'],
-    staleTime: 5 * 60 * 1000, // Cache for 5 minutes - pricing rarely changes
-  });
+  const { isLoaded: pricingLoaded, getBookPrices } = useBookPricing();
+  const { digitalPrice, printPrice } = getBookPrices(storybook);
 
   // Regenerate page mutation
   const regeneratePageMutation = useMutation({
-    mutationFn: async (pageNumber: number) => {
+    mutationFn: async ({ pageNumber, mode, instruction }: { pageNumber: number; mode: PageRegenerationMode; instruction: string }) => {
       if (!storybookId) throw new Error('No storybook ID');
-      const res = await apiRequest('POST', `/api/storybooks/${storybookId}/regenerate-page`, { pageNumber });
+      const res = await apiRequest('POST', `/api/storybooks/${storybookId}/regenerate-page`, {
+        pageNumber,
+        mode,
+        instruction: instruction.trim() || undefined,
+      });
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, { mode }) => {
       // Invalidate and refetch the storybook
       queryClient.invalidateQueries({ queryKey: ['/api/storybooks', storybookId] });
       toast({
-        title: "Page regenerated successfully!",
-        description: "The page has been updated with new content.",
+        title: t('storybook.viewer.regenerate.toast.success'),
+        description: t(`storybook.viewer.regenerate.toast.${mode}`),
       });
       setRegenerateDialogOpen(false);
       setPageToRegenerate(null);
     },
     onError: (error: Error) => {
       toast({
-        title: "Failed to regenerate page",
-        description: error.message || "An error occurred while regenerating the page.",
+        title: t('storybook.viewer.regenerate.toast.failed'),
+        description: error.message || t('storybook.viewer.regenerate.toast.failedDescription'),
         variant: "destructive",
       });
       setRegenerateDialogOpen(false);
@@ -126,14 +148,21 @@ export default function View() {
     },
   });
 
+  // Pages with the owner's own picture only have their text rewritten
+  const regeneratingUserSuppliedPage = !!storybook?.pages.find(p => p.pageNumber === pageToRegenerate)?.userSupplied;
+
   const handleRegeneratePage = (pageNumber: number) => {
     setPageToRegenerate(pageNumber);
+    setRegenerateMode(storybook?.pages.find(p => p.pageNumber === pageNumber)?.userSupplied ? 'text' : 'both');
+    setRegenerateInstruction("");
     setRegenerateDialogOpen(true);
   };
 
   const confirmRegenerate = () => {
     if (pageToRegenerate !== null) {
-      regeneratePageMutation.mutate(pageToRegenerate);
+      regeneratePageMutation.mutate({ pageNumber: pageToRegenerate, mode: regenerateMode, instruction: regenerateInstruction });
+      // The flipbook shows progress on the page itself
+      setRegenerateDialogOpen(false);
     }
   };
 
@@ -274,9 +303,9 @@ export default function View() {
   // useEffect(() => {
   //   if (!audioInitialized || !storybook || currentPageNumber < 0) return;
   //   const currentPage = storybook.pages[currentPageNumber];
-  //   const mood = currentPage?.mood || 'calm';
+  //   const mood = moodForEmotionalTone(currentPage?.scene?.emotionalTone);
   //   console.log(`📖 Page ${currentPageNumber}: mood = ${mood}`);
-  //   audioManager.crossfadeTo(mood as any, 2);
+  //   audioManager.crossfadeTo(mood, 2);
   // }, [currentPageNumber, storybook, audioInitialized]);
 
   // Handle page change with sound effect
@@ -394,19 +423,19 @@ export default function View() {
   };
 
   const handleDirectDigitalCheckout = () => {
-    if (!storybook || !pricing) return;
+    if (!storybook || !pricingLoaded) return;
     setCheckoutType('digital');
     setCheckoutDialogOpen(true);
   };
 
   const handleDirectPrintCheckout = () => {
-    if (!storybook || !pricing) return;
+    if (!storybook || !pricingLoaded) return;
     setCheckoutType('print');
     setCheckoutDialogOpen(true);
   };
 
   const handleAddToCart = async () => {
-    if (!storybook || !pricing) return;
+    if (!storybook || !pricingLoaded) return;
     
     // Determine what to add based on ownership
     // If they own digital, add print; otherwise add digital
@@ -564,6 +593,78 @@ export default function View() {
                   </Button>
                 )}
 
+                {isOwner && (
+                  <Button 
+                    variant="outline" 
+                    className="rounded-xl whitespace-nowrap min-h-[48px] md:min-h-0" 
+                    onClick={() => setManagePagesOpen(true)}
+                    data-testid="button-manage-pages"
+                  >
+                    <Layers className="h-4 w-4 mr-2" />
+                    <span className="text-sm md:text-base">{t('storybook.viewer.owner.pages')}</span>
+                  </Button>
+                )}
+
+                {isOwner && (
+                  <Button 
+                    variant="outline" 
+                    className="rounded-xl whitespace-nowrap min-h-[48px] md:min-h-0" 
+                    onClick={() => setTranslateOpen(true)}
+                    data-testid="button-translate"
+                  >
+                    <Languages className="h-4 w-4 mr-2" />
+                    <span className="text-sm md:text-base">{t('storybook.viewer.owner.translate')}</span>
+                  </Button>
+                )}
+
+                {isOwner && (
+                  <Button 
+                    variant="outline" 
+                    className="rounded-xl whitespace-nowrap min-h-[48px] md:min-h-0" 
+                    onClick={() => setBilingualOpen(true)}
+                    data-testid="button-bilingual"
+                  >
+                    <Globe className="h-4 w-4 mr-2" />
+                    <span className="text-sm md:text-base">{t('storybook.viewer.owner.bilingual')}</span>
+                  </Button>
+                )}
+
+                {isOwner && (
+                  <Button 
+                    variant="outline" 
+                    className="rounded-xl whitespace-nowrap min-h-[48px] md:min-h-0" 
+                    onClick={() => setCharacterSheetOpen(true)}
+                    data-testid="button-character-sheet"
+                  >
+                    <Users className="h-4 w-4 mr-2" />
+                    <span className="text-sm md:text-base">{t('storybook.viewer.owner.characters')}</span>
+                  </Button>
+                )}
+
+                {isOwner && (
+                  <Button 
+                    variant="outline" 
+                    className="rounded-xl whitespace-nowrap min-h-[48px] md:min-h-0" 
+                    onClick={() => setIllustrationOptionsOpen(true)}
+                    data-testid="button-illustration-options"
+                  >
+                    <Images className="h-4 w-4 mr-2" />
+                    <span className="text-sm md:text-base">{t('storybook.viewer.owner.options')}</span>
+                  </Button>
+                )}
+
+                {isOwner && (
+                  <Button 
+                    variant="outline" 
+                    className="rounded-xl whitespace-nowrap min-h-[48px] md:min-h-0" 
+                    onClick={() => setArtworkUploadOpen(true)}
+                    data-testid="button-upload-artwork"
+                  >
+                    <ImageUp className="h-4 w-4 mr-2" />
+                    <span className="text-sm md:text-base">{t('storybook.viewer.owner.artwork')}</span>
+                  </Button>
+                )}
+
                 {isAuthenticated && !storybook?.userId && (
                   <Button 
                     variant="default" 
@@ -601,12 +702,12 @@ export default function View() {
                     variant="default" 
                     className="rounded-xl gradient-bg !text-[hsl(258,90%,20%)] whitespace-nowrap min-h-[48px] md:min-h-0" 
                     onClick={handleDirectDigitalCheckout}
-                    disabled={!pricing}
+                    disabled={!pricingLoaded}
                     data-testid="button-buy-ebook-direct"
                   >
                     <i className="fas fa-book mr-2"></i>
                     <span className="text-sm md:text-base font-semibold">
-                      Buy ${pricing ? (parseInt(pricing.digital_price) / 100).toFixed(2) : '3.99'}
+                      Buy ${(digitalPrice / 100).toFixed(2)}
                     </span>
                   </Button>
                 )}
@@ -617,12 +718,12 @@ export default function View() {
                     variant="default" 
                     className="rounded-xl gradient-bg !text-[hsl(258,90%,20%)] whitespace-nowrap min-h-[48px] md:min-h-0" 
                     onClick={handleDirectPrintCheckout}
-                    disabled={!pricing}
+                    disabled={!pricingLoaded}
                     data-testid="button-buy-print-direct"
                   >
                     <i className="fas fa-print mr-2"></i>
                     <span className="text-sm md:text-base font-semibold">
-                      Print ${pricing ? (parseInt(pricing.print_price) / 100).toFixed(2) : '29.99'}
+                      Print ${(printPrice / 100).toFixed(2)}
                     </span>
                   </Button>
                 )}
@@ -633,7 +734,7 @@ export default function View() {
                     variant="outline" 
                     className="rounded-xl whitespace-nowrap min-h-[48px] md:min-h-0" 
                     onClick={handleAddToCart}
-                    disabled={!pricing}
+                    disabled={!pricingLoaded}
                     data-testid="button-add-to-cart"
                   >
                     <ShoppingCart className="h-4 w-4 mr-2" />
@@ -655,41 +756,86 @@ export default function View() {
               foreword={storybook.foreword || undefined}
               isOwner={isAuthenticated && user?.id === storybook.userId}
               onRegeneratePage={handleRegeneratePage}
+              onShowPageHistory={setHistoryPageNumber}
+              onEditPageImage={setEditPicturePageNumber}
               regeneratingPageNumber={regeneratePageMutation.isPending ? pageToRegenerate : null}
               onPageChange={handlePageChange}
               orientation={(storybook.orientation as 'portrait' | 'landscape') || 'portrait'}
             />
           </div>
 
-          {/* Regenerate Page Confirmation Dialog - Mobile Optimized */}
-          <AlertDialog open={regenerateDialogOpen} onOpenChange={setRegenerateDialogOpen}>
-            <AlertDialogContent className="max-w-[95vw] md:max-w-[500px] rounded-xl" data-testid="dialog-regenerate-confirm">
-              <AlertDialogHeader>
-                <AlertDialogTitle className="text-lg md:text-xl">
-                  Regenerate Page {pageToRegenerate}?
-                </AlertDialogTitle>
-                <AlertDialogDescription className="text-sm md:text-base">
-                  This will replace the current page with new AI-generated content. The current text and image will be permanently replaced.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter className="flex-col sm:flex-row gap-2">
-                <AlertDialogCancel 
+          {/* Regenerate Page Dialog - Mobile Optimized */}
+          <Dialog open={regenerateDialogOpen} onOpenChange={(open) => !regeneratePageMutation.isPending && setRegenerateDialogOpen(open)}>
+            <DialogContent className="max-w-[95vw] md:max-w-[500px] rounded-xl" data-testid="dialog-regenerate-confirm">
+              <DialogHeader>
+                <DialogTitle className="text-lg md:text-xl">
+                  {t('storybook.viewer.regenerate.title', { page: pageToRegenerate })}
+                </DialogTitle>
+                <DialogDescription className="text-sm md:text-base">
+                  {t('storybook.viewer.regenerate.description')}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-5 py-2">
+                <RadioGroup
+                  value={regenerateMode}
+                  onValueChange={(value) => setRegenerateMode(value as PageRegenerationMode)}
+                  className="space-y-2"
+                  data-testid="radio-regenerate-mode"
+                >
+                  {(['both', 'text', 'image'] as const).map((value) => ({
+                    value,
+                    label: t(`storybook.viewer.regenerate.modes.${value}.label`),
+                    description: t(`storybook.viewer.regenerate.modes.${value}.description`),
+                  })).map((option) => (
+                    <div key={option.value} className="flex items-start gap-3 rounded-lg border p-3">
+                      <RadioGroupItem value={option.value} id={`regenerate-mode-${option.value}`} className="mt-0.5" disabled={regeneratingUserSuppliedPage && option.value !== 'text'} data-testid={`radio-regenerate-${option.value}`} />
+                      <Label htmlFor={`regenerate-mode-${option.value}`} className="flex-1 cursor-pointer">
+                        <span className="font-medium">{option.label}</span>
+                        <span className="block text-xs text-muted-foreground font-normal mt-0.5">
+                          {regeneratingUserSuppliedPage && option.value !== 'text' ? t('storybook.viewer.regenerate.userSupplied') : option.description}
+                        </span>
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+                <div className="space-y-2">
+                  <Label htmlFor="regenerate-instruction">{t('storybook.viewer.regenerate.instruction')} <span className="text-muted-foreground font-normal">{t('storybook.viewer.regenerate.optional')}</span></Label>
+                  <Textarea
+                    id="regenerate-instruction"
+                    value={regenerateInstruction}
+                    onChange={(e) => setRegenerateInstruction(e.target.value)}
+                    maxLength={500}
+                    rows={3}
+                    placeholder={t(regenerateMode === 'text' ? 'storybook.viewer.regenerate.placeholder.text' : 'storybook.viewer.regenerate.placeholder.image')}
+                    className="resize-none"
+                    data-testid="input-regenerate-instruction"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {t(`storybook.viewer.regenerate.warning.${regenerateMode}`)}
+                </p>
+              </div>
+              <DialogFooter className="flex-col sm:flex-row gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setRegenerateDialogOpen(false)}
                   className="min-h-[44px] w-full sm:w-auto"
+                  disabled={regeneratePageMutation.isPending}
                   data-testid="button-cancel-regenerate"
                 >
-                  Cancel
-                </AlertDialogCancel>
-                <AlertDialogAction 
+                  {t('common.buttons.cancel')}
+                </Button>
+                <Button
                   onClick={confirmRegenerate}
                   className="min-h-[44px] w-full sm:w-auto"
                   data-testid="button-confirm-regenerate"
                   disabled={regeneratePageMutation.isPending}
                 >
-                  {regeneratePageMutation.isPending ? 'Regenerating...' : 'Continue'}
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+                  {regeneratePageMutation.isPending ? t('storybook.viewer.regenerate.submitting') : t('storybook.viewer.regenerate.submit')}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
 
           {/* Back to Create - Mobile Optimized */}
           <div className="text-center mt-6 md:mt-12 pb-4">
@@ -716,6 +862,80 @@ export default function View() {
         />
       )}
 
+      {/* Page History Dialog */}
+      {storybookId && (
+        <PageHistoryDialog
+          storybookId={storybookId}
+          pageNumber={historyPageNumber}
+          open={historyPageNumber !== null}
+          onOpenChange={(open) => !open && setHistoryPageNumber(null)}
+        />
+      )}
+
+      {/* Edit Picture Dialog */}
+      {isOwner && (
+        <EditPictureDialog
+          storybook={storybook}
+          pageNumber={editPicturePageNumber}
+          open={editPicturePageNumber !== null}
+          onOpenChange={(open) => !open && setEditPicturePageNumber(null)}
+        />
+      )}
+
+      {/* Manage Pages Dialog */}
+      {isOwner && (
+        <ManagePagesDialog
+          storybook={storybook}
+          open={managePagesOpen}
+          onOpenChange={setManagePagesOpen}
+        />
+      )}
+
+      {/* Translate Dialog */}
+      {isOwner && (
+        <TranslateDialog
+          storybook={storybook}
+          open={translateOpen}
+          onOpenChange={setTranslateOpen}
+        />
+      )}
+
+      {/* Bilingual Dialog */}
+      {isOwner && (
+        <BilingualDialog
+          storybook={storybook}
+          open={bilingualOpen}
+          onOpenChange={setBilingualOpen}
+        />
+      )}
+
+      {/* Character Sheet Dialog */}
+      {isOwner && (
+        <CharacterSheetDialog
+          storybook={storybook}
+          open={characterSheetOpen}
+          onOpenChange={setCharacterSheetOpen}
+        />
+      )}
+
+      {/* Illustration Options Dialog */}
+      {isOwner && (
+        <IllustrationOptionsDialog
+          storybook={storybook}
+          open={illustrationOptionsOpen}
+          onOpenChange={setIllustrationOptionsOpen}
+        />
+      )}
+
+      {/* Artwork Upload Dialog */}
+      {isOwner && (
+        <ArtworkUploadDialog
+          storybook={storybook}
+          open={artworkUploadOpen}
+          onOpenChange={setArtworkUploadOpen}
+        />
+      )}
+
       {/* Share Dialog */}
       <ShareDialog
         storybook={storybook}
@@ -869,6 +1089,16 @@ export default function View() {
                 </p>
               </div>
             )}
+
+            {/* Reading level scores are only shown to the owner */}
+            {isOwner && storybook.readability && isReadabilityScored(storybook.language) && (
+              <div className="bg-background border rounded-lg p-4">
+                <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide mb-2">
+                  Reading Level
+                </h3>
+                <ReadingLevelSummary report={storybook.readability} />
+              </div>
+            )}
           </div>
         </DialogContent>
       </Dialog>
@@ -884,7 +1114,7 @@ export default function View() {
           bookSize: storybook?.orientation === 'landscape' ? 'a4-landscape' : 'a4-portrait',
         }}
         hasPrintItems={checkoutType === 'print'}
-        amount={pricing ? (checkoutType === 'digital' ? parseInt(pricing.digital_price) : parseInt(pricing.print_price)) : 0}
+        amount={pricingLoaded ? (checkoutType === 'digital' ? digitalPrice : printPrice) : 0}
         onSuccess={() => {
           queryClient.invalidateQueries({ queryKey: ['/api/purchases'] });
           setCheckoutDialogOpen(false);
@@ -0,0 +1,60 @@
+interface BookTranslations {
+  theEnd: string;
+  createdOn: string; // Followed by the site address on the attribution page
+  illustrationAlt: string;
+  backCoverAlt: string;
+  byAuthor: string; // {author} is replaced with the author's name
+  seriesBook: string; // {number} is replaced with the book's place in its series
+}
+
+// Fixed text printed in downloaded and printed books, in each language a story can be written in
+const translations: { [language: string]: BookTranslations } = {
+  en: {
+    theEnd: 'The End',
+    createdOn: 'Created on',
+    illustrationAlt: 'Illustration',
+    backCoverAlt: 'Back Cover',
+    byAuthor: 'By {author}',
+    seriesBook: 'Book {number}',
+  },
+  es: {
+    theEnd: 'Fin',
+    createdOn: 'Creado en',
+    illustrationAlt: 'Ilustración',
+    backCoverAlt: 'Contraportada',
+    byAuthor: 'Por {author}',
+    seriesBook: 'Libro {number}',
+  },
+  fr: {
+    theEnd: 'Fin',
+    createdOn: 'Créé sur',
+    illustrationAlt: 'Illustration',
+    backCoverAlt: 'Quatrième de couverture',
+    byAuthor: 'Par {author}',
+    seriesBook: 'Tome {number}',
+  },
+  de: {
+    theEnd: 'Ende',
+    createdOn: 'Erstellt auf',
+    illustrationAlt: 'Illustration',
+    backCoverAlt: 'Rückseite',
+    byAuthor: 'Von {author}',
+    seriesBook: 'Band {number}',
+  },
+  zh: {
+    theEnd: '完',
+    createdOn: '创作于',
+    illustrationAlt: '插图',
+    backCoverAlt: '封底',
+    byAuthor: '作者：{author}',
+    seriesBook: '第{number}册',
+  },
+};
+
+export function getBookTranslations(language?: string | null): BookTranslations {
+  // Normalize language code to 2-letter code
+  const normalizedLang = (language || 'en').toLowerCase().substring(0, 2);
+
+  // Return translations for the language, fallback to English if not found
+  return translations[normalizedLang] || translations['en'];
+}
@@ -6,12 +6,27 @@ const envSchema = z.object({
   DATABASE_URL: z.string().min(1, 'DATABASE_URL is required'),
   SESSION_SECRET: z.string().min(32, 'SESSION_SECRET must be at least 32 characters'),
   STRIPE_SECRET_KEY: z.string().min(1, 'STRIPE_SECRET_KEY is required'),
-  GEMINI_API_KEY: z.string().min(1, 'GEMINI_API_KEY is required'),
+  AI_PROVIDER: z.enum(['gemini', 'local']).default('gemini'),
+  AI_TEXT_PROVIDER: z.enum(['gemini', 'local']).optional(),
+  AI_IMAGE_PROVIDER: z.enum(['gemini', 'local']).optional(),
+  AI_MODERATION_PROVIDER: z.enum(['gemini', 'local']).optional(),
+  GEMINI_API_KEY: z.string().optional(),
   RECAPTCHA_SECRET_KEY: z.string().min(1, 'RECAPTCHA_SECRET_KEY is required'),
   RESEND_API_KEY: z.string().min(1, 'RESEND_API_KEY is required'),
   REPLIT_DOMAINS: z.string().optional(),
   REPL_ID: z.string().optional(),
   COOKIE_DOMAIN: z.string().optional(),
+}).superRefine((config, ctx) => {
+  // The key is only needed when some capability is served by Gemini
+  const usesGemini = [config.AI_TEXT_PROVIDER, config.AI_IMAGE_PROVIDER, config.AI_MODERATION_PROVIDER]
+    .some(provider => (provider ?? config.AI_PROVIDER) === 'gemini');
+  if (usesGemini && !config.GEMINI_API_KEY) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['GEMINI_API_KEY'],
+      message: 'GEMINI_API_KEY is required when AI_PROVIDER is gemini',
+    });
+  }
 });
 
 export function validateEnv() {
@@ -3,7 +3,10 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { bootstrapAdminUser } from "./services/adminBootstrap";
+import { seedIllustrationStyles } from "./services/illustrationStyles";
 import { checkAndCancelStuckOrders } from "./services/stuck-orders";
+import { startGenerationWorker } from "./services/generationQueue";
+import { deleteExpiredIllustrationCandidates } from "./services/illustrationCandidates";
 import { logger } from "./utils/logger";
 import { env } from "./config/env";
 
@@ -98,6 +101,12 @@ app.use((req, res, next) => {
   // Bootstrap first admin user from environment variables (if needed)
   await bootstrapAdminUser();
 
+  // Give a fresh database the default illustration styles
+  await seedIllustrationStyles();
+
+  // Start the storybook generation worker - also resumes jobs interrupted by the last restart
+  startGenerationWorker();
+
   // Start hourly cron job to check for stuck print orders
   // Runs every hour to detect orders where Prodigi hasn't started downloading files
   const ONE_HOUR_MS = 60 * 60 * 1000;
@@ -123,6 +132,18 @@ app.use((req, res, next) => {
   
   log('[Stuck Orders] Hourly checker initialized - will run every 60 minutes');
 
+  // Illustration options nobody picked are deleted once they pass their retention period
+  setInterval(async () => {
+    try {
+      const deleted = await deleteExpiredIllustrationCandidates();
+      if (deleted > 0) {
+        log(`[Candidates] Deleted ${deleted} unchosen illustration option(s)`);
+      }
+    } catch (error) {
+      console.error('[Candidates] Cleanup failed:', error);
+    }
+  }, ONE_HOUR_MS);
+
   app.use((err: any, req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     
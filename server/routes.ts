@@ -3,8 +3,21 @@ import express from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { generateStoryFromPrompt, generateStoryInBatches, generateIllustration, optimizeImageForWeb } from "./services/gemini";
-import { createStorybookSchema, type StoryGenerationProgress, type Purchase, type InsertPurchase, type User, type AdminUser, type Storybook, purchases } from "@shared/schema";
-import { storybookGenerationLimiter } from "./utils/concurrencyLimiter";
+import { createStorybookSchema, updateStorybookDraftSchema, regeneratePageSchema, editPageImageSchema, uploadArtworkSchema, addPageSchema, reorderPagesSchema, translateStorybookSchema, updateBilingualSchema, savedCharacterSchema, MAX_CHARACTER_PHOTOS, MAX_STYLE_REFERENCE_IMAGES, requestIllustrationCandidatesSchema, chooseIllustrationCandidateSchema, illustrationStyleSchema, promptTemplateFieldSchema, bookLengthOptionsSchema, reviewModerationFlagSchema, type ModerationFlagStatus, type PricedBookLength, type GenerationJobCheckpoint, type GenerationJobParams, type StoryGenerationProgress, type Purchase, type InsertPurchase, type User, type AdminUser, type Storybook, purchases } from "@shared/schema";
+import { enqueueGenerationJob } from "./services/generationQueue";
+import { buildGenerationEvents, onGenerationUpdate } from "./services/generationEvents";
+import { editStorybookPageImage, illustrateStorybookPage } from "./services/pageIllustration";
+import { getBookLengthOptions, loadBookPricing } from "./services/bookLengths";
+import { findBlockedInput, moderateStorybookInBackground } from "./services/moderation";
+import { refreshReadability } from "./services/readability";
+import { createTranslatedEdition } from "./services/translation";
+import { setSecondaryLanguage, withSecondaryText } from "./services/bilingual";
+import { prepareSequelReferences } from "./services/sequel";
+import { copyReferenceImages } from "./services/referenceImages";
+import { deleteCharacterImages, generateCharacterPortrait, prepareSavedCharacterReferences, storeCharacterPhotos } from "./services/characterLibrary";
+import { regenerateCharacterSheet } from "./services/characterSheet";
+import { storeArtwork } from "./services/artwork";
+import { areCreationCandidatesEnabled, drawIllustrationCandidates } from "./services/illustrationCandidates";
 import { randomUUID, randomBytes } from "crypto";
 import * as fs from "fs";
 import * as path from "path";
@@ -18,7 +31,14 @@ import rateLimit from "express-rate-limit";
 import * as analytics from "./services/analytics";
 import { verifyRecaptcha } from "./middleware/recaptcha";
 import { createIpRateLimitMiddleware } from "./middleware/ipRateLimit";
-import { buildFinalImagePrompt } from "./utils/imagePromptBuilder";
+import { applySceneInstruction } from "./utils/imagePromptBuilder";
+import { insertPage, removePage, reorderPages, InvalidPageStructureError } from "./utils/pageStructure";
+import { findBookLength, getMaxPages } from "./utils/bookLengths";
+import { scoreStorybook } from "./utils/readability";
+import { getSeriesSpineText, summarizeForSequel } from "./utils/series";
+import { buildStylePrompt, isStyleAvailableForAge } from "./utils/illustrationStyles";
+import { countImageReferences, releaseImageReferences } from "./utils/imageReferences";
+import { fillPromptTemplate, findTemplateDefinitionError, InvalidTemplateValuesError } from "@shared/promptTemplates";
 import sharp from "sharp";
 import { generatePrintReadyPDF } from "./services/printPdf";
 import { prodigiService } from "./services/prodigi";
@@ -283,6 +303,11 @@ const validateStorybookInput = (req: Request, res: Response, next: NextFunction)
   next();
 };
 
+// Shown when something a customer typed contains blocked terms
+function blockedContentMessage(blockedTerms: string[]): string {
+  return `Please rephrase without these words, which aren't allowed in our children's books: ${blockedTerms.join(', ')}`;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Replit Auth: Setup authentication middleware
   await setupAuth(app);
@@ -745,6 +770,34 @@ Sitemap: ${baseUrl}/sitemap.xml`;
     }
   });
 
+  // GET /api/settings/book-lengths - Book lengths offered on the create form, with their prices (no auth required)
+  app.get('/api/settings/book-lengths', async (req, res) => {
+    try {
+      const options = await getBookLengthOptions();
+      const getBookPrices = await loadBookPricing();
+
+      res.json(options.map((option): PricedBookLength => ({
+        id: option.id,
+        label: option.label,
+        pages: option.pages,
+        ...getBookPrices({ bookLength: option.id }),
+      })));
+    } catch (error) {
+      console.error('Get book lengths error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // GET /api/settings/illustration-candidates - Whether the create form offers several options per illustration (no auth required)
+  app.get('/api/settings/illustration-candidates', async (req, res) => {
+    try {
+      res.json({ availableAtCreation: await areCreationCandidatesEnabled() });
+    } catch (error) {
+      console.error('Get illustration candidate settings error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
   // PUT /api/admin/settings/:key - Update setting
   app.put('/api/admin/settings/:key', isAdmin, async (req, res) => {
     try {
@@ -757,6 +810,20 @@ Sitemap: ${baseUrl}/sitemap.xml`;
       }
 
       const { value } = validation.data;
+
+      // Book lengths are JSON; reject anything the create form couldn't use
+      if (key === 'book_lengths') {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(value);
+        } catch {
+          return res.status(400).json({ message: 'Book lengths must be valid JSON' });
+        }
+        const lengthsValidation = bookLengthOptionsSchema.safeParse(parsed);
+        if (!lengthsValidation.success) {
+          return res.status(400).json({ message: lengthsValidation.error.errors[0]?.message || 'Invalid book lengths' });
+        }
+      }
       
       // Get old value for audit log
       const oldSetting = await storage.getSetting(key);
@@ -920,6 +987,68 @@ Sitemap: ${baseUrl}/sitemap.xml`;
     }
   });
 
+  // GET /api/admin/moderation - Flagged content, pending review by default
+  app.get('/api/admin/moderation', isAdmin, async (req, res) => {
+    try {
+      const status = (req.query.status as string) || 'pending';
+      if (!['pending', 'approved', 'rejected'].includes(status)) {
+        return res.status(400).json({ message: 'Status must be one of: pending, approved, rejected' });
+      }
+
+      const queue = await storage.getModerationQueue(status as ModerationFlagStatus);
+      res.json(queue);
+    } catch (error) {
+      console.error('Get moderation queue error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // POST /api/admin/moderation/:id/review - Approve or reject a flagged item
+  app.post('/api/admin/moderation/:id/review', isAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const admin = req.user as AdminUser;
+
+      const validation = reviewModerationFlagSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error.errors[0]?.message || 'Invalid request body' });
+      }
+      const { decision, note } = validation.data;
+
+      const existing = await storage.getModerationFlag(id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Flag not found' });
+      }
+
+      const result = await storage.reviewModerationFlag(id, decision, admin.id);
+      if (!result) {
+        return res.status(409).json({ message: 'This item has already been reviewed' });
+      }
+
+      // Log action
+      await logAdminAction(
+        admin.id,
+        decision === 'approved' ? 'approve_moderation_flag' : 'reject_moderation_flag',
+        'storybook',
+        result.flag.storybookId,
+        {
+          flagId: id,
+          source: result.flag.source,
+          pageNumber: result.flag.pageNumber,
+          reason: result.flag.reason,
+          note,
+          moderationStatus: result.moderationStatus,
+        },
+        req
+      );
+
+      res.json(result);
+    } catch (error) {
+      console.error('Review moderation flag error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
   // GET /api/admin/storage-analysis - Analyze object storage files
   app.get('/api/admin/storage-analysis', isAdmin, async (req, res) => {
     try {
@@ -1005,6 +1134,8 @@ Sitemap: ${baseUrl}/sitemap.xml`;
 
       let totalMigratedImages = 0;
       const results = [];
+      // Translated editions show their source book's images, so old files are only deleted once unused
+      const imageReferences = countImageReferences(allStorybooks);
 
       for (const storybook of storybooksToMigrate) {
         const migratedImages: string[] = [];
@@ -1106,8 +1237,8 @@ Sitemap: ${baseUrl}/sitemap.xml`;
             // Track successful migration count
             totalMigratedImages += migratedImages.length;
 
-            // Delete old PNG files after successful DB update (non-blocking)
-            for (const oldFile of filesToDelete) {
+            // Delete old PNG files after successful DB update (non-blocking), unless another storybook still shows them
+            for (const oldFile of releaseImageReferences(imageReferences, filesToDelete)) {
               try {
                 await objectStorage.deleteFile(oldFile);
               } catch (deleteError) {
@@ -1197,6 +1328,8 @@ Sitemap: ${baseUrl}/sitemap.xml`;
       let totalMigratedImages = 0;
       const results = [];
       const deletionLog: string[] = [];
+      // Translated editions show their source book's images: a shared file is deleted with the last edition migrated
+      const imageReferences = countImageReferences(allStorybooks);
 
       for (const storybook of storybooksToMigrate) {
         const migratedImages: string[] = [];
@@ -1292,8 +1425,12 @@ Sitemap: ${baseUrl}/sitemap.xml`;
 
             totalMigratedImages += migratedImages.length;
 
-            // Delete old PNG files after successful DB update
-            for (const oldFile of filesToDelete) {
+            // Delete old PNG files after successful DB update, unless another storybook still shows them
+            const unusedFiles = releaseImageReferences(imageReferences, filesToDelete);
+            for (const oldFile of filesToDelete.filter(file => !unusedFiles.includes(file))) {
+              deletionLog.push(`↷ Kept (still used by another storybook): ${oldFile}`);
+            }
+            for (const oldFile of unusedFiles) {
               try {
                 await objectStorage.deleteFile(oldFile);
                 deletionLog.push(`✓ Deleted: ${oldFile}`);
@@ -1465,6 +1602,7 @@ Sitemap: ${baseUrl}/sitemap.xml`;
   const samplePromptSchema = z.object({
     title: z.string().min(1, "Title is required"),
     prompt: z.string().min(10, "Prompt must be at least 10 characters"),
+    fields: z.array(promptTemplateFieldSchema).max(8, "A template can have at most 8 fields").optional().default([]),
     ageRange: z.string().min(1, "Age range is required"),
     isActive: z.boolean().optional().default(true),
     displayOrder: z.string().optional().default('0')
@@ -1502,11 +1640,17 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         return res.status(400).json({ message: 'Invalid request body', errors: validation.error.errors });
       }
 
-      const { title, prompt, ageRange, isActive, displayOrder } = validation.data;
+      const { title, prompt, fields, ageRange, isActive, displayOrder } = validation.data;
+
+      const templateError = findTemplateDefinitionError(prompt, fields);
+      if (templateError) {
+        return res.status(400).json({ message: templateError });
+      }
       
       const newPrompt = await storage.createSamplePrompt({
         title,
         prompt,
+        fields,
         ageRange,
         isActive: isActive ?? true,
         displayOrder: displayOrder ?? 0,
@@ -1518,7 +1662,7 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         'create_sample_prompt',
         'sample_prompt',
         newPrompt.id,
-        { title, ageRange, isActive, displayOrder },
+        { title, ageRange, isActive, displayOrder, fields: fields.map(field => field.key) },
         req
       );
       
@@ -1546,6 +1690,12 @@ Sitemap: ${baseUrl}/sitemap.xml`;
       if (!oldPrompt) {
         return res.status(404).json({ message: 'Sample prompt not found' });
       }
+
+      // Placeholders and fields have to line up whichever of the two changed
+      const templateError = findTemplateDefinitionError(data.prompt ?? oldPrompt.prompt, data.fields ?? oldPrompt.fields);
+      if (templateError) {
+        return res.status(400).json({ message: templateError });
+      }
       
       const updatedPrompt = await storage.updateSamplePrompt(id, {
         ...data,
@@ -1597,6 +1747,127 @@ Sitemap: ${baseUrl}/sitemap.xml`;
     }
   });
 
+  // GET /api/illustration-styles - Styles offered on the create page, optionally only those for an age group (public)
+  app.get('/api/illustration-styles', async (req, res) => {
+    try {
+      const age = typeof req.query.age === 'string' ? req.query.age : undefined;
+      const styles = await storage.getEnabledIllustrationStyles();
+      res.json(styles.filter(style => isStyleAvailableForAge(style, age)));
+    } catch (error) {
+      console.error('Get illustration styles error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // GET /api/admin/illustration-styles - Get all illustration styles, including disabled ones (admin only)
+  app.get('/api/admin/illustration-styles', isAdmin, async (req, res) => {
+    try {
+      const styles = await storage.getAllIllustrationStyles();
+      res.json(styles);
+    } catch (error) {
+      console.error('Get all illustration styles error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // POST /api/admin/illustration-styles - Create new illustration style (admin only)
+  app.post('/api/admin/illustration-styles', isAdmin, async (req, res) => {
+    try {
+      const admin = req.user as AdminUser;
+
+      const validation = illustrationStyleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error.errors[0]?.message || 'Invalid request body', errors: validation.error.errors });
+      }
+
+      const newStyle = await storage.createIllustrationStyle({
+        ...validation.data,
+        exampleImageUrl: validation.data.exampleImageUrl || null,
+        updatedBy: admin.id,
+      });
+
+      await logAdminAction(
+        admin.id,
+        'create_illustration_style',
+        'illustration_style',
+        newStyle.id,
+        validation.data,
+        req
+      );
+
+      res.json(newStyle);
+    } catch (error) {
+      console.error('Create illustration style error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // PUT /api/admin/illustration-styles/:id - Update illustration style (admin only)
+  app.put('/api/admin/illustration-styles/:id', isAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const admin = req.user as AdminUser;
+
+      const validation = illustrationStyleSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: validation.error.errors[0]?.message || 'Invalid request body', errors: validation.error.errors });
+      }
+
+      const oldStyle = await storage.getIllustrationStyle(id);
+      if (!oldStyle) {
+        return res.status(404).json({ message: 'Illustration style not found' });
+      }
+
+      const updatedStyle = await storage.updateIllustrationStyle(id, {
+        ...validation.data,
+        updatedBy: admin.id,
+      });
+
+      await logAdminAction(
+        admin.id,
+        'update_illustration_style',
+        'illustration_style',
+        id,
+        { old: oldStyle, new: validation.data },
+        req
+      );
+
+      res.json(updatedStyle);
+    } catch (error) {
+      console.error('Update illustration style error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // DELETE /api/admin/illustration-styles/:id - Delete illustration style; books keep its resolved prompt (admin only)
+  app.delete('/api/admin/illustration-styles/:id', isAdmin, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const admin = req.user as AdminUser;
+
+      const style = await storage.getIllustrationStyle(id);
+      if (!style) {
+        return res.status(404).json({ message: 'Illustration style not found' });
+      }
+
+      await storage.deleteIllustrationStyle(id);
+
+      await logAdminAction(
+        admin.id,
+        'delete_illustration_style',
+        'illustration_style',
+        id,
+        { name: style.name },
+        req
+      );
+
+      res.json({ message: 'Illustration style deleted successfully' });
+    } catch (error) {
+      console.error('Delete illustration style error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
   // GET /api/analytics/completion-rate - Get story completion rate (admin only)
   app.get('/api/analytics/completion-rate', isAdmin, async (req, res) => {
     try {
@@ -2073,7 +2344,8 @@ Sitemap: ${baseUrl}/sitemap.xml`;
   // Create storybook (supports both authenticated and anonymous users)
   app.post("/api/storybooks", 
     storyCreationRateLimiter, // Add story creation rate limiting
-    upload.array("images", 3), // Reduced from 5 to 3
+    // Character photos (reduced from 5 to 3) and the optional style reference pictures
+    upload.fields([{ name: "images", maxCount: 3 }, { name: "styleImages", maxCount: MAX_STYLE_REFERENCE_IMAGES }]),
     validateStorybookInput, // Add input validation
     async (req: any, res, next) => {
       // If user is authenticated, skip IP rate limiting and reCAPTCHA
@@ -2088,8 +2360,11 @@ Sitemap: ${baseUrl}/sitemap.xml`;
     },
     async (req: any, res) => {
       try {
-        const { prompt, author, age, illustrationStyle, foreword, characterDescriptions } = req.body;
-        const files = req.files as Express.Multer.File[] | undefined;
+        const { author, age, illustrationStyle, illustrationStyleId, foreword, characterDescriptions, bookLength, language, secondaryLanguage, sequelOf, sequelPages, savedCharacterIds, samplePromptId, templateValues, illustrationCandidates } = req.body;
+        const draftMode = req.body.draftMode === 'true' || req.body.draftMode === true;
+        const uploads = req.files as Record<string, Express.Multer.File[]> | undefined;
+        const files = uploads?.images;
+        const styleFiles = uploads?.styleImages || [];
         
         // Determine user ID (authenticated or null for anonymous)
         let userId = req.user ? (req.user.id || req.user.claims?.sub) : null;
@@ -2105,6 +2380,11 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         
         const isAnonymous = !userId;
 
+        // Drafts are edited later by their owner, so they need an account
+        if (draftMode && isAnonymous) {
+          return res.status(401).json({ message: "Please sign in to review your story before it is illustrated" });
+        }
+
         // Get user info for author fallback (authenticated users only)
         let authorName = author || 'Anonymous';
         if (userId) {
@@ -2115,14 +2395,43 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         // Images are now optional - handle empty or undefined files
         const imagePaths = files ? files.map(f => f.path) : [];
         const imageFilenames = files ? files.map(f => f.filename) : [];
+        // Style references only steer how the book is drawn, never who is in it
+        const styleImagePaths = styleFiles.map(f => f.path);
         
         // Parse character descriptions (sent as array from FormData)
-        const characterDescArray = characterDescriptions 
+        let characterDescArray: string[] = characterDescriptions 
           ? (Array.isArray(characterDescriptions) ? characterDescriptions : [characterDescriptions])
           : [];
 
-        // Use provided illustration style or default
-        const finalIllustrationStyle = illustrationStyle || "vibrant and colorful children's book illustration";
+        // A templated sample prompt is assembled from the customer's field values (sent as JSON);
+        // otherwise the prompt is the customer's own text
+        let prompt: string = req.body.prompt;
+        if (samplePromptId) {
+          const template = await storage.getSamplePrompt(samplePromptId);
+          if (!template || !template.isActive) {
+            return res.status(400).json({ message: "This story template is no longer available" });
+          }
+          if (template.fields.length > 0) {
+            try {
+              prompt = fillPromptTemplate(template.prompt, template.fields, JSON.parse(templateValues || '{}'));
+            } catch (error) {
+              if (error instanceof InvalidTemplateValuesError || error instanceof SyntaxError) {
+                return res.status(400).json({ message: error instanceof SyntaxError ? "Invalid template values" : error.message });
+              }
+              throw error;
+            }
+          }
+        }
+
+        // A catalog style is drawn from its prompt; otherwise use the provided (custom) style or the default
+        let finalIllustrationStyle = illustrationStyle || "vibrant and colorful children's book illustration";
+        if (illustrationStyleId) {
+          const style = await storage.getIllustrationStyle(illustrationStyleId);
+          if (!style || !isStyleAvailableForAge(style, age)) {
+            return res.status(400).json({ message: "This illustration style is not available" });
+          }
+          finalIllustrationStyle = buildStylePrompt(style);
+        }
 
         // Validate request
         const validationResult = createStorybookSchema.safeParse({
@@ -2130,25 +2439,104 @@ Sitemap: ${baseUrl}/sitemap.xml`;
           author: authorName,
           age,
           illustrationStyle: finalIllustrationStyle,
+          illustrationStyleId: illustrationStyleId || undefined,
+          samplePromptId: samplePromptId || undefined,
           inspirationImages: imageFilenames,
+          styleReferenceImages: styleFiles.map(f => f.filename),
+          draftMode,
+          bookLength: bookLength || undefined,
+          language: language || undefined,
+          secondaryLanguage: secondaryLanguage || undefined,
+          sequelOf: sequelOf || undefined,
+          sequelPageNumbers: sequelPages ? [].concat(sequelPages).map(Number) : undefined,
+          savedCharacterIds: savedCharacterIds ? [].concat(savedCharacterIds) : undefined,
+          illustrationCandidates: illustrationCandidates ? Number(illustrationCandidates) : undefined,
         });
 
         if (!validationResult.success) {
           return res.status(400).json({ message: validationResult.error.message });
         }
 
-        // Fetch pages_per_book setting from admin settings
-        const pagesSetting = await storage.getSetting('pages_per_book');
-        const pagesPerBook = pagesSetting ? parseInt(pagesSetting.value) : 3;
-        
-        // Validate page count (minimum 1, maximum 10 for performance)
-        const validatedPagesPerBook = Math.max(1, Math.min(10, pagesPerBook));
+        // Nothing is generated from ideas that use blocked terms
+        const blockedTerms = await findBlockedInput([prompt, foreword, ...characterDescArray]);
+        if (blockedTerms.length > 0) {
+          return res.status(400).json({ message: blockedContentMessage(blockedTerms) });
+        }
+
+        // The page count comes from the book length the customer picked (or the default length)
+        const lengthOption = findBookLength(await getBookLengthOptions(), bookLength);
+        if (!lengthOption) {
+          return res.status(400).json({ message: "This book length is not available" });
+        }
+
+        // Several options per illustration, when offered, are picked later by the book's owner
+        if (validationResult.data.illustrationCandidates) {
+          if (isAnonymous) {
+            return res.status(401).json({ message: "Please sign in to choose between illustrations" });
+          }
+          if (draftMode) {
+            return res.status(400).json({ message: "Illustration options can be drawn from the viewer once your draft is illustrated" });
+          }
+          if (!(await areCreationCandidatesEnabled())) {
+            return res.status(400).json({ message: "Illustration options are not available" });
+          }
+        }
+
+        // A sequel continues one of the customer's finished books with the same characters and art style
+        let sequelSource: Storybook | undefined;
+        if (validationResult.data.sequelOf) {
+          if (isAnonymous) {
+            return res.status(401).json({ message: "Please sign in to continue one of your stories" });
+          }
+          const previous = await storage.getStorybook(validationResult.data.sequelOf);
+          if (!previous) {
+            return res.status(404).json({ message: "Storybook not found" });
+          }
+          if (previous.userId !== userId) {
+            return res.status(403).json({ message: "You can only write sequels to your own storybooks" });
+          }
+          if (previous.status !== 'complete' || previous.moderationStatus === 'rejected') {
+            return res.status(409).json({ message: "Only finished storybooks can have a sequel" });
+          }
+
+          sequelSource = previous;
+
+          // The previous book's images follow the customer's own photos, whose descriptions stay lined up with them
+          const references = await prepareSequelReferences(previous, validationResult.data.sequelPageNumbers);
+          characterDescArray = [...imagePaths.map((_, index) => characterDescArray[index] || ''), ...references.characterDescriptions];
+          imagePaths.push(...references.imagePaths);
+
+          // Without new style pictures, the sequel keeps the look of the previous book
+          if (styleImagePaths.length === 0 && previous.styleReferenceImages.length > 0) {
+            const style = await copyReferenceImages(previous.styleReferenceImages.map(url => ({ url, description: 'Style sample' })), 'style');
+            styleImagePaths.push(...style.imagePaths);
+          }
+        }
+
+        // Saved characters star with their stored reference image and description instead of a fresh upload
+        if (validationResult.data.savedCharacterIds && validationResult.data.savedCharacterIds.length > 0) {
+          if (isAnonymous) {
+            return res.status(401).json({ message: "Please sign in to use your saved characters" });
+          }
+          const savedCharacters = [];
+          for (const characterId of validationResult.data.savedCharacterIds) {
+            const character = await storage.getSavedCharacter(characterId);
+            if (!character || character.userId !== userId) {
+              return res.status(404).json({ message: "Character not found" });
+            }
+            savedCharacters.push(character);
+          }
+
+          const references = await prepareSavedCharacterReferences(savedCharacters);
+          characterDescArray = [...imagePaths.map((_, index) => characterDescArray[index] || ''), ...references.characterDescriptions];
+          imagePaths.push(...references.imagePaths);
+        }
 
         const sessionId = randomUUID();
 
         // Track story generation start (non-blocking, only for authenticated users)
         if (userId) {
-          analytics.trackStoryStarted(userId, prompt, imageFilenames).catch(err => {
+          analytics.trackStoryStarted(userId, prompt, imageFilenames, validationResult.data.samplePromptId).catch(err => {
             console.error('Failed to track story_started event:', err);
           });
         }
@@ -2159,39 +2547,41 @@ Sitemap: ${baseUrl}/sitemap.xml`;
           await storage.incrementIpStoryCount(ipAddress);
         }
 
-        // Check concurrency limit before starting generation
-        const stats = storybookGenerationLimiter.getStats();
-        if (!storybookGenerationLimiter.tryAcquire()) {
-          console.warn(`[Concurrency] ⚠️  Generation limit reached (${stats.active}/${stats.max} active, ${stats.queued} queued)`);
-          return res.status(429).json({ 
-            message: "Too many books are being created right now. Please try again in 30-60 seconds.",
-            retryAfter: 30 
-          });
+        // Every check has passed, so the previous book can become the first of its series and the
+        // sequel takes the next number, reserved now so no other sequel of the series gets it
+        let series: GenerationJobParams['series'];
+        if (sequelSource) {
+          const seriesId = sequelSource.seriesId || sequelSource.id;
+          await storage.startSeries(seriesId);
+          const seriesNumber = await storage.reserveSeriesNumber(seriesId);
+          series = { seriesId, seriesNumber, previousStory: summarizeForSequel(sequelSource, seriesNumber) };
         }
 
-        const updatedStats = storybookGenerationLimiter.getStats();
-        console.log(`[Concurrency] ✅ Slot acquired (${updatedStats.active}/${updatedStats.max} active)${userId ? ` - User: ${userId}` : ' - Anonymous'}`);
-
-        // Start generation in background with userId (null for anonymous), author, age, pagesPerBook, illustrationStyle, foreword, and character descriptions
-        generateStorybookAsync(sessionId, userId, prompt, authorName, age, imagePaths, validatedPagesPerBook, finalIllustrationStyle, foreword, characterDescArray)
-          .catch((error: unknown) => {
-            console.error("Story generation failed:", error);
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            storage.setGenerationProgress(sessionId, {
-              step: 'processing_images',
-              progress: 0,
-              message: `Generation failed: ${errorMessage}`,
-              error: errorMessage,
-            });
-          })
-          .finally(() => {
-            storybookGenerationLimiter.release();
-            const finalStats = storybookGenerationLimiter.getStats();
-            console.log(`[Concurrency] 🔓 Slot released (${finalStats.active}/${finalStats.max} active)`);
-          });
+        // Queue the job - the generation worker picks it up as soon as a slot is free,
+        // and resumes it from its last completed step if the server restarts mid-generation
+        const queuePosition = await enqueueGenerationJob(sessionId, userId, {
+          prompt,
+          author: authorName,
+          age,
+          language: validationResult.data.language,
+          secondaryLanguage: validationResult.data.secondaryLanguage,
+          series,
+          imagePaths,
+          styleImagePaths,
+          pagesPerBook: lengthOption.pages,
+          bookLength: lengthOption.id,
+          illustrationStyle: finalIllustrationStyle,
+          illustrationStyleId: validationResult.data.illustrationStyleId,
+          samplePromptId: validationResult.data.samplePromptId,
+          foreword,
+          characterDescriptions: characterDescArray,
+          draftMode,
+          illustrationCandidates: validationResult.data.illustrationCandidates,
+        });
 
         res.json({ 
           sessionId,
+          queuePosition,
           isAnonymous,
           rateLimitRemaining: isAnonymous ? (req as any).rateLimitRemaining - 1 : null
         });
@@ -2219,6 +2609,90 @@ Sitemap: ${baseUrl}/sitemap.xml`;
     }
   });
 
+  // Stream generation progress as Server-Sent Events.
+  // Every connection first replays the job's persisted state, so reconnecting clients catch up.
+  app.get("/api/generation/:sessionId/events", async (req, res) => {
+    const { sessionId } = req.params;
+
+    try {
+      const job = await storage.getGenerationJob(sessionId);
+      if (!job) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+    } catch (error) {
+      console.error("Open generation events error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    const sentKeys = new Set<string>();
+    let closed = false;
+    let checking = false;
+    let recheck = false;
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(pollTimer);
+      clearInterval(keepAliveTimer);
+      unsubscribe();
+      res.end();
+    };
+
+    // Send any events derived from the job state that this stream hasn't delivered yet
+    const sendNewEvents = async () => {
+      if (closed) return;
+      if (checking) {
+        recheck = true;
+        return;
+      }
+      checking = true;
+
+      try {
+        do {
+          recheck = false;
+          const job = await storage.getGenerationJob(sessionId);
+          if (!job || closed) break;
+          const progress = await storage.getGenerationProgress(sessionId);
+
+          for (const { key, event } of buildGenerationEvents(job, progress)) {
+            if (sentKeys.has(key)) continue;
+            sentKeys.add(key);
+            res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+            if (event.type === 'completed' || event.type === 'failed') {
+              close();
+              return;
+            }
+          }
+        } while (recheck && !closed);
+      } catch (error) {
+        console.error("Generation events error:", error);
+      } finally {
+        checking = false;
+      }
+    };
+
+    // The worker may run in another instance, so also check the database periodically
+    const unsubscribe = onGenerationUpdate(sessionId, () => {
+      sendNewEvents();
+    });
+    const pollTimer = setInterval(sendNewEvents, 2000);
+    const keepAliveTimer = setInterval(() => {
+      if (!closed) res.write(": keep-alive\n\n");
+    }, 15000);
+
+    req.on("close", close);
+
+    await sendNewEvents();
+  });
+
   // Get user's storybooks (requires authentication)
   app.get("/api/storybooks", isAuthenticated, async (req: any, res) => {
     try {
@@ -2342,9 +2816,14 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         return res.status(403).json({ message: "Not authorized to delete this storybook" });
       }
 
-      // Delete all images from Object Storage
+      // Delete all images from Object Storage, except those other editions of the book still show
       const { ObjectStorageService } = await import("./objectStorage");
       const objectStorage = new ObjectStorageService();
+      const sharedImageUrls = new Set(
+        (await storage.getStorybookEditions(id))
+          .filter(edition => edition.id !== id)
+          .flatMap(edition => [edition.coverImageUrl, edition.characterSheetUrl, ...edition.pages.map(page => page.imageUrl)])
+      );
 
       // Helper function to extract filename from URL
       const extractFilename = (url: string): string => {
@@ -2354,14 +2833,19 @@ Sitemap: ${baseUrl}/sitemap.xml`;
       };
 
       // Delete cover image if exists
-      if (storybook.coverImageUrl) {
+      if (storybook.coverImageUrl && !sharedImageUrls.has(storybook.coverImageUrl)) {
         const coverFilename = extractFilename(storybook.coverImageUrl);
         await objectStorage.deleteFile(coverFilename);
       }
 
+      // Delete the character sheet if exists
+      if (storybook.characterSheetUrl && !sharedImageUrls.has(storybook.characterSheetUrl)) {
+        await objectStorage.deleteFile(extractFilename(storybook.characterSheetUrl));
+      }
+
       // Delete all page images
       for (const page of storybook.pages) {
-        if (page.imageUrl) {
+        if (page.imageUrl && !sharedImageUrls.has(page.imageUrl)) {
           const pageFilename = extractFilename(page.imageUrl);
           await objectStorage.deleteFile(pageFilename);
         }
@@ -2760,6 +3244,20 @@ Sitemap: ${baseUrl}/sitemap.xml`;
       const { id } = req.params;
       const userId = req.user.id || req.user.claims?.sub;
 
+      const storybook = await storage.getStorybook(id);
+      if (storybook && storybook.status !== 'complete') {
+        return res.status(409).json({ message: "Only fully illustrated storybooks can be shared publicly" });
+      }
+
+      // Held or rejected books can be made private but not public
+      if (storybook && !storybook.isPublic && (storybook.moderationStatus === 'flagged' || storybook.moderationStatus === 'rejected')) {
+        return res.status(409).json({
+          message: storybook.moderationStatus === 'flagged'
+            ? "This storybook is being reviewed and can be shared once the review is complete"
+            : "This storybook can't be shared publicly because it didn't pass our content review",
+        });
+      }
+
       const newStatus = await storage.togglePublicStatus(id, userId);
 
       res.json({ isPublic: newStatus });
@@ -2784,6 +3282,11 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         return res.status(400).json({ message: "Foreword must be 500 characters or less" });
       }
 
+      const blockedTerms = await findBlockedInput([foreword]);
+      if (blockedTerms.length > 0) {
+        return res.status(400).json({ message: blockedContentMessage(blockedTerms) });
+      }
+
       // Get the storybook
       const storybook = await storage.getStorybook(id);
       if (!storybook) {
@@ -2805,155 +3308,942 @@ Sitemap: ${baseUrl}/sitemap.xml`;
     }
   });
 
-  // Regenerate a single page in a storybook (requires authentication and ownership)
-  app.post("/api/storybooks/:id/regenerate-page", isAuthenticated, async (req: any, res) => {
+  // Save the owner's edits to a draft storybook (requires authentication and ownership)
+  app.patch("/api/storybooks/:id/draft", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const validationResult = updateStorybookDraftSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid draft" });
+      }
+      const draft = validationResult.data;
+
+      const blockedTerms = await findBlockedInput([
+        draft.title,
+        draft.storyArc,
+        ...draft.pages.flatMap(page => [page.text, page.imagePrompt]),
+        ...(draft.characters || []).flatMap(character => [character.name, character.role, character.appearance, character.clothing]),
+      ]);
+      if (blockedTerms.length > 0) {
+        return res.status(400).json({ message: blockedContentMessage(blockedTerms) });
+      }
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
+      }
+
+      if (storybook.status !== 'draft') {
+        return res.status(409).json({ message: "Only draft storybooks can be edited this way" });
+      }
+
+      // Edits keep the draft's page structure; only text and scene descriptions change
+      const editsByPage = new Map(draft.pages.map(page => [page.pageNumber, page]));
+      if (editsByPage.size !== storybook.pages.length || storybook.pages.some(page => !editsByPage.has(page.pageNumber))) {
+        return res.status(400).json({ message: "Draft pages do not match this storybook" });
+      }
+      const pages = storybook.pages.map(page => {
+        const edit = editsByPage.get(page.pageNumber)!;
+        // A rewritten scene description no longer matches the planned scene
+        const scene = edit.imagePrompt === page.imagePrompt ? page.scene : undefined;
+        return { ...page, text: edit.text, imagePrompt: edit.imagePrompt, scene };
+      });
+
+      // Characters keep their ids and photo links; unknown ids are ignored
+      const characterEdits = new Map((draft.characters || []).map(character => [character.id, character]));
+      const characters = (storybook.characters || []).map(character => {
+        const edit = characterEdits.get(character.id);
+        return edit
+          ? { ...character, name: edit.name, role: edit.role, appearance: edit.appearance, clothing: edit.clothing }
+          : character;
+      });
+      const mainCharacter = characters[0];
+
+      // The cover prompt asks for the title as text, so keep it in step with a renamed book
+      const coverImagePrompt = storybook.coverImagePrompt && draft.title !== storybook.title
+        ? storybook.coverImagePrompt.split(storybook.title).join(draft.title)
+        : storybook.coverImagePrompt;
+
+      await storage.updateStorybookDraft(id, {
+        title: draft.title,
+        storyArc: draft.storyArc ?? storybook.storyArc,
+        characters,
+        mainCharacterDescription: mainCharacter ? mainCharacter.appearance : storybook.mainCharacterDescription,
+        defaultClothing: mainCharacter ? mainCharacter.clothing : storybook.defaultClothing,
+        coverImagePrompt,
+        pages,
+        readability: scoreStorybook(pages, storybook.age, storybook.language),
+      });
+
+      const updatedStorybook = await storage.getStorybook(id);
+      res.json(updatedStorybook);
+    } catch (error: any) {
+      console.error("Update draft error:", error);
+      res.status(500).json({ message: "Failed to save draft" });
+    }
+  });
+
+  // Generate the illustrations for a reviewed draft (requires authentication and ownership)
+  app.post("/api/storybooks/:id/illustrate", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
+      }
+
+      if (storybook.status !== 'draft') {
+        return res.status(409).json({ message: "This storybook is not a draft" });
+      }
+
+      const author = storybook.author || 'Anonymous';
+      const mainCharacter = storybook.characters?.[0];
+
+      // Seed the job with the edited story so the pipeline starts at the cover illustration
+      const checkpoint: GenerationJobCheckpoint = {
+        inspirationImageUrls: storybook.inspirationImages,
+        styleReferenceUrls: storybook.styleReferenceImages,
+        story: {
+          title: storybook.title,
+          author,
+          coverImagePrompt: storybook.coverImagePrompt
+            || `${mainCharacter?.name || 'The main character'} in a key moment from the story "${storybook.title}"`,
+          mainCharacterDescription: storybook.mainCharacterDescription || '',
+          defaultClothing: storybook.defaultClothing || '',
+          characters: storybook.characters || undefined,
+          storyArc: storybook.storyArc || '',
+          artStyle: storybook.artStyle || undefined,
+          pages: storybook.pages.map(page => ({
+            pageNumber: page.pageNumber,
+            text: page.text,
+            imagePrompt: page.imagePrompt,
+            characterIds: page.characterIds,
+            scene: page.scene,
+          })),
+        },
+      };
+
+      const sessionId = randomUUID();
+      await storage.updateStorybookStatus(id, 'illustrating');
+
+      try {
+        const queuePosition = await enqueueGenerationJob(sessionId, userId, {
+          prompt: storybook.prompt,
+          author,
+          age: storybook.age || undefined,
+          language: storybook.language,
+          secondaryLanguage: storybook.secondaryLanguage || undefined,
+          imagePaths: [],
+          pagesPerBook: storybook.pages.length,
+          illustrationStyle: storybook.artStyle || "vibrant and colorful children's book illustration",
+          illustrationStyleId: storybook.illustrationStyleId || undefined,
+          samplePromptId: storybook.samplePromptId || undefined,
+          foreword: storybook.foreword || undefined,
+          characterDescriptions: [],
+          draftStorybookId: id,
+        }, checkpoint);
+
+        res.json({ sessionId, queuePosition });
+      } catch (error) {
+        await storage.updateStorybookStatus(id, 'draft');
+        throw error;
+      }
+    } catch (error: any) {
+      console.error("Illustrate draft error:", error);
+      res.status(500).json({ message: "Failed to start illustration" });
+    }
+  });
+
+  // Regenerate a single page in a storybook (requires authentication and ownership)
+  app.post("/api/storybooks/:id/regenerate-page", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const validationResult = regeneratePageSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid request" });
+      }
+      const { pageNumber, mode } = validationResult.data;
+      const instruction = validationResult.data.instruction || undefined;
+
+      const blockedTerms = await findBlockedInput([instruction]);
+      if (blockedTerms.length > 0) {
+        return res.status(400).json({ message: blockedContentMessage(blockedTerms) });
+      }
+
+      // Get the storybook
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      // Check ownership
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
+      }
+
+      // Draft pages are edited as text and illustrated all at once
+      if (storybook.status !== 'complete') {
+        return res.status(409).json({ message: "This storybook has not been illustrated yet" });
+      }
+
+      // Validate that the page exists
+      const currentPage = storybook.pages.find(p => p.pageNumber === pageNumber);
+      if (!currentPage) {
+        return res.status(400).json({ message: `Page ${pageNumber} does not exist in this storybook` });
+      }
+
+      // Artwork the owner uploaded is never redrawn
+      if (currentPage.userSupplied && mode !== 'text') {
+        return res.status(409).json({ message: `Page ${pageNumber} uses your own picture, so only its text can be regenerated` });
+      }
+
+      // Whatever the mode leaves alone is carried over from the current page
+      const newPage = {
+        text: currentPage.text,
+        imageUrl: currentPage.imageUrl,
+        imagePrompt: currentPage.imagePrompt,
+        characterIds: currentPage.characterIds,
+        scene: currentPage.scene,
+        secondaryText: currentPage.secondaryText,
+      };
+
+      if (mode !== 'image') {
+        // Generate new page content using Gemini
+        const { regenerateSinglePage } = await import("./services/gemini");
+        const newPageContent = await regenerateSinglePage({
+          title: storybook.title,
+          pages: storybook.pages,
+          mainCharacterDescription: storybook.mainCharacterDescription || '',
+          defaultClothing: storybook.defaultClothing || '',
+          characters: storybook.characters || undefined,
+          storyArc: storybook.storyArc || '',
+          age: storybook.age,
+          language: storybook.language,
+        }, pageNumber, { instruction, keepScene: mode === 'text' });
+
+        newPage.text = newPageContent.text;
+        const [translated] = await withSecondaryText(storybook, [{ pageNumber, text: newPage.text }]);
+        newPage.secondaryText = translated.secondaryText;
+        // The scene describes the illustration, so it only changes along with it
+        if (mode === 'both') {
+          newPage.imagePrompt = newPageContent.imagePrompt;
+          newPage.characterIds = newPageContent.characterIds;
+          newPage.scene = newPageContent.scene;
+        }
+      }
+
+      if (mode !== 'text') {
+        newPage.imagePrompt = applySceneInstruction(newPage.imagePrompt, instruction);
+
+        newPage.imageUrl = await illustrateStorybookPage(storybook, { pageNumber, ...newPage });
+      }
+
+      // Update the page in storage, keeping the replaced version in the page's history
+      await storage.updatePage(id, pageNumber, newPage, {
+        changeType: `regenerate_${mode}`,
+        instruction: instruction || null,
+        createdBy: userId,
+      });
+
+      // Track analytics
+      await analytics.trackPageRegenerated(userId, id, pageNumber, mode, !!instruction);
+
+      if (mode !== 'image') {
+        await refreshReadability(id);
+      }
+      moderateStorybookInBackground(id, [pageNumber]);
+
+      // Get and return the updated storybook
+      const updatedStorybook = await storage.getStorybook(id);
+      res.json(updatedStorybook);
+    } catch (error: any) {
+      console.error("Regenerate page error:", error);
+      res.status(500).json({ message: error.message || "Failed to regenerate page" });
+    }
+  });
+
+  // Edit a page's current illustration from an instruction instead of redrawing it (requires authentication and ownership)
+  app.post("/api/storybooks/:id/edit-page-image", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const validationResult = editPageImageSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid request" });
+      }
+      const { pageNumber, instruction } = validationResult.data;
+
+      const blockedTerms = await findBlockedInput([instruction]);
+      if (blockedTerms.length > 0) {
+        return res.status(400).json({ message: blockedContentMessage(blockedTerms) });
+      }
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
+      }
+
+      if (storybook.status !== 'complete') {
+        return res.status(409).json({ message: "This storybook has not been illustrated yet" });
+      }
+
+      const currentPage = storybook.pages.find(p => p.pageNumber === pageNumber);
+      if (!currentPage) {
+        return res.status(400).json({ message: `Page ${pageNumber} does not exist in this storybook` });
+      }
+      if (!currentPage.imageUrl) {
+        return res.status(409).json({ message: `Page ${pageNumber} has no illustration to edit` });
+      }
+      if (currentPage.userSupplied) {
+        return res.status(409).json({ message: `Page ${pageNumber} uses your own picture, which is never redrawn` });
+      }
+
+      const imageUrl = await editStorybookPageImage(storybook, currentPage, instruction);
+
+      // The change is kept with the scene so later regenerations of the page don't undo it
+      await storage.updatePage(id, pageNumber, {
+        text: currentPage.text,
+        imageUrl,
+        imagePrompt: applySceneInstruction(currentPage.imagePrompt, instruction),
+        characterIds: currentPage.characterIds,
+        scene: currentPage.scene,
+        secondaryText: currentPage.secondaryText,
+      }, {
+        changeType: 'edit_image',
+        instruction,
+        createdBy: userId,
+      });
+
+      await analytics.trackPageImageEdited(userId, id, pageNumber);
+      moderateStorybookInBackground(id, [pageNumber]);
+
+      const updatedStorybook = await storage.getStorybook(id);
+      res.json(updatedStorybook);
+    } catch (error: any) {
+      console.error("Edit page image error:", error);
+      res.status(500).json({ message: error.message || "Failed to edit the picture" });
+    }
+  });
+
+  // Replace a page, cover or back cover illustration with the owner's own image; it is never redrawn afterwards (requires authentication and ownership)
+  app.post("/api/storybooks/:id/artwork", isAuthenticated, upload.single("image"), async (req: any, res) => {
+    const file = req.file as Express.Multer.File | undefined;
+    try {
+      const { id } = req.params;
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const validationResult = uploadArtworkSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid request" });
+      }
+      const { target, pageNumber } = validationResult.data;
+      if (!file) {
+        return res.status(400).json({ message: "Please choose an image to upload" });
+      }
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
+      }
+
+      if (storybook.status !== 'complete') {
+        return res.status(409).json({ message: "This storybook has not been illustrated yet" });
+      }
+
+      const currentPage = target === 'page' ? storybook.pages.find(p => p.pageNumber === pageNumber) : undefined;
+      if (target === 'page' && !currentPage) {
+        return res.status(400).json({ message: `Page ${pageNumber} does not exist in this storybook` });
+      }
+
+      const imageUrl = await storeArtwork(file, storybook, target, pageNumber);
+
+      if (currentPage) {
+        // The replaced illustration stays in the page's history
+        await storage.updatePage(id, currentPage.pageNumber, { ...currentPage, imageUrl, userSupplied: true }, {
+          changeType: 'upload',
+          instruction: null,
+          createdBy: userId,
+        });
+        moderateStorybookInBackground(id, [currentPage.pageNumber]);
+      } else {
+        if (target === 'cover') {
+          await storage.updateStorybookCover(id, imageUrl, true);
+        } else {
+          await storage.updateStorybookBackCover(id, imageUrl, true);
+        }
+        moderateStorybookInBackground(id, [], true);
+      }
+
+      await analytics.trackArtworkUploaded(userId, id, target, currentPage?.pageNumber);
+
+      const updatedStorybook = await storage.getStorybook(id);
+      res.json(updatedStorybook);
+    } catch (error: any) {
+      console.error("Upload artwork error:", error);
+      res.status(500).json({ message: error.message || "Failed to upload your picture" });
+    } finally {
+      if (file && fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+      }
+    }
+  });
+
+  // Redraw a storybook's character sheet; page regenerations from then on copy the new one (requires authentication and ownership)
+  app.post("/api/storybooks/:id/character-sheet", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
+      }
+
+      if (storybook.status !== 'complete') {
+        return res.status(409).json({ message: "This storybook has not been illustrated yet" });
+      }
+
+      const characterSheetUrl = await regenerateCharacterSheet(storybook);
+      await storage.updateStorybookCharacterSheet(id, characterSheetUrl);
+
+      // Remove the old sheet unless another edition of the book still uses it
+      const oldSheetUrl = storybook.characterSheetUrl;
+      if (oldSheetUrl) {
+        const editions = await storage.getStorybookEditions(id);
+        if (!editions.some(edition => edition.id !== id && edition.characterSheetUrl === oldSheetUrl)) {
+          await new ObjectStorageService().deleteFile(oldSheetUrl.replace('/api/storage/', ''));
+        }
+      }
+
+      const updatedStorybook = await storage.getStorybook(id);
+      res.json(updatedStorybook);
+    } catch (error: any) {
+      console.error("Regenerate character sheet error:", error);
+      res.status(500).json({ message: error.message || "Failed to regenerate character sheet" });
+    }
+  });
+
+  // List the illustration options waiting for the owner's pick, oldest first (requires authentication and ownership)
+  app.get("/api/storybooks/:id/illustration-candidates", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to view this storybook's illustration options" });
+      }
+
+      const candidates = await storage.getPendingIllustrationCandidates(id);
+      res.json(candidates);
+    } catch (error) {
+      console.error("Get illustration candidates error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Draw several options for a page or the cover to pick from (requires authentication and ownership)
+  app.post("/api/storybooks/:id/illustration-candidates", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const validationResult = requestIllustrationCandidatesSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid request" });
+      }
+      const { target, pageNumber, count } = validationResult.data;
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
+      }
+
+      if (storybook.status !== 'complete') {
+        return res.status(409).json({ message: "This storybook has not been illustrated yet" });
+      }
+
+      const page = target === 'page' ? storybook.pages.find(p => p.pageNumber === pageNumber) : undefined;
+      if (target === 'page' && !page) {
+        return res.status(400).json({ message: `Page ${pageNumber} does not exist in this storybook` });
+      }
+      if (page ? page.userSupplied : storybook.coverImageUserSupplied) {
+        return res.status(409).json({ message: `The ${page ? `picture on page ${pageNumber}` : 'cover'} is your own artwork, which is never redrawn` });
+      }
+
+      const candidates = await drawIllustrationCandidates(storybook, count, page);
+      res.json(candidates);
+    } catch (error: any) {
+      console.error("Draw illustration candidates error:", error);
+      res.status(500).json({ message: error.message || "Failed to draw illustration options" });
+    }
+  });
+
+  // Pick one option of a batch (or keep the current illustration); the rest are rejected (requires authentication and ownership)
+  app.post("/api/storybooks/:id/illustration-candidates/choose", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const validationResult = chooseIllustrationCandidateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid request" });
+      }
+      const { batchId, candidateId } = validationResult.data;
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
+      }
+
+      const batch = await storage.getIllustrationCandidateBatch(batchId);
+      if (batch.length === 0 || batch.some(candidate => candidate.storybookId !== id)) {
+        return res.status(404).json({ message: "Illustration options not found" });
+      }
+      if (batch.some(candidate => candidate.status !== 'pending')) {
+        return res.status(409).json({ message: "An option has already been picked for this illustration" });
+      }
+
+      const chosen = candidateId ? batch.find(candidate => candidate.id === candidateId) : undefined;
+      if (candidateId && !chosen) {
+        return res.status(404).json({ message: "Illustration option not found" });
+      }
+
+      if (chosen?.target === 'page') {
+        const currentPage = storybook.pages.find(p => p.pageNumber === chosen.pageNumber);
+        if (!currentPage) {
+          return res.status(409).json({ message: "This page is no longer in the storybook" });
+        }
+        if (currentPage.userSupplied) {
+          return res.status(409).json({ message: `The picture on page ${currentPage.pageNumber} is your own artwork, which is never redrawn` });
+        }
+        // The replaced illustration stays in the page's history
+        const { pageNumber, ...pageData } = currentPage;
+        await storage.updatePage(id, pageNumber, { ...pageData, imageUrl: chosen.imageUrl, imagePrompt: chosen.imagePrompt }, {
+          changeType: 'candidate',
+          instruction: null,
+          createdBy: userId,
+        });
+        moderateStorybookInBackground(id, [pageNumber]);
+      } else if (chosen) {
+        if (storybook.coverImageUserSupplied) {
+          return res.status(409).json({ message: "The cover is your own artwork, which is never redrawn" });
+        }
+        await storage.updateStorybookCover(id, chosen.imageUrl);
+      }
+
+      await storage.decideIllustrationCandidates(batchId, chosen?.id ?? null);
+
+      analytics.trackIllustrationCandidateChosen(userId, id, batch, chosen?.id ?? null).catch(err => {
+        console.error('Failed to track illustration_candidate_chosen event:', err);
+      });
+
+      const updatedStorybook = await storage.getStorybook(id);
+      res.json(updatedStorybook);
+    } catch (error) {
+      console.error("Choose illustration candidate error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // List the earlier versions of a page, newest first (requires authentication and ownership)
+  app.get("/api/storybooks/:id/pages/:pageNumber/revisions", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const pageNumber = parseInt(req.params.pageNumber);
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to view this storybook's history" });
+      }
+
+      if (!storybook.pages.some(p => p.pageNumber === pageNumber)) {
+        return res.status(404).json({ message: `Page ${req.params.pageNumber} does not exist in this storybook` });
+      }
+
+      const revisions = await storage.getPageRevisions(id, pageNumber);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Get page revisions error:", error);
+      res.status(500).json({ message: "Failed to fetch page history" });
+    }
+  });
+
+  // Restore an earlier version of a page; the version it replaces is kept in the history (requires authentication and ownership)
+  app.post("/api/storybooks/:id/pages/:pageNumber/revisions/:revisionId/revert", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, revisionId } = req.params;
+      const pageNumber = parseInt(req.params.pageNumber);
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
+      }
+
+      const revision = await storage.getPageRevision(revisionId);
+      if (!revision || revision.storybookId !== id || revision.pageNumber !== pageNumber) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      if (!storybook.pages.some(p => p.pageNumber === pageNumber)) {
+        return res.status(404).json({ message: `Page ${pageNumber} does not exist in this storybook` });
+      }
+
+      // Revisions keep only the primary text, so a bilingual page is translated again
+      const secondaryText = storybook.status === 'draft'
+        ? undefined
+        : (await withSecondaryText(storybook, [{ pageNumber, text: revision.text }]))[0].secondaryText;
+
+      await storage.updatePage(id, pageNumber, {
+        text: revision.text,
+        imageUrl: revision.imageUrl,
+        imagePrompt: revision.imagePrompt,
+        characterIds: revision.characterIds || undefined,
+        scene: revision.scene || undefined,
+        secondaryText,
+        userSupplied: revision.imageUserSupplied,
+      }, {
+        changeType: 'revert',
+        instruction: null,
+        createdBy: userId,
+      });
+      await refreshReadability(id);
+
+      // The restored version may have been replaced before it was checked
+      if (storybook.status === 'complete') {
+        moderateStorybookInBackground(id, [pageNumber]);
+      }
+
+      const updatedStorybook = await storage.getStorybook(id);
+      res.json(updatedStorybook);
+    } catch (error) {
+      console.error("Revert page error:", error);
+      res.status(500).json({ message: "Failed to restore page" });
+    }
+  });
+
+  // Insert a new page at a position; its text bridges the pages around it (requires authentication and ownership)
+  app.post("/api/storybooks/:id/pages", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const validationResult = addPageSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid request" });
+      }
+      const { position } = validationResult.data;
+      const instruction = validationResult.data.instruction || undefined;
+
+      const blockedTerms = await findBlockedInput([instruction]);
+      if (blockedTerms.length > 0) {
+        return res.status(400).json({ message: blockedContentMessage(blockedTerms) });
+      }
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
+      }
+
+      if (storybook.status === 'illustrating') {
+        return res.status(409).json({ message: "Pages can't be changed while the storybook is being illustrated" });
+      }
+
+      // The book was priced for its length, so it can't grow past it
+      const maxPages = getMaxPages(await getBookLengthOptions(), storybook.bookLength);
+      if (storybook.pages.length >= maxPages) {
+        return res.status(400).json({ message: `This storybook already has the ${maxPages} pages its length allows` });
+      }
+
+      // Put an empty page in place first so the model sees the new page's actual neighbours
+      const withPlaceholder = insertPage(storybook.pages, position, { text: '', imageUrl: '', imagePrompt: '' });
+
+      const { regenerateSinglePage } = await import("./services/gemini");
+      const newPageContent = await regenerateSinglePage({
+        title: storybook.title,
+        pages: withPlaceholder.pages,
+        mainCharacterDescription: storybook.mainCharacterDescription || '',
+        defaultClothing: storybook.defaultClothing || '',
+        characters: storybook.characters || undefined,
+        storyArc: storybook.storyArc || '',
+        age: storybook.age,
+        language: storybook.language,
+      }, position, { instruction, newPage: true });
+
+      const newPage = {
+        text: newPageContent.text,
+        imageUrl: '',
+        imagePrompt: newPageContent.imagePrompt,
+        characterIds: newPageContent.characterIds,
+        scene: newPageContent.scene,
+        secondaryText: undefined as string | undefined,
+      };
+
+      // Drafts are illustrated (and bilingual drafts translated) all at once later
+      if (storybook.status === 'complete') {
+        newPage.imageUrl = await illustrateStorybookPage(storybook, { pageNumber: position, ...newPage });
+        const [translated] = await withSecondaryText(storybook, [{ pageNumber: position, text: newPage.text }]);
+        newPage.secondaryText = translated.secondaryText;
+      }
+
+      // Apply to the latest pages in case they changed while the page was being generated
+      const latest = await storage.getStorybook(id);
+      if (!latest) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+      if (latest.pages.length >= maxPages) {
+        return res.status(400).json({ message: `This storybook already has the ${maxPages} pages its length allows` });
+      }
+      const insertedAt = Math.min(position, latest.pages.length + 1);
+      const { pages, pageNumberMap } = insertPage(latest.pages, insertedAt, newPage);
+      await storage.updateStorybookPages(id, pages, pageNumberMap);
+      await refreshReadability(id);
+
+      if (storybook.status === 'complete') {
+        moderateStorybookInBackground(id, [insertedAt]);
+      }
+
+      const updatedStorybook = await storage.getStorybook(id);
+      res.json(updatedStorybook);
+    } catch (error: any) {
+      if (error instanceof InvalidPageStructureError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Add page error:", error);
+      res.status(500).json({ message: error.message || "Failed to add page" });
+    }
+  });
+
+  // Remove a page; the pages after it are renumbered (requires authentication and ownership)
+  app.delete("/api/storybooks/:id/pages/:pageNumber", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const pageNumber = parseInt(req.params.pageNumber);
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
+      }
+
+      if (storybook.status === 'illustrating') {
+        return res.status(409).json({ message: "Pages can't be changed while the storybook is being illustrated" });
+      }
+
+      const { pages, pageNumberMap } = removePage(storybook.pages, pageNumber);
+      await storage.updateStorybookPages(id, pages, pageNumberMap);
+      await refreshReadability(id);
+
+      const updatedStorybook = await storage.getStorybook(id);
+      res.json(updatedStorybook);
+    } catch (error) {
+      if (error instanceof InvalidPageStructureError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Remove page error:", error);
+      res.status(500).json({ message: "Failed to remove page" });
+    }
+  });
+
+  // Put the pages in a new order (requires authentication and ownership)
+  app.put("/api/storybooks/:id/pages/order", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const validationResult = reorderPagesSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid request" });
+      }
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
+      }
+
+      if (storybook.status === 'illustrating') {
+        return res.status(409).json({ message: "Pages can't be changed while the storybook is being illustrated" });
+      }
+
+      const { pages, pageNumberMap } = reorderPages(storybook.pages, validationResult.data.order);
+      await storage.updateStorybookPages(id, pages, pageNumberMap);
+      await refreshReadability(id);
+
+      const updatedStorybook = await storage.getStorybook(id);
+      res.json(updatedStorybook);
+    } catch (error) {
+      if (error instanceof InvalidPageStructureError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Reorder pages error:", error);
+      res.status(500).json({ message: "Failed to reorder pages" });
+    }
+  });
+
+  // List the original book and its translated editions (requires authentication and ownership)
+  app.get("/api/storybooks/:id/editions", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.id || req.user.claims?.sub;
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
+      }
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to view this storybook's editions" });
+      }
+
+      const editions = await storage.getStorybookEditions(id);
+      res.json(editions.filter(edition => edition.userId === userId));
+    } catch (error) {
+      console.error("Get editions error:", error);
+      res.status(500).json({ message: "Failed to get editions" });
+    }
+  });
+
+  // Translate a finished storybook into a new, linked edition that reuses its illustrations
+  app.post("/api/storybooks/:id/translate", isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { pageNumber } = req.body;
       const userId = req.user.id || req.user.claims?.sub;
 
-      // Validate pageNumber
-      if (!pageNumber || typeof pageNumber !== 'number') {
-        return res.status(400).json({ message: "Valid page number is required" });
+      const validationResult = translateStorybookSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid request" });
       }
+      const { language, regenerateCover } = validationResult.data;
 
-      // Get the storybook
       const storybook = await storage.getStorybook(id);
       if (!storybook) {
         return res.status(404).json({ message: "Storybook not found" });
       }
-
-      // Check ownership
       if (storybook.userId !== userId) {
-        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
+        return res.status(403).json({ message: "You don't have permission to translate this storybook" });
+      }
+      if (storybook.status !== 'complete') {
+        return res.status(409).json({ message: "This storybook has not been illustrated yet" });
+      }
+      if (storybook.moderationStatus === 'rejected') {
+        return res.status(409).json({ message: "This storybook was removed by a moderator and cannot be translated" });
       }
 
-      // Validate that the page exists
-      const pageExists = storybook.pages.some(p => p.pageNumber === pageNumber);
-      if (!pageExists) {
-        return res.status(400).json({ message: `Page ${pageNumber} does not exist in this storybook` });
+      // One edition per language
+      const existing = (await storage.getStorybookEditions(id)).find(edition => edition.language === language);
+      if (existing) {
+        return res.status(409).json({ message: "This storybook already has an edition in that language", storybookId: existing.id });
       }
 
-      // Generate new page content using Gemini
-      const { regenerateSinglePage } = await import("./services/gemini");
-      const newPageContent = await regenerateSinglePage({
-        title: storybook.title,
-        pages: storybook.pages,
-        mainCharacterDescription: storybook.mainCharacterDescription || '',
-        defaultClothing: storybook.defaultClothing || '',
-        storyArc: storybook.storyArc || '',
-      }, pageNumber);
+      const edition = await createTranslatedEdition(storybook, language, { regenerateCover });
 
-      // Generate the image for the new page
-      const { generateIllustration } = await import("./services/gemini");
-      const { ObjectStorageService } = await import("./objectStorage");
-      const objectStorage = new ObjectStorageService();
+      moderateStorybookInBackground(edition.id);
 
-      // Build the full image prompt using the centralized utility function
-      const fullImagePrompt = buildFinalImagePrompt({
-        mainCharacterDescription: storybook.mainCharacterDescription || undefined,
-        defaultClothing: storybook.defaultClothing || undefined,
-        scenePrompt: newPageContent.imagePrompt,
-        artStyle: storybook.artStyle || undefined,
-      });
+      res.status(201).json(edition);
+    } catch (error: any) {
+      console.error("Translate storybook error:", error);
+      res.status(500).json({ message: error.message || "Failed to translate storybook" });
+    }
+  });
 
-      // Log the full prompt for debugging
-      console.log(`[Page Regeneration] Page ${pageNumber} full prompt:`, fullImagePrompt);
-      console.log(`[Page Regeneration] Art style:`, storybook.artStyle || 'default');
+  // Make a book bilingual, with every page also in a second language, or single-language again (requires authentication and ownership)
+  app.put("/api/storybooks/:id/bilingual", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.id || req.user.claims?.sub;
 
-      // Generate image to temp location (generateIllustration already optimizes to JPG)
-      const filename = `${randomUUID()}_page_${pageNumber}.jpg`;
-      const tempImagePath = path.join("uploads", filename);
-      
-      // Download first inspiration image (user's photo) to use as reference for character consistency
-      let inspirationImagePath: string | undefined;
-      if (storybook.inspirationImages && storybook.inspirationImages.length > 0) {
-        try {
-          // Create a temp path for the inspiration image
-          const inspirationFilename = `${randomUUID()}_inspiration_ref.jpg`;
-          inspirationImagePath = path.join("uploads", inspirationFilename);
-          
-          // Download the first inspiration image from object storage
-          const inspirationUrl = storybook.inspirationImages[0];
-          const inspirationImageResponse = await fetch(`http://localhost:5000${inspirationUrl}`);
-          if (inspirationImageResponse.ok) {
-            const inspirationImageBuffer = await inspirationImageResponse.arrayBuffer();
-            fs.writeFileSync(inspirationImagePath, Buffer.from(inspirationImageBuffer));
-            console.log(`[Page Regeneration] Using uploaded photo as reference for consistency`);
-          } else {
-            console.warn(`[Page Regeneration] Could not download inspiration image: ${inspirationImageResponse.status}`);
-            inspirationImagePath = undefined;
-          }
-        } catch (error) {
-          console.warn(`[Page Regeneration] Error downloading inspiration image:`, error);
-          inspirationImagePath = undefined;
-        }
+      const validationResult = updateBilingualSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid request" });
       }
-      
-      // Use art style from storybook if available
-      const artStyle = storybook.artStyle || undefined;
-      
-      // Progressive visual reference chain: use inspiration image and cover image
-      const regenerateReferences: string[] = [];
-      if (inspirationImagePath) {
-        regenerateReferences.push(inspirationImagePath);
+      const { secondaryLanguage } = validationResult.data;
+
+      const storybook = await storage.getStorybook(id);
+      if (!storybook) {
+        return res.status(404).json({ message: "Storybook not found" });
       }
-      
-      // Also download the cover image to use as reference for consistency
-      let coverImageRefPath: string | undefined;
-      if (storybook.coverImageUrl) {
-        try {
-          const coverFilename = `${randomUUID()}_cover_ref.jpg`;
-          coverImageRefPath = path.join("uploads", coverFilename);
-          const coverImageResponse = await fetch(`http://localhost:5000${storybook.coverImageUrl}`);
-          if (coverImageResponse.ok) {
-            const coverImageBuffer = await coverImageResponse.arrayBuffer();
-            fs.writeFileSync(coverImageRefPath, Buffer.from(coverImageBuffer));
-            regenerateReferences.push(coverImageRefPath);
-            console.log(`[Page Regeneration] Using cover image as reference for visual consistency`);
-          } else {
-            coverImageRefPath = undefined;
-          }
-        } catch (error) {
-          console.warn(`[Page Regeneration] Error downloading cover image:`, error);
-          coverImageRefPath = undefined;
-        }
+      if (storybook.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this storybook" });
       }
-      
-      await generateIllustration(fullImagePrompt, tempImagePath, regenerateReferences.length > 0 ? regenerateReferences : undefined, artStyle);
-
-      // Upload to object storage (uploadFile adds date-based path automatically)
-      const imageUrl = await objectStorage.uploadFile(tempImagePath, filename, true, storybook.createdAt || new Date());
-
-      // Clean up temp files
-      try {
-        fs.unlinkSync(tempImagePath);
-        if (inspirationImagePath && fs.existsSync(inspirationImagePath)) {
-          fs.unlinkSync(inspirationImagePath);
-        }
-        if (coverImageRefPath && fs.existsSync(coverImageRefPath)) {
-          fs.unlinkSync(coverImageRefPath);
-        }
-      } catch (err) {
-        console.warn("Failed to delete temp files:", err);
+      if (secondaryLanguage === storybook.language) {
+        return res.status(400).json({ message: "The second language must differ from the story language" });
+      }
+      if (storybook.status === 'illustrating') {
+        return res.status(409).json({ message: "Languages can't be changed while the storybook is being illustrated" });
       }
 
-      // Update the page in storage
-      await storage.updatePage(id, pageNumber, {
-        text: newPageContent.text,
-        imageUrl,
-        imagePrompt: newPageContent.imagePrompt,
-      });
+      await setSecondaryLanguage(storybook, secondaryLanguage);
 
-      // Track analytics
-      await analytics.trackPageRegenerated(userId, id, pageNumber);
+      // The translated text is checked like any other page text
+      if (secondaryLanguage && storybook.status === 'complete') {
+        moderateStorybookInBackground(id);
+      }
 
-      // Get and return the updated storybook
       const updatedStorybook = await storage.getStorybook(id);
       res.json(updatedStorybook);
     } catch (error: any) {
-      console.error("Regenerate page error:", error);
-      res.status(500).json({ message: error.message || "Failed to regenerate page" });
+      console.error("Update bilingual storybook error:", error);
+      res.status(500).json({ message: error.message || "Failed to update the book's languages" });
     }
   });
 
@@ -2963,12 +4253,14 @@ Sitemap: ${baseUrl}/sitemap.xml`;
       const page = parseInt(req.query.page as string) || 1;
       const limit = 20;
       const offset = (page - 1) * limit;
+      // Optional search over titles and page content (text, settings, objects and moods)
+      const search = typeof req.query.q === 'string' ? req.query.q.trim().slice(0, 100) : '';
 
       // Check if user is authenticated (optional for gallery)
       const userId = req.user ? (req.user.id || req.user.claims?.sub) : null;
 
-      const storybooks = await storage.getPublicStorybooks(limit, offset);
-      const totalCount = await storage.getPublicStorybookCount();
+      const storybooks = await storage.getPublicStorybooks(limit, offset, search || undefined);
+      const totalCount = await storage.getPublicStorybookCount(search || undefined);
 
       // Enrich with user info, rating data, and saved status
       const enrichedStorybooks = await Promise.all(
@@ -3297,11 +4589,8 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         return res.status(400).json({ message: "Items array is required" });
       }
 
-      // Fetch pricing from admin settings with fallback defaults
-      const digitalPriceSetting = await storage.getSetting('digital_price');
-      const printPriceSetting = await storage.getSetting('print_price');
-      const digitalPrice = digitalPriceSetting ? parseInt(digitalPriceSetting.value) : 399;
-      const printPrice = printPriceSetting ? parseInt(printPriceSetting.value) : 2499;
+      // Fetch pricing from admin settings with fallback defaults (prices depend on each book's length)
+      const getBookPrices = await loadBookPricing();
 
       const lineItems = [];
       const processedItems = [];
@@ -3320,6 +4609,7 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         }
 
         // SECURITY: Calculate price server-side, ignore client-provided price
+        const { digitalPrice, printPrice } = getBookPrices(storybook);
         let serverPrice = type === 'digital' ? digitalPrice : printPrice;
         let discount = 0;
         let originalPrice = serverPrice;
@@ -3392,11 +4682,8 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         return res.status(400).json({ message: "Items array is required" });
       }
 
-      // Fetch pricing from admin settings with fallback defaults
-      const digitalPriceSetting = await storage.getSetting('digital_price');
-      const printPriceSetting = await storage.getSetting('print_price');
-      const digitalPrice = digitalPriceSetting ? parseInt(digitalPriceSetting.value) : 399;
-      const printPrice = printPriceSetting ? parseInt(printPriceSetting.value) : 2499;
+      // Fetch pricing from admin settings with fallback defaults (prices depend on each book's length)
+      const getBookPrices = await loadBookPricing();
 
       let total = 0;
       const processedItems = [];
@@ -3416,6 +4703,7 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         }
 
         // SECURITY: Calculate price server-side from admin settings
+        const { digitalPrice, printPrice } = getBookPrices(storybook);
         let serverPrice = type === 'digital' ? digitalPrice : printPrice;
         let discount = 0;
         let originalPrice = serverPrice;
@@ -3443,7 +4731,8 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         // Include book customization for print purchases
         if (type === 'print') {
           processedItem.bookSize = bookSize || 'a5-portrait';
-          processedItem.spineText = spineText || '';
+          // Books of a series show their number on the spine unless the customer wrote their own text
+          processedItem.spineText = spineText || getSeriesSpineText(storybook);
           processedItem.spineTextColor = spineTextColor || '#000000';
           processedItem.spineBackgroundColor = spineBackgroundColor || '#FFFFFF';
         }
@@ -3527,11 +4816,8 @@ Sitemap: ${baseUrl}/sitemap.xml`;
       const userId = req.user.id || req.user.claims?.sub;
       const cartItems = await storage.getCartItems(userId);
       
-      // Fetch pricing from admin settings with fallback defaults
-      const digitalPriceSetting = await storage.getSetting('digital_price');
-      const printPriceSetting = await storage.getSetting('print_price');
-      const digitalPrice = digitalPriceSetting ? parseInt(digitalPriceSetting.value) : 399;
-      const printPrice = printPriceSetting ? parseInt(printPriceSetting.value) : 2499;
+      // Fetch pricing from admin settings with fallback defaults (prices depend on each book's length)
+      const getBookPrices = await loadBookPricing();
       
       // Enrich cart items with storybook data and pricing
       const enrichedItems = await Promise.all(
@@ -3545,6 +4831,7 @@ Sitemap: ${baseUrl}/sitemap.xml`;
             const existingPrintPurchase = await storage.getStorybookPurchase(userId, item.storybookId, 'print');
             
             // Calculate price with potential discount
+            const { digitalPrice, printPrice } = getBookPrices(storybook);
             let price = item.productType === 'digital' ? digitalPrice : printPrice;
             let discount = 0;
             let originalPrice = price;
@@ -3569,6 +4856,7 @@ Sitemap: ${baseUrl}/sitemap.xml`;
           } catch (error) {
             console.error(`Failed to enrich cart item ${item.id}:`, error);
             // Return item with null storybook if fetch fails
+            const { digitalPrice, printPrice } = getBookPrices(null);
             const price = item.productType === 'digital' ? digitalPrice : printPrice;
             return {
               ...item,
@@ -3676,11 +4964,8 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         return res.status(400).json({ message: "Items array is required" });
       }
 
-      // Fetch pricing from admin settings with fallback defaults
-      const digitalPriceSetting = await storage.getSetting('digital_price');
-      const printPriceSetting = await storage.getSetting('print_price');
-      const digitalPrice = digitalPriceSetting ? parseInt(digitalPriceSetting.value) : 399;
-      const printPrice = printPriceSetting ? parseInt(printPriceSetting.value) : 2499;
+      // Fetch pricing from admin settings with fallback defaults (prices depend on each book's length)
+      const getBookPrices = await loadBookPricing();
 
       const pricedItems = [];
 
@@ -3688,6 +4973,7 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         const { storybookId, type } = item;
         
         // Calculate price with potential discount
+        const { digitalPrice, printPrice } = getBookPrices(await storage.getStorybook(storybookId));
         let price = type === 'digital' ? digitalPrice : printPrice;
         let discount = 0;
         let originalPrice = price;
@@ -3732,11 +5018,8 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         return res.status(400).json({ message: "Cart is empty" });
       }
 
-      // Fetch pricing from admin settings with fallback defaults
-      const digitalPriceSetting = await storage.getSetting('digital_price');
-      const printPriceSetting = await storage.getSetting('print_price');
-      const digitalPrice = digitalPriceSetting ? parseInt(digitalPriceSetting.value) : 399;
-      const printPrice = printPriceSetting ? parseInt(printPriceSetting.value) : 2499;
+      // Fetch pricing from admin settings with fallback defaults (prices depend on each book's length)
+      const getBookPrices = await loadBookPricing();
 
       let total = 0;
       const processedItems = [];
@@ -3745,6 +5028,7 @@ Sitemap: ${baseUrl}/sitemap.xml`;
         const { storybookId, productType, bookSize, quantity } = item;
         
         // Calculate price with potential discount
+        const { digitalPrice, printPrice } = getBookPrices(await storage.getStorybook(storybookId));
         let price = productType === 'digital' ? digitalPrice : printPrice;
         let discount = 0;
 
@@ -3872,10 +5156,8 @@ Sitemap: ${baseUrl}/sitemap.xml`;
       }
 
       // Calculate price
-      const digitalPriceSetting = await storage.getSetting('digital_price');
-      const printPriceSetting = await storage.getSetting('print_price');
-      const digitalPrice = digitalPriceSetting ? parseInt(digitalPriceSetting.value) : 399;
-      const printPrice = printPriceSetting ? parseInt(printPriceSetting.value) : 2499;
+      const getBookPrices = await loadBookPricing();
+      const { digitalPrice, printPrice } = getBookPrices(storybook);
 
       let price = productType === 'digital' ? digitalPrice : printPrice;
       
@@ -4178,13 +5460,11 @@ Sitemap: ${baseUrl}/sitemap.xml`;
       })));
 
       // Calculate prices
-      const digitalPriceSetting = await storage.getSetting('digital_price');
-      const printPriceSetting = await storage.getSetting('print_price');
-      const digitalPrice = digitalPriceSetting ? parseInt(digitalPriceSetting.value) : 399;
-      const printPrice = printPriceSetting ? parseInt(printPriceSetting.value) : 2499;
+      const getBookPrices = await loadBookPricing();
 
       const items = [];
       for (const item of cartItems) {
+        const { digitalPrice, printPrice } = getBookPrices(await storage.getStorybook(item.storybookId));
         let price = item.productType === 'digital' ? digitalPrice : printPrice;
         
         if (item.productType === 'print') {
@@ -5546,6 +6826,154 @@ Sitemap: ${baseUrl}/sitemap.xml`;
     }
   });
 
+  // Saved Character API Routes
+
+  // Get the authenticated user's saved characters
+  app.get("/api/characters", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id || req.user.claims?.sub;
+      const characters = await storage.getSavedCharacters(userId);
+      res.json(characters);
+    } catch (error) {
+      console.error("Get saved characters error:", error);
+      res.status(500).json({ message: "Failed to get saved characters" });
+    }
+  });
+
+  // Save a new character with 1-3 reference photos
+  app.post("/api/characters", isAuthenticated, upload.array("photos", MAX_CHARACTER_PHOTOS), async (req: any, res) => {
+    try {
+      const userId = req.user.id || req.user.claims?.sub;
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+      const validationResult = savedCharacterSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid character" });
+      }
+      if (files.length === 0) {
+        return res.status(400).json({ message: "Add at least one photo of this character" });
+      }
+
+      const { name, age, appearance, outfit } = validationResult.data;
+      const blockedTerms = await findBlockedInput([name, appearance, outfit]);
+      if (blockedTerms.length > 0) {
+        return res.status(400).json({ message: blockedContentMessage(blockedTerms) });
+      }
+
+      const character = await storage.createSavedCharacter({
+        userId,
+        name,
+        age: age || null,
+        appearance,
+        outfit,
+        photoUrls: await storeCharacterPhotos(files),
+      });
+      res.status(201).json(character);
+    } catch (error: any) {
+      console.error("Create saved character error:", error);
+      res.status(500).json({ message: error.message || "Failed to save character" });
+    }
+  });
+
+  // Update a saved character; keepPhotoUrls lists the existing photos to keep, new uploads are added after them
+  app.patch("/api/characters/:id", isAuthenticated, upload.array("photos", MAX_CHARACTER_PHOTOS), async (req: any, res) => {
+    try {
+      const userId = req.user.id || req.user.claims?.sub;
+      const { id } = req.params;
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+      const existing = await storage.getSavedCharacter(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Character not found" });
+      }
+      if (existing.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this character" });
+      }
+
+      const validationResult = savedCharacterSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: validationResult.error.errors[0]?.message || "Invalid character" });
+      }
+
+      const requestedKeep: string[] = req.body.keepPhotoUrls === undefined
+        ? existing.photoUrls
+        : [].concat(req.body.keepPhotoUrls);
+      const keptPhotoUrls = existing.photoUrls.filter(url => requestedKeep.includes(url));
+      const photoCount = keptPhotoUrls.length + files.length;
+      if (photoCount === 0 || photoCount > MAX_CHARACTER_PHOTOS) {
+        return res.status(400).json({ message: `A character needs between 1 and ${MAX_CHARACTER_PHOTOS} photos` });
+      }
+
+      const { name, age, appearance, outfit } = validationResult.data;
+      const blockedTerms = await findBlockedInput([name, appearance, outfit]);
+      if (blockedTerms.length > 0) {
+        return res.status(400).json({ message: blockedContentMessage(blockedTerms) });
+      }
+
+      const character = await storage.updateSavedCharacter(id, {
+        name,
+        age: age || null,
+        appearance,
+        outfit,
+        photoUrls: [...keptPhotoUrls, ...await storeCharacterPhotos(files)],
+      });
+      await deleteCharacterImages(existing.photoUrls.filter(url => !keptPhotoUrls.includes(url)));
+      res.json(character);
+    } catch (error: any) {
+      console.error("Update saved character error:", error);
+      res.status(500).json({ message: error.message || "Failed to update character" });
+    }
+  });
+
+  // Delete a saved character along with its photos and portrait; books already made with it keep their copies
+  app.delete("/api/characters/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id || req.user.claims?.sub;
+      const { id } = req.params;
+
+      const existing = await storage.getSavedCharacter(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Character not found" });
+      }
+      if (existing.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to delete this character" });
+      }
+
+      await storage.deleteSavedCharacter(id);
+      await deleteCharacterImages([...existing.photoUrls, ...(existing.portraitUrl ? [existing.portraitUrl] : [])]);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete saved character error:", error);
+      res.status(500).json({ message: "Failed to delete character" });
+    }
+  });
+
+  // Draw (or redraw) a saved character's canonical portrait, used as their reference in new books
+  app.post("/api/characters/:id/portrait", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id || req.user.claims?.sub;
+      const { id } = req.params;
+
+      const existing = await storage.getSavedCharacter(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Character not found" });
+      }
+      if (existing.userId !== userId) {
+        return res.status(403).json({ message: "You don't have permission to modify this character" });
+      }
+
+      const portraitUrl = await generateCharacterPortrait(existing);
+      const character = await storage.updateSavedCharacter(id, { portraitUrl });
+      if (existing.portraitUrl) {
+        await deleteCharacterImages([existing.portraitUrl]);
+      }
+      res.json(character);
+    } catch (error: any) {
+      console.error("Generate character portrait error:", error);
+      res.status(500).json({ message: error.message || "Failed to draw portrait" });
+    }
+  });
+
   // User Shipping Address API Routes
   
   // Get all shipping addresses for authenticated user
@@ -6340,378 +7768,3 @@ Sitemap: ${baseUrl}/sitemap.xml`;
   const httpServer = createServer(app);
   return httpServer;
 }
-
-async function generateStorybookAsync(
-  sessionId: string,
-  userId: string,
-  prompt: string,
-  author: string,
-  age: string | undefined,
-  imagePaths: string[],
-  pagesPerBook: number = 3,
-  illustrationStyle: string = "vibrant and colorful children's book illustration",
-  foreword?: string,
-  characterDescriptions: string[] = []
-): Promise<void> {
-  try {
-    // Step 1: Processing images
-    await storage.setGenerationProgress(sessionId, {
-      step: 'processing_images',
-      progress: 10,
-      message: 'Processing inspiration images...',
-    });
-
-    // Step 2: Generate story
-    await storage.setGenerationProgress(sessionId, {
-      step: 'generating_story',
-      progress: 30,
-      message: `Generating ${pagesPerBook}-page story outline...`,
-    });
-
-    console.time('📝 Story generation');
-    const generatedStory = await generateStoryFromPrompt(prompt, imagePaths, pagesPerBook, illustrationStyle, age, author, characterDescriptions);
-    console.timeEnd('📝 Story generation');
-
-    // Step 3: Generate illustrations
-    await storage.setGenerationProgress(sessionId, {
-      step: 'generating_illustrations',
-      progress: 50,
-      message: 'Creating beautiful illustrations...',
-    });
-
-    const generatedDir = path.join(process.cwd(), "generated");
-    if (!fs.existsSync(generatedDir)) {
-      fs.mkdirSync(generatedDir, { recursive: true });
-    }
-
-    // Initialize Object Storage service
-    const { ObjectStorageService } = await import("./objectStorage");
-    const objectStorage = new ObjectStorageService();
-
-    // Upload inspiration images to Object Storage and save URLs for later use
-    const inspirationImageUrls: string[] = [];
-    for (let i = 0; i < imagePaths.length; i++) {
-      const imagePath = imagePaths[i];
-      const inspirationFileName = `${sessionId}_inspiration_${i}.jpg`;
-      const inspirationUrl = await objectStorage.uploadFile(imagePath, inspirationFileName);
-      inspirationImageUrls.push(inspirationUrl);
-    }
-
-    // Generate cover image
-    const coverImageFileName = `${sessionId}_cover.jpg`;
-    const coverImagePath = path.join(generatedDir, coverImageFileName);
-    
-    // Build the cover image prompt using the centralized utility function
-    const coverPromptWithCharacter = buildFinalImagePrompt({
-      mainCharacterDescription: generatedStory.mainCharacterDescription,
-      defaultClothing: generatedStory.defaultClothing,
-      scenePrompt: generatedStory.coverImagePrompt,
-      artStyle: illustrationStyle,
-    });
-    
-    // For cover image: use all uploaded inspiration images as references
-    const coverReferences = imagePaths.length > 0 ? imagePaths : undefined;
-    // Generate CLEAN cover image first (no title/author) to use as reference for interior pages
-    console.time('🎨 Clean cover image generation (for reference)');
-    await generateIllustration(coverPromptWithCharacter, coverImagePath, coverReferences, illustrationStyle);
-    console.timeEnd('🎨 Clean cover image generation (for reference)');
-    
-    // Detect orientation from cover image dimensions
-    const metadata = await sharp(coverImagePath).metadata();
-    const width = metadata.width || 1;
-    const height = metadata.height || 1;
-    const aspectRatio = width / height;
-    
-    // Binary classification: landscape (width >= height) or portrait (width < height)
-    let orientation: 'portrait' | 'landscape';
-    if (aspectRatio >= 1.0) {
-      orientation = 'landscape';
-    } else {
-      orientation = 'portrait';
-    }
-    
-    console.log(`📐 Detected book orientation: ${orientation} (${width}x${height}, AR: ${aspectRatio.toFixed(2)})`);
-    
-    // KEEP cover image locally to use as reference for character consistency in all page illustrations
-    // It will be cleaned up after all pages are generated
-
-    // Step 4: Generate page illustrations - SEQUENTIAL or PARALLEL based on env variable
-    const useSequential = process.env.USE_SEQUENTIAL_GENERATION === 'true';
-    console.log(`🔀 Generation mode: ${useSequential ? 'SEQUENTIAL (progressive chaining)' : 'PARALLEL (faster)'}`);
-    
-    let pages: Array<{ pageNumber: number; text: string; imageUrl: string; imagePrompt: string; }>;
-    let backCoverImageUrl: string;
-
-    if (useSequential) {
-      // SEQUENTIAL MODE: Progressive visual reference chain
-      console.time('🔗 Sequential progressive chaining');
-      await storage.setGenerationProgress(sessionId, {
-        step: 'generating_illustrations',
-        progress: 50,
-        message: `Generating ${generatedStory.pages.length} page illustrations sequentially for better consistency...`,
-      });
-
-      // Start with user uploads + cover as initial references
-      const progressiveReferences = [...imagePaths];
-      if (fs.existsSync(coverImagePath)) {
-        progressiveReferences.push(coverImagePath);
-      }
-
-      pages = [];
-      const generatedPagePaths: string[] = [];
-
-      // Generate pages sequentially, adding each to references for the next
-      for (const page of generatedStory.pages) {
-        const imageFileName = `${sessionId}_page_${page.pageNumber}.jpg`;
-        const imagePath = path.join(generatedDir, imageFileName);
-
-        console.log(`📖 Generating page ${page.pageNumber}/${generatedStory.pages.length} with ${progressiveReferences.length} reference images`);
-
-        const pagePromptWithCharacter = buildFinalImagePrompt({
-          mainCharacterDescription: generatedStory.mainCharacterDescription,
-          defaultClothing: generatedStory.defaultClothing,
-          scenePrompt: page.imagePrompt,
-          artStyle: illustrationStyle,
-        });
-
-        await generateIllustration(
-          pagePromptWithCharacter,
-          imagePath,
-          progressiveReferences.length > 0 ? progressiveReferences : undefined,
-          illustrationStyle
-        );
-
-        // Add this page to progressive references for next page
-        generatedPagePaths.push(imagePath);
-        progressiveReferences.push(imagePath);
-
-        // Upload to Object Storage
-        const imageUrl = await objectStorage.uploadFile(imagePath, imageFileName);
-
-        pages.push({
-          pageNumber: page.pageNumber,
-          text: page.text,
-          imageUrl,
-          imagePrompt: page.imagePrompt,
-        });
-
-        // Update progress
-        const progressPercent = 50 + (page.pageNumber / generatedStory.pages.length) * 30;
-        await storage.setGenerationProgress(sessionId, {
-          step: 'generating_illustrations',
-          progress: progressPercent,
-          message: `Generated page ${page.pageNumber}/${generatedStory.pages.length}...`,
-        });
-      }
-
-      // Generate back cover with ALL previous pages as references
-      const backCoverImageFileName = `${sessionId}_back_cover.jpg`;
-      const backCoverImagePath = path.join(generatedDir, backCoverImageFileName);
-      
-      console.log(`📖 Generating back cover with ${progressiveReferences.length} reference images`);
-      
-      const backCoverBasePrompt = `Create a back cover illustration that complements the front cover. Show the character in a different scene that hints at the adventure without spoiling it.`;
-      const backCoverPromptWithCharacter = buildFinalImagePrompt({
-        mainCharacterDescription: generatedStory.mainCharacterDescription,
-        defaultClothing: generatedStory.defaultClothing,
-        scenePrompt: backCoverBasePrompt,
-        artStyle: illustrationStyle,
-      });
-
-      await generateIllustration(
-        backCoverPromptWithCharacter,
-        backCoverImagePath,
-        progressiveReferences.length > 0 ? progressiveReferences : undefined,
-        illustrationStyle
-      );
-
-      backCoverImageUrl = await objectStorage.uploadFile(backCoverImagePath, backCoverImageFileName);
-
-      // Clean up ALL local page images
-      for (const pagePath of generatedPagePaths) {
-        if (fs.existsSync(pagePath)) {
-          fs.unlinkSync(pagePath);
-        }
-      }
-      if (fs.existsSync(backCoverImagePath)) {
-        fs.unlinkSync(backCoverImagePath);
-      }
-
-      console.timeEnd('🔗 Sequential progressive chaining');
-
-    } else {
-      // PARALLEL MODE: Fast generation (original behavior)
-      console.time('⚡ Parallel image generation');
-      await storage.setGenerationProgress(sessionId, {
-        step: 'generating_illustrations',
-        progress: 50,
-        message: `Generating all ${generatedStory.pages.length} page illustrations in parallel...`,
-      });
-
-      // All pages use same references: user uploads + cover
-      const sharedReferences = [...imagePaths];
-      if (fs.existsSync(coverImagePath)) {
-        sharedReferences.push(coverImagePath);
-      }
-
-      // Create all page generation promises
-      const pageGenerationPromises = generatedStory.pages.map(async (page) => {
-        const imageFileName = `${sessionId}_page_${page.pageNumber}.jpg`;
-        const imagePath = path.join(generatedDir, imageFileName);
-
-        const pagePromptWithCharacter = buildFinalImagePrompt({
-          mainCharacterDescription: generatedStory.mainCharacterDescription,
-          defaultClothing: generatedStory.defaultClothing,
-          scenePrompt: page.imagePrompt,
-          artStyle: illustrationStyle,
-        });
-
-        await generateIllustration(
-          pagePromptWithCharacter,
-          imagePath,
-          sharedReferences.length > 0 ? sharedReferences : undefined,
-          illustrationStyle
-        );
-
-        const imageUrl = await objectStorage.uploadFile(imagePath, imageFileName);
-
-        if (fs.existsSync(imagePath)) {
-          fs.unlinkSync(imagePath);
-        }
-
-        return {
-          pageNumber: page.pageNumber,
-          text: page.text,
-          imageUrl,
-          imagePrompt: page.imagePrompt,
-        };
-      });
-
-      // Create back cover generation promise
-      const backCoverImageFileName = `${sessionId}_back_cover.jpg`;
-      const backCoverImagePath = path.join(generatedDir, backCoverImageFileName);
-
-      const backCoverGenerationPromise = (async () => {
-        const backCoverBasePrompt = `Create a back cover illustration that complements the front cover. Show the character in a different scene that hints at the adventure without spoiling it.`;
-
-        const backCoverPromptWithCharacter = buildFinalImagePrompt({
-          mainCharacterDescription: generatedStory.mainCharacterDescription,
-          defaultClothing: generatedStory.defaultClothing,
-          scenePrompt: backCoverBasePrompt,
-          artStyle: illustrationStyle,
-        });
-
-        await generateIllustration(
-          backCoverPromptWithCharacter,
-          backCoverImagePath,
-          sharedReferences.length > 0 ? sharedReferences : undefined,
-          illustrationStyle
-        );
-
-        const backCoverImageUrl = await objectStorage.uploadFile(backCoverImagePath, backCoverImageFileName);
-
-        if (fs.existsSync(backCoverImagePath)) {
-          fs.unlinkSync(backCoverImagePath);
-        }
-
-        return backCoverImageUrl;
-      })();
-
-      // Wait for ALL images to complete in parallel (pages + back cover)
-      [pages, backCoverImageUrl] = await Promise.all([
-        Promise.all(pageGenerationPromises),
-        backCoverGenerationPromise,
-      ]);
-
-      console.timeEnd('⚡ Parallel image generation');
-    }
-
-    // Now regenerate the cover WITH title and author (AI-generated text)
-    // This ensures the final cover has beautiful AI-generated typography
-    console.time('🎨 Final cover generation (with title/author)');
-    await storage.setGenerationProgress(sessionId, {
-      step: 'finalizing',
-      progress: 88,
-      message: 'Generating final cover with title and author...',
-    });
-
-    // Create final cover prompt WITH title and author instruction
-    const finalCoverPrompt = `${coverPromptWithCharacter}
-
-IMPORTANT: This is a book cover. Include the title "${generatedStory.title}" prominently at the top in elegant, readable typography. Add "By ${author}" near the bottom in a smaller, complementary font. Make the text blend beautifully with the illustration style.`;
-
-    // Generate final cover with AI-generated title/author text (allowText: true to permit text rendering)
-    await generateIllustration(finalCoverPrompt, coverImagePath, coverReferences, illustrationStyle, true);
-    
-    // Upload the final cover to replace the clean one
-    const coverImageUrl = await objectStorage.uploadFile(coverImagePath, coverImageFileName);
-    console.timeEnd('🎨 Final cover generation (with title/author)');
-
-    // Update progress after all images are done
-    await storage.setGenerationProgress(sessionId, {
-      step: 'finalizing',
-      progress: 92,
-      message: 'All illustrations generated! Finalizing...',
-    });
-
-    // Step 5: Finalize
-    await storage.setGenerationProgress(sessionId, {
-      step: 'finalizing',
-      progress: 95,
-      message: 'Finalizing your storybook...',
-    });
-
-    // Save to storage with userId, including cover image URL, back cover URL, author, age, and story metadata
-    const storybook = await storage.createStorybook({
-      userId,
-      title: generatedStory.title,
-      author,
-      age,
-      prompt,
-      pages,
-      inspirationImages: inspirationImageUrls,
-      coverImageUrl,
-      backCoverImageUrl,
-      mainCharacterDescription: generatedStory.mainCharacterDescription,
-      defaultClothing: generatedStory.defaultClothing,
-      storyArc: generatedStory.storyArc,
-      artStyle: illustrationStyle,
-      orientation,
-      foreword: foreword || null,
-    });
-
-    // Track story completion (non-blocking)
-    analytics.trackStoryCompleted(userId, storybook.id, pages.length).catch(err => {
-      console.error('Failed to track story_completed event:', err);
-    });
-
-    // Complete - Store the storybook ID in progress for retrieval
-    await storage.setGenerationProgress(sessionId, {
-      step: 'finalizing',
-      progress: 100,
-      message: storybook.id, // Frontend expects the storybook ID here
-    });
-
-    // Clean up cover image now that all pages are generated
-    if (fs.existsSync(coverImagePath)) {
-      fs.unlinkSync(coverImagePath);
-    }
-
-    // Clean up uploaded inspiration images
-    imagePaths.forEach(imagePath => {
-      if (fs.existsSync(imagePath)) {
-        fs.unlinkSync(imagePath);
-      }
-    });
-
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    await storage.setGenerationProgress(sessionId, {
-      step: 'processing_images',
-      progress: 0,
-      message: `Generation failed: ${errorMessage}`,
-      error: errorMessage,
-    });
-    throw error;
-  }
-}
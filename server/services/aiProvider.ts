@@ -0,0 +1,161 @@
+import type { StoryCharacter, StoryLanguage } from "@shared/schema";
+import { createGeminiStoryTextProvider, createGeminiIllustrationProvider, createGeminiContentClassifier } from "./geminiProvider";
+import { createLocalStoryTextProvider, createLocalIllustrationProvider, createLocalContentClassifier } from "./localProvider";
+
+/**
+ * Provider layer behind the story and illustration pipeline.
+ *
+ * Prompt building, sanitization and retries live in gemini.ts; providers only turn a prepared
+ * request into raw model output. Select with AI_PROVIDER ("gemini" or "local"), optionally
+ * overridden per capability with AI_TEXT_PROVIDER / AI_IMAGE_PROVIDER / AI_MODERATION_PROVIDER.
+ */
+
+export type AiProviderName = 'gemini' | 'local';
+
+export interface ProviderImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface ProviderCharacter {
+  id: string;
+  name: string;
+  role: string;
+  appearance: string;
+  clothing: string;
+  referenceImageNumber: number; // 1-based inspiration image showing this character, 0 when none
+}
+
+export interface ProviderStoryPage {
+  pageNumber: number;
+  text: string;
+  characterIds: string[];
+  main_action: string;
+  setting: string;
+  key_objects: string[];
+  emotional_tone: string;
+  imagePrompt: string;
+}
+
+export interface ProviderStory {
+  title: string;
+  author?: string;
+  characters: ProviderCharacter[]; // The main character first
+  storyArc: string;
+  coverImagePrompt: string;
+  pages: ProviderStoryPage[];
+}
+
+export type ProviderPage = Omit<ProviderStoryPage, 'pageNumber'>;
+
+export interface StoryGenerationRequest {
+  prompt: string;
+  pagesPerBook: number;
+  systemInstruction: string;
+  inspirationImages: ProviderImage[];
+}
+
+export interface PageRegenerationRequest {
+  pageNumber: number;
+  systemInstruction: string;
+  storybook: {
+    title: string;
+    pages: Array<{ pageNumber: number; text: string; imagePrompt: string }>;
+    mainCharacterDescription: string;
+    defaultClothing: string;
+    characters?: StoryCharacter[];
+    storyArc: string;
+  };
+}
+
+export interface TranslationRequest {
+  language: StoryLanguage;
+  systemInstruction: string;
+  texts: string[];
+}
+
+export interface IllustrationRequest {
+  prompt: string;
+  referenceImages: ProviderImage[];
+}
+
+export interface ImageEditRequest {
+  image: ProviderImage; // The illustration to change
+  prompt: string; // What to change, and what to leave alone
+  referenceImages: ProviderImage[];
+}
+
+export interface StoryTextProvider {
+  readonly name: AiProviderName;
+  generateStory(request: StoryGenerationRequest): Promise<ProviderStory>;
+  regeneratePage(request: PageRegenerationRequest): Promise<ProviderPage>;
+  // Returns one translation per text, in the same order
+  translateTexts(request: TranslationRequest): Promise<string[]>;
+}
+
+export interface IllustrationProvider {
+  readonly name: AiProviderName;
+  // Returns the encoded image exactly as produced; callers optimize and persist it
+  generateImage(request: IllustrationRequest): Promise<Buffer>;
+  // Returns a copy of request.image with the requested change applied
+  editImage(request: ImageEditRequest): Promise<Buffer>;
+}
+
+export interface ModerationVerdict {
+  flagged: boolean;
+  categories: string[]; // e.g. 'violence', 'sexual content'; empty when not flagged
+  reason: string;
+}
+
+export interface ContentClassifier {
+  readonly name: AiProviderName;
+  classifyText(text: string): Promise<ModerationVerdict>;
+  classifyImage(image: ProviderImage): Promise<ModerationVerdict>;
+}
+
+export class UnknownAiProviderError extends Error {
+  constructor(name: string) {
+    super(`Unknown AI provider "${name}" (expected "gemini" or "local")`);
+    this.name = "UnknownAiProviderError";
+    Object.setPrototypeOf(this, UnknownAiProviderError.prototype);
+  }
+}
+
+function resolveProviderName(override: string | undefined): AiProviderName {
+  const name = (override || process.env.AI_PROVIDER || 'gemini').trim().toLowerCase();
+  if (name !== 'gemini' && name !== 'local') {
+    throw new UnknownAiProviderError(name);
+  }
+  return name;
+}
+
+let storyTextProvider: StoryTextProvider | undefined;
+let illustrationProvider: IllustrationProvider | undefined;
+let contentClassifier: ContentClassifier | undefined;
+
+export function getStoryTextProvider(): StoryTextProvider {
+  if (!storyTextProvider) {
+    const name = resolveProviderName(process.env.AI_TEXT_PROVIDER);
+    storyTextProvider = name === 'local' ? createLocalStoryTextProvider() : createGeminiStoryTextProvider();
+    console.log(`[AI Provider] Story text provider: ${name}`);
+  }
+  return storyTextProvider;
+}
+
+export function getIllustrationProvider(): IllustrationProvider {
+  if (!illustrationProvider) {
+    const name = resolveProviderName(process.env.AI_IMAGE_PROVIDER);
+    illustrationProvider = name === 'local' ? createLocalIllustrationProvider() : createGeminiIllustrationProvider();
+    console.log(`[AI Provider] Illustration provider: ${name}`);
+  }
+  return illustrationProvider;
+}
+
+export function getContentClassifier(): ContentClassifier {
+  if (!contentClassifier) {
+    const name = resolveProviderName(process.env.AI_MODERATION_PROVIDER);
+    contentClassifier = name === 'local' ? createLocalContentClassifier() : createGeminiContentClassifier();
+    console.log(`[AI Provider] Content classifier: ${name}`);
+  }
+  return contentClassifier;
+}
@@ -1,10 +1,11 @@
 import { storage } from "../storage";
-import type { InsertAnalyticsEvent } from "@shared/schema";
+import type { ArtworkTarget, IllustrationCandidate, InsertAnalyticsEvent, PageRegenerationMode } from "@shared/schema";
 
 export async function trackStoryStarted(
   userId: string,
   prompt: string,
-  inspirationImages: string[]
+  inspirationImages: string[],
+  samplePromptId?: string
 ): Promise<void> {
   const event: InsertAnalyticsEvent = {
     userId,
@@ -12,6 +13,8 @@ export async function trackStoryStarted(
     eventData: {
       prompt,
       inspirationImageCount: inspirationImages.length,
+      samplePromptId: samplePromptId || null, // Template the prompt was assembled from
+
       timestamp: new Date().toISOString(),
     },
   };
@@ -20,9 +23,11 @@ export async function trackStoryStarted(
 }
 
 export async function trackStoryCompleted(
-  userId: string,
+  userId: string | null,
   storybookId: string,
-  pageCount?: number
+  pageCount?: number,
+  emotionalTones: string[] = [],
+  samplePromptId?: string
 ): Promise<void> {
   const event: InsertAnalyticsEvent = {
     userId,
@@ -30,6 +35,8 @@ export async function trackStoryCompleted(
     eventType: 'story_completed',
     eventData: {
       pageCount,
+      samplePromptId: samplePromptId || null,
+      emotionalTones, // Per page, in page order (pages without a stored scene are skipped)
       timestamp: new Date().toISOString(),
     },
   };
@@ -40,7 +47,9 @@ export async function trackStoryCompleted(
 export async function trackPageRegenerated(
   userId: string,
   storybookId: string,
-  pageNumber: number
+  pageNumber: number,
+  mode: PageRegenerationMode = 'both',
+  hasInstruction: boolean = false
 ): Promise<void> {
   const event: InsertAnalyticsEvent = {
     userId,
@@ -48,6 +57,72 @@ export async function trackPageRegenerated(
     eventType: 'page_regenerated',
     eventData: {
       pageNumber,
+      mode,
+      hasInstruction,
+      timestamp: new Date().toISOString(),
+    },
+  };
+
+  await storage.trackEvent(event);
+}
+
+export async function trackArtworkUploaded(
+  userId: string,
+  storybookId: string,
+  target: ArtworkTarget,
+  pageNumber?: number
+): Promise<void> {
+  const event: InsertAnalyticsEvent = {
+    userId,
+    storybookId,
+    eventType: 'artwork_uploaded',
+    eventData: {
+      target,
+      pageNumber,
+      timestamp: new Date().toISOString(),
+    },
+  };
+
+  await storage.trackEvent(event);
+}
+
+export async function trackPageImageEdited(
+  userId: string,
+  storybookId: string,
+  pageNumber: number
+): Promise<void> {
+  const event: InsertAnalyticsEvent = {
+    userId,
+    storybookId,
+    eventType: 'page_image_edited',
+    eventData: {
+      pageNumber,
+      timestamp: new Date().toISOString(),
+    },
+  };
+
+  await storage.trackEvent(event);
+}
+
+// One event per decided batch, so rejected options can be traced back to the scene prompts behind them
+export async function trackIllustrationCandidateChosen(
+  userId: string,
+  storybookId: string,
+  batch: IllustrationCandidate[],
+  chosenId: string | null
+): Promise<void> {
+  const [first] = batch;
+  const event: InsertAnalyticsEvent = {
+    userId,
+    storybookId,
+    eventType: 'illustration_candidate_chosen',
+    eventData: {
+      target: first.target,
+      pageNumber: first.pageNumber,
+      source: first.source,
+      imagePrompt: first.imagePrompt,
+      candidateCount: batch.length,
+      chosenIndex: chosenId ? batch.findIndex(candidate => candidate.id === chosenId) : null, // null: the current illustration was kept
       timestamp: new Date().toISOString(),
     },
   };
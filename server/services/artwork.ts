@@ -0,0 +1,33 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { ArtworkTarget, Storybook } from "@shared/schema";
+import { ObjectStorageService } from "../objectStorage";
+import { normalizeArtwork } from "../utils/imageOptimization";
+
+/**
+ * Normalizes an image the owner uploaded (see normalizeArtwork) to the book's orientation and
+ * moves it into object storage next to the book's other illustrations, returning its URL.
+ * The multer upload is removed either way.
+ */
+export async function storeArtwork(
+  file: Express.Multer.File,
+  storybook: Storybook,
+  target: ArtworkTarget,
+  pageNumber?: number
+): Promise<string> {
+  const objectStorage = new ObjectStorageService();
+  const orientation = storybook.orientation === 'landscape' ? 'landscape' : 'portrait';
+  const filename = `${randomUUID()}_${target === 'page' ? `page_${pageNumber}` : target}_upload.jpg`;
+  const outputPath = path.join("uploads", filename);
+  try {
+    fs.writeFileSync(outputPath, await normalizeArtwork(fs.readFileSync(file.path), orientation));
+    return await objectStorage.uploadFile(outputPath, filename, true, storybook.createdAt || new Date());
+  } finally {
+    for (const localPath of [file.path, outputPath]) {
+      if (fs.existsSync(localPath)) {
+        fs.unlinkSync(localPath);
+      }
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import type { Storybook, StoryLanguage } from "@shared/schema";
+import { storage } from "../storage";
+import { translatePageTexts } from "./gemini";
+
+type BilingualBook = Pick<Storybook, 'language' | 'age'> & { secondaryLanguage?: StoryLanguage | null };
+
+/**
+ * Fills in each page's text in the book's second language. Pages of a book that is not
+ * bilingual come back without secondary text, so stale translations never outlive an edit.
+ */
+export async function withSecondaryText<T extends { pageNumber: number; text: string }>(
+  book: BilingualBook,
+  pages: T[]
+): Promise<Array<T & { secondaryText?: string }>> {
+  if (!book.secondaryLanguage) {
+    return pages.map(page => ({ ...page, secondaryText: undefined }));
+  }
+
+  const translations = await translatePageTexts(book, pages, book.secondaryLanguage);
+  return pages.map((page, index) => ({ ...page, secondaryText: translations[index].text }));
+}
+
+/**
+ * Turns a book into a bilingual one by translating every page into the second language,
+ * or back into a single-language book when secondaryLanguage is null. Drafts only record
+ * the language; their pages are translated once the story is illustrated.
+ */
+export async function setSecondaryLanguage(storybook: Storybook, secondaryLanguage: StoryLanguage | null): Promise<void> {
+  const secondaryTextByPage = new Map<number, string>();
+
+  if (secondaryLanguage && storybook.status !== 'draft') {
+    const translations = await translatePageTexts(storybook, storybook.pages, secondaryLanguage);
+    for (const translation of translations) {
+      secondaryTextByPage.set(translation.pageNumber, translation.text);
+    }
+  }
+
+  await storage.updateStorybookSecondaryLanguage(storybook.id, secondaryLanguage, secondaryTextByPage);
+}
@@ -0,0 +1,28 @@
+import { storage } from "../storage";
+import { DEFAULT_BOOK_PRICES, getBookPrices, parseBookLengths, type BookPrices } from "../utils/bookLengths";
+import type { BookLengthOption, Storybook } from "@shared/schema";
+
+/**
+ * The book lengths currently offered on the create form, from admin settings.
+ */
+export async function getBookLengthOptions(): Promise<BookLengthOption[]> {
+  const lengthsSetting = await storage.getSetting('book_lengths');
+  const pagesSetting = await storage.getSetting('pages_per_book');
+  return parseBookLengths(lengthsSetting?.value, pagesSetting ? parseInt(pagesSetting.value) : undefined);
+}
+
+/**
+ * Fetch pricing from admin settings with fallback defaults, once per request.
+ * Returns a lookup for the prices of a particular storybook, which depend on its length.
+ */
+export async function loadBookPricing(): Promise<(storybook?: Pick<Storybook, 'bookLength'> | null) => BookPrices> {
+  const digitalPriceSetting = await storage.getSetting('digital_price');
+  const printPriceSetting = await storage.getSetting('print_price');
+  const basePrices: BookPrices = {
+    digitalPrice: digitalPriceSetting ? parseInt(digitalPriceSetting.value) : DEFAULT_BOOK_PRICES.digitalPrice,
+    printPrice: printPriceSetting ? parseInt(printPriceSetting.value) : DEFAULT_BOOK_PRICES.printPrice,
+  };
+  const options = await getBookLengthOptions();
+
+  return (storybook) => getBookPrices(options, basePrices, storybook?.bookLength);
+}
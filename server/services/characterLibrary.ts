@@ -0,0 +1,72 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { SavedCharacter } from "@shared/schema";
+import { ObjectStorageService } from "../objectStorage";
+import { generateIllustration } from "./gemini";
+import { copyReferenceImages, type CopiedReferences } from "./referenceImages";
+import { buildPortraitPrompt, describeSavedCharacter, getSavedCharacterReferenceUrl } from "../utils/savedCharacters";
+
+/**
+ * Copies the reference image of each saved character starring in a new book into local
+ * uploads, described so the story model writes them in by name with their usual looks.
+ */
+export async function prepareSavedCharacterReferences(characters: SavedCharacter[]): Promise<CopiedReferences> {
+  return copyReferenceImages(
+    characters
+      .filter(character => getSavedCharacterReferenceUrl(character))
+      .map(character => ({
+        url: getSavedCharacterReferenceUrl(character)!,
+        description: `Saved character ${describeSavedCharacter(character)}`,
+      })),
+    'character'
+  );
+}
+
+/**
+ * Draws a saved character's canonical portrait from their photos and notes and stores it,
+ * returning its URL. The previous portrait is left for the caller to remove.
+ */
+export async function generateCharacterPortrait(character: SavedCharacter): Promise<string> {
+  const objectStorage = new ObjectStorageService();
+  const { imagePaths } = await copyReferenceImages(
+    character.photoUrls.map(url => ({ url, description: character.name })),
+    'portrait'
+  );
+  const outputPath = path.join("uploads", `${randomUUID()}_portrait.png`);
+
+  try {
+    await generateIllustration(buildPortraitPrompt(character), outputPath, imagePaths);
+    return await objectStorage.uploadFile(outputPath, `characters/${character.id}_portrait_${Date.now()}.png`);
+  } finally {
+    for (const file of [...imagePaths, outputPath]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+  }
+}
+
+// Moves uploaded reference photos into object storage, returning their URLs in upload order
+export async function storeCharacterPhotos(files: Express.Multer.File[]): Promise<string[]> {
+  const objectStorage = new ObjectStorageService();
+  const urls: string[] = [];
+  for (const file of files) {
+    const extension = path.extname(file.originalname).toLowerCase() || '.jpg';
+    urls.push(await objectStorage.uploadFile(file.path, `characters/${randomUUID()}${extension}`));
+    fs.unlinkSync(file.path);
+  }
+  return urls;
+}
+
+// Removes photos and portraits a saved character no longer uses; failures only leave an orphaned file
+export async function deleteCharacterImages(urls: string[]): Promise<void> {
+  const objectStorage = new ObjectStorageService();
+  for (const url of urls) {
+    try {
+      await objectStorage.deleteFile(url.replace('/api/storage/', ''));
+    } catch (error) {
+      console.warn(`[Characters] Could not delete ${url}:`, error);
+    }
+  }
+}
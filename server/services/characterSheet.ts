@@ -0,0 +1,54 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Storybook, StoryCharacter } from "@shared/schema";
+import { ObjectStorageService } from "../objectStorage";
+import { generateIllustration } from "./gemini";
+import { copyReferenceImages } from "./referenceImages";
+import { buildCharacterSheetPrompt, getCastPhotoUrls } from "../utils/imagePromptBuilder";
+
+export interface CharacterSheetSource {
+  characters?: StoryCharacter[] | null;
+  mainCharacterDescription?: string | null;
+  defaultClothing?: string | null;
+  artStyle?: string | null;
+}
+
+/**
+ * Draws a book's character sheet to outputPath. photoPaths are the reference photos of the
+ * whole cast, in the order the cast is numbered (see getCharacterReferenceIndexes); stylePaths
+ * are the book's style reference pictures.
+ */
+export async function drawCharacterSheet(source: CharacterSheetSource, photoPaths: string[], outputPath: string, stylePaths: string[] = []): Promise<void> {
+  const prompt = buildCharacterSheetPrompt({
+    mainCharacterDescription: source.mainCharacterDescription || undefined,
+    defaultClothing: source.defaultClothing || undefined,
+    characters: source.characters || undefined,
+    artStyle: source.artStyle || undefined,
+  });
+  await generateIllustration(prompt, outputPath, photoPaths.length > 0 ? photoPaths : undefined, source.artStyle || undefined, false, stylePaths);
+}
+
+/**
+ * Draws a new character sheet for a finished book from its stored photos and uploads it,
+ * returning the URL. The previous sheet is left for the caller to remove.
+ */
+export async function regenerateCharacterSheet(storybook: Storybook): Promise<string> {
+  const objectStorage = new ObjectStorageService();
+  const photoUrls = getCastPhotoUrls(storybook.characters || undefined, storybook.inspirationImages);
+  const { imagePaths } = await copyReferenceImages(photoUrls.map(url => ({ url, description: storybook.title })), 'sheet');
+  const style = await copyReferenceImages(storybook.styleReferenceImages.map(url => ({ url, description: 'Style sample' })), 'style');
+
+  const filename = `${storybook.id}_character_sheet_${Date.now()}.jpg`;
+  const outputPath = path.join("uploads", `${randomUUID()}_character_sheet.jpg`);
+  try {
+    await drawCharacterSheet(storybook, imagePaths, outputPath, style.imagePaths);
+    return await objectStorage.uploadFile(outputPath, filename, true, storybook.createdAt || new Date());
+  } finally {
+    for (const file of [...imagePaths, ...style.imagePaths, outputPath]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+  }
+}
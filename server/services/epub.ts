@@ -2,6 +2,7 @@ import type { Storybook } from "@shared/schema";
 import type { Chapter } from "epub-gen-memory";
 import sharp from "sharp";
 import { ObjectStorageService } from "../objectStorage";
+import { getBookTranslations } from "../book-translations";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
@@ -11,6 +12,7 @@ export async function generateEpub(storybook: Storybook): Promise<Buffer> {
   // Use dynamic import for CommonJS module
   const epubModule = await import("epub-gen-memory");
   const epub = epubModule.default || epubModule;
+  const t = getBookTranslations(storybook.language);
   
   // Prepare content array for EPUB
   const content: Chapter[] = [];
@@ -60,15 +62,19 @@ export async function generateEpub(storybook: Storybook): Promise<Buffer> {
     // Left page - Image (simplified HTML)
     content.push({
       content: `<div class="page-image">
-  <img src="${pageImageUrl}" alt="Illustration" />
+  <img src="${pageImageUrl}" alt="${t.illustrationAlt}" />
 </div>`,
       excludeFromToc: true,
     });
     
-    // Right page - Text (simplified HTML without nested divs)
+    // Right page - Text (simplified HTML without nested divs); bilingual books add the second language below
+    const secondaryHtml = storybook.secondaryLanguage && page.secondaryText
+      ? `
+  <p class="page-text-secondary" lang="${storybook.secondaryLanguage}">${escapeHtml(page.secondaryText)}</p>`
+      : '';
     content.push({
       content: `<div class="page-text">
-  <p>${escapeHtml(page.text)}</p>
+  <p>${escapeHtml(page.text)}</p>${secondaryHtml}
 </div>`,
       excludeFromToc: true,
     });
@@ -77,7 +83,7 @@ export async function generateEpub(storybook: Storybook): Promise<Buffer> {
   // Add attribution page before back cover
   content.push({
     content: `<div class="page-attribution">
-  <p>Created on <strong>www.vesabooks.com</strong></p>
+  <p>${t.createdOn} <strong>www.vesabooks.com</strong></p>
 </div>`,
     excludeFromToc: true,
   });
@@ -87,7 +93,7 @@ export async function generateEpub(storybook: Storybook): Promise<Buffer> {
     const backCoverUrl = `${baseUrl}${storybook.backCoverImageUrl}`;
     content.push({
       content: `<div class="page-image">
-  <img src="${backCoverUrl}" alt="Back Cover" />
+  <img src="${backCoverUrl}" alt="${t.backCoverAlt}" />
 </div>`,
       excludeFromToc: true,
     });
@@ -96,6 +102,7 @@ export async function generateEpub(storybook: Storybook): Promise<Buffer> {
   const options = {
     title: storybook.title,
     author: "AI Storyteller",
+    lang: storybook.language,
     cover: compositeCoverPath ? `file://${compositeCoverPath}` : undefined, // Use file:// URL for cover image
     tocTitle: "", // Empty TOC title to hide Table of Contents
     tocInTOC: false, // Hide TOC from appearing in itself (EPUB2)
@@ -163,6 +170,15 @@ export async function generateEpub(storybook: Storybook): Promise<Buffer> {
         padding: 0;
       }
       
+      /* Second language of bilingual books - smaller, set apart below the story text */
+      .page-text p.page-text-secondary {
+        font-size: 15px;
+        line-height: 1.7;
+        color: #3d5a80;
+        border-top: 1px solid #c5cfdc;
+        padding-top: 12px;
+      }
+      
       /* Foreword/Dedication page - centered, italicized */
       .page-foreword {
         page-break-after: always;
@@ -242,7 +258,8 @@ export async function generateEpub(storybook: Storybook): Promise<Buffer> {
 export async function generateCompositeCoverImage(
   coverImageUrl: string,
   title: string,
-  author: string = "AI Storyteller"
+  author: string = "AI Storyteller",
+  language?: string | null
 ): Promise<Buffer | null> {
   try {
     // Extract the path after /api/storage/ to handle both flat and date-based paths
@@ -365,7 +382,7 @@ export async function generateCompositeCoverImage(
       <!-- Bottom gradient for author -->
       <rect x="0" y="${height * 0.75}" width="${width}" height="${height * 0.25}" fill="url(#bottomGradient)"/>
       ${titleSvgElements}
-      <text x="50%" y="${authorY}" text-anchor="middle" font-family="Georgia, serif" font-size="${authorFontSize}" fill="white" filter="url(#textShadow)">By ${escapeXml(author)}</text>
+      <text x="50%" y="${authorY}" text-anchor="middle" font-family="Georgia, serif" font-size="${authorFontSize}" fill="white" filter="url(#textShadow)">${escapeXml(getBookTranslations(language).byAuthor.replace('{author}', author))}</text>
     </svg>`;
 
     // Create composite image
@@ -1,12 +1,25 @@
 import * as fs from "fs";
-import { GoogleGenAI, Modality, Type } from "@google/genai";
 import sharp from "sharp";
+import { getStoryTextProvider, getIllustrationProvider, type ProviderCharacter, type ProviderImage, type ProviderPage, type ProviderStory } from "./aiProvider";
+import { STORY_LANGUAGE_NAMES, type PageScene, type StoryCharacter, type StoryLanguage } from "@shared/schema";
+import { getReadabilityBand } from "../utils/readability";
+import { buildStyleReferenceNote } from "../utils/imagePromptBuilder";
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+/**
+ * A well-formed model response that doesn't hold what was asked for (e.g. too few translations).
+ * Asking again usually fixes it, so retryWithBackoff retries it like a temporary error.
+ */
+class IncompleteResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IncompleteResponseError';
+    Object.setPrototypeOf(this, IncompleteResponseError.prototype);
+  }
+}
 
 /**
  * Retry helper with exponential backoff
- * Handles rate limiting (429) and temporary errors
+ * Handles rate limiting (429), temporary errors and incomplete responses
  */
 async function retryWithBackoff<T>(
   operation: () => Promise<T>,
@@ -32,6 +45,7 @@ async function retryWithBackoff<T>(
       // Check if this is a temporary error that should be retried
       const isRetryableError = 
         isRateLimitError ||
+        error instanceof IncompleteResponseError ||
         errorMessage.includes("503") || 
         errorMessage.includes("502") ||
         errorMessage.includes("temporarily unavailable") ||
@@ -61,14 +75,17 @@ export interface StoryPage {
   pageNumber: number;
   text: string;
   imagePrompt: string;
+  characterIds?: string[];
+  scene?: PageScene;
 }
 
 export interface GeneratedStory {
   title: string;
   author: string;
   coverImagePrompt: string;
-  mainCharacterDescription: string;
+  mainCharacterDescription: string; // Mirrors the main character (characters[0]) for single-character consumers
   defaultClothing: string;
+  characters: StoryCharacter[];
   storyArc: string;
   pages: StoryPage[];
   artStyle?: string; // User-selected illustration style from dropdown for consistency across all images
@@ -82,12 +99,89 @@ function getMimeType(filePath: string): string {
 }
 
 
+// Keep the scene metadata the model planned for a page; incomplete metadata is dropped
+function toPageScene(page: Partial<ProviderPage>): PageScene | undefined {
+  if (!page.main_action || !page.setting || !page.emotional_tone) {
+    return undefined;
+  }
+  return {
+    mainAction: page.main_action,
+    setting: page.setting,
+    keyObjects: page.key_objects || [],
+    emotionalTone: page.emotional_tone,
+  };
+}
+
+// Turn the model's cast into stored characters: unique ids and a validated reference photo link
+function normalizeCharacters(rawCharacters: ProviderCharacter[], referenceImageCount: number): StoryCharacter[] {
+  const usedIds = new Set<string>();
+
+  return rawCharacters.map((raw, index) => {
+    const baseId = (raw.id || raw.name || `character-${index + 1}`)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || `character-${index + 1}`;
+    let id = baseId;
+    for (let suffix = 2; usedIds.has(id); suffix++) {
+      id = `${baseId}-${suffix}`;
+    }
+    usedIds.add(id);
+
+    const imageNumber = Math.round(Number(raw.referenceImageNumber) || 0);
+    const character: StoryCharacter = {
+      id,
+      name: raw.name,
+      role: raw.role,
+      appearance: raw.appearance,
+      clothing: raw.clothing,
+    };
+    if (imageNumber >= 1 && imageNumber <= referenceImageCount) {
+      character.referenceImageIndex = imageNumber - 1;
+    }
+    return character;
+  });
+}
+
+// Map the ids a page declares onto the normalized cast, dropping unknown ones
+function resolveCharacterIds(ids: string[] | undefined, rawCharacters: ProviderCharacter[], characters: StoryCharacter[]): string[] {
+  const resolved = new Set<string>();
+  for (const id of ids || []) {
+    const index = rawCharacters.findIndex(raw => raw.id === id);
+    const character = index >= 0 ? characters[index] : characters.find(c => c.id === id);
+    if (character) {
+      resolved.add(character.id);
+    }
+  }
+  return Array.from(resolved);
+}
+
+function describeCast(characters: StoryCharacter[]): string {
+  return characters.map(c => `- ${c.id}: ${c.name} (${c.role})`).join('\n');
+}
+
+// Reader-facing text is written in the story's language; image prompts stay in English for the image model
+function describeStoryLanguage(language?: StoryLanguage | null): string {
+  if (!language || language === 'en') {
+    return '';
+  }
+  const name = STORY_LANGUAGE_NAMES[language];
+  return `
+
+LANGUAGE:
+- Write the title, every page's text and the story arc in ${name}, as a native ${name} children's author would
+- Character names may stay as given, but everything the reader sees must be in ${name}
+- Write imagePrompt, coverImagePrompt and the characters' appearance and clothing in English`;
+}
+
 // Import and re-export from shared utility
 import { optimizeImageForWeb } from '../utils/imageOptimization';
 export { optimizeImageForWeb };
 
-// Generate story in batches for performance optimization
-// Returns partial story with metadata + first batch of pages, then remaining pages
+// Long stories are written in batches of at most this many pages, each continuing from the pages before it
+export const STORY_BATCH_PAGES = 8;
+
+// Generate story in batches so long books stay coherent
+// Yields the story written so far after each batch; the last yield holds the complete story
 export async function* generateStoryInBatches(
   prompt: string,
   inspirationImagePaths: string[],
@@ -95,68 +189,87 @@ export async function* generateStoryInBatches(
   illustrationStyle: string = "vibrant and colorful children's book illustration",
   age?: string,
   author?: string,
-  characterDescriptions: string[] = []
-): AsyncGenerator<{ batch: number; story: GeneratedStory; isComplete: boolean }> {
-  // For books with 2 or fewer pages, don't batch - just generate everything at once
-  if (pagesPerBook <= 2) {
-    const fullStory = await generateStoryFromPrompt(prompt, inspirationImagePaths, pagesPerBook, illustrationStyle, age, author, characterDescriptions);
-    yield { batch: 1, story: fullStory, isComplete: true };
+  characterDescriptions: string[] = [],
+  language?: StoryLanguage,
+  maxBatchPages: number = STORY_BATCH_PAGES
+): AsyncGenerator<{ batch: number; totalBatches: number; story: GeneratedStory; isComplete: boolean }> {
+  const totalBatches = Math.max(1, Math.ceil(pagesPerBook / maxBatchPages));
+
+  // Books that fit in one batch are generated all at once
+  if (totalBatches === 1) {
+    const fullStory = await generateStoryFromPrompt(prompt, inspirationImagePaths, pagesPerBook, illustrationStyle, age, author, characterDescriptions, language);
+    yield { batch: 1, totalBatches, story: fullStory, isComplete: true };
     return;
   }
 
-  // For larger books, generate in 2 batches:
-  // Batch 1: First half of pages (setup + early conflict)
-  // Batch 2: Second half of pages (resolution + ending)
-  const batch1Size = Math.ceil(pagesPerBook / 2);
-  const batch2Size = pagesPerBook - batch1Size;
+  // Spread the pages evenly, e.g. 20 pages in batches of at most 8 -> [7 + 7 + 6]
+  const batchSizes = Array.from({ length: totalBatches }, (_, i) =>
+    Math.floor(pagesPerBook / totalBatches) + (i < pagesPerBook % totalBatches ? 1 : 0)
+  );
 
-  console.log(`[Batched Generation] Generating ${pagesPerBook} pages in 2 batches: [${batch1Size} + ${batch2Size}]`);
+  console.log(`[Batched Generation] Generating ${pagesPerBook} pages in ${totalBatches} batches: [${batchSizes.join(' + ')}]`);
 
-  // Generate first batch
+  // Batch 1 sets the title, cast and story arc for the whole book, so it must know the book continues
   console.time('[Batched Generation] Batch 1');
-  const batch1Story = await generateStoryFromPrompt(prompt, inspirationImagePaths, batch1Size, illustrationStyle, age, author, characterDescriptions);
+  const openingPrompt = `${prompt}
+
+This is the opening of a ${pagesPerBook}-page story. Plan the story arc for all ${pagesPerBook} pages, but write only pages 1-${batchSizes[0]}: introduce the characters and the setting and start the conflict without resolving it.`;
+  const firstBatch = await generateStoryFromPrompt(openingPrompt, inspirationImagePaths, batchSizes[0], illustrationStyle, age, author, characterDescriptions, language);
   console.timeEnd('[Batched Generation] Batch 1');
-  
-  yield { batch: 1, story: batch1Story, isComplete: false };
 
-  // Generate second batch with context from first batch
-  console.time('[Batched Generation] Batch 2');
-  const continuationPrompt = `${prompt}
+  // Later batches invent their own cast entries, so keep only ids that exist in batch 1's cast
+  const castIds = new Set(firstBatch.characters.map(c => c.id));
+  let story: GeneratedStory = firstBatch;
+
+  yield { batch: 1, totalBatches, story, isComplete: false };
+
+  for (let batch = 2; batch <= totalBatches; batch++) {
+    const firstPage = story.pages.length + 1;
+    const lastPage = story.pages.length + batchSizes[batch - 1];
+    const isLastBatch = batch === totalBatches;
+
+    // Each batch continues from everything written so far
+    console.time(`[Batched Generation] Batch ${batch}`);
+    const continuationPrompt = `${prompt}
 
 Continue the story from where it left off. The story so far:
-- Title: ${batch1Story.title}
-- Character: ${batch1Story.mainCharacterDescription}
-- Story arc: ${batch1Story.storyArc}
-- Previous pages: ${batch1Story.pages.map(p => `Page ${p.pageNumber}: ${p.text}`).join('\n')}
-
-Generate the REMAINING ${batch2Size} pages (pages ${batch1Size + 1}-${pagesPerBook}) that complete the story arc and provide a satisfying resolution.`;
-
-  const batch2Story = await generateStoryFromPrompt(
-    continuationPrompt, 
-    inspirationImagePaths, 
-    batch2Size, 
-    illustrationStyle, 
-    age, 
-    author,
-    characterDescriptions
-  );
-  console.timeEnd('[Batched Generation] Batch 2');
-
-  // Merge the two batches - renumber pages in batch 2 to continue from batch 1
-  const mergedPages = [
-    ...batch1Story.pages,
-    ...batch2Story.pages.map(p => ({
-      ...p,
-      pageNumber: p.pageNumber + batch1Size,
-    })),
-  ];
-
-  const completeStory: GeneratedStory = {
-    ...batch1Story, // Use metadata from first batch
-    pages: mergedPages,
-  };
+- Title: ${firstBatch.title}
+- Characters (reuse these exact ids):
+${describeCast(firstBatch.characters)}
+- Story arc: ${firstBatch.storyArc}
+- Previous pages: ${story.pages.map(p => `Page ${p.pageNumber}: ${p.text}`).join('\n')}
+
+${isLastBatch
+  ? `Generate the REMAINING ${batchSizes[batch - 1]} pages (pages ${firstPage}-${lastPage}) that complete the story arc and provide a satisfying resolution.`
+  : `Generate the NEXT ${batchSizes[batch - 1]} pages (pages ${firstPage}-${lastPage} of ${pagesPerBook}) that move the story arc forward without resolving it yet.`}`;
+
+    const batchStory = await generateStoryFromPrompt(
+      continuationPrompt, 
+      inspirationImagePaths, 
+      batchSizes[batch - 1], 
+      illustrationStyle, 
+      age, 
+      author,
+      characterDescriptions,
+      language
+    );
+    console.timeEnd(`[Batched Generation] Batch ${batch}`);
+
+    // Renumber the batch's pages to continue from the pages before it
+    story = {
+      ...firstBatch, // Use metadata from first batch
+      pages: [
+        ...story.pages,
+        ...batchStory.pages.map(p => ({
+          ...p,
+          pageNumber: p.pageNumber + firstPage - 1,
+          characterIds: p.characterIds?.filter(id => castIds.has(id)),
+        })),
+      ],
+    };
 
-  yield { batch: 2, story: completeStory, isComplete: true };
+    yield { batch, totalBatches, story, isComplete: isLastBatch };
+  }
 }
 
 export async function generateStoryFromPrompt(
@@ -166,7 +279,8 @@ export async function generateStoryFromPrompt(
   illustrationStyle: string = "vibrant and colorful children's book illustration",
   age?: string,
   author?: string,
-  characterDescriptions: string[] = []
+  characterDescriptions: string[] = [],
+  language?: StoryLanguage
 ): Promise<GeneratedStory> {
   try {
     const hasImages = inspirationImagePaths && inspirationImagePaths.length > 0;
@@ -219,6 +333,7 @@ export async function generateStoryFromPrompt(
       };
       ageGuidance = ` The target reader age is ${age} years old. ${ageRanges[age as keyof typeof ageRanges] || 'Adapt the content appropriately for the specified age group.'}`;
     }
+    const band = getReadabilityBand(age);
 
     // Build character descriptions guidance
     let characterGuidance = '';
@@ -249,21 +364,27 @@ CRITICAL INSTRUCTIONS FOR IMAGE DESCRIPTIONS:
 - ABSOLUTELY FORBIDDEN: NEVER include title text, author name, book title, or ANY written text in interior page descriptions
 - CRITICAL: Each page must be immediately visually distinguishable from all other pages while maintaining character consistency
 
+CAST OF CHARACTERS:
+- List EVERY recurring character (people, pets, creatures) in "characters", with the main character FIRST and a unique id for each
+- Give each character a detailed appearance and typical clothing so they look the same on every page
+- ${hasImages ? 'Set referenceImageNumber to the reference photo that shows the character (1 for the first photo), or 0 if none does' : 'Set referenceImageNumber to 0 (no reference photos were provided)'}
+- For each page, list in characterIds ONLY the characters visible in that page's illustration
+- Do NOT describe characters' physical features or default clothing in imagePrompt - they will be added automatically
+
+PAGE TEXT LENGTH:
+- Each page's text MUST be ${band.minWords}-${band.maxWords} words, with sentences of about ${band.maxSentenceLength} words or fewer${describeStoryLanguage(language)}
+
 Return JSON following the schema with exactly ${pagesPerBook} pages.`;
 
-    const imageParts = [];
+    const inspirationImages: ProviderImage[] = [];
     
     // Add inspiration images to the content (if provided)
     if (hasImages) {
       for (const imagePath of inspirationImagePaths) {
         try {
-          const imageBytes = fs.readFileSync(imagePath);
-          const mimeType = getMimeType(imagePath);
-          imageParts.push({
-            inlineData: {
-              data: imageBytes.toString("base64"),
-              mimeType: mimeType,
-            },
+          inspirationImages.push({
+            data: fs.readFileSync(imagePath),
+            mimeType: getMimeType(imagePath),
           });
         } catch (error) {
           console.warn(`Failed to read image ${imagePath}:`, error);
@@ -271,103 +392,25 @@ Return JSON following the schema with exactly ${pagesPerBook} pages.`;
       }
     }
 
-    const contents = {
-      parts: [
-        ...imageParts,
-        { text: `Here is the story idea: ${prompt}` },
-      ],
-    };
-
-    const storySchema = {
-      type: Type.OBJECT,
-      properties: {
-        title: {
-          type: Type.STRING,
-          description: "The story title.",
-        },
-        author: {
-          type: Type.STRING,
-          description: "The author name.",
-        },
-        mainCharacterDescription: {
-          type: Type.STRING,
-          description: "Detailed physical description of the main character.",
-        },
-        defaultClothing: {
-          type: Type.STRING,
-          description: "The character's typical outfit.",
-        },
-        storyArc: {
-          type: Type.STRING,
-          description: "Brief summary of the story arc.",
-        },
-        coverImagePrompt: {
-          type: Type.STRING,
-          description: "Description of the cover scene showing the main character in a key moment (character description will be added automatically). IMPORTANT: This is ONLY for the COVER image. The title and author name will be added to this prompt automatically - do not include them in your description.",
-        },
-        pages: {
-          type: Type.ARRAY,
-          description: `An array of exactly ${pagesPerBook} pages that follow the story arc from beginning to end.`,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              pageNumber: {
-                type: Type.NUMBER,
-                description: "Page number.",
-              },
-              text: {
-                type: Type.STRING,
-                description: "Page narrative text (100-150 words).",
-              },
-              main_action: {
-                type: Type.STRING,
-                description: "Primary action in this scene.",
-              },
-              setting: {
-                type: Type.STRING,
-                description: "Location and environment.",
-              },
-              key_objects: {
-                type: Type.ARRAY,
-                items: { type: Type.STRING },
-                description: "Important objects or characters to include.",
-              },
-              emotional_tone: {
-                type: Type.STRING,
-                description: "Emotional atmosphere.",
-              },
-              imagePrompt: {
-                type: Type.STRING,
-                description: "Scene description for illustration. IMPORTANT: This is for an INTERIOR PAGE, NOT the cover. Do NOT include any title text, author name, or book title in this description. Only describe the visual scene and action.",
-              },
-            },
-            required: ["pageNumber", "text", "main_action", "setting", "key_objects", "emotional_tone", "imagePrompt"],
-          },
-        },
-      },
-      required: ["title", "author", "mainCharacterDescription", "defaultClothing", "storyArc", "coverImagePrompt", "pages"],
-    };
-
-    const response = await retryWithBackoff(
-      () => ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: contents,
-        config: {
-          systemInstruction: systemInstruction,
-          responseMimeType: "application/json",
-          responseSchema: storySchema,
-        },
+    const story = await retryWithBackoff(
+      () => getStoryTextProvider().generateStory({
+        prompt,
+        pagesPerBook,
+        systemInstruction,
+        inspirationImages,
       }),
       3,
       'Story generation'
     );
 
-    const rawJson = response.text?.trim();
-    if (!rawJson) {
-      throw new Error("Empty response from Gemini");
-    }
-
-    const parsedJson = JSON.parse(rawJson);
+    const characters = normalizeCharacters(story.characters || [], inspirationImages.length);
+    const parsedJson: ProviderStory & { artStyle?: string } = {
+      ...story,
+      pages: (story.pages || []).map(page => ({
+        ...page,
+        characterIds: resolveCharacterIds(page.characterIds, story.characters || [], characters),
+      })),
+    };
     // Always prefer user-provided author, then AI-generated, then fallback to "AI Storyteller"
     parsedJson.author = author || parsedJson.author || "AI Storyteller";
 
@@ -377,6 +420,9 @@ Return JSON following the schema with exactly ${pagesPerBook} pages.`;
     // Update cover prompt to explicitly include the correct title and author
     // This ensures the AI generates the cover with the user's specified author name
     parsedJson.coverImagePrompt = `${parsedJson.coverImagePrompt}. IMPORTANT: Include the title "${parsedJson.title}" prominently at the top and the author name "${parsedJson.author}" at the bottom as decorative text integrated into the illustration.`;
+    if (language && language !== 'en') {
+      parsedJson.coverImagePrompt += ` The title is in ${STORY_LANGUAGE_NAMES[language]}: render it exactly as written, with every accent and character, and do not translate it.`;
+    }
 
     // Sanitize page imagePrompts to remove any title/author text mentions
     if (parsedJson.pages && Array.isArray(parsedJson.pages)) {
@@ -488,7 +534,20 @@ Return JSON following the schema with exactly ${pagesPerBook} pages.`;
       console.log(`\n[Story Generation] All pages processed with structured scene metadata.\n`);
     }
 
-    return parsedJson as GeneratedStory;
+    const mainCharacter = characters[0];
+    return {
+      ...parsedJson,
+      pages: parsedJson.pages.map(page => ({
+        pageNumber: page.pageNumber,
+        text: page.text,
+        imagePrompt: page.imagePrompt,
+        characterIds: page.characterIds,
+        scene: toPageScene(page),
+      })),
+      characters,
+      mainCharacterDescription: mainCharacter?.appearance || '',
+      defaultClothing: mainCharacter?.clothing || '',
+    } as GeneratedStory;
   } catch (error) {
     throw new Error(`Failed to generate story: ${error}`);
   }
@@ -501,17 +560,20 @@ export async function generateIllustration(
   outputPath: string,
   referenceImagePaths?: string[], // Multiple reference images for better consistency
   explicitStyle?: string, // Optional: explicit art style from user prompt for consistency
-  allowText?: boolean // Optional: allow text in the image (for cover with title/author)
+  allowText?: boolean, // Optional: allow text in the image (for cover with title/author)
+  styleReferencePaths?: string[] // Optional: sample pictures whose look (not content) to borrow, sent after the references
 ): Promise<void> {
   // Filter out any invalid reference images
   const validReferences = (referenceImagePaths || []).filter(path => path && fs.existsSync(path));
   const hasReferences = validReferences.length > 0;
+  const validStyleReferences = (styleReferencePaths || []).filter(path => path && fs.existsSync(path));
 
   // Log the generation for debugging character consistency
   console.log(`[generateIllustration] Starting image generation`);
   console.log(`[generateIllustration] Image prompt: ${imagePrompt.substring(0, 200)}...`);
   console.log(`[generateIllustration] Reference images: ${hasReferences ? validReferences.length : 'NONE'}`);
   console.log(`[generateIllustration] Art style: ${explicitStyle || 'default'}`);
+  console.log(`[generateIllustration] Style reference images: ${validStyleReferences.length || 'NONE'}`);
 
   // Build the full prompt with consistent style application
   let fullPrompt: string;
@@ -540,81 +602,90 @@ export async function generateIllustration(
     ? '' // Allow text for cover images with title/author
     : '\n\nCRITICAL CONSTRAINT: This is a pure visual illustration with NO text, NO words, NO letters, NO title, NO author name, NO book title visible anywhere in the image. Do not render any typography, captions, labels, or written content whatsoever. This image should contain only the illustrated scene described above.';
   
+  // Step 4b: Explain the style samples, numbered after the other references
+  const styleReferenceNote = validStyleReferences.length > 0
+    ? `\n\n${buildStyleReferenceNote(validReferences.length + 1, validStyleReferences.length)}`
+    : '';
+
   // Step 5: Combine everything
-  fullPrompt = photoMatchingPrefix + sceneDescription + styleDirective + noTextConstraint;
-  
-  console.log(`[generateIllustration] Full prompt sent to Gemini: ${fullPrompt.substring(0, 250)}...`);
+  fullPrompt = photoMatchingPrefix + sceneDescription + styleDirective + styleReferenceNote + noTextConstraint;
   
-  const contentParts: any[] = [];
+  console.log(`[generateIllustration] Full prompt sent to provider: ${fullPrompt.substring(0, 250)}...`);
   
   // Add all reference images to help maintain consistency
-  for (const refPath of validReferences) {
-    const refImageBytes = fs.readFileSync(refPath);
-    const refImageMimeType = getMimeType(refPath);
-    
-    contentParts.push({
-      inlineData: {
-        mimeType: refImageMimeType,
-        data: refImageBytes.toString("base64"),
-      },
-    });
-  }
-  
-  // Always add the text prompt
-  contentParts.push({ text: fullPrompt });
-
-  const contents = {
-    parts: contentParts,
-  };
+  const referenceImages: ProviderImage[] = [...validReferences, ...validStyleReferences].map(refPath => ({
+    data: fs.readFileSync(refPath),
+    mimeType: getMimeType(refPath),
+  }));
 
   // Use retry with exponential backoff for image generation
   await retryWithBackoff(
     async () => {
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-image",
-        contents: contents,
-        config: {
-          responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
+      const imageData = await getIllustrationProvider().generateImage({
+        prompt: fullPrompt,
+        referenceImages,
       });
-
-      if (response.candidates && response.candidates.length > 0) {
-        const content = response.candidates[0].content;
-        if (content?.parts) {
-          for (const part of content.parts) {
-            if (part.inlineData?.data) {
-              const imageData = Buffer.from(part.inlineData.data, "base64");
-              // Optimize image for web: reduce size by ~90% with no visible quality loss
-              const optimizedImage = await optimizeImageForWeb(imageData);
-              fs.writeFileSync(outputPath, optimizedImage);
-              return;
-            }
-          }
-        }
-      }
-      
-      throw new Error("Image generation failed to return an image part.");
+      // Optimize image for web: reduce size by ~90% with no visible quality loss
+      const optimizedImage = await optimizeImageForWeb(imageData);
+      fs.writeFileSync(outputPath, optimizedImage);
     },
     3,
     'Image generation'
   );
 }
 
+/**
+ * Applies an edit (see buildImageEditPrompt) to the image at imagePath and writes the result,
+ * optimized for the web, to outputPath.
+ */
+export async function editIllustration(
+  imagePath: string,
+  editPrompt: string,
+  outputPath: string,
+  referenceImagePaths?: string[]
+): Promise<void> {
+  const validReferences = (referenceImagePaths || []).filter(path => path && fs.existsSync(path));
+  console.log(`[editIllustration] Edit prompt: ${editPrompt.substring(0, 200)}...`);
+  console.log(`[editIllustration] Reference images: ${validReferences.length || 'NONE'}`);
+
+  const image: ProviderImage = { data: fs.readFileSync(imagePath), mimeType: getMimeType(imagePath) };
+  const referenceImages: ProviderImage[] = validReferences.map(refPath => ({
+    data: fs.readFileSync(refPath),
+    mimeType: getMimeType(refPath),
+  }));
+
+  await retryWithBackoff(
+    async () => {
+      const imageData = await getIllustrationProvider().editImage({ image, prompt: editPrompt, referenceImages });
+      const optimizedImage = await optimizeImageForWeb(imageData);
+      fs.writeFileSync(outputPath, optimizedImage);
+    },
+    3,
+    'Image edit'
+  );
+}
+
 export async function regenerateSinglePage(
   storybook: {
     title: string;
     pages: Array<{ pageNumber: number; text: string; imagePrompt: string }>;
     mainCharacterDescription: string;
     defaultClothing: string;
+    characters?: StoryCharacter[];
     storyArc: string;
+    age?: string | null;
+    language?: StoryLanguage | null;
   },
-  pageNumber: number
-): Promise<{ text: string; imagePrompt: string; main_action?: string; setting?: string; key_objects?: string[]; emotional_tone?: string }> {
+  pageNumber: number,
+  options: { instruction?: string; keepScene?: boolean; newPage?: boolean } = {}
+): Promise<{ text: string; imagePrompt: string; characterIds?: string[]; scene?: PageScene }> {
   try {
     const totalPages = storybook.pages.length;
+    const band = getReadabilityBand(storybook.age);
     
     // Get surrounding pages for context
     const previousPage = storybook.pages.find(p => p.pageNumber === pageNumber - 1);
+    const currentPage = storybook.pages.find(p => p.pageNumber === pageNumber);
     const nextPage = storybook.pages.find(p => p.pageNumber === pageNumber + 1);
     
     // Build context from surrounding pages
@@ -626,7 +697,26 @@ export async function regenerateSinglePage(
       contextInfo += `\n\nNext page (${nextPage.pageNumber}): ${nextPage.text}`;
     }
     
-    const systemInstruction = `You are regenerating page ${pageNumber} of a ${totalPages}-page storybook titled "${storybook.title}".
+    const cast = storybook.characters || [];
+    const castInfo = cast.length > 0
+      ? `\n- Cast (list in characterIds the ids of the characters visible on this page):\n${describeCast(cast)}`
+      : '';
+    
+    // A guided regeneration revises the current page rather than starting from scratch
+    let guidance = '';
+    if (options.newPage) {
+      guidance += `\n\nThis is a NEW page being inserted into the story. Write it so it BRIDGES the previous and next pages: the previous page should lead into it and it should lead naturally into the next page.`;
+      if (options.instruction) {
+        guidance += `\n\nWHAT THIS NEW PAGE SHOULD COVER: ${options.instruction}`;
+      }
+    } else if (options.instruction && currentPage) {
+      guidance += `\n\nCURRENT VERSION OF PAGE ${pageNumber}: ${currentPage.text}\n\nREQUESTED CHANGE (follow this closely, keep everything else that still fits): ${options.instruction}`;
+    }
+    if (options.keepScene && currentPage) {
+      guidance += `\n\nThe illustration for this page will NOT change. It shows: ${currentPage.imagePrompt}\nThe new text MUST still describe this scene.`;
+    }
+    
+    const systemInstruction = `You are ${options.newPage ? 'writing' : 'regenerating'} page ${pageNumber} of a ${totalPages}-page storybook titled "${storybook.title}".
 
 CRITICAL REQUIREMENTS:
 1. MAINTAIN STORY CONTINUITY - The regenerated page MUST fit naturally between the surrounding pages
@@ -636,11 +726,11 @@ CRITICAL REQUIREMENTS:
 
 CONTEXT:
 - Total pages: ${totalPages}
-- Regenerating page: ${pageNumber}${contextInfo}
+- Regenerating page: ${pageNumber}${castInfo}${contextInfo}${guidance}
 
 INSTRUCTIONS:
 - Generate NEW content that flows naturally from the previous page (if exists) to the next page (if exists)
-- The text should be 100-150 words, appropriate for the story's tone
+- The text should be ${band.minWords}-${band.maxWords} words with sentences of about ${band.maxSentenceLength} words or fewer, appropriate for the story's tone
 - Extract structured metadata about the scene:
   * main_action: The PRIMARY action happening (e.g., "discovering a time machine", "meeting Abraham Lincoln")
   * setting: The SPECIFIC location with details (e.g., "dusty basement with cobwebs")
@@ -648,60 +738,20 @@ INSTRUCTIONS:
   * emotional_tone: The mood/atmosphere (e.g., "excited discovery", "tense anticipation")
 - Build imagePrompt by combining: "[main_action] in [setting], featuring [key_objects]. [emotional_tone] atmosphere."
 - Do NOT describe the character's physical features or default clothing in imagePrompt - they will be added automatically
-- Only specify different clothing if the scene REQUIRES it (e.g., "wearing pajamas" for bedtime)
+- Only specify different clothing if the scene REQUIRES it (e.g., "wearing pajamas" for bedtime)${storybook.language && storybook.language !== 'en' ? `
+- Write the text in ${STORY_LANGUAGE_NAMES[storybook.language]}, like the rest of the book; keep imagePrompt and the scene metadata in English` : ''}
 
 Return JSON with structured scene metadata and constructed imagePrompt.`;
 
-    const pageSchema = {
-      type: Type.OBJECT,
-      properties: {
-        text: {
-          type: Type.STRING,
-          description: `The narrative text for page ${pageNumber} (100-150 words). Must flow naturally from the previous page and lead smoothly to the next page if they exist.`,
-        },
-        main_action: {
-          type: Type.STRING,
-          description: "The PRIMARY action happening in this page's text. Be specific about what the character(s) are doing. Examples: 'discovering a glowing time machine', 'meeting Abraham Lincoln in his office'.",
-        },
-        setting: {
-          type: Type.STRING,
-          description: "The SPECIFIC location where this scene takes place with descriptive details. Examples: 'dusty basement with cobwebs and old furniture', 'Lincoln's presidential office with tall windows'.",
-        },
-        key_objects: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING },
-          description: "List of IMPORTANT objects, items, or secondary characters that should be visible in the illustration. Include descriptive details for each.",
-        },
-        emotional_tone: {
-          type: Type.STRING,
-          description: "The emotional context or atmosphere of this scene. Examples: 'excited discovery', 'worried confusion', 'peaceful contentment'.",
-        },
-        imagePrompt: {
-          type: Type.STRING,
-          description: "CONSTRUCTED from the metadata: '[main_action] in [setting], featuring [key_objects]. [emotional_tone] atmosphere.' Character appearance will be added automatically.",
-        },
-      },
-      required: ["text", "main_action", "setting", "key_objects", "emotional_tone", "imagePrompt"],
-    };
-
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [{ text: `Generate a new version of page ${pageNumber}.` }],
-      },
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: pageSchema,
-      },
+    const parsedJson = await getStoryTextProvider().regeneratePage({
+      pageNumber,
+      systemInstruction,
+      storybook,
     });
-
-    const rawJson = response.text?.trim();
-    if (!rawJson) {
-      throw new Error("Empty response from Gemini");
-    }
-
-    const parsedJson = JSON.parse(rawJson);
+    const castIds = new Set(cast.map(c => c.id));
+    const characterIds = cast.length > 0
+      ? (parsedJson.characterIds || []).filter(id => castIds.has(id))
+      : undefined;
     
     // Log the structured scene metadata for debugging
     console.log(`\n[Page Regeneration] Page ${pageNumber} Scene Details:`);
@@ -712,8 +762,96 @@ Return JSON with structured scene metadata and constructed imagePrompt.`;
     console.log(`  - Final Image Prompt: ${parsedJson.imagePrompt.substring(0, 200)}...`);
     console.log(`[Page Regeneration] Structured scene metadata extracted successfully.\n`);
     
-    return parsedJson;
+    return {
+      text: parsedJson.text,
+      imagePrompt: parsedJson.imagePrompt,
+      characterIds,
+      scene: toPageScene(parsedJson),
+    };
   } catch (error) {
     throw new Error(`Failed to regenerate page: ${error}`);
   }
 }
+
+export interface StoryTranslation {
+  title: string;
+  foreword: string | null;
+  storyArc: string | null;
+  pages: Array<{ pageNumber: number; text: string }>;
+}
+
+// Translate the reader-facing text of a finished story for a new edition in another language
+export async function translateStoryText(
+  storybook: {
+    title: string;
+    foreword?: string | null;
+    storyArc?: string | null;
+    age?: string | null;
+    language: StoryLanguage;
+    pages: Array<{ pageNumber: number; text: string }>;
+  },
+  language: StoryLanguage
+): Promise<StoryTranslation> {
+  // Title, foreword and story arc first, then every page in order
+  const texts = [storybook.title, storybook.foreword || '', storybook.storyArc || '', ...storybook.pages.map(page => page.text)];
+
+  const systemInstruction = `You translate children's picture books from ${STORY_LANGUAGE_NAMES[storybook.language]} into ${STORY_LANGUAGE_NAMES[language]}.
+- The texts are, in order: the book title, the dedication, a summary of the story arc, then the text of each page
+- Write as a native ${STORY_LANGUAGE_NAMES[language]} children's author would, keeping the tone, rhythm and any rhymes or wordplay where you can${storybook.age ? `, for readers aged ${storybook.age}` : ''}
+- Keep character names, paragraph breaks and the meaning of every sentence; do not add or leave out events
+- Return an empty string for an empty text
+- Return exactly ${texts.length} translations, one for each text, in the same order`;
+
+  const translations = await retryWithBackoff(
+    async () => {
+      const result = await getStoryTextProvider().translateTexts({ language, systemInstruction, texts });
+      if (result.length !== texts.length) {
+        throw new IncompleteResponseError(`Expected ${texts.length} translations, got ${result.length}`);
+      }
+      return result;
+    },
+    3,
+    'Story translation'
+  );
+
+  const [title, foreword, storyArc, ...pageTexts] = translations.map(text => text.trim());
+  return {
+    title: title || storybook.title,
+    foreword: storybook.foreword ? foreword : null,
+    storyArc: storybook.storyArc ? storyArc : null,
+    pages: storybook.pages.map((page, index) => ({ pageNumber: page.pageNumber, text: pageTexts[index] || page.text })),
+  };
+}
+
+// Translate page text into the second language of a bilingual book, page for page
+export async function translatePageTexts(
+  storybook: { age?: string | null; language: StoryLanguage },
+  pages: Array<{ pageNumber: number; text: string }>,
+  language: StoryLanguage
+): Promise<Array<{ pageNumber: number; text: string }>> {
+  if (pages.length === 0) {
+    return [];
+  }
+  const texts = pages.map(page => page.text);
+
+  const systemInstruction = `You translate the pages of a bilingual children's picture book from ${STORY_LANGUAGE_NAMES[storybook.language]} into ${STORY_LANGUAGE_NAMES[language]}.
+- The translation is printed under the original text on the same page, so children can follow both
+- Stay close to the original sentence by sentence while reading naturally${storybook.age ? `, for readers aged ${storybook.age}` : ''}
+- Keep character names and paragraph breaks; do not add or leave out anything
+- Return an empty string for an empty text
+- Return exactly ${texts.length} translations, one for each text, in the same order`;
+
+  const translations = await retryWithBackoff(
+    async () => {
+      const result = await getStoryTextProvider().translateTexts({ language, systemInstruction, texts });
+      if (result.length !== texts.length) {
+        throw new IncompleteResponseError(`Expected ${texts.length} translations, got ${result.length}`);
+      }
+      return result;
+    },
+    3,
+    'Page translation'
+  );
+
+  return pages.map((page, index) => ({ pageNumber: page.pageNumber, text: translations[index].trim() }));
+}
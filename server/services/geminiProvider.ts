@@ -0,0 +1,346 @@
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import type {
+  ContentClassifier,
+  IllustrationProvider,
+  IllustrationRequest,
+  ImageEditRequest,
+  ModerationVerdict,
+  PageRegenerationRequest,
+  ProviderImage,
+  ProviderPage,
+  ProviderStory,
+  StoryGenerationRequest,
+  StoryTextProvider,
+  TranslationRequest,
+} from "./aiProvider";
+
+const TEXT_MODEL = process.env.GEMINI_TEXT_MODEL || "gemini-2.5-flash";
+const IMAGE_MODEL = process.env.GEMINI_IMAGE_MODEL || "gemini-2.5-flash-image";
+
+let client: GoogleGenAI | undefined;
+
+// Created on first use so the local provider never needs a Gemini API key
+function getClient(): GoogleGenAI {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
+  }
+  return client;
+}
+
+function toInlineData(image: ProviderImage) {
+  return {
+    inlineData: {
+      data: image.data.toString("base64"),
+      mimeType: image.mimeType,
+    },
+  };
+}
+
+function buildStorySchema(pagesPerBook: number) {
+  return {
+    type: Type.OBJECT,
+    properties: {
+      title: {
+        type: Type.STRING,
+        description: "The story title.",
+      },
+      author: {
+        type: Type.STRING,
+        description: "The author name.",
+      },
+      characters: {
+        type: Type.ARRAY,
+        description: "Every recurring character in the story. The FIRST entry must be the main character.",
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            id: {
+              type: Type.STRING,
+              description: "Short unique lowercase identifier, e.g. 'mia' or 'grandpa-joe'.",
+            },
+            name: {
+              type: Type.STRING,
+              description: "Character name.",
+            },
+            role: {
+              type: Type.STRING,
+              description: "Role in the story, e.g. 'main character', 'little brother', 'pet dog'.",
+            },
+            appearance: {
+              type: Type.STRING,
+              description: "Detailed physical description (age, build, hair, eyes, distinguishing features).",
+            },
+            clothing: {
+              type: Type.STRING,
+              description: "The character's typical outfit.",
+            },
+            referenceImageNumber: {
+              type: Type.NUMBER,
+              description: "Number of the reference photo (1, 2, 3...) showing this character, or 0 if no photo shows them.",
+            },
+          },
+          required: ["id", "name", "role", "appearance", "clothing", "referenceImageNumber"],
+        },
+      },
+      storyArc: {
+        type: Type.STRING,
+        description: "Brief summary of the story arc.",
+      },
+      coverImagePrompt: {
+        type: Type.STRING,
+        description: "Description of the cover scene showing the main character in a key moment (character description will be added automatically). IMPORTANT: This is ONLY for the COVER image. The title and author name will be added to this prompt automatically - do not include them in your description.",
+      },
+      pages: {
+        type: Type.ARRAY,
+        description: `An array of exactly ${pagesPerBook} pages that follow the story arc from beginning to end.`,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            pageNumber: {
+              type: Type.NUMBER,
+              description: "Page number.",
+            },
+            text: {
+              type: Type.STRING,
+              description: "Page narrative text, of the length given in the instructions.",
+            },
+            characterIds: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING },
+              description: "Ids of the characters visible in this page's illustration.",
+            },
+            main_action: {
+              type: Type.STRING,
+              description: "Primary action in this scene.",
+            },
+            setting: {
+              type: Type.STRING,
+              description: "Location and environment.",
+            },
+            key_objects: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING },
+              description: "Important objects or characters to include.",
+            },
+            emotional_tone: {
+              type: Type.STRING,
+              description: "Emotional atmosphere.",
+            },
+            imagePrompt: {
+              type: Type.STRING,
+              description: "Scene description for illustration. IMPORTANT: This is for an INTERIOR PAGE, NOT the cover. Do NOT include any title text, author name, or book title in this description. Only describe the visual scene and action.",
+            },
+          },
+          required: ["pageNumber", "text", "characterIds", "main_action", "setting", "key_objects", "emotional_tone", "imagePrompt"],
+        },
+      },
+    },
+    required: ["title", "author", "characters", "storyArc", "coverImagePrompt", "pages"],
+  };
+}
+
+function buildPageSchema(pageNumber: number) {
+  return {
+    type: Type.OBJECT,
+    properties: {
+      text: {
+        type: Type.STRING,
+        description: `The narrative text for page ${pageNumber}, of the length given in the instructions. Must flow naturally from the previous page and lead smoothly to the next page if they exist.`,
+      },
+      characterIds: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "Ids of the cast members visible in this page's illustration.",
+      },
+      main_action: {
+        type: Type.STRING,
+        description: "The PRIMARY action happening in this page's text. Be specific about what the character(s) are doing. Examples: 'discovering a glowing time machine', 'meeting Abraham Lincoln in his office'.",
+      },
+      setting: {
+        type: Type.STRING,
+        description: "The SPECIFIC location where this scene takes place with descriptive details. Examples: 'dusty basement with cobwebs and old furniture', 'Lincoln's presidential office with tall windows'.",
+      },
+      key_objects: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "List of IMPORTANT objects, items, or secondary characters that should be visible in the illustration. Include descriptive details for each.",
+      },
+      emotional_tone: {
+        type: Type.STRING,
+        description: "The emotional context or atmosphere of this scene. Examples: 'excited discovery', 'worried confusion', 'peaceful contentment'.",
+      },
+      imagePrompt: {
+        type: Type.STRING,
+        description: "CONSTRUCTED from the metadata: '[main_action] in [setting], featuring [key_objects]. [emotional_tone] atmosphere.' Character appearance will be added automatically.",
+      },
+    },
+    required: ["text", "characterIds", "main_action", "setting", "key_objects", "emotional_tone", "imagePrompt"],
+  };
+}
+
+const TRANSLATION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    translations: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "One translation for each of the given texts, in the same order.",
+    },
+  },
+  required: ["translations"],
+};
+
+const MODERATION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    flagged: {
+      type: Type.BOOLEAN,
+      description: "True if the content is not suitable for a children's picture book.",
+    },
+    categories: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "The kinds of unsuitable content found, e.g. 'violence', 'sexual content', 'self-harm', 'hate', 'drugs'. Empty when not flagged.",
+    },
+    reason: {
+      type: Type.STRING,
+      description: "One short sentence explaining the decision.",
+    },
+  },
+  required: ["flagged", "categories", "reason"],
+};
+
+const MODERATION_INSTRUCTION = `You review content for a personalized children's picture book service (readers aged 3-12).
+Flag content that is sexual, graphically violent or gory, hateful, or that depicts self-harm, drugs or other material unsuitable for young children.
+Mild peril, friendly monsters, cartoon villains and everyday conflict are normal in children's stories and must NOT be flagged.`;
+
+async function generateJson<T>(systemInstruction: string, parts: any[], responseSchema: object): Promise<T> {
+  const response = await getClient().models.generateContent({
+    model: TEXT_MODEL,
+    contents: { parts },
+    config: {
+      systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema,
+    },
+  });
+
+  const rawJson = response.text?.trim();
+  if (!rawJson) {
+    throw new Error("Empty response from Gemini");
+  }
+  return JSON.parse(rawJson) as T;
+}
+
+export function createGeminiStoryTextProvider(): StoryTextProvider {
+  return {
+    name: 'gemini',
+
+    generateStory(request: StoryGenerationRequest): Promise<ProviderStory> {
+      return generateJson<ProviderStory>(
+        request.systemInstruction,
+        [
+          ...request.inspirationImages.map(toInlineData),
+          { text: `Here is the story idea: ${request.prompt}` },
+        ],
+        buildStorySchema(request.pagesPerBook)
+      );
+    },
+
+    regeneratePage(request: PageRegenerationRequest): Promise<ProviderPage> {
+      return generateJson<ProviderPage>(
+        request.systemInstruction,
+        [{ text: `Generate a new version of page ${request.pageNumber}.` }],
+        buildPageSchema(request.pageNumber)
+      );
+    },
+
+    async translateTexts(request: TranslationRequest): Promise<string[]> {
+      const result = await generateJson<{ translations: string[] }>(
+        request.systemInstruction,
+        [{ text: `Translate each of these ${request.texts.length} texts:\n${JSON.stringify(request.texts)}` }],
+        TRANSLATION_SCHEMA
+      );
+      return result.translations || [];
+    },
+  };
+}
+
+export function createGeminiIllustrationProvider(): IllustrationProvider {
+  return {
+    name: 'gemini',
+
+    async generateImage(request: IllustrationRequest): Promise<Buffer> {
+      const response = await getClient().models.generateContent({
+        model: IMAGE_MODEL,
+        contents: {
+          parts: [
+            // Reference images first to help maintain consistency, then the text prompt
+            ...request.referenceImages.map(toInlineData),
+            { text: request.prompt },
+          ],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE, Modality.TEXT],
+        },
+      });
+
+      const parts = response.candidates?.[0]?.content?.parts || [];
+      for (const part of parts) {
+        if (part.inlineData?.data) {
+          return Buffer.from(part.inlineData.data, "base64");
+        }
+      }
+
+      throw new Error("Image generation failed to return an image part.");
+    },
+
+    async editImage(request: ImageEditRequest): Promise<Buffer> {
+      const response = await getClient().models.generateContent({
+        model: IMAGE_MODEL,
+        contents: {
+          parts: [
+            // The image being edited comes first so the prompt can refer to it as the first image
+            toInlineData(request.image),
+            ...request.referenceImages.map(toInlineData),
+            { text: request.prompt },
+          ],
+        },
+        config: {
+          responseModalities: [Modality.IMAGE, Modality.TEXT],
+        },
+      });
+
+      const parts = response.candidates?.[0]?.content?.parts || [];
+      for (const part of parts) {
+        if (part.inlineData?.data) {
+          return Buffer.from(part.inlineData.data, "base64");
+        }
+      }
+
+      throw new Error("Image edit failed to return an image part.");
+    },
+  };
+}
+
+export function createGeminiContentClassifier(): ContentClassifier {
+  return {
+    name: 'gemini',
+
+    classifyText(text: string): Promise<ModerationVerdict> {
+      return generateJson<ModerationVerdict>(
+        MODERATION_INSTRUCTION,
+        [{ text: `Review this text:\n\n${text}` }],
+        MODERATION_SCHEMA
+      );
+    },
+
+    classifyImage(image: ProviderImage): Promise<ModerationVerdict> {
+      return generateJson<ModerationVerdict>(
+        MODERATION_INSTRUCTION,
+        [toInlineData(image), { text: "Review this illustration." }],
+        MODERATION_SCHEMA
+      );
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { EventEmitter } from "events";
+import type { GenerationJob, GenerationStreamEvent, StoryGenerationProgress } from "@shared/schema";
+
+// In-process wake-up signal so SSE streams served by the same instance as the worker
+// push updates immediately instead of waiting for their next database check
+const updates = new EventEmitter();
+updates.setMaxListeners(0);
+
+export function notifyGenerationUpdate(sessionId: string): void {
+  updates.emit(sessionId);
+}
+
+export function onGenerationUpdate(sessionId: string, listener: () => void): () => void {
+  updates.on(sessionId, listener);
+  return () => {
+    updates.off(sessionId, listener);
+  };
+}
+
+export interface KeyedGenerationEvent {
+  key: string; // Stable identity used to send each event once per stream
+  event: GenerationStreamEvent;
+}
+
+/**
+ * Derive the stream events from a job's persisted state. Because everything comes from
+ * the checkpoint, a reconnecting client (or one served by another instance) gets a full replay.
+ */
+export function buildGenerationEvents(job: GenerationJob, progress?: StoryGenerationProgress): KeyedGenerationEvent[] {
+  const events: KeyedGenerationEvent[] = [];
+  const { checkpoint } = job;
+
+  if (progress) {
+    events.push({
+      key: `progress:${JSON.stringify(progress)}`,
+      event: { type: 'progress', progress },
+    });
+  }
+
+  if (checkpoint.story) {
+    events.push({
+      key: 'story_outline',
+      event: {
+        type: 'story_outline',
+        title: checkpoint.story.title,
+        pages: checkpoint.story.pages.map(page => ({ pageNumber: page.pageNumber, text: page.text })),
+      },
+    });
+  }
+
+  const pageImageUrls = checkpoint.pageImageUrls || {};
+  Object.keys(pageImageUrls)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .forEach(pageNumber => {
+      events.push({
+        key: `page_illustration:${pageNumber}`,
+        event: { type: 'page_illustration', pageNumber, imageUrl: pageImageUrls[pageNumber] },
+      });
+    });
+
+  if (checkpoint.backCoverImageUrl) {
+    events.push({
+      key: 'back_cover',
+      event: { type: 'back_cover', imageUrl: checkpoint.backCoverImageUrl },
+    });
+  }
+
+  if (checkpoint.coverImageUrl) {
+    events.push({
+      key: 'final_cover',
+      event: { type: 'final_cover', imageUrl: checkpoint.coverImageUrl },
+    });
+  }
+
+  if (job.status === 'completed' && job.storybookId) {
+    events.push({
+      key: 'completed',
+      event: { type: 'completed', storybookId: job.storybookId },
+    });
+  } else if (job.status === 'failed') {
+    events.push({
+      key: 'failed',
+      event: { type: 'failed', error: job.lastError || 'Generation failed' },
+    });
+  }
+
+  return events;
+}
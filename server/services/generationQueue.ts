@@ -0,0 +1,187 @@
+import * as os from "os";
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+import { storybookGenerationLimiter } from "../utils/concurrencyLimiter";
+import { runStorybookGeneration, GenerationLeaseLostError, type GenerationRunContext } from "./storybookGeneration";
+import { notifyGenerationUpdate } from "./generationEvents";
+import type { GenerationJob, GenerationJobCheckpoint, GenerationJobParams } from "@shared/schema";
+
+// Identifies this process as the lease holder for the jobs it claims
+const WORKER_ID = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+// A job whose lease is not renewed within this window is considered abandoned and reclaimed
+const LEASE_MS = 2 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = LEASE_MS / 3;
+const POLL_INTERVAL_MS = 2000;
+
+let isPolling = false;
+
+/**
+ * Persist a new generation job and wake the worker. A seeded checkpoint lets the job
+ * skip steps whose results already exist (e.g. the story of an edited draft).
+ * Returns the job's 1-based position in the queue.
+ */
+export async function enqueueGenerationJob(
+  sessionId: string,
+  userId: string | null,
+  params: GenerationJobParams,
+  checkpoint: GenerationJobCheckpoint = {}
+): Promise<number> {
+  await storage.createGenerationJob({
+    id: sessionId,
+    userId,
+    params,
+    checkpoint,
+    progress: {
+      step: 'queued',
+      progress: 0,
+      message: 'Waiting for a free generation slot...',
+    },
+  });
+
+  const queuePosition = await storage.getGenerationQueuePosition(sessionId);
+
+  // Don't wait for the next poll tick when a slot is already free
+  pollGenerationQueue().catch(err => {
+    console.error('[Generation Queue] Poll after enqueue failed:', err);
+  });
+
+  return queuePosition ?? 1;
+}
+
+/**
+ * Claim jobs while this process has free generation slots.
+ * Each claimed job runs in the background and releases its slot when done.
+ */
+export async function pollGenerationQueue(): Promise<void> {
+  if (isPolling) {
+    return;
+  }
+  isPolling = true;
+
+  try {
+    while (storybookGenerationLimiter.tryAcquire()) {
+      let job: GenerationJob | undefined;
+      try {
+        job = await storage.claimNextGenerationJob(WORKER_ID, LEASE_MS);
+      } catch (error) {
+        storybookGenerationLimiter.release();
+        throw error;
+      }
+
+      if (!job) {
+        storybookGenerationLimiter.release();
+        break;
+      }
+
+      const stats = storybookGenerationLimiter.getStats();
+      console.log(`[Generation Queue] ✅ Claimed job ${job.id} (attempt ${job.attempts}/${job.maxAttempts}, ${stats.active}/${stats.max} active)`);
+
+      runJob(job).finally(() => {
+        storybookGenerationLimiter.release();
+        const finalStats = storybookGenerationLimiter.getStats();
+        console.log(`[Generation Queue] 🔓 Slot released (${finalStats.active}/${finalStats.max} active)`);
+
+        // Pick up the next waiting job straight away
+        pollGenerationQueue().catch(err => {
+          console.error('[Generation Queue] Poll after job failed:', err);
+        });
+      });
+    }
+  } finally {
+    isPolling = false;
+  }
+}
+
+async function runJob(job: GenerationJob): Promise<void> {
+  const context: GenerationRunContext = {
+    job,
+    workerId: WORKER_ID,
+    checkpoint: { ...job.checkpoint },
+    leaseLost: false,
+  };
+
+  // A job reclaimed after crashing too many times is not retried again
+  if (job.attempts > job.maxAttempts) {
+    await failJob(job, job.lastError || 'Generation was interrupted too many times', false);
+    return;
+  }
+
+  if (job.currentStep) {
+    console.log(`[Generation Queue] Resuming job ${job.id} after step "${job.currentStep}"`);
+  }
+
+  const heartbeat = setInterval(async () => {
+    try {
+      const renewed = await storage.renewGenerationJobLease(job.id, WORKER_ID, LEASE_MS);
+      if (!renewed) {
+        context.leaseLost = true;
+      }
+    } catch (error) {
+      console.error(`[Generation Queue] Failed to renew lease for job ${job.id}:`, error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    await runStorybookGeneration(context);
+  } catch (error) {
+    if (error instanceof GenerationLeaseLostError) {
+      // Another worker owns the job now - leave its state alone
+      console.warn(`[Generation Queue] ${error.message}, abandoning this attempt`);
+      return;
+    }
+
+    console.error(`[Generation Queue] Job ${job.id} failed:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    await failJob(job, errorMessage, job.attempts < job.maxAttempts);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function failJob(job: GenerationJob, errorMessage: string, retry: boolean): Promise<void> {
+  try {
+    await storage.releaseGenerationJob(job.id, errorMessage, retry);
+
+    if (retry) {
+      await storage.setGenerationProgress(job.id, {
+        step: 'queued',
+        progress: 0,
+        message: `Something went wrong, retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})...`,
+      });
+    } else {
+      await storage.setGenerationProgress(job.id, {
+        step: 'processing_images',
+        progress: 0,
+        message: `Generation failed: ${errorMessage}`,
+        error: errorMessage,
+      });
+
+      // Hand a draft back to its owner so they can try illustrating it again
+      if (job.params.draftStorybookId) {
+        await storage.updateStorybookStatus(job.params.draftStorybookId, 'draft');
+      }
+    }
+    notifyGenerationUpdate(job.id);
+  } catch (error) {
+    console.error(`[Generation Queue] Failed to record failure for job ${job.id}:`, error);
+  }
+}
+
+/**
+ * Start polling for queued and abandoned jobs. Jobs interrupted by a restart
+ * are reclaimed once their lease expires and resume from their last checkpoint.
+ */
+export function startGenerationWorker(): void {
+  setInterval(() => {
+    pollGenerationQueue().catch(err => {
+      console.error('[Generation Queue] Poll failed:', err);
+    });
+  }, POLL_INTERVAL_MS);
+
+  pollGenerationQueue().catch(err => {
+    console.error('[Generation Queue] Initial poll failed:', err);
+  });
+
+  console.log(`[Generation Queue] Worker ${WORKER_ID} started (max ${storybookGenerationLimiter.getStats().max} concurrent jobs)`);
+}
@@ -0,0 +1,128 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { ILLUSTRATION_CANDIDATE_RETENTION_DAYS, type IllustrationCandidate, type Storybook, type StorybookPage } from "@shared/schema";
+import { storage } from "../storage";
+import { ObjectStorageService } from "../objectStorage";
+import { generateIllustration } from "./gemini";
+import { illustrateStorybookPage } from "./pageIllustration";
+import { copyReferenceImages } from "./referenceImages";
+import { buildCoverTitlePrompt, buildFinalImagePrompt, getCastPhotoUrls } from "../utils/imagePromptBuilder";
+
+/**
+ * Whether the create form offers several options per illustration (site setting
+ * 'illustration_candidates_at_creation', off by default). Owners can always draw options later.
+ */
+export async function areCreationCandidatesEnabled(): Promise<boolean> {
+  const setting = await storage.getSetting('illustration_candidates_at_creation');
+  return setting?.value === 'true';
+}
+
+// The scene a book's cover is drawn from; drafts written before cover prompts were kept get a generic one
+function getCoverScene(storybook: Storybook): string {
+  return storybook.coverImagePrompt
+    || `${storybook.characters?.[0]?.name || 'The main character'} in a key moment from the story "${storybook.title}"`;
+}
+
+/**
+ * Draws a new version of a finished book's cover, title included, from its character sheet, the
+ * cast's photos and its style references. Returns the image URL.
+ */
+async function illustrateStorybookCover(storybook: Storybook): Promise<string> {
+  const objectStorage = new ObjectStorageService();
+  const sheet = storybook.characterSheetUrl
+    ? await copyReferenceImages([{ url: storybook.characterSheetUrl, description: 'Character sheet' }], 'sheet')
+    : { imagePaths: [] };
+  const photos = await copyReferenceImages(
+    getCastPhotoUrls(storybook.characters || undefined, storybook.inspirationImages).map(url => ({ url, description: storybook.title })),
+    'cover'
+  );
+  const references = [...sheet.imagePaths, ...photos.imagePaths];
+  const style = await copyReferenceImages(storybook.styleReferenceImages.map(url => ({ url, description: 'Style sample' })), 'style');
+
+  const coverPrompt = buildFinalImagePrompt({
+    mainCharacterDescription: storybook.mainCharacterDescription || undefined,
+    defaultClothing: storybook.defaultClothing || undefined,
+    characters: storybook.characters || undefined,
+    scenePrompt: getCoverScene(storybook),
+    artStyle: storybook.artStyle || undefined,
+    hasCharacterSheet: sheet.imagePaths.length > 0,
+  });
+
+  const filename = `${randomUUID()}_cover.jpg`;
+  const outputPath = path.join("uploads", filename);
+  try {
+    await generateIllustration(
+      buildCoverTitlePrompt(coverPrompt, storybook.title, storybook.author || 'Anonymous'),
+      outputPath,
+      references.length > 0 ? references : undefined,
+      storybook.artStyle || undefined,
+      true,
+      style.imagePaths
+    );
+    return await objectStorage.uploadFile(outputPath, filename, true, storybook.createdAt || new Date());
+  } finally {
+    for (const file of [...references, ...style.imagePaths, outputPath]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+  }
+}
+
+/**
+ * Draws `count` options for a page (or the cover when page is omitted) of a finished book and
+ * stores them as one batch of candidates. Options that fail to draw are left out; only when
+ * none succeed is the error passed on.
+ */
+export async function drawIllustrationCandidates(
+  storybook: Storybook,
+  count: number,
+  page?: StorybookPage
+): Promise<IllustrationCandidate[]> {
+  let firstError: unknown;
+  const drawn = await Promise.all(Array.from({ length: count }, async () => {
+    try {
+      return page ? await illustrateStorybookPage(storybook, page) : await illustrateStorybookCover(storybook);
+    } catch (error) {
+      firstError = firstError ?? error;
+      return null;
+    }
+  }));
+  const imageUrls = drawn.filter((url): url is string => !!url);
+  if (imageUrls.length === 0) {
+    throw firstError;
+  }
+
+  const batchId = randomUUID();
+  return storage.createIllustrationCandidates(imageUrls.map(imageUrl => ({
+    storybookId: storybook.id,
+    target: page ? 'page' as const : 'cover' as const,
+    pageNumber: page ? page.pageNumber : null,
+    batchId,
+    imageUrl,
+    imagePrompt: page ? page.imagePrompt : getCoverScene(storybook),
+    source: 'viewer' as const,
+  })));
+}
+
+/**
+ * Deletes the images and records of candidates that were not picked, once the retention period
+ * has passed since the owner decided. Batches the owner hasn't decided on are left alone so the
+ * picker never loses its options. Returns how many were removed.
+ */
+export async function deleteExpiredIllustrationCandidates(): Promise<number> {
+  const objectStorage = new ObjectStorageService();
+  const decidedBefore = new Date(Date.now() - ILLUSTRATION_CANDIDATE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const expired = await storage.getExpiredIllustrationCandidates(decidedBefore);
+
+  for (const candidate of expired) {
+    try {
+      await objectStorage.deleteFile(candidate.imageUrl.replace('/api/storage/', ''));
+    } catch (error) {
+      console.warn(`[Candidates] Could not delete ${candidate.imageUrl}:`, error);
+    }
+  }
+  await storage.deleteIllustrationCandidates(expired.map(candidate => candidate.id));
+  return expired.length;
+}
@@ -0,0 +1,23 @@
+import { storage } from "../storage";
+import { DEFAULT_ILLUSTRATION_STYLES } from "../utils/illustrationStyles";
+
+/**
+ * Fills an empty style catalog with the styles the create page has always offered, so a new
+ * environment has something to pick from before an admin curates the list. Runs on startup.
+ */
+export async function seedIllustrationStyles(): Promise<void> {
+  try {
+    const existing = await storage.getAllIllustrationStyles();
+    if (existing.length > 0) {
+      return;
+    }
+
+    for (let index = 0; index < DEFAULT_ILLUSTRATION_STYLES.length; index++) {
+      await storage.createIllustrationStyle({ ...DEFAULT_ILLUSTRATION_STYLES[index], displayOrder: index });
+    }
+    console.log(`[Illustration Styles] Seeded ${DEFAULT_ILLUSTRATION_STYLES.length} default styles`);
+  } catch (error) {
+    console.error('[Illustration Styles] Failed to seed default styles:', error);
+    // Don't throw - the create page still accepts custom styles
+  }
+}
@@ -0,0 +1,248 @@
+import { createHash } from "crypto";
+import sharp from "sharp";
+import type {
+  ContentClassifier,
+  IllustrationProvider,
+  ProviderCharacter,
+  IllustrationRequest,
+  ImageEditRequest,
+  ModerationVerdict,
+  PageRegenerationRequest,
+  ProviderPage,
+  ProviderStory,
+  ProviderStoryPage,
+  StoryGenerationRequest,
+  StoryTextProvider,
+  TranslationRequest,
+} from "./aiProvider";
+
+/**
+ * Offline provider for development and CI. Output depends only on the request, so the same
+ * prompt always yields the same story and the same placeholder artwork, with no network access.
+ */
+
+const IMAGE_SIZE = 1024;
+
+const HEROES = [
+  { name: 'Milo', description: 'A cheerful seven-year-old boy with curly brown hair, freckles and bright green eyes', clothing: 'a yellow raincoat, blue jeans and red sneakers' },
+  { name: 'Luna', description: 'A curious six-year-old girl with long black braids, round glasses and a wide smile', clothing: 'a purple dress with white stars and green boots' },
+  { name: 'Pip', description: 'A small orange fox cub with a fluffy white-tipped tail and big amber eyes', clothing: 'a tiny blue scarf' },
+  { name: 'Ava', description: 'An adventurous eight-year-old girl with short red hair and a gap-toothed grin', clothing: 'an orange hoodie, denim shorts and striped socks' },
+];
+
+const COMPANIONS = [
+  { id: 'biscuit', name: 'Biscuit', role: 'pet dog', appearance: 'A fluffy golden puppy with floppy ears and a wagging tail', clothing: 'a red collar with a silver tag' },
+  { id: 'grandma-rose', name: 'Grandma Rose', role: 'grandmother', appearance: 'A kind older woman with silver hair in a bun and twinkling blue eyes', clothing: 'a green cardigan and a flowery skirt' },
+  { id: 'theo', name: 'Theo', role: 'little brother', appearance: 'A giggly four-year-old boy with messy blond hair and rosy cheeks', clothing: 'dinosaur pajamas and blue slippers' },
+];
+
+const SETTINGS = [
+  'a sunny meadow full of wildflowers',
+  'a quiet forest with tall pine trees',
+  'a cozy village by the sea',
+  'a snowy mountain path',
+  'a bustling market square',
+  'a moonlit garden',
+];
+
+const OBJECTS = ['a glowing lantern', 'a paper map', 'a friendly bird', 'a wooden boat', 'a tiny key', 'a kite', 'a basket of apples'];
+const TONES = ['excited discovery', 'gentle curiosity', 'brave determination', 'worried hesitation', 'joyful celebration', 'peaceful contentment'];
+
+function seedFrom(...parts: Array<string | number>): number {
+  return createHash("sha256").update(parts.join("\u0000")).digest().readUInt32LE(0);
+}
+
+// mulberry32: small, fast and good enough for picking placeholder content
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function summarizeIdea(prompt: string): string {
+  const idea = prompt.replace(/\s+/g, ' ').trim();
+  if (idea.length > 120) {
+    return `${idea.slice(0, 117)}...`;
+  }
+  return /[.!?]$/.test(idea) ? idea : `${idea}.`;
+}
+
+function buildPage(random: () => number, heroName: string, pageNumber: number, totalPages: number, idea: string, cast: ProviderCharacter[]): ProviderStoryPage {
+  const setting = pick(random, SETTINGS);
+  const object = pick(random, OBJECTS);
+  const position = totalPages <= 1 ? 1 : (pageNumber - 1) / (totalPages - 1);
+
+  let mainAction: string;
+  let emotionalTone: string;
+  let text: string;
+  if (pageNumber === 1) {
+    mainAction = `${heroName} finding ${object}`;
+    emotionalTone = 'excited discovery';
+    text = `One morning, ${heroName} wandered into ${setting} and found ${object}. It reminded ${heroName} of a big idea: ${idea} "Today is going to be special," ${heroName} whispered, and set off to see where the adventure would lead.`;
+  } else if (position >= 1) {
+    mainAction = `${heroName} heading home with ${object}`;
+    emotionalTone = 'peaceful contentment';
+    text = `At last, ${heroName} returned from ${setting} with ${object} held close. The day had been full of surprises, and ${heroName} had learned that a little courage goes a long way. That night, ${heroName} fell asleep smiling, already dreaming of tomorrow.`;
+  } else {
+    mainAction = `${heroName} exploring with ${object}`;
+    emotionalTone = pick(random, TONES);
+    text = `In ${setting}, ${heroName} discovered ${object}. Something about it felt important, so ${heroName} looked closer, asked questions and tried again when things got tricky. Step by step, the adventure grew bigger and brighter.`;
+  }
+
+  // The main character is on every page; the rest of the cast takes turns
+  const characterIds = cast.length > 0 ? [cast[0].id] : [];
+  if (cast.length > 1 && pageNumber % 2 === 0) {
+    characterIds.push(cast[1 + (pageNumber / 2 - 1) % (cast.length - 1)].id);
+  }
+
+  return {
+    pageNumber,
+    text,
+    characterIds,
+    main_action: mainAction,
+    setting,
+    key_objects: [object],
+    emotional_tone: emotionalTone,
+    imagePrompt: `${mainAction} in ${setting}, featuring ${object}. ${emotionalTone} atmosphere.`,
+  };
+}
+
+export function createLocalStoryTextProvider(): StoryTextProvider {
+  return {
+    name: 'local',
+
+    async generateStory(request: StoryGenerationRequest): Promise<ProviderStory> {
+      const random = createRandom(seedFrom('story', request.prompt, request.pagesPerBook, request.systemInstruction));
+      const hero = pick(random, HEROES);
+      const idea = summarizeIdea(request.prompt);
+      const setting = pick(random, SETTINGS);
+
+      // One cast member per uploaded photo (hero first), or a companion without a photo
+      const photoCount = request.inspirationImages.length;
+      const cast: ProviderCharacter[] = [
+        { id: hero.name.toLowerCase(), name: hero.name, role: 'main character', appearance: hero.description, clothing: hero.clothing, referenceImageNumber: photoCount > 0 ? 1 : 0 },
+        ...COMPANIONS.slice(0, Math.max(1, photoCount - 1)).map((companion, i) => ({
+          ...companion,
+          referenceImageNumber: photoCount > i + 1 ? i + 2 : 0,
+        })),
+      ];
+
+      const pages = Array.from({ length: request.pagesPerBook }, (_, i) =>
+        buildPage(random, hero.name, i + 1, request.pagesPerBook, idea, cast)
+      );
+
+      return {
+        title: `${hero.name} and the ${pick(random, ['Great', 'Secret', 'Wonderful', 'Hidden'])} ${pick(random, ['Adventure', 'Journey', 'Discovery', 'Surprise'])}`,
+        characters: cast,
+        storyArc: `${hero.name} sets out, faces a challenge and comes home wiser. Inspired by: ${idea}`,
+        coverImagePrompt: `${hero.name} standing in ${setting}, looking ahead with a hopeful smile`,
+        pages,
+      };
+    },
+
+    async regeneratePage(request: PageRegenerationRequest): Promise<ProviderPage> {
+      const { storybook, pageNumber } = request;
+      const random = createRandom(seedFrom('page', storybook.title, pageNumber, request.systemInstruction));
+      const heroName = storybook.characters?.[0]?.name
+        || HEROES.find(hero => hero.description === storybook.mainCharacterDescription)?.name
+        || 'our hero';
+      const cast = (storybook.characters || []).map(character => ({ ...character, referenceImageNumber: 0 }));
+      const { pageNumber: _pageNumber, ...page } = buildPage(random, heroName, pageNumber, storybook.pages.length, storybook.storyArc, cast);
+      return page;
+    },
+
+    // No offline translator: texts come back tagged with the target language so editions are easy to tell apart
+    async translateTexts(request: TranslationRequest): Promise<string[]> {
+      return request.texts.map(text => text ? `[${request.language}] ${text}` : text);
+    },
+  };
+}
+
+function hsl(hue: number, saturation: number, lightness: number): string {
+  return `hsl(${Math.round(hue) % 360}, ${saturation}%, ${lightness}%)`;
+}
+
+/**
+ * Procedurally render a placeholder scene (sky, sun, hills and a simple figure) whose colours
+ * and layout are derived from the prompt. Reference images are ignored.
+ */
+export async function renderPlaceholderImage(prompt: string, size: number = IMAGE_SIZE): Promise<Buffer> {
+  const random = createRandom(seedFrom('image', prompt));
+  const hue = random() * 360;
+  const accentHue = hue + 120 + random() * 120;
+
+  const sunX = size * (0.15 + random() * 0.7);
+  const sunY = size * (0.12 + random() * 0.2);
+  const horizon = size * (0.55 + random() * 0.15);
+
+  const hills = Array.from({ length: 3 }, (_, i) => {
+    const peak = horizon - size * (0.05 + random() * 0.15);
+    const peakX = size * random();
+    return `<path d="M0 ${horizon + i * size * 0.08} Q ${peakX} ${peak + i * size * 0.08} ${size} ${horizon + i * size * 0.08} L ${size} ${size} L 0 ${size} Z" fill="${hsl(hue + 90 + i * 15, 45, 45 - i * 8)}"/>`;
+  }).join('');
+
+  const figureX = size * (0.25 + random() * 0.5);
+  const figureY = horizon + size * 0.1;
+  const figure = `
+    <rect x="${figureX - size * 0.05}" y="${figureY - size * 0.12}" width="${size * 0.1}" height="${size * 0.16}" rx="${size * 0.03}" fill="${hsl(accentHue, 70, 55)}"/>
+    <circle cx="${figureX}" cy="${figureY - size * 0.17}" r="${size * 0.05}" fill="${hsl(30, 55, 75)}"/>`;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">
+    <defs>
+      <linearGradient id="sky" x1="0" y1="0" x2="0" y2="1">
+        <stop offset="0" stop-color="${hsl(hue, 70, 75)}"/>
+        <stop offset="1" stop-color="${hsl(hue + 30, 60, 90)}"/>
+      </linearGradient>
+    </defs>
+    <rect width="${size}" height="${size}" fill="url(#sky)"/>
+    <circle cx="${sunX}" cy="${sunY}" r="${size * 0.08}" fill="${hsl(50, 95, 65)}"/>
+    ${hills}
+    ${figure}
+  </svg>`;
+
+  return sharp(Buffer.from(svg)).jpeg({ quality: 85 }).toBuffer();
+}
+
+export function createLocalIllustrationProvider(): IllustrationProvider {
+  return {
+    name: 'local',
+
+    generateImage(request: IllustrationRequest): Promise<Buffer> {
+      return renderPlaceholderImage(request.prompt);
+    },
+
+    // Stands in for an edit by shifting the image's colours by an amount derived from the prompt
+    async editImage(request: ImageEditRequest): Promise<Buffer> {
+      const hueShift = 60 + Math.round(createRandom(seedFrom('edit', request.prompt))() * 240);
+      return sharp(request.image.data)
+        .resize(IMAGE_SIZE, IMAGE_SIZE, { fit: 'cover' })
+        .modulate({ hue: hueShift })
+        .jpeg({ quality: 85 })
+        .toBuffer();
+    },
+  };
+}
+
+// The offline classifier clears everything; the blocklist still applies on top of it
+export function createLocalContentClassifier(): ContentClassifier {
+  const clear: ModerationVerdict = { flagged: false, categories: [], reason: '' };
+  return {
+    name: 'local',
+
+    async classifyText(): Promise<ModerationVerdict> {
+      return clear;
+    },
+
+    async classifyImage(): Promise<ModerationVerdict> {
+      return clear;
+    },
+  };
+}
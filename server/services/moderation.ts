@@ -0,0 +1,174 @@
+import * as path from "path";
+import { storage } from "../storage";
+import { ObjectStorageService } from "../objectStorage";
+import { getContentClassifier, type ModerationVerdict } from "./aiProvider";
+import { findBlockedTerms, findBlockedTermsIn, parseBlockedTerms } from "../utils/moderation";
+import type { InsertModerationFlag, ModerationSource } from "@shared/schema";
+
+/**
+ * Content-safety checks for a children's product.
+ *
+ * What customers type is checked against the blocklist before anything is generated. Once a
+ * book (or a replaced page) exists, its text and images go through the blocklist and the content
+ * classifier; anything either of them objects to is queued for admin review and the book is held
+ * out of the public gallery until an admin decides. New books stay out of the gallery until their
+ * first check has finished.
+ */
+
+export interface ModerationPolicy {
+  blockedTerms: string[];
+  useClassifier: boolean; // Site setting 'moderation_classifier_enabled', on unless set to 'false'
+}
+
+type ModerationFinding = Omit<InsertModerationFlag, 'storybookId'>;
+
+export async function loadModerationPolicy(): Promise<ModerationPolicy> {
+  const termsSetting = await storage.getSetting('moderation_blocked_terms');
+  const classifierSetting = await storage.getSetting('moderation_classifier_enabled');
+  return {
+    blockedTerms: parseBlockedTerms(termsSetting?.value),
+    useClassifier: classifierSetting?.value !== 'false',
+  };
+}
+
+/**
+ * Blocked terms in text a customer submitted (a story idea, character descriptions, instructions).
+ * Callers reject the request when any are found.
+ */
+export async function findBlockedInput(texts: Array<string | null | undefined>): Promise<string[]> {
+  const policy = await loadModerationPolicy();
+  return findBlockedTermsIn(texts, policy.blockedTerms);
+}
+
+function describeVerdict(verdict: ModerationVerdict): string {
+  const categories = verdict.categories.length > 0 ? ` (${verdict.categories.join(', ')})` : '';
+  return `Flagged by the content classifier${categories}: ${verdict.reason || 'no reason given'}`;
+}
+
+async function checkText(policy: ModerationPolicy, source: ModerationSource, text: string, pageNumber?: number): Promise<ModerationFinding | undefined> {
+  if (!text.trim()) {
+    return undefined;
+  }
+
+  const matchedTerms = findBlockedTerms(text, policy.blockedTerms);
+  if (matchedTerms.length > 0) {
+    return { source, pageNumber, content: text, reason: `Contains blocked terms: ${matchedTerms.join(', ')}`, matchedTerms };
+  }
+
+  if (!policy.useClassifier) {
+    return undefined;
+  }
+
+  // A check that cannot run holds the content for review rather than letting it through
+  try {
+    const verdict = await getContentClassifier().classifyText(text);
+    return verdict.flagged ? { source, pageNumber, content: text, reason: describeVerdict(verdict) } : undefined;
+  } catch (error) {
+    console.error(`[Moderation] Text check failed for ${source}:`, error);
+    return { source, pageNumber, content: text, reason: 'The automated check could not be completed' };
+  }
+}
+
+async function checkImage(policy: ModerationPolicy, objectStorage: ObjectStorageService, source: ModerationSource, imageUrl: string, pageNumber?: number): Promise<ModerationFinding | undefined> {
+  if (!policy.useClassifier || !imageUrl) {
+    return undefined;
+  }
+
+  try {
+    const data = await objectStorage.getFileBuffer(imageUrl.replace('/api/storage/', ''));
+    const mimeType = path.extname(imageUrl).toLowerCase() === '.png' ? 'image/png' : 'image/jpeg';
+    const verdict = await getContentClassifier().classifyImage({ data, mimeType });
+    return verdict.flagged ? { source, pageNumber, content: imageUrl, reason: describeVerdict(verdict) } : undefined;
+  } catch (error) {
+    console.error(`[Moderation] Image check failed for ${imageUrl}:`, error);
+    return { source, pageNumber, content: imageUrl, reason: 'The automated check could not be completed' };
+  }
+}
+
+/**
+ * Post-generation check for a storybook. Without page numbers the whole book is checked: the story
+ * idea, the cast, uploaded photos and style pictures, every page and both covers. With page numbers, only those pages
+ * (after a page was regenerated, added or restored), plus the covers when checkCovers is set (after
+ * the owner uploaded one). Returns the number of new flags.
+ */
+export async function moderateStorybook(storybookId: string, pageNumbers?: number[], checkCovers: boolean = !pageNumbers): Promise<number> {
+  const storybook = await storage.getStorybook(storybookId);
+  if (!storybook) {
+    return 0;
+  }
+
+  const policy = await loadModerationPolicy();
+  const objectStorage = new ObjectStorageService();
+  const checks: Array<() => Promise<ModerationFinding | undefined>> = [];
+
+  if (!pageNumbers) {
+    checks.push(() => checkText(policy, 'prompt', storybook.prompt));
+    for (const character of storybook.characters || []) {
+      checks.push(() => checkText(policy, 'character_description', `${character.name}: ${character.appearance} ${character.clothing}`));
+    }
+    for (const imageUrl of storybook.inspirationImages) {
+      checks.push(() => checkImage(policy, objectStorage, 'uploaded_image', imageUrl));
+    }
+    for (const imageUrl of storybook.styleReferenceImages) {
+      checks.push(() => checkImage(policy, objectStorage, 'uploaded_image', imageUrl));
+    }
+  }
+  if (checkCovers) {
+    if (storybook.coverImageUrl) {
+      checks.push(() => checkImage(policy, objectStorage, 'cover_image', storybook.coverImageUrl!));
+    }
+    if (storybook.backCoverImageUrl) {
+      checks.push(() => checkImage(policy, objectStorage, 'back_cover_image', storybook.backCoverImageUrl!));
+    }
+  }
+
+  const pages = pageNumbers
+    ? storybook.pages.filter(page => pageNumbers.includes(page.pageNumber))
+    : storybook.pages;
+  for (const page of pages) {
+    checks.push(() => checkText(policy, 'page_text', page.text, page.pageNumber));
+    if (page.secondaryText) {
+      checks.push(() => checkText(policy, 'page_text', page.secondaryText!, page.pageNumber));
+    }
+    // Draft pages have no illustration yet
+    if (page.imageUrl) {
+      checks.push(() => checkImage(policy, objectStorage, 'page_image', page.imageUrl, page.pageNumber));
+    }
+  }
+
+  const findings: ModerationFinding[] = [];
+  for (const check of checks) {
+    const finding = await check();
+    if (finding) {
+      findings.push(finding);
+    }
+  }
+
+  if (findings.length > 0) {
+    await storage.recordModerationFlags(storybookId, findings);
+    console.warn(`[Moderation] Storybook ${storybookId} flagged for review (${findings.length} item(s))`);
+  } else {
+    await storage.markModerationClear(storybookId);
+  }
+  return findings.length;
+}
+
+/**
+ * Runs the post-generation check without holding up the response. A check that fails as a whole
+ * queues the book for review, like a single item that could not be checked.
+ */
+export function moderateStorybookInBackground(storybookId: string, pageNumbers?: number[], checkCovers?: boolean): void {
+  moderateStorybook(storybookId, pageNumbers, checkCovers).catch(async error => {
+    console.error(`[Moderation] Failed to check storybook ${storybookId}:`, error);
+    try {
+      const storybook = await storage.getStorybook(storybookId);
+      if (storybook) {
+        await storage.recordModerationFlags(storybookId, [
+          { source: 'prompt', content: storybook.prompt, reason: 'The automated check could not be completed' },
+        ]);
+      }
+    } catch (holdError) {
+      console.error(`[Moderation] Failed to hold storybook ${storybookId} for review:`, holdError);
+    }
+  });
+}
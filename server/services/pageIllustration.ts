@@ -0,0 +1,186 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Storybook, StorybookPage } from "@shared/schema";
+import { editIllustration, generateIllustration } from "./gemini";
+import { ObjectStorageService } from "../objectStorage";
+import { copyReferenceImages } from "./referenceImages";
+import { buildFinalImagePrompt, buildImageEditPrompt, getCharacterReferenceIndexes, selectSceneCharacters } from "../utils/imagePromptBuilder";
+
+/**
+ * Draws a single interior page of an existing storybook and uploads it, returning the image URL.
+ * The character sheet, the photos of the characters in the scene, the cover and the book's style
+ * references are passed along so the new illustration matches the rest of the book.
+ */
+export async function illustrateStorybookPage(
+  storybook: Storybook,
+  page: Pick<StorybookPage, 'pageNumber' | 'imagePrompt' | 'characterIds'>
+): Promise<string> {
+  const { pageNumber } = page;
+  const objectStorage = new ObjectStorageService();
+
+  // The character sheet goes first: it is the main reference for how the characters look
+  let characterSheetRefPath: string | undefined;
+  if (storybook.characterSheetUrl) {
+    try {
+      const sheetResponse = await fetch(`http://localhost:5000${storybook.characterSheetUrl}`);
+      if (sheetResponse.ok) {
+        characterSheetRefPath = path.join("uploads", `${randomUUID()}_character_sheet_ref.jpg`);
+        fs.writeFileSync(characterSheetRefPath, Buffer.from(await sheetResponse.arrayBuffer()));
+        console.log(`[Page Illustration] Using the character sheet as the main reference`);
+      } else {
+        console.warn(`[Page Illustration] Could not download character sheet: ${sheetResponse.status}`);
+      }
+    } catch (error) {
+      console.warn(`[Page Illustration] Error downloading character sheet:`, error);
+      characterSheetRefPath = undefined;
+    }
+  }
+
+  // Build the full image prompt using the centralized utility function
+  const characters = storybook.characters || [];
+  const fullImagePrompt = buildFinalImagePrompt({
+    mainCharacterDescription: storybook.mainCharacterDescription || undefined,
+    defaultClothing: storybook.defaultClothing || undefined,
+    characters,
+    characterIds: page.characterIds,
+    scenePrompt: page.imagePrompt,
+    artStyle: storybook.artStyle || undefined,
+    hasCharacterSheet: !!characterSheetRefPath,
+  });
+
+  // Log the full prompt for debugging
+  console.log(`[Page Illustration] Page ${pageNumber} full prompt:`, fullImagePrompt);
+  console.log(`[Page Illustration] Art style:`, storybook.artStyle || 'default');
+
+  // Generate image to temp location (generateIllustration already optimizes to JPG)
+  const filename = `${randomUUID()}_page_${pageNumber}.jpg`;
+  const tempImagePath = path.join("uploads", filename);
+
+  // Download the photos of the characters on this page (or the first uploaded photo for books
+  // without a cast linked to photos) to use as references for character consistency
+  const castHasPhotos = characters.some(c => c.referenceImageIndex !== undefined);
+  const inspirationIndexes = castHasPhotos
+    ? getCharacterReferenceIndexes(selectSceneCharacters(characters, page.characterIds))
+    : (storybook.inspirationImages?.length ? [0] : []);
+  const inspirationImagePaths: string[] = [];
+  for (const index of inspirationIndexes) {
+    const inspirationUrl = storybook.inspirationImages?.[index];
+    if (!inspirationUrl) continue;
+    try {
+      // Create a temp path for the inspiration image
+      const inspirationFilename = `${randomUUID()}_inspiration_ref.jpg`;
+      const inspirationImagePath = path.join("uploads", inspirationFilename);
+
+      // Download the inspiration image from object storage
+      const inspirationImageResponse = await fetch(`http://localhost:5000${inspirationUrl}`);
+      if (inspirationImageResponse.ok) {
+        const inspirationImageBuffer = await inspirationImageResponse.arrayBuffer();
+        fs.writeFileSync(inspirationImagePath, Buffer.from(inspirationImageBuffer));
+        inspirationImagePaths.push(inspirationImagePath);
+        console.log(`[Page Illustration] Using uploaded photo ${index + 1} as reference for consistency`);
+      } else {
+        console.warn(`[Page Illustration] Could not download inspiration image: ${inspirationImageResponse.status}`);
+      }
+    } catch (error) {
+      console.warn(`[Page Illustration] Error downloading inspiration image:`, error);
+    }
+  }
+
+  // Use art style from storybook if available
+  const artStyle = storybook.artStyle || undefined;
+
+  // Progressive visual reference chain: character sheet, inspiration images, then the cover image
+  const regenerateReferences: string[] = characterSheetRefPath ? [characterSheetRefPath, ...inspirationImagePaths] : [...inspirationImagePaths];
+
+  // Also download the cover image to use as reference for consistency
+  let coverImageRefPath: string | undefined;
+  if (storybook.coverImageUrl) {
+    try {
+      const coverFilename = `${randomUUID()}_cover_ref.jpg`;
+      coverImageRefPath = path.join("uploads", coverFilename);
+      const coverImageResponse = await fetch(`http://localhost:5000${storybook.coverImageUrl}`);
+      if (coverImageResponse.ok) {
+        const coverImageBuffer = await coverImageResponse.arrayBuffer();
+        fs.writeFileSync(coverImageRefPath, Buffer.from(coverImageBuffer));
+        regenerateReferences.push(coverImageRefPath);
+        console.log(`[Page Illustration] Using cover image as reference for visual consistency`);
+      } else {
+        coverImageRefPath = undefined;
+      }
+    } catch (error) {
+      console.warn(`[Page Illustration] Error downloading cover image:`, error);
+      coverImageRefPath = undefined;
+    }
+  }
+
+  const style = await copyReferenceImages(storybook.styleReferenceImages.map(url => ({ url, description: 'Style sample' })), 'style');
+
+  await generateIllustration(fullImagePrompt, tempImagePath, regenerateReferences.length > 0 ? regenerateReferences : undefined, artStyle, false, style.imagePaths);
+
+  // Upload to object storage (uploadFile adds date-based path automatically)
+  const imageUrl = await objectStorage.uploadFile(tempImagePath, filename, true, storybook.createdAt || new Date());
+
+  // Clean up temp files
+  try {
+    fs.unlinkSync(tempImagePath);
+    for (const inspirationImagePath of inspirationImagePaths) {
+      if (fs.existsSync(inspirationImagePath)) {
+        fs.unlinkSync(inspirationImagePath);
+      }
+    }
+    if (coverImageRefPath && fs.existsSync(coverImageRefPath)) {
+      fs.unlinkSync(coverImageRefPath);
+    }
+    if (characterSheetRefPath && fs.existsSync(characterSheetRefPath)) {
+      fs.unlinkSync(characterSheetRefPath);
+    }
+    for (const stylePath of style.imagePaths) {
+      if (fs.existsSync(stylePath)) {
+        fs.unlinkSync(stylePath);
+      }
+    }
+  } catch (err) {
+    console.warn("Failed to delete temp files:", err);
+  }
+
+  return imageUrl;
+}
+
+/**
+ * Applies an instruction (e.g. "make the dog brown") to a page's current illustration instead
+ * of drawing it again, and uploads the result, returning the image URL. The character sheet is
+ * passed along so redrawn characters stay on model.
+ */
+export async function editStorybookPageImage(
+  storybook: Storybook,
+  page: Pick<StorybookPage, 'pageNumber' | 'imageUrl'>,
+  instruction: string
+): Promise<string> {
+  const objectStorage = new ObjectStorageService();
+  const current = await copyReferenceImages([{ url: page.imageUrl, description: `Page ${page.pageNumber}` }], 'edit');
+  if (current.imagePaths.length === 0) {
+    throw new Error(`Could not read the current illustration of page ${page.pageNumber}`);
+  }
+  const sheet = storybook.characterSheetUrl
+    ? await copyReferenceImages([{ url: storybook.characterSheetUrl, description: 'Character sheet' }], 'sheet')
+    : { imagePaths: [] };
+
+  const editPrompt = buildImageEditPrompt(instruction, {
+    artStyle: storybook.artStyle || undefined,
+    hasCharacterSheet: sheet.imagePaths.length > 0,
+  });
+
+  const filename = `${randomUUID()}_page_${page.pageNumber}_edit.jpg`;
+  const outputPath = path.join("uploads", filename);
+  try {
+    await editIllustration(current.imagePaths[0], editPrompt, outputPath, sheet.imagePaths);
+    return await objectStorage.uploadFile(outputPath, filename, true, storybook.createdAt || new Date());
+  } finally {
+    for (const file of [...current.imagePaths, ...sheet.imagePaths, outputPath]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+  }
+}
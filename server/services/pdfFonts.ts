@@ -0,0 +1,100 @@
+import type { PDFDocument, PDFFont, PDFPage, RGB } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { join } from 'path';
+import { splitIntoFontRuns, type GlyphCoverage } from '../utils/pdfText';
+
+/**
+ * Font fallback chains for the print PDF. Each chain starts with the font that sets the look
+ * of the text and falls back, one glyph run at a time, to fonts covering more of Unicode:
+ * DejaVu for Latin Extended, Greek and Cyrillic, then Noto Sans SC for Chinese and Japanese.
+ *
+ * CJK fonts are too large to keep in the repository, so Noto Sans SC comes from the
+ * @expo-google-fonts/noto-sans-sc package, found through Node's module resolution so it loads
+ * whatever directory the server starts in.
+ */
+const FONT_CHAINS = {
+  body: ['ComicNeue-Regular.ttf', 'DejaVuSans.ttf'],
+  heading: ['DejaVuSans-Bold.ttf'],
+  serif: ['DejaVuSerif.ttf', 'DejaVuSans.ttf'],
+} as const;
+
+const CJK_FONTS: Record<PdfFontRole, string> = {
+  body: '400Regular/NotoSansSC_400Regular.ttf',
+  heading: '700Bold/NotoSansSC_700Bold.ttf',
+  serif: '400Regular/NotoSansSC_400Regular.ttf',
+};
+
+export type PdfFontRole = keyof typeof FONT_CHAINS;
+
+const require = createRequire(import.meta.url);
+
+// Cache font bytes and parsed glyph tables to avoid blocking the event loop on every PDF
+const fontFileCache = new Map<string, { bytes: Uint8Array; coverage: GlyphCoverage }>();
+
+function loadFontFile(path: string) {
+  let cached = fontFileCache.get(path);
+  if (!cached) {
+    const bytes = readFileSync(path);
+    cached = { bytes, coverage: fontkit.create(bytes) };
+    fontFileCache.set(path, cached);
+  }
+  return cached;
+}
+
+function getChainPaths(role: PdfFontRole): string[] {
+  return [
+    ...FONT_CHAINS[role].map(file => join(process.cwd(), 'server', 'fonts', file)),
+    require.resolve(`@expo-google-fonts/noto-sans-sc/${CJK_FONTS[role]}`),
+  ];
+}
+
+export interface PdfFontChain {
+  widthOfTextAtSize(text: string, size: number): number;
+  drawText(page: PDFPage, text: string, options: { x: number; y: number; size: number; color: RGB }): void;
+}
+
+/**
+ * Embeds the fonts of a chain in the document, subset so only the glyphs the book uses end up in the file.
+ */
+export async function embedFontChain(pdfDoc: PDFDocument, role: PdfFontRole): Promise<PdfFontChain> {
+  const files = getChainPaths(role).flatMap(path => {
+    try {
+      return [loadFontFile(path)];
+    } catch (error) {
+      console.warn(`[PDF Fonts] Could not load font ${path}:`, error);
+      return [];
+    }
+  });
+  const coverage = files.map(file => file.coverage);
+  const embedded: PDFFont[] = await Promise.all(
+    files.map(file => pdfDoc.embedFont(file.bytes, { subset: true }))
+  );
+  let warnedMissing = false;
+
+  function toRuns(text: string) {
+    const { runs, missing } = splitIntoFontRuns(text, coverage);
+    // Text is measured and drawn many times, so say it once per document
+    if (missing.length > 0 && !warnedMissing) {
+      warnedMissing = true;
+      console.warn(`[PDF Fonts] No ${role} font has glyphs for ${missing.join(' ')} - such characters are left out`);
+    }
+    return runs;
+  }
+
+  return {
+    widthOfTextAtSize(text, size) {
+      return toRuns(text).reduce((width, run) => width + embedded[run.font].widthOfTextAtSize(run.text, size), 0);
+    },
+
+    drawText(page, text, { x, y, size, color }) {
+      let runX = x;
+      for (const run of toRuns(text)) {
+        const font = embedded[run.font];
+        page.drawText(run.text, { x: runX, y, size, font, color });
+        runX += font.widthOfTextAtSize(run.text, size);
+      }
+    },
+  };
+}
@@ -1,9 +1,11 @@
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
+import { PDFDocument, rgb } from 'pdf-lib';
 import fontkit from '@pdf-lib/fontkit';
 import type { Storybook } from "@shared/schema";
 import { ObjectStorageService } from "../objectStorage";
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import { getBookTranslations } from "../book-translations";
+import { embedFontChain, type PdfFontChain } from "./pdfFonts";
+import { breakIntoLines, fitPageText, normalizeTextForPDF } from "../utils/pdfText";
+import { formatSeriesLabel } from "../utils/series";
 import { 
   getBookDimensionsInPoints, 
   SAFETY_MARGIN_POINTS, 
@@ -11,37 +13,6 @@ import {
   REQUIRED_DPI 
 } from '@shared/bookSizes';
 
-// Cache font bytes to avoid blocking event loop with repeated readFileSync
-let cachedComicNeueFontBytes: ArrayBuffer | null = null;
-
-/**
- * Sanitizes text to ensure compatibility with WinAnsi encoding used by PDF standard fonts
- * Converts Unicode characters to ASCII equivalents to prevent PDF generation errors
- */
-function sanitizeTextForPDF(text: string): string {
-  if (!text) return '';
-  
-  return text
-    // Normalize line breaks first (before other replacements)
-    .replace(/\r\n/g, '\n')           // Windows line breaks → Unix
-    .replace(/\r/g, '\n')             // Mac line breaks → Unix
-    // Curly quotes to straight quotes
-    .replace(/[\u201C\u201D]/g, '"')  // " and "
-    .replace(/[\u2018\u2019]/g, "'")  // ' and '
-    // Em dash and en dash to regular dash
-    .replace(/[\u2013\u2014]/g, '-')
-    // Ellipsis to three dots
-    .replace(/\u2026/g, '...')
-    // Non-breaking space to regular space
-    .replace(/\u00A0/g, ' ')
-    // Other common problematic characters
-    .replace(/\u2022/g, '*')  // Bullet point
-    .replace(/\u00AB/g, '<<') // Left guillemet
-    .replace(/\u00BB/g, '>>') // Right guillemet
-    // Remove any remaining non-ASCII characters (fallback)
-    .replace(/[^\x00-\x7F]/g, '');
-}
-
 // Page manifest types
 type PageType = 'frontCover' | 'image' | 'text' | 'backCover' | 'foreword' | 'attribution';
 interface PageManifestEntry {
@@ -49,6 +20,7 @@ interface PageManifestEntry {
   pageIndex?: number; // Reference to storybook.pages index for image/text pages
   imageUrl?: string; // For cover pages
   text?: string; // For text pages and foreword
+  secondaryText?: string; // For text pages of bilingual books, set below the primary text
 }
 
 /**
@@ -86,11 +58,12 @@ function buildPageManifest(storybook: Storybook): PageManifestEntry[] {
       imageUrl: page.imageUrl || undefined 
     });
     
-    // Text page
+    // Text page (bilingual books: primary language above, secondary language below)
     manifest.push({ 
       type: 'text', 
       pageIndex: i, 
-      text: page.text 
+      text: page.text,
+      secondaryText: storybook.secondaryLanguage ? page.secondaryText : undefined,
     });
   }
   
@@ -150,19 +123,21 @@ export async function generatePrintReadyPDF(
   pdfDoc.setProducer('AI Storybook Builder - Prodigi Hardcover Specs');
   pdfDoc.setCreator('pdf-lib');
   pdfDoc.setKeywords(['storybook', 'print', 'hardcover', `${REQUIRED_DPI}dpi`]);
+  pdfDoc.setLanguage(storybook.language);
+  
+  // Fixed text on the back cover and attribution page, in the language the story was written in
+  const t = getBookTranslations(storybook.language);
   
   // Get book dimensions based on selected size
   const { width: PAGE_WIDTH, height: PAGE_HEIGHT } = getBookDimensionsInPoints(bookSize);
   
   const objectStorageService = new ObjectStorageService();
   
-  // Load kid-friendly Comic Neue font for ages 6-12 (cached for performance)
-  if (!cachedComicNeueFontBytes) {
-    const fontPath = join(process.cwd(), 'server', 'fonts', 'ComicNeue-Regular.ttf');
-    cachedComicNeueFontBytes = readFileSync(fontPath);
-  }
-  const font = await pdfDoc.embedFont(cachedComicNeueFontBytes);
-  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  // Kid-friendly Comic Neue for story text, with Unicode fallbacks for characters it lacks
+  const font = await embedFontChain(pdfDoc, 'body');
+  const boldFont = await embedFontChain(pdfDoc, 'heading');
+  // Serif for the second language of bilingual books, embedded on first use
+  let secondaryFont: PdfFontChain | undefined;
   
   // Import image optimization utility
   const { optimizeImageForPDF } = await import('../utils/imageOptimization');
@@ -219,43 +194,9 @@ export async function generatePrintReadyPDF(
     drawScaledImage(page, image, 0, 0, PAGE_WIDTH, PAGE_HEIGHT);
   }
   
-  // Helper function to word wrap text (with sanitization for PDF compatibility)
-  function wrapText(text: string, maxWidth: number, fontSize: number, textFont: any = font): string[] {
-    // Sanitize text first to ensure PDF compatibility
-    const sanitizedText = sanitizeTextForPDF(text);
-    
-    // Split by newlines first to preserve user's line breaks
-    const paragraphs = sanitizedText.split('\n');
-    const lines: string[] = [];
-    
-    // Process each paragraph separately
-    for (const paragraph of paragraphs) {
-      if (!paragraph.trim()) {
-        // Empty line - add blank line
-        lines.push('');
-        continue;
-      }
-      
-      const words = paragraph.split(' ');
-      let currentLine = '';
-      
-      for (const word of words) {
-        const testLine = currentLine + (currentLine ? ' ' : '') + word;
-        const testWidth = textFont.widthOfTextAtSize(testLine, fontSize);
-        
-        if (testWidth > maxWidth && currentLine) {
-          lines.push(currentLine);
-          currentLine = word;
-        } else {
-          currentLine = testLine;
-        }
-      }
-      if (currentLine) {
-        lines.push(currentLine);
-      }
-    }
-    
-    return lines;
+  // Helper function to wrap text (between words, or between characters for Chinese and Japanese)
+  function wrapText(text: string, maxWidth: number, fontSize: number, textFont: PdfFontChain = font): string[] {
+    return breakIntoLines(text, maxWidth, line => textFont.widthOfTextAtSize(line, fontSize));
   }
   
   // Build page manifest
@@ -286,7 +227,7 @@ export async function generatePrintReadyPDF(
             });
             
             const titleFontSize = 28;
-            const titleText = sanitizeTextForPDF(storybook.title);
+            const titleText = normalizeTextForPDF(storybook.title);
             const titleWidth = boldFont.widthOfTextAtSize(titleText, titleFontSize);
             const maxTitleWidth = PAGE_WIDTH - 2 * SAFETY_MARGIN_POINTS;
             
@@ -295,13 +236,24 @@ export async function generatePrintReadyPDF(
               finalTitleSize = (maxTitleWidth / titleWidth) * titleFontSize;
             }
             
-            page.drawText(titleText, {
+            boldFont.drawText(page, titleText, {
               x: PAGE_WIDTH / 2 - boldFont.widthOfTextAtSize(titleText, finalTitleSize) / 2,
               y: PAGE_HEIGHT / 2,
               size: finalTitleSize,
-              font: boldFont,
               color: rgb(0.12, 0.16, 0.23),
             });
+            
+            // Books of a series carry their number under the title
+            if (storybook.seriesNumber) {
+              const seriesText = formatSeriesLabel(storybook.seriesNumber, storybook.language);
+              const seriesSize = 16;
+              font.drawText(page, seriesText, {
+                x: PAGE_WIDTH / 2 - font.widthOfTextAtSize(seriesText, seriesSize) / 2,
+                y: PAGE_HEIGHT / 2 - finalTitleSize - 8,
+                size: seriesSize,
+                color: rgb(0.35, 0.4, 0.48),
+              });
+            }
           }
         }
         break;
@@ -320,15 +272,14 @@ export async function generatePrintReadyPDF(
               color: rgb(0.976, 0.969, 0.953),
             });
             
-            const endText = "The End";
+            const endText = t.theEnd;
             const endFontSize = 32;
             const endTextWidth = boldFont.widthOfTextAtSize(endText, endFontSize);
             
-            page.drawText(endText, {
+            boldFont.drawText(page, endText, {
               x: PAGE_WIDTH / 2 - endTextWidth / 2,
               y: PAGE_HEIGHT / 2,
               size: endFontSize,
-              font: boldFont,
               color: rgb(0.2, 0.25, 0.31),
             });
           }
@@ -340,22 +291,21 @@ export async function generatePrintReadyPDF(
             color: rgb(0.976, 0.969, 0.953),
           });
           
-          const endText = "The End";
+          const endText = t.theEnd;
           const endFontSize = 32;
           const endTextWidth = boldFont.widthOfTextAtSize(endText, endFontSize);
           
-          page.drawText(endText, {
+          boldFont.drawText(page, endText, {
             x: PAGE_WIDTH / 2 - endTextWidth / 2,
             y: PAGE_HEIGHT / 2,
             size: endFontSize,
-            font: boldFont,
             color: rgb(0.2, 0.25, 0.31),
           });
         }
         break;
         
       case 'foreword':
-        // Foreword/Dedication page: centered, italicized text
+        // Foreword/Dedication page: centered serif text
         page.drawRectangle({
           x: 0, y: 0,
           width: PAGE_WIDTH, height: PAGE_HEIGHT,
@@ -363,8 +313,8 @@ export async function generatePrintReadyPDF(
         });
         
         if (entry.text && entry.text.trim()) {
-          // Load Georgia or Times New Roman style font (use serif)
-          const serifFont = await pdfDoc.embedFont(StandardFonts.TimesRomanItalic);
+          // Serif font for the dedication, with the same Unicode fallbacks as the story text
+          const serifFont = await embedFontChain(pdfDoc, 'serif');
           const fontSize = 14;
           const lineHeight = fontSize * 1.6;
           const textX = SAFETY_MARGIN_POINTS + 30; // Extra horizontal margins
@@ -381,11 +331,10 @@ export async function generatePrintReadyPDF(
             const lineWidth = serifFont.widthOfTextAtSize(line, fontSize);
             const centerX = (PAGE_WIDTH - lineWidth) / 2;
             
-            page.drawText(line, {
+            serifFont.drawText(page, line, {
               x: centerX,
               y: currentY - fontSize,
               size: fontSize,
-              font: serifFont,
               color: rgb(0.2, 0.25, 0.31),
             });
             
@@ -427,19 +376,36 @@ export async function generatePrintReadyPDF(
         });
         
         if (entry.text && entry.text.trim()) {
-          const fontSize = 16;
-          const lineHeight = fontSize * 1.8;
           const textX = SAFETY_MARGIN_POINTS;
           const textY = PAGE_HEIGHT - SAFETY_MARGIN_POINTS;
           const textWidth = PAGE_WIDTH - 2 * SAFETY_MARGIN_POINTS;
           const textHeight = PAGE_HEIGHT - 2 * SAFETY_MARGIN_POINTS;
           
-          const lines = wrapText(entry.text, textWidth, fontSize);
+          // Secondary language: smaller serif in a softer blue, below a short rule
+          let pageSecondaryFont: PdfFontChain | undefined;
+          if (entry.secondaryText && entry.secondaryText.trim()) {
+            secondaryFont = secondaryFont || await embedFontChain(pdfDoc, 'serif');
+            pageSecondaryFont = secondaryFont;
+          }
+          
+          // Both languages shrink together until they fit inside the safety margins
+          const fitted = fitPageText(
+            entry.text,
+            pageSecondaryFont ? entry.secondaryText : undefined,
+            { width: textWidth, height: textHeight },
+            { primary: { fontSize: 16, lineSpacing: 1.8 }, secondary: { fontSize: 13, lineSpacing: 1.7 }, gapLines: 2 },
+            (line, size, block) => (block === 'secondary' && pageSecondaryFont ? pageSecondaryFont : font).widthOfTextAtSize(line, size),
+          );
+          if (!fitted.fits) {
+            console.warn(`⚠️ Text of page ${(entry.pageIndex ?? 0) + 1} does not fit even at the smallest print size; the end of it will be cut off`);
+          }
+          
+          const { fontSize, lineHeight, lines } = fitted.primary;
+          const secondaryGap = fitted.gap;
           
           // Center text vertically if it fits
-          const totalTextHeight = lines.length * lineHeight;
-          const verticalOffset = totalTextHeight <= textHeight 
-            ? (textHeight - totalTextHeight) / 2 
+          const verticalOffset = fitted.fits
+            ? (textHeight - fitted.height) / 2 
             : 0;
           
           let currentY = textY - verticalOffset;
@@ -448,27 +414,49 @@ export async function generatePrintReadyPDF(
           for (const line of lines) {
             if (currentY - fontSize < SAFETY_MARGIN_POINTS) break;
             
-            page.drawText(line, {
+            font.drawText(page, line, {
               x: textX,
               y: currentY - fontSize,
               size: fontSize,
-              font: font,
               color: rgb(0.15, 0.2, 0.28), // Dark gray text
             });
             
             currentY -= lineHeight;
           }
           
+          if (pageSecondaryFont && fitted.secondary && currentY - secondaryGap > SAFETY_MARGIN_POINTS) {
+            const { fontSize: secondaryFontSize, lineHeight: secondaryLineHeight, lines: secondaryLines } = fitted.secondary;
+            page.drawLine({
+              start: { x: textX, y: currentY - secondaryGap / 2 },
+              end: { x: textX + 60, y: currentY - secondaryGap / 2 },
+              thickness: 0.75,
+              color: rgb(0.6, 0.66, 0.75),
+            });
+            currentY -= secondaryGap;
+            
+            for (const line of secondaryLines) {
+              if (currentY - secondaryFontSize < SAFETY_MARGIN_POINTS) break;
+              
+              pageSecondaryFont.drawText(page, line, {
+                x: textX,
+                y: currentY - secondaryFontSize,
+                size: secondaryFontSize,
+                color: rgb(0.25, 0.36, 0.52), // Muted blue
+              });
+              
+              currentY -= secondaryLineHeight;
+            }
+          }
+          
           // Add page number in safe area
           if (entry.pageIndex !== undefined) {
             const pageNumText = `${entry.pageIndex + 1}`;
             const pageNumSize = 11;
             const pageNumX = PAGE_WIDTH - SAFETY_MARGIN_POINTS - font.widthOfTextAtSize(pageNumText, pageNumSize);
-            page.drawText(pageNumText, {
+            font.drawText(page, pageNumText, {
               x: pageNumX,
               y: SAFETY_MARGIN_POINTS,
               size: pageNumSize,
-              font: font,
               color: rgb(0.5, 0.5, 0.5),
             });
           }
@@ -483,17 +471,16 @@ export async function generatePrintReadyPDF(
           color: rgb(0.976, 0.969, 0.953), // Soft cream background
         });
         
-        const attributionText = "Created on www.vesabooks.com";
+        const attributionText = `${t.createdOn} www.vesabooks.com`;
         const attributionSize = 10;
         const attributionWidth = font.widthOfTextAtSize(attributionText, attributionSize);
         const attributionX = (PAGE_WIDTH - attributionWidth) / 2;
         const attributionY = PAGE_HEIGHT / 2;
         
-        page.drawText(attributionText, {
+        font.drawText(page, attributionText, {
           x: attributionX,
           y: attributionY,
           size: attributionSize,
-          font: font,
           color: rgb(0.4, 0.4, 0.4), // Subtle gray
         });
         break;
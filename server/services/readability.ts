@@ -0,0 +1,61 @@
+import { storage } from "../storage";
+import { regenerateSinglePage } from "./gemini";
+import { buildRewriteInstruction, getReadabilityBand, scorePage, scoreStorybook } from "../utils/readability";
+import { isReadabilityScored, type GenerationJobCheckpoint, type StoryLanguage } from "@shared/schema";
+
+/**
+ * Whether pages outside the reading band for the book's age are sent back for one rewrite
+ * pass while the story is written (site setting 'readability_auto_rewrite', off by default).
+ */
+export async function isReadabilityRewriteEnabled(): Promise<boolean> {
+  const setting = await storage.getSetting('readability_auto_rewrite');
+  return setting?.value === 'true';
+}
+
+/**
+ * Rewrites the text of every page outside the reading band, keeping its planned scene.
+ * A page whose rewrite fails keeps its original text. Returns the rewritten page numbers.
+ */
+export async function rewriteForReadingLevel(
+  story: NonNullable<GenerationJobCheckpoint['story']>,
+  age?: string,
+  language?: StoryLanguage
+): Promise<number[]> {
+  const band = getReadabilityBand(age);
+  const rewritten: number[] = [];
+
+  // Pages in other languages cannot be measured against the band
+  if (!isReadabilityScored(language)) {
+    return rewritten;
+  }
+
+  for (const page of story.pages) {
+    const score = scorePage(page.pageNumber, page.text, band);
+    if (score.issues.length === 0) {
+      continue;
+    }
+
+    try {
+      const rewrite = await regenerateSinglePage({ ...story, age, language }, page.pageNumber, {
+        instruction: buildRewriteInstruction(score, band, age),
+        keepScene: true,
+      });
+      page.text = rewrite.text;
+      rewritten.push(page.pageNumber);
+    } catch (error) {
+      console.warn(`[Readability] Could not rewrite page ${page.pageNumber}, keeping the original:`, error);
+    }
+  }
+
+  return rewritten;
+}
+
+/**
+ * Re-scores a storybook after its pages changed.
+ */
+export async function refreshReadability(storybookId: string): Promise<void> {
+  const storybook = await storage.getStorybook(storybookId);
+  if (storybook) {
+    await storage.updateStorybookReadability(storybookId, scoreStorybook(storybook.pages, storybook.age, storybook.language));
+  }
+}
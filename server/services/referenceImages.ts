@@ -0,0 +1,36 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { ObjectStorageService } from "../objectStorage";
+
+export interface ReferenceImage {
+  url: string; // Object storage URL (/api/storage/...)
+  description: string;
+}
+
+export interface CopiedReferences {
+  imagePaths: string[];
+  characterDescriptions: string[]; // One per image, in the same order
+}
+
+/**
+ * Copies stored images into local uploads, where the generation job treats them like the
+ * customer's own reference photos. Images that cannot be read are skipped along with their
+ * description, so the two lists always line up.
+ */
+export async function copyReferenceImages(references: ReferenceImage[], kind: string): Promise<CopiedReferences> {
+  const objectStorage = new ObjectStorageService();
+  const result: CopiedReferences = { imagePaths: [], characterDescriptions: [] };
+
+  for (const reference of references) {
+    const localPath = path.join("uploads", `${randomUUID()}_${kind}_ref.jpg`);
+    try {
+      fs.writeFileSync(localPath, await objectStorage.getFileBuffer(reference.url.replace('/api/storage/', '')));
+      result.imagePaths.push(localPath);
+      result.characterDescriptions.push(reference.description);
+    } catch (error) {
+      console.warn(`[References] Could not copy ${kind} reference ${reference.url}:`, error);
+    }
+  }
+  return result;
+}
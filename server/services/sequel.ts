@@ -0,0 +1,37 @@
+import type { Storybook } from "@shared/schema";
+import { copyReferenceImages, type CopiedReferences, type ReferenceImage } from "./referenceImages";
+
+export type SequelReferences = CopiedReferences;
+
+/**
+ * Copies the previous book's images a sequel is drawn from into local uploads, where the
+ * generation job treats them like the customer's own reference photos: the original character
+ * photos, then its character sheet and cover, then the pages the customer picked.
+ */
+export async function prepareSequelReferences(source: Storybook, pageNumbers: number[] = []): Promise<SequelReferences> {
+  const references: ReferenceImage[] = [];
+
+  source.inspirationImages.forEach((url, index) => {
+    const shown = (source.characters || []).filter(character => character.referenceImageIndex === index);
+    references.push({
+      url,
+      description: shown.length > 0
+        ? `Photo of ${shown.map(character => character.name).join(' and ')}, as in "${source.title}"`
+        : `Reference photo used for "${source.title}"`,
+    });
+  });
+  if (source.characterSheetUrl) {
+    references.push({ url: source.characterSheetUrl, description: `Character sheet of "${source.title}": how the recurring characters are drawn` });
+  }
+  if (source.coverImageUrl) {
+    references.push({ url: source.coverImageUrl, description: `Cover of "${source.title}", the previous book: match its characters and art style` });
+  }
+  for (const pageNumber of pageNumbers) {
+    const page = source.pages.find(p => p.pageNumber === pageNumber);
+    if (page?.imageUrl) {
+      references.push({ url: page.imageUrl, description: `Page ${pageNumber} of "${source.title}": ${page.scene?.mainAction || 'a scene from the previous book'}` });
+    }
+  }
+
+  return copyReferenceImages(references, 'sequel');
+}
@@ -0,0 +1,765 @@
+import * as fs from "fs";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import sharp from "sharp";
+import { storage } from "../storage";
+import { generateStoryFromPrompt, generateStoryInBatches, generateIllustration, STORY_BATCH_PAGES, type GeneratedStory } from "./gemini";
+import { buildCoverTitlePrompt, buildFinalImagePrompt, getCharacterReferenceIndexes, selectSceneCharacters } from "../utils/imagePromptBuilder";
+import { ObjectStorageService } from "../objectStorage";
+import * as analytics from "./analytics";
+import { notifyGenerationUpdate } from "./generationEvents";
+import { moderateStorybookInBackground } from "./moderation";
+import { isReadabilityRewriteEnabled, rewriteForReadingLevel } from "./readability";
+import { withSecondaryText } from "./bilingual";
+import { drawCharacterSheet } from "./characterSheet";
+import { buildSequelPrompt, formatSeriesLabel } from "../utils/series";
+import { scoreStorybook } from "../utils/readability";
+import type { GenerationJob, GenerationJobCheckpoint, Storybook, StoryCharacter, StoryGenerationProgress } from "@shared/schema";
+
+export class GenerationLeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lease lost for generation job ${jobId}`);
+    this.name = "GenerationLeaseLostError";
+    Object.setPrototypeOf(this, GenerationLeaseLostError.prototype);
+  }
+}
+
+export interface GenerationRunContext {
+  job: GenerationJob;
+  workerId: string;
+  checkpoint: GenerationJobCheckpoint;
+  leaseLost: boolean;
+}
+
+/**
+ * Persist the checkpoint after a step finishes. Writes are chained so concurrent
+ * page completions never overwrite a newer snapshot with an older one.
+ */
+function createCheckpointWriter(context: GenerationRunContext) {
+  let pending: Promise<void> = Promise.resolve();
+
+  return (step: string): Promise<void> => {
+    pending = pending.then(async () => {
+      if (context.leaseLost) {
+        throw new GenerationLeaseLostError(context.job.id);
+      }
+      const saved = await storage.saveGenerationJobCheckpoint(context.job.id, context.workerId, step, context.checkpoint);
+      if (!saved) {
+        context.leaseLost = true;
+        throw new GenerationLeaseLostError(context.job.id);
+      }
+      notifyGenerationUpdate(context.job.id);
+    });
+    return pending;
+  };
+}
+
+async function reportProgress(sessionId: string, progress: StoryGenerationProgress): Promise<void> {
+  await storage.setGenerationProgress(sessionId, progress);
+  notifyGenerationUpdate(sessionId);
+}
+
+/**
+ * Writes a long story in batches that each continue from the pages before them,
+ * reporting progress as each batch of pages is written.
+ */
+async function writeStoryInBatches(sessionId: string, ...args: Parameters<typeof generateStoryInBatches>): Promise<GeneratedStory> {
+  const pagesPerBook = args[2];
+  for await (const { batch, totalBatches, story, isComplete } of generateStoryInBatches(...args)) {
+    if (isComplete) {
+      return story;
+    }
+    await reportProgress(sessionId, {
+      step: 'generating_story',
+      progress: 30 + Math.round((batch / totalBatches) * 20),
+      message: `Written ${story.pages.length} of ${pagesPerBook} pages...`,
+    });
+  }
+  throw new Error('Batched story generation finished without a complete story');
+}
+
+/**
+ * Make sure an image recorded by an earlier attempt exists on local disk, downloading it
+ * from object storage if this process never had it (e.g. after a restart or on another instance).
+ */
+async function ensureLocalCopy(objectStorage: ObjectStorageService, url: string, localPath: string): Promise<string | undefined> {
+  if (fs.existsSync(localPath)) {
+    return localPath;
+  }
+
+  try {
+    const buffer = await objectStorage.getFileBuffer(url.replace('/api/storage/', ''));
+    fs.writeFileSync(localPath, buffer);
+    return localPath;
+  } catch (error) {
+    console.warn(`[Generation] Could not restore ${url} for reuse as a reference:`, error);
+    return undefined;
+  }
+}
+
+// Point each character at the stored copy of the photo it was linked to
+function withReferenceImageUrls(characters: StoryCharacter[], inspirationImageUrls: string[] = []): StoryCharacter[] {
+  return characters.map(character => ({
+    ...character,
+    referenceImageUrl: character.referenceImageIndex !== undefined
+      ? inspirationImageUrls[character.referenceImageIndex]
+      : undefined,
+  }));
+}
+
+function removeLocalFiles(filePaths: string[]): void {
+  for (const filePath of filePaths) {
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+}
+
+/**
+ * Draft mode: save the text-only story as a draft storybook for the owner to review and edit.
+ * Illustrations are generated later by a separate job started from the draft.
+ */
+async function finishDraft(context: GenerationRunContext, saveCheckpoint: (step: string) => Promise<void>, localFiles: string[]): Promise<string> {
+  const { job, checkpoint } = context;
+  const story = checkpoint.story!;
+  const { prompt, author, age, language, secondaryLanguage, series, illustrationStyle, illustrationStyleId, samplePromptId, foreword, bookLength } = job.params;
+
+  let storybookId = checkpoint.storybookId;
+  if (!storybookId) {
+    const storybook = await storage.createStorybook({
+      userId: job.userId,
+      title: story.title,
+      author,
+      age,
+      language,
+      secondaryLanguage,
+      seriesId: series?.seriesId,
+      seriesNumber: series?.seriesNumber,
+      prompt,
+      status: 'draft',
+      pages: story.pages.map(page => ({
+        pageNumber: page.pageNumber,
+        text: page.text,
+        imageUrl: '',
+        imagePrompt: page.imagePrompt,
+        characterIds: page.characterIds,
+        scene: page.scene,
+      })),
+      inspirationImages: checkpoint.inspirationImageUrls,
+      styleReferenceImages: checkpoint.styleReferenceUrls,
+      coverImagePrompt: story.coverImagePrompt,
+      mainCharacterDescription: story.mainCharacterDescription,
+      defaultClothing: story.defaultClothing,
+      characters: withReferenceImageUrls(story.characters || [], checkpoint.inspirationImageUrls),
+      storyArc: story.storyArc,
+      artStyle: illustrationStyle,
+      illustrationStyleId: illustrationStyleId || null,
+      samplePromptId: samplePromptId || null,
+      foreword: foreword || null,
+      bookLength: bookLength || null,
+      readability: scoreStorybook(story.pages, age, language),
+    });
+    storybookId = storybook.id;
+    checkpoint.storybookId = storybookId;
+    await saveCheckpoint('draft');
+  }
+
+  await storage.completeGenerationJob(job.id, storybookId);
+  await reportProgress(job.id, {
+    step: 'generating_story',
+    progress: 100,
+    message: 'Your story draft is ready to review!',
+    storybookId,
+  });
+
+  removeLocalFiles(localFiles);
+  return storybookId;
+}
+
+/**
+ * Runs (or resumes) the full storybook pipeline for a claimed job:
+ * inspiration upload -> story -> character sheet -> clean cover -> pages -> back cover -> final cover -> finalize.
+ * Each step records its output in the job checkpoint and is skipped when already present.
+ */
+export async function runStorybookGeneration(context: GenerationRunContext): Promise<string> {
+  const { job, checkpoint } = context;
+  const sessionId = job.id;
+  const userId = job.userId;
+  const {
+    prompt,
+    author,
+    age,
+    language,
+    secondaryLanguage,
+    series,
+    imagePaths,
+    styleImagePaths = [],
+    pagesPerBook,
+    bookLength,
+    illustrationStyle,
+    illustrationStyleId,
+    samplePromptId,
+    foreword,
+    characterDescriptions,
+  } = job.params;
+  const saveCheckpoint = createCheckpointWriter(context);
+
+  // Step 1: Processing images
+  await reportProgress(sessionId, {
+    step: 'processing_images',
+    progress: 10,
+    message: 'Processing inspiration images...',
+  });
+
+  const generatedDir = path.join(process.cwd(), "generated");
+  if (!fs.existsSync(generatedDir)) {
+    fs.mkdirSync(generatedDir, { recursive: true });
+  }
+
+  const objectStorage = new ObjectStorageService();
+
+  // Upload inspiration images to Object Storage first so a resumed job never depends on local uploads
+  if (!checkpoint.inspirationImageUrls) {
+    const inspirationImageUrls: string[] = [];
+    for (let i = 0; i < imagePaths.length; i++) {
+      const inspirationFileName = `${sessionId}_inspiration_${i}.jpg`;
+      const inspirationUrl = await objectStorage.uploadFile(imagePaths[i], inspirationFileName);
+      inspirationImageUrls.push(inspirationUrl);
+    }
+    checkpoint.inspirationImageUrls = inspirationImageUrls;
+    await saveCheckpoint('inspiration');
+  }
+
+  // Local reference copies of the inspiration images (original upload, or restored from storage),
+  // kept at the same index as the upload so characters can point at their photo
+  const inspirationPaths: Array<string | undefined> = [];
+  for (let i = 0; i < checkpoint.inspirationImageUrls.length; i++) {
+    const localPath = imagePaths[i] && fs.existsSync(imagePaths[i])
+      ? imagePaths[i]
+      : await ensureLocalCopy(objectStorage, checkpoint.inspirationImageUrls[i], path.join(generatedDir, `${sessionId}_inspiration_${i}.jpg`));
+    inspirationPaths.push(localPath);
+  }
+  const referenceImagePaths = inspirationPaths.filter((p): p is string => !!p);
+
+  // Style references are stored the same way but only ever passed to the illustrator, after every other reference
+  if (!checkpoint.styleReferenceUrls) {
+    const styleReferenceUrls: string[] = [];
+    for (let i = 0; i < styleImagePaths.length; i++) {
+      styleReferenceUrls.push(await objectStorage.uploadFile(styleImagePaths[i], `${sessionId}_style_${i}.jpg`));
+    }
+    checkpoint.styleReferenceUrls = styleReferenceUrls;
+    await saveCheckpoint('style_references');
+  }
+  const stylePaths: string[] = [];
+  for (let i = 0; i < checkpoint.styleReferenceUrls.length; i++) {
+    const localPath = styleImagePaths[i] && fs.existsSync(styleImagePaths[i])
+      ? styleImagePaths[i]
+      : await ensureLocalCopy(objectStorage, checkpoint.styleReferenceUrls[i], path.join(generatedDir, `${sessionId}_style_${i}.jpg`));
+    if (localPath) {
+      stylePaths.push(localPath);
+    }
+  }
+
+  // Step 2: Generate story
+  if (!checkpoint.story) {
+    await reportProgress(sessionId, {
+      step: 'generating_story',
+      progress: 30,
+      message: `Generating ${pagesPerBook}-page story outline...`,
+    });
+
+    console.time(`📝 Story generation ${sessionId}`);
+    // Sequels are written knowing the earlier book; the customer's idea is still what gets saved
+    const storyPrompt = series ? buildSequelPrompt(series.previousStory, prompt) : prompt;
+    checkpoint.story = pagesPerBook > STORY_BATCH_PAGES
+      ? await writeStoryInBatches(sessionId, storyPrompt, referenceImagePaths, pagesPerBook, illustrationStyle, age, author, characterDescriptions, language)
+      : await generateStoryFromPrompt(storyPrompt, referenceImagePaths, pagesPerBook, illustrationStyle, age, author, characterDescriptions, language);
+    console.timeEnd(`📝 Story generation ${sessionId}`);
+
+    if (series) {
+      checkpoint.story.coverImagePrompt += ` Also show "${formatSeriesLabel(series.seriesNumber, language)}" in smaller lettering just below the title, as on a book in a series.`;
+    }
+
+    // Pages the model wrote outside the reading band for the chosen age get one rewrite
+    if (await isReadabilityRewriteEnabled()) {
+      await reportProgress(sessionId, {
+        step: 'generating_story',
+        progress: 50,
+        message: 'Checking the reading level...',
+      });
+      const rewritten = await rewriteForReadingLevel(checkpoint.story, age, language);
+      if (rewritten.length > 0) {
+        console.log(`[Readability] Rewrote page(s) ${rewritten.join(', ')} of ${sessionId} for age ${age || 'default'}`);
+      }
+    }
+    await saveCheckpoint('story');
+  }
+  const generatedStory = checkpoint.story;
+
+  if (job.params.draftMode) {
+    return finishDraft(context, saveCheckpoint, [...imagePaths, ...referenceImagePaths, ...styleImagePaths, ...stylePaths]);
+  }
+
+  const characters = generatedStory.characters || [];
+  const castHasPhotos = characters.some(c => c.referenceImageIndex !== undefined);
+
+  // Reference photos of the characters in a scene, in the order buildFinalImagePrompt numbers them.
+  // Without a cast linked to photos, every uploaded photo is used as before.
+  const sceneReferencePaths = (characterIds?: string[]): string[] => {
+    if (!castHasPhotos) {
+      return referenceImagePaths;
+    }
+    return getCharacterReferenceIndexes(selectSceneCharacters(characters, characterIds))
+      .map(index => inspirationPaths[index])
+      .filter((p): p is string => !!p);
+  };
+  // The back cover shows the main character alone
+  const backCoverCharacterIds = characters.length > 0 ? [characters[0].id] : undefined;
+
+  // For the character sheet and the cover: use the photos of the whole cast as references
+  const coverReferencePaths = sceneReferencePaths();
+
+  // Step 3: Character sheet - a turnaround of the cast in the book's art style, drawn once from
+  // the photos and then passed first to every illustration so the characters never drift
+  const characterSheetPath = path.join(generatedDir, `${sessionId}_character_sheet.jpg`);
+  if (!checkpoint.characterSheetUrl) {
+    await reportProgress(sessionId, {
+      step: 'generating_illustrations',
+      progress: 50,
+      message: 'Designing your characters...',
+    });
+
+    console.time(`🧍 Character sheet generation ${sessionId}`);
+    await drawCharacterSheet({ ...generatedStory, artStyle: illustrationStyle }, coverReferencePaths, characterSheetPath, stylePaths);
+    console.timeEnd(`🧍 Character sheet generation ${sessionId}`);
+
+    checkpoint.characterSheetUrl = await objectStorage.uploadFile(characterSheetPath, `${sessionId}_character_sheet.jpg`);
+    await saveCheckpoint('character_sheet');
+  }
+  const sheetPath = await ensureLocalCopy(objectStorage, checkpoint.characterSheetUrl, characterSheetPath);
+  const hasCharacterSheet = !!sheetPath;
+  const withCharacterSheet = (references: string[]): string[] => sheetPath ? [sheetPath, ...references] : references;
+
+  // Step 4: Generate illustrations
+  await reportProgress(sessionId, {
+    step: 'generating_illustrations',
+    progress: 50,
+    message: 'Creating beautiful illustrations...',
+  });
+
+  const coverImageFileName = `${sessionId}_cover.jpg`;
+  const coverImagePath = path.join(generatedDir, coverImageFileName);
+
+  // Build the cover image prompt using the centralized utility function
+  const coverPromptWithCharacter = buildFinalImagePrompt({
+    mainCharacterDescription: generatedStory.mainCharacterDescription,
+    defaultClothing: generatedStory.defaultClothing,
+    characters,
+    scenePrompt: generatedStory.coverImagePrompt,
+    artStyle: illustrationStyle,
+    hasCharacterSheet,
+  });
+
+  const coverReferenceList = withCharacterSheet(coverReferencePaths);
+  const coverReferences = coverReferenceList.length > 0 ? coverReferenceList : undefined;
+
+  // The final cover adds the title and author (AI-generated text) to the same scene
+  const finalCoverPrompt = buildCoverTitlePrompt(coverPromptWithCharacter, generatedStory.title, author);
+
+  if (!checkpoint.cleanCoverUrl || !checkpoint.orientation) {
+    // Generate CLEAN cover image first (no title/author) to use as reference for interior pages
+    console.time(`🎨 Clean cover image generation ${sessionId}`);
+    await generateIllustration(coverPromptWithCharacter, coverImagePath, coverReferences, illustrationStyle, false, stylePaths);
+    console.timeEnd(`🎨 Clean cover image generation ${sessionId}`);
+
+    // Detect orientation from cover image dimensions
+    const metadata = await sharp(coverImagePath).metadata();
+    const width = metadata.width || 1;
+    const height = metadata.height || 1;
+    const aspectRatio = width / height;
+
+    // Binary classification: landscape (width >= height) or portrait (width < height)
+    const orientation: 'portrait' | 'landscape' = aspectRatio >= 1.0 ? 'landscape' : 'portrait';
+    console.log(`📐 Detected book orientation: ${orientation} (${width}x${height}, AR: ${aspectRatio.toFixed(2)})`);
+
+    // The clean cover is kept in storage until finalize so a resumed job can still use it as a reference
+    checkpoint.cleanCoverUrl = await objectStorage.uploadFile(coverImagePath, `${sessionId}_cover_clean.jpg`);
+    checkpoint.orientation = orientation;
+    await saveCheckpoint('cover');
+  } else if (!checkpoint.coverImageUrl) {
+    await ensureLocalCopy(objectStorage, checkpoint.cleanCoverUrl, coverImagePath);
+  }
+  const orientation = checkpoint.orientation;
+
+  // Step 5: Generate page illustrations - SEQUENTIAL or PARALLEL based on env variable
+  const useSequential = process.env.USE_SEQUENTIAL_GENERATION === 'true';
+  console.log(`🔀 Generation mode: ${useSequential ? 'SEQUENTIAL (progressive chaining)' : 'PARALLEL (faster)'}`);
+
+  const pageImageUrls = checkpoint.pageImageUrls || {};
+  checkpoint.pageImageUrls = pageImageUrls;
+  const backCoverBasePrompt = `Create a back cover illustration that complements the front cover. Show the character in a different scene that hints at the adventure without spoiling it.`;
+  const localImagePaths: string[] = [];
+
+  const generateBackCover = async (sceneReferences: string[]) => {
+    if (checkpoint.backCoverImageUrl) {
+      return;
+    }
+
+    const backCoverImageFileName = `${sessionId}_back_cover.jpg`;
+    const backCoverImagePath = path.join(generatedDir, backCoverImageFileName);
+
+    const backCoverPromptWithCharacter = buildFinalImagePrompt({
+      mainCharacterDescription: generatedStory.mainCharacterDescription,
+      defaultClothing: generatedStory.defaultClothing,
+      characters,
+      characterIds: backCoverCharacterIds,
+      scenePrompt: backCoverBasePrompt,
+      artStyle: illustrationStyle,
+      hasCharacterSheet,
+    });
+
+    const references = withCharacterSheet([...sceneReferencePaths(backCoverCharacterIds), ...sceneReferences]);
+    await generateIllustration(
+      backCoverPromptWithCharacter,
+      backCoverImagePath,
+      references.length > 0 ? references : undefined,
+      illustrationStyle,
+      false,
+      stylePaths
+    );
+
+    checkpoint.backCoverImageUrl = await objectStorage.uploadFile(backCoverImagePath, backCoverImageFileName);
+    localImagePaths.push(backCoverImagePath);
+    await saveCheckpoint('back_cover');
+  };
+
+  if (useSequential) {
+    // SEQUENTIAL MODE: Progressive visual reference chain
+    console.time(`🔗 Sequential progressive chaining ${sessionId}`);
+    await reportProgress(sessionId, {
+      step: 'generating_illustrations',
+      progress: 50,
+      message: `Generating ${generatedStory.pages.length} page illustrations sequentially for better consistency...`,
+    });
+
+    // Start with the cover; each page adds the photos of its own characters in front
+    const progressiveReferences: string[] = [];
+    if (fs.existsSync(coverImagePath)) {
+      progressiveReferences.push(coverImagePath);
+    }
+
+    // Generate pages sequentially, adding each to references for the next
+    for (const page of generatedStory.pages) {
+      const imageFileName = `${sessionId}_page_${page.pageNumber}.jpg`;
+      const imagePath = path.join(generatedDir, imageFileName);
+      const existingUrl = pageImageUrls[page.pageNumber];
+
+      if (existingUrl) {
+        // Already generated by an earlier attempt - restore it so the reference chain stays intact
+        const restoredPath = await ensureLocalCopy(objectStorage, existingUrl, imagePath);
+        if (restoredPath) {
+          progressiveReferences.push(restoredPath);
+          localImagePaths.push(restoredPath);
+        }
+        continue;
+      }
+
+      const pageReferences = withCharacterSheet([...sceneReferencePaths(page.characterIds), ...progressiveReferences]);
+      console.log(`📖 Generating page ${page.pageNumber}/${generatedStory.pages.length} with ${pageReferences.length} reference images`);
+
+      const pagePromptWithCharacter = buildFinalImagePrompt({
+        mainCharacterDescription: generatedStory.mainCharacterDescription,
+        defaultClothing: generatedStory.defaultClothing,
+        characters,
+        characterIds: page.characterIds,
+        scenePrompt: page.imagePrompt,
+        artStyle: illustrationStyle,
+        hasCharacterSheet,
+      });
+
+      await generateIllustration(
+        pagePromptWithCharacter,
+        imagePath,
+        pageReferences.length > 0 ? pageReferences : undefined,
+        illustrationStyle,
+        false,
+        stylePaths
+      );
+
+      // Add this page to progressive references for next page
+      localImagePaths.push(imagePath);
+      progressiveReferences.push(imagePath);
+
+      // Upload to Object Storage
+      pageImageUrls[page.pageNumber] = await objectStorage.uploadFile(imagePath, imageFileName);
+      await saveCheckpoint('pages');
+
+      // Update progress
+      const progressPercent = 50 + (page.pageNumber / generatedStory.pages.length) * 30;
+      await reportProgress(sessionId, {
+        step: 'generating_illustrations',
+        progress: progressPercent,
+        message: `Generated page ${page.pageNumber}/${generatedStory.pages.length}...`,
+      });
+    }
+
+    // Generate back cover with ALL previous pages as references
+    console.log(`📖 Generating back cover with ${progressiveReferences.length} reference images`);
+    await generateBackCover(progressiveReferences);
+
+    console.timeEnd(`🔗 Sequential progressive chaining ${sessionId}`);
+  } else {
+    // PARALLEL MODE: Fast generation (original behavior)
+    console.time(`⚡ Parallel image generation ${sessionId}`);
+    await reportProgress(sessionId, {
+      step: 'generating_illustrations',
+      progress: 50,
+      message: `Generating all ${generatedStory.pages.length} page illustrations in parallel...`,
+    });
+
+    // Every page uses the cover, plus the photos of the characters it shows
+    const sharedReferences: string[] = [];
+    if (fs.existsSync(coverImagePath)) {
+      sharedReferences.push(coverImagePath);
+    }
+
+    // Create all page generation promises, skipping pages finished by an earlier attempt
+    const pageGenerationPromises = generatedStory.pages
+      .filter(page => !pageImageUrls[page.pageNumber])
+      .map(async (page) => {
+        const imageFileName = `${sessionId}_page_${page.pageNumber}.jpg`;
+        const imagePath = path.join(generatedDir, imageFileName);
+
+        const pagePromptWithCharacter = buildFinalImagePrompt({
+          mainCharacterDescription: generatedStory.mainCharacterDescription,
+          defaultClothing: generatedStory.defaultClothing,
+          characters,
+          characterIds: page.characterIds,
+          scenePrompt: page.imagePrompt,
+          artStyle: illustrationStyle,
+          hasCharacterSheet,
+        });
+
+        const pageReferences = withCharacterSheet([...sceneReferencePaths(page.characterIds), ...sharedReferences]);
+        await generateIllustration(
+          pagePromptWithCharacter,
+          imagePath,
+          pageReferences.length > 0 ? pageReferences : undefined,
+          illustrationStyle,
+          false,
+          stylePaths
+        );
+
+        pageImageUrls[page.pageNumber] = await objectStorage.uploadFile(imagePath, imageFileName);
+        localImagePaths.push(imagePath);
+        await saveCheckpoint('pages');
+      });
+
+    // Wait for ALL images to complete in parallel (pages + back cover)
+    await Promise.all([
+      Promise.all(pageGenerationPromises),
+      generateBackCover(sharedReferences),
+    ]);
+
+    console.timeEnd(`⚡ Parallel image generation ${sessionId}`);
+  }
+
+  // Now regenerate the cover WITH title and author (AI-generated text)
+  // This ensures the final cover has beautiful AI-generated typography
+  if (!checkpoint.coverImageUrl) {
+    console.time(`🎨 Final cover generation ${sessionId}`);
+    await reportProgress(sessionId, {
+      step: 'finalizing',
+      progress: 88,
+      message: 'Generating final cover with title and author...',
+    });
+
+    // Generate final cover with AI-generated title/author text (allowText: true to permit text rendering)
+    await generateIllustration(finalCoverPrompt, coverImagePath, coverReferences, illustrationStyle, true, stylePaths);
+
+    // Upload the final cover to replace the clean one
+    checkpoint.coverImageUrl = await objectStorage.uploadFile(coverImagePath, coverImageFileName);
+    await saveCheckpoint('final_cover');
+    console.timeEnd(`🎨 Final cover generation ${sessionId}`);
+  }
+
+  // Step 6: Extra illustration candidates (offered at creation) - more options for every page and
+  // the cover, drawn from the character sheet and photos. The owner picks between them in the viewer;
+  // an option that fails to draw is skipped rather than failing the book.
+  const candidateCount = job.params.illustrationCandidates || 1;
+  if (candidateCount > 1) {
+    const candidates = checkpoint.illustrationCandidates || {};
+    checkpoint.illustrationCandidates = candidates;
+
+    const targets = [
+      ...generatedStory.pages.map(page => ({
+        key: String(page.pageNumber),
+        fileBase: `page_${page.pageNumber}`,
+        scenePrompt: page.imagePrompt,
+        prompt: buildFinalImagePrompt({
+          mainCharacterDescription: generatedStory.mainCharacterDescription,
+          defaultClothing: generatedStory.defaultClothing,
+          characters,
+          characterIds: page.characterIds,
+          scenePrompt: page.imagePrompt,
+          artStyle: illustrationStyle,
+          hasCharacterSheet,
+        }),
+        references: withCharacterSheet(sceneReferencePaths(page.characterIds)),
+        allowText: false,
+      })),
+      {
+        key: 'cover',
+        fileBase: 'cover',
+        scenePrompt: generatedStory.coverImagePrompt,
+        prompt: finalCoverPrompt,
+        references: coverReferenceList,
+        allowText: true,
+      },
+    ].filter(target => !candidates[target.key]);
+
+    for (let t = 0; t < targets.length; t++) {
+      const target = targets[t];
+      await reportProgress(sessionId, {
+        step: 'finalizing',
+        progress: 90,
+        message: `Drawing more illustration options (${t + 1}/${targets.length})...`,
+      });
+
+      const imageUrls: string[] = [];
+      for (let i = 1; i < candidateCount; i++) {
+        const candidateFileName = `${sessionId}_${target.fileBase}_candidate_${i}.jpg`;
+        const candidatePath = path.join(generatedDir, candidateFileName);
+        try {
+          await generateIllustration(target.prompt, candidatePath, target.references.length > 0 ? target.references : undefined, illustrationStyle, target.allowText, stylePaths);
+          imageUrls.push(await objectStorage.uploadFile(candidatePath, candidateFileName));
+          localImagePaths.push(candidatePath);
+        } catch (error) {
+          console.warn(`[Generation] Could not draw option ${i} for ${target.fileBase} of ${sessionId}:`, error);
+        }
+      }
+      candidates[target.key] = { imagePrompt: target.scenePrompt, imageUrls };
+      await saveCheckpoint('candidates');
+    }
+  }
+
+  // Step 7: Finalize
+  await reportProgress(sessionId, {
+    step: 'finalizing',
+    progress: 95,
+    message: 'Finalizing your storybook...',
+  });
+
+  let storybookId = checkpoint.storybookId;
+  if (!storybookId) {
+    // Bilingual books get their second language from the final text, after any draft edits
+    const pages: Storybook['pages'] = await withSecondaryText({ language: language || 'en', secondaryLanguage, age: age || null }, generatedStory.pages.map(page => ({
+      pageNumber: page.pageNumber,
+      text: page.text,
+      imageUrl: pageImageUrls[page.pageNumber],
+      imagePrompt: page.imagePrompt,
+      characterIds: page.characterIds,
+      scene: page.scene,
+    })));
+
+    if (job.params.draftStorybookId) {
+      // Illustrating an edited draft: fill in the existing storybook instead of creating one
+      await storage.completeStorybookIllustration(job.params.draftStorybookId, {
+        pages,
+        coverImageUrl: checkpoint.coverImageUrl ?? null,
+        backCoverImageUrl: checkpoint.backCoverImageUrl ?? null,
+        characterSheetUrl: checkpoint.characterSheetUrl ?? null,
+        orientation,
+      });
+      storybookId = job.params.draftStorybookId;
+    } else {
+      // Save to storage with userId, including cover image URL, back cover URL, author, age, and story metadata
+      const storybook = await storage.createStorybook({
+        userId,
+        title: generatedStory.title,
+        author,
+        age,
+        language,
+        secondaryLanguage,
+        seriesId: series?.seriesId,
+        seriesNumber: series?.seriesNumber,
+        prompt,
+        pages,
+        inspirationImages: checkpoint.inspirationImageUrls,
+        styleReferenceImages: checkpoint.styleReferenceUrls,
+        coverImageUrl: checkpoint.coverImageUrl,
+        backCoverImageUrl: checkpoint.backCoverImageUrl,
+        characterSheetUrl: checkpoint.characterSheetUrl,
+        coverImagePrompt: generatedStory.coverImagePrompt,
+        mainCharacterDescription: generatedStory.mainCharacterDescription,
+        defaultClothing: generatedStory.defaultClothing,
+        characters: withReferenceImageUrls(characters, checkpoint.inspirationImageUrls),
+        storyArc: generatedStory.storyArc,
+        artStyle: illustrationStyle,
+        illustrationStyleId: illustrationStyleId || null,
+        samplePromptId: samplePromptId || null,
+        orientation,
+        foreword: foreword || null,
+        bookLength: bookLength || null,
+        readability: scoreStorybook(pages, age, language),
+      });
+      storybookId = storybook.id;
+    }
+    checkpoint.storybookId = storybookId;
+
+    // Options drawn at creation wait in the viewer until the owner picks
+    const candidateEntries = Object.keys(checkpoint.illustrationCandidates || {})
+      .map(key => ({ key, ...checkpoint.illustrationCandidates![key] }))
+      .filter(entry => entry.imageUrls.length > 0);
+    if (candidateEntries.length > 0) {
+      await storage.createIllustrationCandidates(candidateEntries.flatMap(entry => {
+        const batchId = randomUUID();
+        return entry.imageUrls.map(imageUrl => ({
+          storybookId: storybookId!,
+          target: entry.key === 'cover' ? 'cover' as const : 'page' as const,
+          pageNumber: entry.key === 'cover' ? null : Number(entry.key),
+          batchId,
+          imageUrl,
+          imagePrompt: entry.imagePrompt,
+          source: 'creation' as const,
+        }));
+      }));
+    }
+    await saveCheckpoint('finalize');
+
+    // Track story completion (non-blocking)
+    const emotionalTones = pages.flatMap(page => page.scene ? [page.scene.emotionalTone] : []);
+    analytics.trackStoryCompleted(userId, storybookId, pages.length, emotionalTones, samplePromptId).catch(err => {
+      console.error('Failed to track story_completed event:', err);
+    });
+
+    // Check the finished book's text and artwork; anything questionable is held for admin review
+    moderateStorybookInBackground(storybookId);
+  }
+
+  await storage.completeGenerationJob(sessionId, storybookId);
+
+  // Complete - Store the storybook ID in progress for clients still polling
+  await reportProgress(sessionId, {
+    step: 'finalizing',
+    progress: 100,
+    message: 'Your storybook is ready!',
+    storybookId,
+  });
+
+  // Clean up the intermediate clean cover and all local files now that the book is saved
+  if (checkpoint.cleanCoverUrl) {
+    await objectStorage.deleteFile(checkpoint.cleanCoverUrl.replace('/api/storage/', ''));
+  }
+  removeLocalFiles([
+    coverImagePath,
+    characterSheetPath,
+    ...localImagePaths,
+    ...imagePaths,
+    ...referenceImagePaths,
+    ...styleImagePaths,
+    ...stylePaths,
+  ]);
+
+  return storybookId;
+}
@@ -0,0 +1,90 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { Storybook, StoryLanguage } from "@shared/schema";
+import { storage } from "../storage";
+import { ObjectStorageService } from "../objectStorage";
+import { generateIllustration, translateStoryText } from "./gemini";
+import { getBookTranslations } from "../book-translations";
+import { scoreStorybook } from "../utils/readability";
+
+/**
+ * Redraws a cover with a translated title, using the original cover as the reference so the
+ * artwork stays the same. Returns the new cover URL.
+ */
+async function illustrateTranslatedCover(source: Storybook, title: string, language: StoryLanguage): Promise<string> {
+  const objectStorage = new ObjectStorageService();
+  const referencePath = path.join("uploads", `${randomUUID()}_cover_ref.jpg`);
+  const filename = `${randomUUID()}_cover.jpg`;
+  const coverPath = path.join("uploads", filename);
+
+  try {
+    fs.writeFileSync(referencePath, await objectStorage.getFileBuffer(source.coverImageUrl!.replace('/api/storage/', '')));
+
+    const byline = getBookTranslations(language).byAuthor.replace('{author}', source.author || 'AI Storyteller');
+    const prompt = `Recreate this book cover with the same illustration, characters, composition and colors.
+
+IMPORTANT: This is a book cover. Replace the text on it: include the title "${title}" prominently at the top in elegant, readable typography, exactly as written with every accent and character. Add "${byline}" near the bottom in a smaller, complementary font. No other text.`;
+
+    await generateIllustration(prompt, coverPath, [referencePath], source.artStyle || undefined, true);
+    return await objectStorage.uploadFile(coverPath, filename);
+  } finally {
+    for (const file of [referencePath, coverPath]) {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    }
+  }
+}
+
+/**
+ * Creates a new edition of a finished storybook in another language. The edition reuses the
+ * original's illustrations (and, unless regenerateCover is set, its cover; a cover the owner
+ * uploaded is always kept), gets translated text, title and foreword, and links back to the
+ * original book.
+ */
+export async function createTranslatedEdition(
+  source: Storybook,
+  language: StoryLanguage,
+  options: { regenerateCover?: boolean } = {}
+): Promise<Storybook> {
+  const translation = await translateStoryText(source, language);
+
+  const coverImageUrl = options.regenerateCover && source.coverImageUrl && !source.coverImageUserSupplied
+    ? await illustrateTranslatedCover(source, translation.title, language)
+    : source.coverImageUrl;
+
+  const textByPage = new Map(translation.pages.map(page => [page.pageNumber, page.text]));
+  // Editions are single-language books, even when made from a bilingual one
+  const pages = source.pages.map(({ secondaryText, ...page }) => ({ ...page, text: textByPage.get(page.pageNumber) ?? page.text }));
+
+  return storage.createStorybook({
+    userId: source.userId,
+    title: translation.title,
+    author: source.author,
+    age: source.age,
+    language,
+    sourceStorybookId: source.sourceStorybookId || source.id,
+    prompt: source.prompt,
+    pages,
+    inspirationImages: source.inspirationImages,
+    styleReferenceImages: source.styleReferenceImages,
+    coverImageUrl,
+    coverImageUserSupplied: coverImageUrl === source.coverImageUrl && source.coverImageUserSupplied,
+    backCoverImageUrl: source.backCoverImageUrl,
+    backCoverImageUserSupplied: source.backCoverImageUserSupplied,
+    characterSheetUrl: source.characterSheetUrl,
+    coverImagePrompt: source.coverImagePrompt && source.coverImagePrompt.split(source.title).join(translation.title),
+    status: 'complete',
+    mainCharacterDescription: source.mainCharacterDescription,
+    defaultClothing: source.defaultClothing,
+    characters: source.characters,
+    storyArc: translation.storyArc,
+    artStyle: source.artStyle,
+    illustrationStyleId: source.illustrationStyleId,
+    orientation: source.orientation,
+    bookLength: source.bookLength,
+    readability: scoreStorybook(pages, source.age),
+    foreword: translation.foreword && translation.foreword.slice(0, 500),
+  });
+}
@@ -1,7 +1,9 @@
-import { type Storybook, type InsertStorybook, type StoryGenerationProgress, storybooks, users, type User, type UpsertUser, type Purchase, type InsertPurchase, purchases, type CartItem, type InsertCartItem, cartItems, passwordResetTokens, type PasswordResetToken, type AdminUser, type InsertAdminUser, adminUsers, type SiteSetting, siteSettings, type HeroStorybookSlot, type InsertHeroStorybookSlot, heroStorybookSlots, type FeaturedStorybook, type InsertFeaturedStorybook, featuredStorybooks, type AdminAuditLog, type InsertAdminAuditLog, adminAuditLogs, type SamplePrompt, type InsertSamplePrompt, samplePrompts, type AnalyticsEvent, type InsertAnalyticsEvent, analyticsEvents, type StoryRating, type InsertStoryRating, storyRatings, type AudioSettings, audioSettings, type IpRateLimit, type InsertIpRateLimit, ipRateLimits, type DownloadVerification, type InsertDownloadVerification, downloadVerifications, type SavedStorybook, type InsertSavedStorybook, savedStorybooks, type PrintOrder, type InsertPrintOrder, printOrders, type UserShippingAddress, type InsertUserShippingAddress, userShippingAddresses, type UserPaymentMethod, type InsertUserPaymentMethod, userPaymentMethods, type OrderNote, type InsertOrderNote, orderNotes, type OrderStatusHistory, type InsertOrderStatusHistory, orderStatusHistory } from "@shared/schema";
+import { type Storybook, type InsertStorybook, type StoryGenerationProgress, storybooks, users, type User, type UpsertUser, type Purchase, type InsertPurchase, purchases, type CartItem, type InsertCartItem, cartItems, passwordResetTokens, type PasswordResetToken, type AdminUser, type InsertAdminUser, adminUsers, type SiteSetting, siteSettings, type HeroStorybookSlot, type InsertHeroStorybookSlot, heroStorybookSlots, type FeaturedStorybook, type InsertFeaturedStorybook, featuredStorybooks, type AdminAuditLog, type InsertAdminAuditLog, adminAuditLogs, type SamplePrompt, type InsertSamplePrompt, samplePrompts, type AnalyticsEvent, type InsertAnalyticsEvent, analyticsEvents, type StoryRating, type InsertStoryRating, storyRatings, type AudioSettings, audioSettings, type IpRateLimit, type InsertIpRateLimit, ipRateLimits, type DownloadVerification, type InsertDownloadVerification, downloadVerifications, type SavedStorybook, type InsertSavedStorybook, savedStorybooks, type PrintOrder, type InsertPrintOrder, printOrders, type UserShippingAddress, type InsertUserShippingAddress, userShippingAddresses, type UserPaymentMethod, type InsertUserPaymentMethod, userPaymentMethods, type OrderNote, type InsertOrderNote, orderNotes, type OrderStatusHistory, type InsertOrderStatusHistory, orderStatusHistory, type GenerationJob, type InsertGenerationJob, type GenerationJobCheckpoint, generationJobs, type StorybookPage, type StorybookStatus, type PageRevision, type PageRevisionChange, pageRevisions, type ModerationFlag, type ModerationFlagStatus, type ModerationQueueItem, type ModerationStatus, type InsertModerationFlag, moderationFlags, type ReadabilityReport, type StoryLanguage, type SavedCharacter, type InsertSavedCharacter, savedCharacters, type IllustrationStyle, type InsertIllustrationStyle, illustrationStyles, type IllustrationCandidate, type InsertIllustrationCandidate, illustrationCandidates } from "@shared/schema";
 import { db } from "./db";
 import { eq, desc, count, countDistinct, isNull, and, lt, gt, sql, inArray, asc, ilike, or, gte, lte } from "drizzle-orm";
 import { normalizeEmail } from "./auth";
+import { getPageNumberMoves, type PageNumberMap } from "./utils/pageStructure";
+import { publicStorybooksCondition } from "./utils/publicStorybooks";
 
 export interface OrderSearchFilters {
   orderReference?: string;
@@ -100,15 +102,57 @@ export interface IStorage {
   getExampleStorybooks(limit: number): Promise<Storybook[]>;
   updateStorybookShareUrl(id: string, shareUrl: string): Promise<void>;
   updateStorybookImages(id: string, coverImageUrl: string, pages: Storybook['pages']): Promise<void>;
-  updatePage(storybookId: string, pageNumber: number, pageData: { text: string; imageUrl: string; imagePrompt: string }): Promise<void>;
+  updatePage(storybookId: string, pageNumber: number, pageData: Omit<StorybookPage, 'pageNumber'>, change?: PageRevisionChange): Promise<void>;
+  updateStorybookPages(storybookId: string, pages: StorybookPage[], pageNumberMap: PageNumberMap): Promise<void>;
   updateStorybookForeword(id: string, foreword: string | null): Promise<void>;
+  updateStorybookDraft(id: string, updates: Partial<Pick<Storybook, 'title' | 'storyArc' | 'characters' | 'mainCharacterDescription' | 'defaultClothing' | 'coverImagePrompt' | 'pages' | 'readability'>>): Promise<void>;
+  updateStorybookStatus(id: string, status: StorybookStatus): Promise<void>;
+  completeStorybookIllustration(id: string, illustration: Pick<Storybook, 'pages' | 'coverImageUrl' | 'backCoverImageUrl' | 'characterSheetUrl' | 'orientation'>): Promise<void>;
+  updateStorybookReadability(id: string, readability: ReadabilityReport | null): Promise<void>;
+  updateStorybookCharacterSheet(id: string, characterSheetUrl: string): Promise<void>;
+  // userSupplied marks owner-uploaded artwork, which regenerations leave alone
+  updateStorybookCover(id: string, coverImageUrl: string, userSupplied?: boolean): Promise<void>;
+  updateStorybookBackCover(id: string, backCoverImageUrl: string, userSupplied?: boolean): Promise<void>;
+  updateStorybookSecondaryLanguage(id: string, secondaryLanguage: StoryLanguage | null, secondaryTextByPage: Map<number, string>): Promise<void>;
+  getStorybookEditions(storybookId: string): Promise<Storybook[]>;
+  startSeries(storybookId: string): Promise<void>;
+  reserveSeriesNumber(seriesId: string): Promise<number>;
   deleteStorybook(id: string): Promise<void>;
+
+  // Page revisions
+  getPageRevisions(storybookId: string, pageNumber: number): Promise<PageRevision[]>;
+  getPageRevision(id: string): Promise<PageRevision | undefined>;
+
+  // Illustration candidates
+  createIllustrationCandidates(candidates: InsertIllustrationCandidate[]): Promise<IllustrationCandidate[]>;
+  getPendingIllustrationCandidates(storybookId: string): Promise<IllustrationCandidate[]>;
+  getIllustrationCandidateBatch(batchId: string): Promise<IllustrationCandidate[]>;
+  decideIllustrationCandidates(batchId: string, chosenId: string | null): Promise<void>;
+  getExpiredIllustrationCandidates(decidedBefore: Date): Promise<IllustrationCandidate[]>;
+  deleteIllustrationCandidates(ids: string[]): Promise<void>;
+
+  // Saved character operations
+  getSavedCharacters(userId: string): Promise<SavedCharacter[]>;
+  getSavedCharacter(id: string): Promise<SavedCharacter | undefined>;
+  createSavedCharacter(data: InsertSavedCharacter): Promise<SavedCharacter>;
+  updateSavedCharacter(id: string, data: Partial<Omit<InsertSavedCharacter, 'id' | 'userId' | 'createdAt'>>): Promise<SavedCharacter>;
+  deleteSavedCharacter(id: string): Promise<void>;
   
-  // Progress tracking (kept in-memory for real-time updates)
+  // Progress tracking (persisted on the generation job so it survives restarts)
   setGenerationProgress(sessionId: string, progress: StoryGenerationProgress): Promise<void>;
   getGenerationProgress(sessionId: string): Promise<StoryGenerationProgress | undefined>;
   clearGenerationProgress(sessionId: string): Promise<void>;
   
+  // Generation job queue
+  createGenerationJob(job: InsertGenerationJob): Promise<GenerationJob>;
+  getGenerationJob(id: string): Promise<GenerationJob | undefined>;
+  claimNextGenerationJob(workerId: string, leaseMs: number): Promise<GenerationJob | undefined>;
+  renewGenerationJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean>;
+  saveGenerationJobCheckpoint(id: string, workerId: string, currentStep: string, checkpoint: GenerationJobCheckpoint): Promise<boolean>;
+  completeGenerationJob(id: string, storybookId: string): Promise<void>;
+  releaseGenerationJob(id: string, error: string, retry: boolean): Promise<void>;
+  getGenerationQueuePosition(id: string): Promise<number | null>;
+  
   // Metrics
   getMetrics(): Promise<{ storiesCreated: number; activeUsers: number }>;
   
@@ -176,6 +220,14 @@ export interface IStorage {
   createSamplePrompt(data: InsertSamplePrompt): Promise<SamplePrompt>;
   updateSamplePrompt(id: string, data: Partial<InsertSamplePrompt>): Promise<SamplePrompt>;
   deleteSamplePrompt(id: string): Promise<void>;
+
+  // Illustration style operations
+  getAllIllustrationStyles(): Promise<IllustrationStyle[]>;
+  getEnabledIllustrationStyles(): Promise<IllustrationStyle[]>;
+  getIllustrationStyle(id: string): Promise<IllustrationStyle | undefined>;
+  createIllustrationStyle(data: InsertIllustrationStyle): Promise<IllustrationStyle>;
+  updateIllustrationStyle(id: string, data: Partial<InsertIllustrationStyle>): Promise<IllustrationStyle>;
+  deleteIllustrationStyle(id: string): Promise<void>;
   
   // Analytics operations
   trackEvent(event: InsertAnalyticsEvent): Promise<void>;
@@ -195,8 +247,15 @@ export interface IStorage {
   togglePublicStatus(storybookId: string, userId: string): Promise<boolean>;
   incrementShareCount(storybookId: string): Promise<void>;
   incrementViewCount(storybookId: string): Promise<void>;
-  getPublicStorybooks(limit: number, offset: number): Promise<Storybook[]>;
-  getPublicStorybookCount(): Promise<number>;
+  getPublicStorybooks(limit: number, offset: number, search?: string): Promise<Storybook[]>;
+  getPublicStorybookCount(search?: string): Promise<number>;
+  
+  // Content moderation
+  recordModerationFlags(storybookId: string, flags: Omit<InsertModerationFlag, 'storybookId'>[]): Promise<void>;
+  markModerationClear(storybookId: string): Promise<void>;
+  getModerationFlag(id: string): Promise<ModerationFlag | undefined>;
+  getModerationQueue(status: ModerationFlagStatus, limit?: number): Promise<ModerationQueueItem[]>;
+  reviewModerationFlag(id: string, decision: 'approved' | 'rejected', adminId: string): Promise<{ flag: ModerationFlag; moderationStatus: ModerationStatus } | undefined>;
   
   // Audio settings
   getAudioSettings(storybookId: string): Promise<AudioSettings | null>;
@@ -260,12 +319,6 @@ export interface IStorage {
 
 // Database storage for persistent data
 export class DatabaseStorage implements IStorage {
-  private generationProgress: Map<string, StoryGenerationProgress>;
-
-  constructor() {
-    this.generationProgress = new Map();
-  }
-
   // Replit Auth: User operations (mandatory)
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -355,9 +408,11 @@ export class DatabaseStorage implements IStorage {
 
   // Storybook operations
   async createStorybook(insertStorybook: InsertStorybook): Promise<Storybook> {
+    // Every new book, translated editions included, waits for its moderation check; the column
+    // default stays 'clear' so books created before moderation existed stay public
     const [storybook] = await db
       .insert(storybooks)
-      .values([insertStorybook])
+      .values([{ ...insertStorybook, moderationStatus: 'pending' }])
       .returning();
     return storybook;
   }
@@ -415,7 +470,7 @@ export class DatabaseStorage implements IStorage {
     const examples = await db
       .select()
       .from(storybooks)
-      .where(isNull(storybooks.deletedAt))
+      .where(and(isNull(storybooks.deletedAt), eq(storybooks.status, 'complete')))
       .orderBy(desc(storybooks.createdAt))
       .limit(limit);
     return examples;
@@ -428,22 +483,201 @@ export class DatabaseStorage implements IStorage {
       .where(eq(storybooks.id, id));
   }
 
-  async updatePage(storybookId: string, pageNumber: number, pageData: { text: string; imageUrl: string; imagePrompt: string }): Promise<void> {
-    const storybook = await this.getStorybook(storybookId);
-    if (!storybook) {
-      throw new Error('Storybook not found');
+  // With a change, the page's previous version is saved as a revision in the same transaction
+  async updatePage(storybookId: string, pageNumber: number, pageData: Omit<StorybookPage, 'pageNumber'>, change?: PageRevisionChange): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [storybook] = await tx
+        .select()
+        .from(storybooks)
+        .where(eq(storybooks.id, storybookId))
+        .for('update');
+      if (!storybook) {
+        throw new Error('Storybook not found');
+      }
+
+      const previousPage = storybook.pages.find(page => page.pageNumber === pageNumber);
+      if (change && previousPage) {
+        await tx.insert(pageRevisions).values({
+          storybookId,
+          pageNumber,
+          text: previousPage.text,
+          imageUrl: previousPage.imageUrl,
+          imagePrompt: previousPage.imagePrompt,
+          characterIds: previousPage.characterIds,
+          scene: previousPage.scene,
+          imageUserSupplied: !!previousPage.userSupplied,
+          ...change,
+        });
+      }
+
+      const updatedPages = storybook.pages.map(page => 
+        page.pageNumber === pageNumber 
+          ? { ...page, ...pageData }
+          : page
+      );
+
+      await tx
+        .update(storybooks)
+        .set({ pages: updatedPages })
+        .where(eq(storybooks.id, storybookId));
+    });
+  }
+
+  // Saves a new page structure and moves page revisions and illustration candidates along with
+  // their pages. Revisions of removed pages are deleted.
+  async updateStorybookPages(storybookId: string, pages: StorybookPage[], pageNumberMap: PageNumberMap): Promise<void> {
+    const moves = getPageNumberMoves(pageNumberMap);
+    const removed = moves.filter(([, to]) => to === null).map(([from]) => from);
+    const renumbered = moves.filter((move): move is [number, number] => move[1] !== null);
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(storybooks)
+        .set({ pages })
+        .where(eq(storybooks.id, storybookId));
+
+      if (removed.length > 0) {
+        await tx
+          .delete(pageRevisions)
+          .where(and(eq(pageRevisions.storybookId, storybookId), inArray(pageRevisions.pageNumber, removed)));
+      }
+
+      // Options drawn for removed pages can no longer be chosen; they are deleted with the other unchosen ones
+      if (removed.length > 0) {
+        await tx
+          .update(illustrationCandidates)
+          .set({ status: 'rejected', decidedAt: new Date() })
+          .where(and(
+            eq(illustrationCandidates.storybookId, storybookId),
+            eq(illustrationCandidates.status, 'pending'),
+            inArray(illustrationCandidates.pageNumber, removed)
+          ));
+      }
+
+      // A single CASE update so pages swapping numbers don't collide halfway through
+      if (renumbered.length > 0) {
+        const cases = sql.join(renumbered.map(([from, to]) => sql`when ${from} then ${to}`), sql` `);
+        await tx
+          .update(pageRevisions)
+          .set({ pageNumber: sql`case ${pageRevisions.pageNumber} ${cases} end` })
+          .where(and(eq(pageRevisions.storybookId, storybookId), inArray(pageRevisions.pageNumber, renumbered.map(([from]) => from))));
+        await tx
+          .update(illustrationCandidates)
+          .set({ pageNumber: sql`case ${illustrationCandidates.pageNumber} ${cases} end` })
+          .where(and(eq(illustrationCandidates.storybookId, storybookId), inArray(illustrationCandidates.pageNumber, renumbered.map(([from]) => from))));
+      }
+    });
+  }
+
+  async getPageRevisions(storybookId: string, pageNumber: number): Promise<PageRevision[]> {
+    return await db
+      .select()
+      .from(pageRevisions)
+      .where(and(eq(pageRevisions.storybookId, storybookId), eq(pageRevisions.pageNumber, pageNumber)))
+      .orderBy(desc(pageRevisions.createdAt));
+  }
+
+  async getPageRevision(id: string): Promise<PageRevision | undefined> {
+    const [revision] = await db.select().from(pageRevisions).where(eq(pageRevisions.id, id));
+    return revision || undefined;
+  }
+
+  // Illustration candidate operations
+  async createIllustrationCandidates(candidates: InsertIllustrationCandidate[]): Promise<IllustrationCandidate[]> {
+    if (candidates.length === 0) {
+      return [];
     }
+    return db
+      .insert(illustrationCandidates)
+      .values(candidates)
+      .returning();
+  }
+
+  async getPendingIllustrationCandidates(storybookId: string): Promise<IllustrationCandidate[]> {
+    return db
+      .select()
+      .from(illustrationCandidates)
+      .where(and(eq(illustrationCandidates.storybookId, storybookId), eq(illustrationCandidates.status, 'pending')))
+      .orderBy(asc(illustrationCandidates.createdAt), asc(illustrationCandidates.imageUrl));
+  }
+
+  async getIllustrationCandidateBatch(batchId: string): Promise<IllustrationCandidate[]> {
+    return db
+      .select()
+      .from(illustrationCandidates)
+      .where(eq(illustrationCandidates.batchId, batchId))
+      .orderBy(asc(illustrationCandidates.imageUrl));
+  }
+
+  // Marks the chosen candidate of a batch (if any) and rejects the rest
+  async decideIllustrationCandidates(batchId: string, chosenId: string | null): Promise<void> {
+    const decidedAt = new Date();
+    await db.transaction(async (tx) => {
+      if (chosenId) {
+        await tx
+          .update(illustrationCandidates)
+          .set({ status: 'chosen', decidedAt })
+          .where(and(eq(illustrationCandidates.batchId, batchId), eq(illustrationCandidates.id, chosenId)));
+      }
+      await tx
+        .update(illustrationCandidates)
+        .set({ status: 'rejected', decidedAt })
+        .where(and(eq(illustrationCandidates.batchId, batchId), eq(illustrationCandidates.status, 'pending')));
+    });
+  }
+
+  // Candidates turned down longer ago than the retention period. Chosen ones are in use by their
+  // book, and pending ones are still waiting in the owner's picker however old they are.
+  async getExpiredIllustrationCandidates(decidedBefore: Date): Promise<IllustrationCandidate[]> {
+    return db
+      .select()
+      .from(illustrationCandidates)
+      .where(and(eq(illustrationCandidates.status, 'rejected'), lt(illustrationCandidates.decidedAt, decidedBefore)))
+      .limit(500);
+  }
+
+  async deleteIllustrationCandidates(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await db.delete(illustrationCandidates).where(inArray(illustrationCandidates.id, ids));
+  }
+
+  // Saved character operations
+  async getSavedCharacters(userId: string): Promise<SavedCharacter[]> {
+    return db
+      .select()
+      .from(savedCharacters)
+      .where(eq(savedCharacters.userId, userId))
+      .orderBy(asc(savedCharacters.name));
+  }
 
-    const updatedPages = storybook.pages.map(page => 
-      page.pageNumber === pageNumber 
-        ? { ...page, ...pageData }
-        : page
-    );
+  async getSavedCharacter(id: string): Promise<SavedCharacter | undefined> {
+    const [character] = await db.select().from(savedCharacters).where(eq(savedCharacters.id, id));
+    return character || undefined;
+  }
+
+  async createSavedCharacter(data: InsertSavedCharacter): Promise<SavedCharacter> {
+    const [character] = await db
+      .insert(savedCharacters)
+      .values(data)
+      .returning();
+    return character;
+  }
+
+  async updateSavedCharacter(id: string, data: Partial<Omit<InsertSavedCharacter, 'id' | 'userId' | 'createdAt'>>): Promise<SavedCharacter> {
+    const [character] = await db
+      .update(savedCharacters)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(savedCharacters.id, id))
+      .returning();
+    return character;
+  }
 
+  async deleteSavedCharacter(id: string): Promise<void> {
     await db
-      .update(storybooks)
-      .set({ pages: updatedPages })
-      .where(eq(storybooks.id, storybookId));
+      .delete(savedCharacters)
+      .where(eq(savedCharacters.id, id));
   }
 
   async updateStorybookForeword(id: string, foreword: string | null): Promise<void> {
@@ -453,6 +687,121 @@ export class DatabaseStorage implements IStorage {
       .where(eq(storybooks.id, id));
   }
 
+  async updateStorybookDraft(id: string, updates: Partial<Pick<Storybook, 'title' | 'storyArc' | 'characters' | 'mainCharacterDescription' | 'defaultClothing' | 'coverImagePrompt' | 'pages' | 'readability'>>): Promise<void> {
+    await db
+      .update(storybooks)
+      .set(updates)
+      .where(and(eq(storybooks.id, id), eq(storybooks.status, 'draft')));
+  }
+
+  async updateStorybookStatus(id: string, status: StorybookStatus): Promise<void> {
+    await db
+      .update(storybooks)
+      .set({ status })
+      .where(eq(storybooks.id, id));
+  }
+
+  async completeStorybookIllustration(id: string, illustration: Pick<Storybook, 'pages' | 'coverImageUrl' | 'backCoverImageUrl' | 'characterSheetUrl' | 'orientation'>): Promise<void> {
+    await db
+      .update(storybooks)
+      .set({ ...illustration, status: 'complete' })
+      .where(eq(storybooks.id, id));
+  }
+
+  async updateStorybookReadability(id: string, readability: ReadabilityReport | null): Promise<void> {
+    await db
+      .update(storybooks)
+      .set({ readability })
+      .where(eq(storybooks.id, id));
+  }
+
+  async updateStorybookCharacterSheet(id: string, characterSheetUrl: string): Promise<void> {
+    await db
+      .update(storybooks)
+      .set({ characterSheetUrl })
+      .where(eq(storybooks.id, id));
+  }
+
+  async updateStorybookCover(id: string, coverImageUrl: string, userSupplied: boolean = false): Promise<void> {
+    await db
+      .update(storybooks)
+      .set({ coverImageUrl, coverImageUserSupplied: userSupplied })
+      .where(eq(storybooks.id, id));
+  }
+
+  async updateStorybookBackCover(id: string, backCoverImageUrl: string, userSupplied: boolean = false): Promise<void> {
+    await db
+      .update(storybooks)
+      .set({ backCoverImageUrl, backCoverImageUserSupplied: userSupplied })
+      .where(eq(storybooks.id, id));
+  }
+
+  // Sets (or clears) a book's second language along with each page's text in it
+  async updateStorybookSecondaryLanguage(id: string, secondaryLanguage: StoryLanguage | null, secondaryTextByPage: Map<number, string>): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [storybook] = await tx
+        .select()
+        .from(storybooks)
+        .where(eq(storybooks.id, id))
+        .for('update');
+      if (!storybook) {
+        throw new Error('Storybook not found');
+      }
+
+      const pages = storybook.pages.map(page => ({ ...page, secondaryText: secondaryTextByPage.get(page.pageNumber) }));
+
+      await tx
+        .update(storybooks)
+        .set({ secondaryLanguage, pages })
+        .where(eq(storybooks.id, id));
+    });
+  }
+
+  // The original book and all its translated editions, oldest first
+  async getStorybookEditions(storybookId: string): Promise<Storybook[]> {
+    const storybook = await this.getStorybook(storybookId);
+    if (!storybook) {
+      return [];
+    }
+    const originalId = storybook.sourceStorybookId || storybook.id;
+    return db
+      .select()
+      .from(storybooks)
+      .where(and(
+        or(eq(storybooks.id, originalId), eq(storybooks.sourceStorybookId, originalId)),
+        isNull(storybooks.deletedAt)
+      ))
+      .orderBy(asc(storybooks.createdAt));
+  }
+
+  // Makes a book the first of a series named after it, unless it already belongs to one
+  async startSeries(storybookId: string): Promise<void> {
+    await db
+      .update(storybooks)
+      .set({ seriesId: storybookId, seriesNumber: 1 })
+      .where(and(eq(storybooks.id, storybookId), isNull(storybooks.seriesId)));
+  }
+
+  // Hands out the next number of a series. The counter lives on the series' first book and is
+  // bumped in one statement, so sequels requested at the same time never share a number; a sequel
+  // whose generation fails leaves a gap rather than a duplicate.
+  async reserveSeriesNumber(seriesId: string): Promise<number> {
+    const [row] = await db
+      .update(storybooks)
+      .set({
+        seriesLastNumber: sql`greatest(
+          coalesce(${storybooks.seriesLastNumber}, 0),
+          (select coalesce(max(book.series_number), 1) from storybooks book where book.series_id = ${seriesId})
+        ) + 1`,
+      })
+      .where(eq(storybooks.id, seriesId))
+      .returning({ seriesNumber: storybooks.seriesLastNumber });
+    if (!row?.seriesNumber) {
+      throw new Error(`Series ${seriesId} not found`);
+    }
+    return row.seriesNumber;
+  }
+
   async deleteStorybook(id: string): Promise<void> {
     await db
       .update(storybooks)
@@ -460,17 +809,176 @@ export class DatabaseStorage implements IStorage {
       .where(eq(storybooks.id, id));
   }
 
-  // Progress tracking remains in-memory for real-time updates
+  // Progress tracking is stored on the generation job row
   async setGenerationProgress(sessionId: string, progress: StoryGenerationProgress): Promise<void> {
-    this.generationProgress.set(sessionId, progress);
+    await db
+      .update(generationJobs)
+      .set({ progress, updatedAt: new Date() })
+      .where(eq(generationJobs.id, sessionId));
   }
 
   async getGenerationProgress(sessionId: string): Promise<StoryGenerationProgress | undefined> {
-    return this.generationProgress.get(sessionId);
+    const job = await this.getGenerationJob(sessionId);
+    if (!job) {
+      return undefined;
+    }
+
+    if (job.status === 'queued') {
+      const queuePosition = await this.getGenerationQueuePosition(sessionId);
+      return {
+        step: 'queued',
+        progress: 0,
+        message: 'Waiting for a free generation slot...',
+        ...job.progress,
+        queuePosition: queuePosition ?? undefined,
+      };
+    }
+
+    return job.progress || undefined;
   }
 
   async clearGenerationProgress(sessionId: string): Promise<void> {
-    this.generationProgress.delete(sessionId);
+    await db
+      .update(generationJobs)
+      .set({ progress: null, updatedAt: new Date() })
+      .where(eq(generationJobs.id, sessionId));
+  }
+
+  // Generation job queue
+  async createGenerationJob(job: InsertGenerationJob): Promise<GenerationJob> {
+    const [created] = await db
+      .insert(generationJobs)
+      .values(job)
+      .returning();
+    return created;
+  }
+
+  async getGenerationJob(id: string): Promise<GenerationJob | undefined> {
+    const [job] = await db
+      .select()
+      .from(generationJobs)
+      .where(eq(generationJobs.id, id));
+    return job || undefined;
+  }
+
+  // Claims the oldest queued job, or a running job whose worker stopped renewing its lease.
+  // SKIP LOCKED lets several server instances poll the same table without double-claiming.
+  async claimNextGenerationJob(workerId: string, leaseMs: number): Promise<GenerationJob | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [candidate] = await tx
+        .select()
+        .from(generationJobs)
+        .where(
+          or(
+            eq(generationJobs.status, 'queued'),
+            and(
+              eq(generationJobs.status, 'running'),
+              lt(generationJobs.leaseExpiresAt, now)
+            )
+          )
+        )
+        .orderBy(asc(generationJobs.createdAt))
+        .limit(1)
+        .for('update', { skipLocked: true });
+
+      if (!candidate) {
+        return undefined;
+      }
+
+      const [claimed] = await tx
+        .update(generationJobs)
+        .set({
+          status: 'running',
+          leaseOwner: workerId,
+          leaseExpiresAt: new Date(now.getTime() + leaseMs),
+          attempts: candidate.attempts + 1,
+          startedAt: candidate.startedAt || now,
+          updatedAt: now,
+        })
+        .where(eq(generationJobs.id, candidate.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  async renewGenerationJobLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const result = await db
+      .update(generationJobs)
+      .set({ leaseExpiresAt: new Date(Date.now() + leaseMs), updatedAt: new Date() })
+      .where(
+        and(
+          eq(generationJobs.id, id),
+          eq(generationJobs.leaseOwner, workerId),
+          eq(generationJobs.status, 'running')
+        )
+      )
+      .returning({ id: generationJobs.id });
+    return result.length > 0;
+  }
+
+  async saveGenerationJobCheckpoint(id: string, workerId: string, currentStep: string, checkpoint: GenerationJobCheckpoint): Promise<boolean> {
+    const result = await db
+      .update(generationJobs)
+      .set({ currentStep, checkpoint, updatedAt: new Date() })
+      .where(
+        and(
+          eq(generationJobs.id, id),
+          eq(generationJobs.leaseOwner, workerId),
+          eq(generationJobs.status, 'running')
+        )
+      )
+      .returning({ id: generationJobs.id });
+    return result.length > 0;
+  }
+
+  async completeGenerationJob(id: string, storybookId: string): Promise<void> {
+    const now = new Date();
+    await db
+      .update(generationJobs)
+      .set({
+        status: 'completed',
+        storybookId,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        completedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(generationJobs.id, id));
+  }
+
+  // Gives up the lease after a failed attempt: back to the queue if retries remain, otherwise failed
+  async releaseGenerationJob(id: string, error: string, retry: boolean): Promise<void> {
+    const now = new Date();
+    await db
+      .update(generationJobs)
+      .set({
+        status: retry ? 'queued' : 'failed',
+        lastError: error,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        completedAt: retry ? null : now,
+        updatedAt: now,
+      })
+      .where(eq(generationJobs.id, id));
+  }
+
+  async getGenerationQueuePosition(id: string): Promise<number | null> {
+    const job = await this.getGenerationJob(id);
+    if (!job || job.status !== 'queued' || !job.createdAt) {
+      return null;
+    }
+
+    const [ahead] = await db
+      .select({ count: count() })
+      .from(generationJobs)
+      .where(
+        and(
+          eq(generationJobs.status, 'queued'),
+          lt(generationJobs.createdAt, job.createdAt)
+        )
+      );
+    return (ahead?.count || 0) + 1;
   }
 
   // Metrics
@@ -970,6 +1478,53 @@ export class DatabaseStorage implements IStorage {
       .where(eq(samplePrompts.id, id));
   }
 
+  // Illustration style operations
+  async getAllIllustrationStyles(): Promise<IllustrationStyle[]> {
+    return db
+      .select()
+      .from(illustrationStyles)
+      .orderBy(illustrationStyles.displayOrder, illustrationStyles.name);
+  }
+
+  async getEnabledIllustrationStyles(): Promise<IllustrationStyle[]> {
+    return db
+      .select()
+      .from(illustrationStyles)
+      .where(eq(illustrationStyles.isEnabled, true))
+      .orderBy(illustrationStyles.displayOrder, illustrationStyles.name);
+  }
+
+  async getIllustrationStyle(id: string): Promise<IllustrationStyle | undefined> {
+    const [style] = await db
+      .select()
+      .from(illustrationStyles)
+      .where(eq(illustrationStyles.id, id));
+    return style || undefined;
+  }
+
+  async createIllustrationStyle(data: InsertIllustrationStyle): Promise<IllustrationStyle> {
+    const [style] = await db
+      .insert(illustrationStyles)
+      .values(data)
+      .returning();
+    return style;
+  }
+
+  async updateIllustrationStyle(id: string, data: Partial<InsertIllustrationStyle>): Promise<IllustrationStyle> {
+    const [style] = await db
+      .update(illustrationStyles)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(illustrationStyles.id, id))
+      .returning();
+    return style;
+  }
+
+  async deleteIllustrationStyle(id: string): Promise<void> {
+    await db
+      .delete(illustrationStyles)
+      .where(eq(illustrationStyles.id, id));
+  }
+
   // Analytics operations
   async trackEvent(event: InsertAnalyticsEvent): Promise<void> {
     try {
@@ -1130,25 +1685,125 @@ export class DatabaseStorage implements IStorage {
       .where(eq(storybooks.id, storybookId));
   }
 
-  async getPublicStorybooks(limit: number, offset: number): Promise<Storybook[]> {
+  async getPublicStorybooks(limit: number, offset: number, search?: string): Promise<Storybook[]> {
     const publicStorybooks = await db
       .select()
       .from(storybooks)
-      .where(and(eq(storybooks.isPublic, true), isNull(storybooks.deletedAt)))
+      .where(publicStorybooksCondition(search))
       .orderBy(desc(storybooks.createdAt))
       .limit(limit)
       .offset(offset);
     return publicStorybooks;
   }
 
-  async getPublicStorybookCount(): Promise<number> {
+  async getPublicStorybookCount(search?: string): Promise<number> {
     const [result] = await db
       .select({ count: count() })
       .from(storybooks)
-      .where(and(eq(storybooks.isPublic, true), isNull(storybooks.deletedAt)));
+      .where(publicStorybooksCondition(search));
     return result?.count || 0;
   }
 
+  // Content moderation
+  // Queues the flags and holds the book for review (a rejected book stays rejected)
+  async recordModerationFlags(storybookId: string, flags: Omit<InsertModerationFlag, 'storybookId'>[]): Promise<void> {
+    if (flags.length === 0) {
+      return;
+    }
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(moderationFlags)
+        .values(flags.map(flag => ({ ...flag, storybookId })));
+      await tx
+        .update(storybooks)
+        .set({ moderationStatus: 'flagged' })
+        .where(and(eq(storybooks.id, storybookId), sql`${storybooks.moderationStatus} <> 'rejected'`));
+    });
+  }
+
+  // A book waiting on its first check passed it; books already decided keep their status
+  async markModerationClear(storybookId: string): Promise<void> {
+    await db
+      .update(storybooks)
+      .set({ moderationStatus: 'clear' })
+      .where(and(eq(storybooks.id, storybookId), eq(storybooks.moderationStatus, 'pending')));
+  }
+
+  async getModerationFlag(id: string): Promise<ModerationFlag | undefined> {
+    const [flag] = await db
+      .select()
+      .from(moderationFlags)
+      .where(eq(moderationFlags.id, id));
+    return flag || undefined;
+  }
+
+  async getModerationQueue(status: ModerationFlagStatus, limit: number = 100): Promise<ModerationQueueItem[]> {
+    const rows = await db
+      .select({
+        flag: moderationFlags,
+        storybook: {
+          id: storybooks.id,
+          title: storybooks.title,
+          userId: storybooks.userId,
+          coverImageUrl: storybooks.coverImageUrl,
+          isPublic: storybooks.isPublic,
+          moderationStatus: storybooks.moderationStatus,
+        },
+      })
+      .from(moderationFlags)
+      .innerJoin(storybooks, eq(moderationFlags.storybookId, storybooks.id))
+      .where(eq(moderationFlags.status, status))
+      // Oldest first while waiting, most recent decisions first afterwards
+      .orderBy(status === 'pending' ? asc(moderationFlags.createdAt) : desc(moderationFlags.reviewedAt))
+      .limit(limit);
+    return rows.map(row => ({ ...row.flag, storybook: row.storybook }));
+  }
+
+  // Records an admin's decision on a pending flag. Rejecting a flag rejects the whole book and
+  // takes it out of the gallery; the book is approved once none of its flags are pending.
+  // Returns undefined when the flag does not exist or was already reviewed.
+  async reviewModerationFlag(id: string, decision: 'approved' | 'rejected', adminId: string): Promise<{ flag: ModerationFlag; moderationStatus: ModerationStatus } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [flag] = await tx
+        .update(moderationFlags)
+        .set({ status: decision, reviewedBy: adminId, reviewedAt: new Date() })
+        .where(and(eq(moderationFlags.id, id), eq(moderationFlags.status, 'pending')))
+        .returning();
+      if (!flag) {
+        return undefined;
+      }
+
+      const [storybook] = await tx
+        .select({ moderationStatus: storybooks.moderationStatus })
+        .from(storybooks)
+        .where(eq(storybooks.id, flag.storybookId))
+        .for('update');
+      let moderationStatus: ModerationStatus = storybook.moderationStatus;
+
+      if (decision === 'rejected') {
+        moderationStatus = 'rejected';
+        await tx
+          .update(storybooks)
+          .set({ moderationStatus, isPublic: false })
+          .where(eq(storybooks.id, flag.storybookId));
+      } else if (moderationStatus !== 'rejected') {
+        const [pending] = await tx
+          .select({ count: count() })
+          .from(moderationFlags)
+          .where(and(eq(moderationFlags.storybookId, flag.storybookId), eq(moderationFlags.status, 'pending')));
+        if (pending.count === 0) {
+          moderationStatus = 'approved';
+          await tx
+            .update(storybooks)
+            .set({ moderationStatus })
+            .where(eq(storybooks.id, flag.storybookId));
+        }
+      }
+
+      return { flag, moderationStatus };
+    });
+  }
+
   // Audio settings
   async getAudioSettings(storybookId: string): Promise<AudioSettings | null> {
     const [settings] = await db
@@ -0,0 +1,77 @@
+/**
+ * Pure helpers for the book lengths customers pick on the create form.
+ *
+ * Admins configure the options as JSON in the 'book_lengths' site setting. Until they do,
+ * a short/standard/long set is offered, with "standard" following the pages_per_book setting.
+ * Each option may override the global digital/print prices for books of that length.
+ */
+
+import { bookLengthOptionsSchema, MAX_STORY_PAGES, type BookLengthOption } from "@shared/schema";
+
+export interface BookPrices {
+  digitalPrice: number; // cents
+  printPrice: number; // cents
+}
+
+export const DEFAULT_BOOK_PRICES: BookPrices = { digitalPrice: 399, printPrice: 2499 };
+export const DEFAULT_BOOK_LENGTH_ID = 'standard';
+
+export function getDefaultBookLengths(standardPages: number = 12): BookLengthOption[] {
+  const pages = Number.isFinite(standardPages) ? Math.max(1, Math.min(MAX_STORY_PAGES, Math.round(standardPages))) : 12;
+  return [
+    { id: 'short', label: 'Short', pages: 6 },
+    { id: DEFAULT_BOOK_LENGTH_ID, label: 'Standard', pages },
+    { id: 'long', label: 'Long', pages: MAX_STORY_PAGES },
+  ];
+}
+
+/**
+ * Reads the 'book_lengths' setting value, falling back to the defaults when it is
+ * missing or invalid so a bad edit never breaks the create form.
+ */
+export function parseBookLengths(value: string | undefined, standardPages?: number): BookLengthOption[] {
+  if (value) {
+    try {
+      const result = bookLengthOptionsSchema.safeParse(JSON.parse(value));
+      if (result.success) {
+        return result.data;
+      }
+      console.warn('[Book Lengths] Invalid book_lengths setting, using defaults:', result.error.errors[0]?.message);
+    } catch {
+      console.warn('[Book Lengths] book_lengths setting is not valid JSON, using defaults');
+    }
+  }
+  return getDefaultBookLengths(standardPages);
+}
+
+/**
+ * The option with the given id; without an id, the "standard" option (or the first one).
+ * Returns undefined for an id that isn't offered.
+ */
+export function findBookLength(options: BookLengthOption[], id?: string | null): BookLengthOption | undefined {
+  if (id) {
+    return options.find(option => option.id === id);
+  }
+  return options.find(option => option.id === DEFAULT_BOOK_LENGTH_ID) ?? options[0];
+}
+
+/**
+ * Prices for a book of the given length. Books without a length (made before lengths existed)
+ * or whose length is no longer offered use the global prices.
+ */
+export function getBookPrices(options: BookLengthOption[], basePrices: BookPrices, bookLength?: string | null): BookPrices {
+  const option = bookLength ? options.find(o => o.id === bookLength) : undefined;
+  return {
+    digitalPrice: option?.digitalPrice ?? basePrices.digitalPrice,
+    printPrice: option?.printPrice ?? basePrices.printPrice,
+  };
+}
+
+/**
+ * The most pages a book may grow to when pages are added. A book is priced by its length, so it
+ * stays within that length's page count; books without a current length are held to MAX_STORY_PAGES.
+ */
+export function getMaxPages(options: BookLengthOption[], bookLength?: string | null): number {
+  const option = bookLength ? options.find(o => o.id === bookLength) : undefined;
+  return option?.pages ?? MAX_STORY_PAGES;
+}
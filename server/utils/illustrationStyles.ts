@@ -0,0 +1,36 @@
+/**
+ * Pure helpers for the illustration style catalog: the styles a new catalog starts with,
+ * which styles each age group may pick, and the prompt text a style is drawn from.
+ */
+
+import type { IllustrationStyle, InsertIllustrationStyle } from "@shared/schema";
+
+// The styles the create page offered before the catalog existed; a fresh database starts with these
+export const DEFAULT_ILLUSTRATION_STYLES: Array<Pick<InsertIllustrationStyle, 'name' | 'promptFragment'>> = [
+  { name: "Vibrant and colorful", promptFragment: "vibrant and colorful children's book illustration" },
+  { name: "Watercolor Illustration", promptFragment: "watercolor illustration style with soft, dreamy colors and gentle blending" },
+  { name: "Digital Cartoon Style", promptFragment: "digital cartoon style with bold colors and clean lines" },
+  { name: "3D Digital Art", promptFragment: "3D digital art style with depth and dimensionality" },
+  { name: "Vintage Storybook", promptFragment: "vintage storybook style with classic, nostalgic aesthetic" },
+  { name: "Kawaii/Cute Style", promptFragment: "kawaii cute style with adorable characters and big eyes" },
+  { name: "Comic Book Style", promptFragment: "comic book style with dynamic panels and bold outlines" },
+  { name: "Pastel Drawing", promptFragment: "pastel drawing style with gentle, chalk-like textures" },
+  { name: "Realistic Illustration", promptFragment: "realistic illustration with photo-realistic, detailed artwork" },
+  { name: "Minimalist Flat Design", promptFragment: "minimalist flat design with simple shapes and limited colors" },
+  { name: "Oil Painting Style", promptFragment: "oil painting style with rich textures and classic artistic feel" },
+];
+
+// Styles without age restrictions suit every reader; books without an age can use any enabled style
+export function isStyleAvailableForAge(style: Pick<IllustrationStyle, 'isEnabled' | 'allowedAges'>, age?: string | null): boolean {
+  if (!style.isEnabled) {
+    return false;
+  }
+  return !age || style.allowedAges.length === 0 || (style.allowedAges as string[]).includes(age);
+}
+
+// The style text stored on a book and passed to every illustration, e.g. "watercolor ... Avoid: harsh outlines"
+export function buildStylePrompt(style: Pick<IllustrationStyle, 'promptFragment' | 'negativePrompt'>): string {
+  return style.negativePrompt
+    ? `${style.promptFragment}. Avoid: ${style.negativePrompt}`
+    : style.promptFragment;
+}
@@ -69,6 +69,28 @@ export async function optimizeImage(
     .toBuffer();
 }
 
+// Size of owner-uploaded artwork, by book orientation (see normalizeArtwork)
+export const ARTWORK_DIMENSIONS = {
+  portrait: { width: 900, height: 1200 },
+  landscape: { width: 1200, height: 900 },
+} as const;
+
+/**
+ * Normalizes owner-uploaded artwork (a child's drawing, a phone photo) for use as an
+ * illustration: applies the EXIF rotation, converts to sRGB and fits the whole picture onto
+ * a white page sized for the book's orientation, without cropping. Returns a JPEG.
+ */
+export async function normalizeArtwork(imageBuffer: Buffer, orientation: 'portrait' | 'landscape'): Promise<Buffer> {
+  const { width, height } = ARTWORK_DIMENSIONS[orientation];
+  return sharp(imageBuffer)
+    .rotate()
+    .toColourspace('srgb')
+    .resize(width, height, { fit: 'contain', background: '#ffffff' })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 90, mozjpeg: true })
+    .toBuffer();
+}
+
 /**
  * Optimizes image for web display
  * Resizes to max 1200px width, converts to JPEG at 90% quality
@@ -6,35 +6,129 @@
  * to ensure visual consistency across all illustrations.
  */
 
+import type { StoryCharacter } from "@shared/schema";
+
 export interface ImagePromptComponents {
   mainCharacterDescription?: string;
   defaultClothing?: string;
+  characters?: StoryCharacter[]; // Structured cast; takes precedence over mainCharacterDescription/defaultClothing
+  characterIds?: string[]; // Characters in this scene; omit to include the whole cast
   scenePrompt: string;
   artStyle?: string;
+  hasCharacterSheet?: boolean; // The character sheet is passed as the first reference image, ahead of the photos
+}
+
+const CHARACTER_SHEET_NOTE = 'Reference image 1 is the character sheet: draw every character exactly as shown there (face, hair, body proportions, outfit and colours). ';
+
+const CHARACTER_SHEET_SCENE = 'Character reference sheet of the characters described above, on a plain light grey background with no scenery or props. For each character show a full-body front view, side view and back view, plus head close-ups with happy, surprised and sad expressions. Keep every character at the same scale and in the same outfit and colours in every view, neatly arranged in rows.';
+
+const CLOTHING_IN_SCENE_PATTERN = /wearing\s+|wears\s+|dressed\s+in|in\s+(?:a|an|their)\s+(?:\w+\s+)?(?:pajamas|swimsuit|uniform|suit|dress|coat|outfit)/i;
+
+/**
+ * Returns the characters appearing in a scene, in cast order.
+ * Without characterIds the whole cast is returned (e.g. for the cover).
+ */
+export function selectSceneCharacters(characters: StoryCharacter[] = [], characterIds?: string[]): StoryCharacter[] {
+  if (!characterIds) {
+    return characters;
+  }
+  const ids = new Set(characterIds);
+  return characters.filter(character => ids.has(character.id));
+}
+
+/**
+ * Inspiration image indexes for the characters in a scene, in the same order that
+ * buildFinalImagePrompt numbers their reference photos. Pass these images first.
+ */
+export function getCharacterReferenceIndexes(sceneCharacters: StoryCharacter[]): number[] {
+  const indexes: number[] = [];
+  for (const character of sceneCharacters) {
+    if (character.referenceImageIndex !== undefined && !indexes.includes(character.referenceImageIndex)) {
+      indexes.push(character.referenceImageIndex);
+    }
+  }
+  return indexes;
+}
+
+/**
+ * Stored photos of a book's whole cast, in the order buildFinalImagePrompt numbers them.
+ * Books without a cast linked to photos use every uploaded photo.
+ */
+export function getCastPhotoUrls(characters: StoryCharacter[] = [], inspirationImages: string[] = []): string[] {
+  if (!characters.some(character => character.referenceImageIndex !== undefined)) {
+    return inspirationImages;
+  }
+  return getCharacterReferenceIndexes(characters)
+    .map(index => inspirationImages[index])
+    .filter(url => !!url);
+}
+
+/**
+ * Appends a user's change request (e.g. "same scene but at night") to a scene description
+ * so it is both drawn and kept with the page for later regenerations.
+ */
+export function applySceneInstruction(scenePrompt: string, instruction?: string): string {
+  const change = instruction?.trim();
+  if (!change) {
+    return scenePrompt;
+  }
+  const scene = scenePrompt.trim();
+  const separator = /[.!?]$/.test(scene) ? ' ' : '. ';
+  return `${scene}${separator}Requested change: ${change}`;
+}
+
+function buildCastPrefix(sceneCharacters: StoryCharacter[], sceneHasClothing: boolean, firstPhotoNumber: number): string {
+  if (sceneCharacters.length === 0) {
+    return '';
+  }
+
+  const referenceIndexes = getCharacterReferenceIndexes(sceneCharacters);
+  const descriptions = sceneCharacters.map(character => {
+    let description = `${character.name} (${character.role}): ${character.appearance.trim()}`;
+    if (character.clothing?.trim() && !sceneHasClothing) {
+      description += `, ${character.clothing.trim()}`;
+    }
+    if (character.referenceImageIndex !== undefined) {
+      description += ` (matches reference photo ${referenceIndexes.indexOf(character.referenceImageIndex) + firstPhotoNumber})`;
+    }
+    return description;
+  });
+
+  if (descriptions.length === 1) {
+    return `${descriptions[0]}. `;
+  }
+  return `Characters in this scene: ${descriptions.join('; ')}. `;
 }
 
 /**
  * Builds a complete image prompt by combining character description, clothing, and scene.
  * 
  * Logic:
- * - Combines character description with default clothing
+ * - With a structured cast, only the characters in the scene are described, each with their own clothing
+ * - Otherwise combines the single character description with default clothing
  * - If the scene mentions clothing (e.g., "wearing pajamas"), default clothing is NOT added
  * - Scene description is appended
+ * - With a character sheet, the prompt opens by pointing at it and photo numbers start at 2
  * - Art style is NOT added here (handled separately in generateIllustration)
  * 
  * @param components - The components to combine into a final prompt
  * @returns The final image prompt ready for generation
  */
 export function buildFinalImagePrompt(components: ImagePromptComponents): string {
-  const { mainCharacterDescription, defaultClothing, scenePrompt, artStyle } = components;
+  const { mainCharacterDescription, defaultClothing, characters, characterIds, scenePrompt, artStyle, hasCharacterSheet } = components;
+  const sheetNote = hasCharacterSheet ? CHARACTER_SHEET_NOTE : '';
   
+  // Check if scene already mentions clothing (to avoid duplication)
+  const sceneHasClothing = CLOTHING_IN_SCENE_PATTERN.test(scenePrompt);
+
+  if (characters && characters.length > 0) {
+    return sheetNote + buildCastPrefix(selectSceneCharacters(characters, characterIds), sceneHasClothing, hasCharacterSheet ? 2 : 1) + scenePrompt;
+  }
+
   // Start with character description
   const characterDesc = mainCharacterDescription?.trim() || '';
   const defaultClothingDesc = defaultClothing?.trim() || '';
   
-  // Check if scene already mentions clothing (to avoid duplication)
-  const sceneHasClothing = /wearing\s+|wears\s+|dressed\s+in|in\s+(?:a|an|their)\s+(?:\w+\s+)?(?:pajamas|swimsuit|uniform|suit|dress|coat|outfit)/i.test(scenePrompt);
-  
   // Build the character prefix
   let characterPrefix = '';
   
@@ -52,7 +146,51 @@ export function buildFinalImagePrompt(components: ImagePromptComponents): string
   // Else: no character, no clothing, or scene has clothing - prefix stays empty
   
   // Combine character prefix with scene
-  const finalPrompt = characterPrefix + scenePrompt;
+  const finalPrompt = sheetNote + characterPrefix + scenePrompt;
   
   return finalPrompt;
 }
+
+/**
+ * Prompt for a book's character sheet: a turnaround of the whole cast (or the single main
+ * character) in its default clothing, drawn before the cover so every illustration can copy it.
+ */
+export function buildCharacterSheetPrompt(components: Omit<ImagePromptComponents, 'characterIds' | 'scenePrompt' | 'hasCharacterSheet'>): string {
+  return buildFinalImagePrompt({ ...components, scenePrompt: CHARACTER_SHEET_SCENE });
+}
+
+// Final cover prompt: the clean cover scene plus the title and byline lettered onto it
+export function buildCoverTitlePrompt(coverPrompt: string, title: string, author: string): string {
+  return `${coverPrompt}
+
+IMPORTANT: This is a book cover. Include the title "${title}" prominently at the top in elegant, readable typography. Add "By ${author}" near the bottom in a smaller, complementary font. Make the text blend beautifully with the illustration style.`;
+}
+
+/**
+ * Explains the style reference images, which follow every other reference image (so they are
+ * numbered from firstImageNumber): only their look is borrowed, never what they show.
+ */
+export function buildStyleReferenceNote(firstImageNumber: number, count: number): string {
+  if (count <= 0) {
+    return '';
+  }
+  const images = count === 1
+    ? `Reference image ${firstImageNumber} is a style sample`
+    : `Reference images ${firstImageNumber} to ${firstImageNumber + count - 1} are style samples`;
+  return `${images}: match their colour palette, medium, brushwork, line quality and texture. Do NOT copy their characters, objects, setting, composition or any text in them; draw only the scene described here.`;
+}
+
+/**
+ * Prompt for an instruction-based edit of an existing illustration, which is passed as the
+ * first image (followed by the character sheet when there is one). Everything the instruction
+ * does not mention is to stay as it is.
+ */
+export function buildImageEditPrompt(instruction: string, options: { artStyle?: string; hasCharacterSheet?: boolean } = {}): string {
+  const sheetNote = options.hasCharacterSheet
+    ? ' Image 2 is the character sheet: any character you redraw must match it exactly.'
+    : '';
+  const style = options.artStyle ? ` Keep the art style (${options.artStyle}).` : ' Keep the art style.';
+  return `Edit image 1, a children's storybook illustration. Make only this change: ${instruction.trim()}
+
+Keep everything else exactly as it is: the composition, framing, characters, poses, background, lighting and colours.${style}${sheetNote} Do not add any text, words or letters to the image.`;
+}
@@ -0,0 +1,46 @@
+/**
+ * Counts how many storybooks show each stored image, by filename. Translated editions share their
+ * source book's illustrations, so a job that rewrites one book's images may only delete an old
+ * file once no other book still uses it.
+ */
+
+import type { Storybook } from "@shared/schema";
+
+type ImageSource = Pick<Storybook, 'coverImageUrl' | 'backCoverImageUrl' | 'characterSheetUrl' | 'pages'>;
+
+// "/api/storage/2024/05/abc.png" -> "abc.png"
+function toFilename(url: string): string {
+  return url.split('/').pop()!;
+}
+
+// The distinct image files a storybook shows
+function getImageFilenames(storybook: ImageSource): string[] {
+  const urls = [storybook.coverImageUrl, storybook.backCoverImageUrl, storybook.characterSheetUrl, ...storybook.pages.map(page => page.imageUrl)];
+  return Array.from(new Set(urls.filter((url): url is string => !!url).map(toFilename)));
+}
+
+export function countImageReferences(storybooks: ImageSource[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const storybook of storybooks) {
+    for (const filename of getImageFilenames(storybook)) {
+      counts.set(filename, (counts.get(filename) || 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Records that one storybook stopped using these files and returns those no storybook uses any
+ * more, which are safe to delete.
+ */
+export function releaseImageReferences(counts: Map<string, number>, filenames: string[]): string[] {
+  const unused: string[] = [];
+  for (const filename of Array.from(new Set(filenames))) {
+    const remaining = Math.max(0, (counts.get(filename) || 0) - 1);
+    counts.set(filename, remaining);
+    if (remaining === 0) {
+      unused.push(filename);
+    }
+  }
+  return unused;
+}
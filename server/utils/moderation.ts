@@ -0,0 +1,71 @@
+/**
+ * Pure helpers for the content-safety blocklist.
+ *
+ * Admins maintain the blocked terms in the 'moderation_blocked_terms' site setting (one per line
+ * or comma-separated). Until they do, a default list of terms that never belong in a children's
+ * book is used. Terms match whole words, case-insensitively, so "heroin" does not match "heroine".
+ */
+
+export const DEFAULT_BLOCKED_TERMS = [
+  'porn',
+  'pornographic',
+  'nude',
+  'naked',
+  'sexual',
+  'sexy',
+  'gore',
+  'gory',
+  'decapitate',
+  'decapitated',
+  'dismember',
+  'dismembered',
+  'torture',
+  'suicide',
+  'self-harm',
+  'cocaine',
+  'heroin',
+  'meth',
+  'nazi',
+];
+
+export function parseBlockedTerms(value: string | undefined): string[] {
+  if (!value?.trim()) {
+    return DEFAULT_BLOCKED_TERMS;
+  }
+  const terms = value
+    .split(/[\n,]/)
+    .map(term => term.trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(terms));
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The blocked terms that appear in the text as whole words (or phrases), in list order.
+ */
+export function findBlockedTerms(text: string, terms: string[]): string[] {
+  if (!text) {
+    return [];
+  }
+  return terms.filter(term => {
+    // Any run of whitespace in a phrase matches any run in the text
+    const pattern = escapeRegExp(term).replace(/\s+/g, '\\s+');
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${pattern}(?=$|[^\\p{L}\\p{N}])`, 'iu').test(text);
+  });
+}
+
+/**
+ * Blocked terms found across several pieces of text, without duplicates.
+ */
+export function findBlockedTermsIn(texts: Array<string | null | undefined>, terms: string[]): string[] {
+  const matches = new Set<string>();
+  for (const text of texts) {
+    for (const term of findBlockedTerms(text || '', terms)) {
+      matches.add(term);
+    }
+  }
+  return Array.from(matches);
+}
@@ -0,0 +1,97 @@
+/**
+ * Pure helpers for changing the page structure of a storybook.
+ *
+ * Pages are always numbered 1..N in array order, so the print PDF, EPUB and flipbook
+ * (which all walk the pages array) follow a new structure without changes. Each helper
+ * also returns how old page numbers map to new ones so data keyed by page number
+ * (e.g. page revisions) can be moved along; removed pages map to null.
+ */
+
+import type { StorybookPage } from "@shared/schema";
+
+export type PageNumberMap = Map<number, number | null>;
+
+export interface PageStructureChange {
+  pages: StorybookPage[];
+  pageNumberMap: PageNumberMap;
+}
+
+export class InvalidPageStructureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPageStructureError';
+    Object.setPrototypeOf(this, InvalidPageStructureError.prototype);
+  }
+}
+
+function renumber(ordered: StorybookPage[], removed: number[] = []): PageStructureChange {
+  const pageNumberMap: PageNumberMap = new Map();
+  const pages = ordered.map((page, index) => {
+    pageNumberMap.set(page.pageNumber, index + 1);
+    return { ...page, pageNumber: index + 1 };
+  });
+  for (const pageNumber of removed) {
+    pageNumberMap.set(pageNumber, null);
+  }
+  return { pages, pageNumberMap };
+}
+
+function sortByPageNumber(pages: StorybookPage[]): StorybookPage[] {
+  return [...pages].sort((a, b) => a.pageNumber - b.pageNumber);
+}
+
+/**
+ * Inserts a page so that it becomes page `position` (1..N+1); later pages move up by one.
+ * The new page's own pageNumber is ignored and it has no entry in the map.
+ */
+export function insertPage(pages: StorybookPage[], position: number, newPage: Omit<StorybookPage, 'pageNumber'>): PageStructureChange {
+  if (!Number.isInteger(position) || position < 1 || position > pages.length + 1) {
+    throw new InvalidPageStructureError(`Position must be between 1 and ${pages.length + 1}`);
+  }
+
+  const ordered = sortByPageNumber(pages);
+  const { pages: renumbered, pageNumberMap } = renumber([
+    ...ordered.slice(0, position - 1),
+    { ...newPage, pageNumber: 0 },
+    ...ordered.slice(position - 1),
+  ]);
+  pageNumberMap.delete(0);
+  return { pages: renumbered, pageNumberMap };
+}
+
+/**
+ * Removes a page; later pages move down by one. A storybook always keeps at least one page.
+ */
+export function removePage(pages: StorybookPage[], pageNumber: number): PageStructureChange {
+  if (!pages.some(page => page.pageNumber === pageNumber)) {
+    throw new InvalidPageStructureError(`Page ${pageNumber} does not exist in this storybook`);
+  }
+  if (pages.length <= 1) {
+    throw new InvalidPageStructureError('A storybook must have at least one page');
+  }
+
+  return renumber(
+    sortByPageNumber(pages).filter(page => page.pageNumber !== pageNumber),
+    [pageNumber]
+  );
+}
+
+/**
+ * Puts pages in a new order. `order` lists every current page number exactly once,
+ * in the order the pages should appear.
+ */
+export function reorderPages(pages: StorybookPage[], order: number[]): PageStructureChange {
+  const byNumber = new Map(pages.map(page => [page.pageNumber, page]));
+  if (order.length !== pages.length || new Set(order).size !== order.length || order.some(pageNumber => !byNumber.has(pageNumber))) {
+    throw new InvalidPageStructureError('The new order must list every page exactly once');
+  }
+
+  return renumber(order.map(pageNumber => byNumber.get(pageNumber)!));
+}
+
+/**
+ * The page numbers whose number actually changes (or that are removed), for moving keyed data.
+ */
+export function getPageNumberMoves(pageNumberMap: PageNumberMap): Array<[from: number, to: number | null]> {
+  return Array.from(pageNumberMap.entries()).filter(([from, to]) => from !== to);
+}
@@ -0,0 +1,221 @@
+/**
+ * Pure text layout helpers for the print PDF.
+ *
+ * Text keeps its real characters (accents, typographic quotes and dashes, non-Latin scripts).
+ * Each run of characters is drawn with the first font in a fallback chain that has glyphs
+ * for it, and lines break between words, or between characters in scripts written without
+ * spaces such as Chinese and Japanese.
+ */
+
+// Anything that can say whether it has a glyph for a character, e.g. a fontkit font
+export interface GlyphCoverage {
+  hasGlyphForCodePoint(codePoint: number): boolean;
+}
+
+export interface FontRun {
+  text: string;
+  font: number; // Index into the fallback chain
+}
+
+/**
+ * Prepares stored text for layout: unified line breaks, composed accents (so "é" is one glyph)
+ * and no control characters that would print as empty boxes.
+ */
+export function normalizeTextForPDF(text: string): string {
+  if (!text) return '';
+
+  return text
+    .replace(/\r\n?/g, '\n')
+    .normalize('NFC')
+    .replace(/\t/g, ' ')
+    // Control characters other than the line break, and invisible format characters
+    .replace(/[\u0000-\u0009\u000B-\u001F\u007F-\u009F\u00AD\u200C-\u200F\u2060\uFEFF]/g, '');
+}
+
+// Characters that never need a glyph of their own and stay with the run around them
+function isJoiner(char: string): boolean {
+  return /\s/.test(char) || /[\u0300-\u036F\u200B]/.test(char);
+}
+
+/**
+ * Splits text into runs that can each be drawn with one font, picking for every character the
+ * first font in the chain that has a glyph for it. Characters no font covers are left out and
+ * reported in `missing`.
+ */
+export function splitIntoFontRuns(text: string, fonts: GlyphCoverage[]): { runs: FontRun[]; missing: string[] } {
+  const runs: FontRun[] = [];
+  const missing = new Set<string>();
+
+  for (const char of Array.from(text)) {
+    const current = runs[runs.length - 1];
+    const codePoint = char.codePointAt(0)!;
+
+    if (current && isJoiner(char) && fonts[current.font].hasGlyphForCodePoint(codePoint)) {
+      current.text += char;
+      continue;
+    }
+
+    const font = fonts.findIndex(f => f.hasGlyphForCodePoint(codePoint));
+    if (font < 0) {
+      if (char !== '\u200B') {
+        missing.add(char);
+      }
+    } else if (current && current.font === font) {
+      current.text += char;
+    } else {
+      runs.push({ text: char, font });
+    }
+  }
+
+  return { runs, missing: Array.from(missing) };
+}
+
+// Scripts written without spaces between words: a line may break between any two characters
+const NO_SPACE_SCRIPT = /[\u2E80-\u2FDF\u3000-\u303F\u3040-\u30FF\u3100-\u312F\u31A0-\u31FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]|[\uD840-\uD87F][\uDC00-\uDFFF]/;
+// Punctuation that must not start a line, and opening punctuation that must not end one
+const NO_BREAK_BEFORE = /[,.!?:;)\]}»›”’%…、。〉》」』】〕〗〟ー！），．：；？］｝]/;
+const NO_BREAK_AFTER = /[(\[{«‹“‘〈《「『【〔〖〝（［｛]/;
+
+/**
+ * Splits a paragraph into the pieces a line may break between. Spaces stay at the end of the
+ * piece before them; non-breaking spaces join the pieces around them.
+ */
+export function splitIntoBreakableSegments(paragraph: string): string[] {
+  const chars = Array.from(paragraph);
+  const segments: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const next = chars[i + 1];
+    current += char;
+
+    if (next === undefined) break;
+
+    const canBreak =
+      // After a run of spaces, before the next word
+      (char === ' ' && next !== ' ') ||
+      // Around characters of scripts without spaces
+      ((NO_SPACE_SCRIPT.test(char) || NO_SPACE_SCRIPT.test(next)) && char !== ' ' && next !== ' ') ||
+      char === '\u200B';
+
+    if (canBreak && !NO_BREAK_BEFORE.test(next) && !NO_BREAK_AFTER.test(char)) {
+      segments.push(current);
+      current = '';
+    }
+  }
+  if (current) {
+    segments.push(current);
+  }
+
+  return segments;
+}
+
+/**
+ * Wraps text to lines no wider than maxWidth as measured by `measure`. Line breaks in the text
+ * are kept (an empty line stays empty), and a word too long for a line is split between characters.
+ */
+export function breakIntoLines(text: string, maxWidth: number, measure: (text: string) => number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of normalizeTextForPDF(text).split('\n')) {
+    if (!paragraph.trim()) {
+      lines.push('');
+      continue;
+    }
+
+    let line = '';
+    const pushLine = () => {
+      lines.push(line.trimEnd());
+      line = '';
+    };
+
+    for (const segment of splitIntoBreakableSegments(paragraph.trim())) {
+      if (measure((line + segment).trimEnd()) <= maxWidth) {
+        line += segment;
+        continue;
+      }
+      if (line) {
+        pushLine();
+      }
+      if (measure(segment.trimEnd()) <= maxWidth) {
+        line = segment;
+        continue;
+      }
+      // Longer than a whole line: break it wherever it runs out of room
+      for (const char of Array.from(segment)) {
+        if (line && measure((line + char).trimEnd()) > maxWidth) {
+          pushLine();
+        }
+        line += char;
+      }
+    }
+    if (line.trim()) {
+      pushLine();
+    }
+  }
+
+  return lines;
+}
+
+export interface TextBlockStyle {
+  fontSize: number;
+  lineSpacing: number; // Line height as a multiple of the font size
+}
+
+export interface FittedTextBlock {
+  fontSize: number;
+  lineHeight: number;
+  lines: string[];
+}
+
+export interface FittedPageText {
+  primary: FittedTextBlock;
+  secondary?: FittedTextBlock; // The second language of a bilingual book
+  gap: number; // Space between the two languages, where the short rule goes
+  height: number;
+  fits: boolean;
+}
+
+// A crowded text page shrinks its type in these steps, down to this share of the normal size
+const TEXT_SCALE_STEP = 0.05;
+export const MIN_TEXT_SCALE = 0.6;
+
+/**
+ * Lays out a text page: the story text and, on bilingual books, the second language below it.
+ * When both don't fit in the box at their normal sizes they shrink together until they do;
+ * `fits` is false if the text is still too long at MIN_TEXT_SCALE.
+ */
+export function fitPageText(
+  text: string,
+  secondaryText: string | undefined,
+  box: { width: number; height: number },
+  styles: { primary: TextBlockStyle; secondary: TextBlockStyle; gapLines: number },
+  measure: (text: string, fontSize: number, block: 'primary' | 'secondary') => number,
+): FittedPageText {
+  const layout = (scale: number): FittedPageText => {
+    const fitBlock = (value: string, style: TextBlockStyle, block: 'primary' | 'secondary'): FittedTextBlock => {
+      const fontSize = style.fontSize * scale;
+      return {
+        fontSize,
+        lineHeight: fontSize * style.lineSpacing,
+        lines: breakIntoLines(value, box.width, line => measure(line, fontSize, block)),
+      };
+    };
+
+    const primary = fitBlock(text, styles.primary, 'primary');
+    const secondary = secondaryText?.trim() ? fitBlock(secondaryText, styles.secondary, 'secondary') : undefined;
+    const gap = secondary ? primary.fontSize * styles.gapLines : 0;
+    const height = primary.lines.length * primary.lineHeight
+      + (secondary ? gap + secondary.lines.length * secondary.lineHeight : 0);
+
+    return { primary, secondary, gap, height, fits: height <= box.height };
+  };
+
+  const steps = Math.round((1 - MIN_TEXT_SCALE) / TEXT_SCALE_STEP);
+  let fitted = layout(1);
+  for (let step = 1; step <= steps && !fitted.fits; step++) {
+    fitted = layout(1 - step * TEXT_SCALE_STEP);
+  }
+  return fitted;
+}
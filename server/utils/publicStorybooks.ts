@@ -0,0 +1,40 @@
+/**
+ * The filter behind the public gallery and its search: which storybooks anyone may browse, kept
+ * apart from the storage class so it can be checked without a database.
+ */
+
+import { and, ilike, inArray, isNull, eq, or, sql } from "drizzle-orm";
+import { storybooks, type ModerationStatus } from "@shared/schema";
+
+// Books created before moderation existed kept the column default, 'clear', so they stay listed
+export const PUBLIC_MODERATION_STATUSES: ModerationStatus[] = ['clear', 'approved'];
+
+// Makes % and _ in the visitor's search match themselves instead of acting as ILIKE wildcards
+export function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Public, not deleted, not held back by moderation, and (when searching) matching the title or
+// what happens on any page: its text, or the setting, action, key objects or mood of its scene
+export function publicStorybooksCondition(search?: string) {
+  const conditions = [
+    eq(storybooks.isPublic, true),
+    isNull(storybooks.deletedAt),
+    inArray(storybooks.moderationStatus, PUBLIC_MODERATION_STATUSES),
+  ];
+  if (search) {
+    const pattern = `%${escapeLikePattern(search)}%`;
+    conditions.push(or(
+      ilike(storybooks.title, pattern),
+      sql`exists (
+        select 1 from json_array_elements(${storybooks.pages}) as page
+        where page->>'text' ilike ${pattern}
+          or page->'scene'->>'setting' ilike ${pattern}
+          or page->'scene'->>'mainAction' ilike ${pattern}
+          or page->'scene'->>'emotionalTone' ilike ${pattern}
+          or (page->'scene'->'keyObjects')::text ilike ${pattern}
+      )`
+    )!);
+  }
+  return and(...conditions);
+}
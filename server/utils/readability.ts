@@ -0,0 +1,109 @@
+/**
+ * Pure helpers for scoring how readable a story's text is for its reader age.
+ *
+ * Each page gets a word count, its average sentence length and a Flesch-Kincaid grade level,
+ * and is compared with the band for the age picked on the create form. Books without an age
+ * use the default band, which matches the length the story prompts have always asked for.
+ */
+
+import { isReadabilityScored, type PageReadability, type ReadabilityBand, type ReadabilityIssue, type ReadabilityReport, type StoryLanguage } from "@shared/schema";
+
+export const READABILITY_BANDS: Record<string, ReadabilityBand> = {
+  '3-5': { minWords: 20, maxWords: 70, maxSentenceLength: 10, maxGradeLevel: 2 },
+  '6-8': { minWords: 50, maxWords: 120, maxSentenceLength: 14, maxGradeLevel: 4 },
+  '9-12': { minWords: 100, maxWords: 180, maxSentenceLength: 20, maxGradeLevel: 7 },
+};
+
+export const DEFAULT_READABILITY_BAND: ReadabilityBand = { minWords: 100, maxWords: 150, maxSentenceLength: 20, maxGradeLevel: 7 };
+
+export function getReadabilityBand(age?: string | null): ReadabilityBand {
+  return (age && READABILITY_BANDS[age]) || DEFAULT_READABILITY_BAND;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+function getWords(text: string): string[] {
+  return text.match(/[A-Za-z0-9\u00C0-\u024F]+(?:['’][A-Za-z\u00C0-\u024F]+)*/g) || [];
+}
+
+/**
+ * Estimated syllables in an English word: vowel groups, less a silent final "e",
+ * with at least one per word.
+ */
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) {
+    return 1;
+  }
+  const trimmed = letters
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '');
+  const groups = trimmed.match(/[aeiouy]+/g);
+  return Math.max(1, groups ? groups.length : 0);
+}
+
+export function scorePage(pageNumber: number, text: string, band: ReadabilityBand): PageReadability {
+  const words = getWords(text);
+  const wordCount = words.length;
+  // A page without sentence-ending punctuation still counts as one sentence
+  const sentenceCount = wordCount === 0 ? 0 : Math.max(1, (text.match(/[.!?]+(?=\s|["'”’)]|$)/g) || []).length);
+  const averageSentenceLength = sentenceCount === 0 ? 0 : wordCount / sentenceCount;
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  const gradeLevel = wordCount === 0
+    ? 0
+    : Math.max(0, 0.39 * averageSentenceLength + 11.8 * (syllables / wordCount) - 15.59);
+
+  const issues: ReadabilityIssue[] = [];
+  if (wordCount < band.minWords) issues.push('too_short');
+  if (wordCount > band.maxWords) issues.push('too_long');
+  if (averageSentenceLength > band.maxSentenceLength) issues.push('long_sentences');
+  if (gradeLevel > band.maxGradeLevel) issues.push('reading_level');
+
+  return {
+    pageNumber,
+    wordCount,
+    sentenceCount,
+    averageSentenceLength: round(averageSentenceLength),
+    gradeLevel: round(gradeLevel),
+    issues,
+  };
+}
+
+/**
+ * Scores every page of a book, or returns null for a language the rules don't fit (see isReadabilityScored).
+ */
+export function scoreStorybook(
+  pages: Array<{ pageNumber: number; text: string }>,
+  age?: string | null,
+  language?: StoryLanguage | null
+): ReadabilityReport | null {
+  if (!isReadabilityScored(language)) {
+    return null;
+  }
+  const band = getReadabilityBand(age);
+  const scored = pages.map(page => scorePage(page.pageNumber, page.text, band));
+  const averageGradeLevel = scored.length === 0
+    ? 0
+    : scored.reduce((total, page) => total + page.gradeLevel, 0) / scored.length;
+
+  return {
+    age: age || null,
+    band,
+    averageGradeLevel: round(averageGradeLevel),
+    pages: scored,
+  };
+}
+
+/**
+ * What to tell the story model when sending a page that is outside its band back for a rewrite.
+ */
+export function buildRewriteInstruction(page: PageReadability, band: ReadabilityBand, age?: string | null): string {
+  const reader = age ? `children aged ${age}` : 'young readers';
+  const changes: string[] = [];
+  if (page.issues.includes('too_long')) changes.push(`shorten it to at most ${band.maxWords} words (it has ${page.wordCount})`);
+  if (page.issues.includes('too_short')) changes.push(`expand it to at least ${band.minWords} words (it has ${page.wordCount})`);
+  if (page.issues.includes('long_sentences')) changes.push(`use shorter sentences, about ${band.maxSentenceLength} words or fewer each`);
+  if (page.issues.includes('reading_level')) changes.push(`use simpler, more familiar words`);
+
+  return `Rewrite this page so it is easy to read aloud for ${reader}: ${changes.join('; ')}. Keep the same events, characters and details.`;
+}
@@ -0,0 +1,29 @@
+/**
+ * Pure helpers for a user's saved characters: how they are described to the story and
+ * illustration models when they star in a book.
+ */
+
+import type { SavedCharacter } from "@shared/schema";
+
+type DescribedCharacter = Pick<SavedCharacter, 'name' | 'age' | 'appearance' | 'outfit'>;
+
+// "Mia (age 6): curly red hair, freckles; usually wears a yellow raincoat"
+export function describeSavedCharacter(character: DescribedCharacter): string {
+  const age = character.age ? ` (age ${character.age})` : '';
+  const details = [
+    character.appearance,
+    character.outfit ? `usually wears ${character.outfit}` : '',
+  ].filter(Boolean).join('; ');
+  return `${character.name}${age}${details ? `: ${details}` : ''}`;
+}
+
+// The image a saved character is drawn from: the generated portrait when there is one, else the first photo
+export function getSavedCharacterReferenceUrl(character: Pick<SavedCharacter, 'portraitUrl' | 'photoUrls'>): string | undefined {
+  return character.portraitUrl || character.photoUrls[0];
+}
+
+// Prompt for a saved character's canonical portrait, drawn once and reused as the reference in every book
+export function buildPortraitPrompt(character: DescribedCharacter): string {
+  return `A full-body character portrait of ${describeSavedCharacter(character)}. ` +
+    `Standing facing the viewer with a friendly expression, on a plain light background, with nothing else in the picture.`;
+}
@@ -0,0 +1,53 @@
+/**
+ * Pure helpers for book series: sequels continue an earlier book with the same characters and
+ * art style, and every book of a series carries its number on the cover and spine.
+ */
+
+import type { Storybook } from "@shared/schema";
+import { getBookTranslations } from "../book-translations";
+
+type SequelSource = Pick<Storybook, 'title' | 'storyArc' | 'characters' | 'mainCharacterDescription' | 'defaultClothing' | 'pages'>;
+
+// "Book 2" in the language the book is written in
+export function formatSeriesLabel(seriesNumber: number, language?: string | null): string {
+  return getBookTranslations(language).seriesBook.replace('{number}', String(seriesNumber));
+}
+
+/**
+ * Summarises an earlier book for the story model: what happened, how it ended and who the
+ * recurring characters are, so the sequel can refer back to it and keep everyone the same.
+ */
+export function summarizeForSequel(source: SequelSource, seriesNumber: number): string {
+  const lastPage = source.pages[source.pages.length - 1];
+  const cast = source.characters && source.characters.length > 0
+    ? source.characters.map(character => `- ${character.name} (${character.role}): ${character.appearance}; usually wears ${character.clothing}`)
+    : source.mainCharacterDescription
+      ? [`- Main character: ${source.mainCharacterDescription}${source.defaultClothing ? `; usually wears ${source.defaultClothing}` : ''}`]
+      : [];
+
+  const lines = [`This story is book ${seriesNumber} of a series. It is a sequel to "${source.title}".`];
+  if (source.storyArc) {
+    lines.push(`What happened in "${source.title}": ${source.storyArc}`);
+  }
+  if (lastPage?.text) {
+    lines.push(`How it ended: ${lastPage.text}`);
+  }
+  if (cast.length > 0) {
+    lines.push(`Recurring characters - keep their names, looks and clothing exactly the same:\n${cast.join('\n')}`);
+  }
+  lines.push('Refer back to the earlier adventure once or twice (a memory, a familiar place or object), but tell a new story that is complete on its own.');
+
+  return lines.join('\n');
+}
+
+// The prompt a sequel is written from: the earlier story first, then the customer's idea for this one
+export function buildSequelPrompt(previousStory: string, idea: string): string {
+  return `${previousStory}\n\nIDEA FOR THIS BOOK: ${idea}`;
+}
+
+// Default spine text for printed books of a series, e.g. "The Lost Kite · Book 2"
+export function getSeriesSpineText(storybook: Pick<Storybook, 'title' | 'language' | 'seriesNumber'>): string {
+  return storybook.seriesNumber
+    ? `${storybook.title} · ${formatSeriesLabel(storybook.seriesNumber, storybook.language)}`
+    : '';
+}
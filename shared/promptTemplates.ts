@@ -0,0 +1,115 @@
+// Templated sample prompts: {placeholders} in the prompt text are replaced by the values of
+// the template's personalization fields. Optional fields sit in a [bracketed section] holding the
+// words that go with them, e.g. "A story for {childName}[ in {city}].", and the whole section is
+// dropped when they are left empty. Shared so the create form previews exactly the prompt the
+// server assembles.
+
+import type { PromptTemplateField } from "./schema";
+
+const PLACEHOLDER_PATTERN = /\{([a-zA-Z][a-zA-Z0-9]*)\}/g;
+const OPTIONAL_SECTION_PATTERN = /\[([^\[\]]*)\]/g;
+
+// Letters (any script), spaces, hyphens, apostrophes and dots, e.g. "Mary-Jane O'Neil"
+const NAME_PATTERN = new RegExp("^[\\p{L}\\p{M}][\\p{L}\\p{M} .'’-]*$", "u");
+
+const DEFAULT_MAX_LENGTH = 60;
+
+// Keys of the placeholders used in a prompt, in order of first use
+export function getTemplatePlaceholders(prompt: string): string[] {
+  const keys = Array.from(prompt.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+  return Array.from(new Set(keys));
+}
+
+/**
+ * Checks that a template's fields and placeholders line up: every placeholder has a field,
+ * every field is used, keys are unique, and optional fields only appear in [sections] so the
+ * prompt still reads correctly without them. Returns the first problem, or null.
+ */
+export function findTemplateDefinitionError(prompt: string, fields: PromptTemplateField[]): string | null {
+  const keys = fields.map(field => field.key);
+  const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+  if (duplicate) {
+    return `The field {${duplicate}} is defined twice`;
+  }
+
+  const placeholders = getTemplatePlaceholders(prompt);
+  const undefinedPlaceholder = placeholders.find(key => !keys.includes(key));
+  if (undefinedPlaceholder) {
+    return `The placeholder {${undefinedPlaceholder}} has no field`;
+  }
+  const unusedField = fields.find(field => !placeholders.includes(field.key));
+  if (unusedField) {
+    return `The field {${unusedField.key}} is not used in the prompt`;
+  }
+  const outsideSections = getTemplatePlaceholders(prompt.replace(OPTIONAL_SECTION_PATTERN, ''));
+  const looseOptionalField = fields.find(field => !field.required && outsideSections.includes(field.key));
+  if (looseOptionalField) {
+    return `The optional field {${looseOptionalField.key}} must be inside [brackets] with the words that go with it`;
+  }
+  return null;
+}
+
+// Why a value is not acceptable for a field, or null when it is
+export function findFieldValueError(field: PromptTemplateField, value: string): string | null {
+  if (!value) {
+    return field.required ? `Please fill in ${field.label}` : null;
+  }
+  if (value.length > (field.maxLength ?? DEFAULT_MAX_LENGTH)) {
+    return `${field.label} must be ${field.maxLength ?? DEFAULT_MAX_LENGTH} characters or less`;
+  }
+  switch (field.type) {
+    case 'name':
+      return NAME_PATTERN.test(value) ? null : `${field.label} should only contain letters`;
+    case 'number':
+      return /^\d{1,4}$/.test(value) ? null : `${field.label} must be a whole number`;
+    case 'select':
+      return field.options?.includes(value) ? null : `Please choose one of the options for ${field.label}`;
+    default:
+      return null;
+  }
+}
+
+export class InvalidTemplateValuesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidTemplateValuesError';
+    Object.setPrototypeOf(this, InvalidTemplateValuesError.prototype);
+  }
+}
+
+/**
+ * Assembles the story prompt from a template and the customer's field values. Values are
+ * trimmed; a [section] is kept only when all its fields are filled in. Throws
+ * InvalidTemplateValuesError for the first value that does not fit its field.
+ */
+export function fillPromptTemplate(prompt: string, fields: PromptTemplateField[], values: Record<string, unknown>): string {
+  const cleaned = new Map<string, string>();
+  for (const field of fields) {
+    const raw = values[field.key];
+    const value = typeof raw === 'string' ? raw.trim().replace(/\s+/g, ' ') : '';
+    const error = findFieldValueError(field, value);
+    if (error) {
+      throw new InvalidTemplateValuesError(error);
+    }
+    cleaned.set(field.key, value);
+  }
+
+  return prompt
+    .replace(OPTIONAL_SECTION_PATTERN, (_section, text: string) =>
+      getTemplatePlaceholders(text).every(key => cleaned.get(key)) ? text : '')
+    .replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => cleaned.has(key) ? cleaned.get(key)! : placeholder)
+    .replace(/ {2,}/g, ' ')
+    .replace(/ ([,.!?])/g, '$1')
+    .trim();
+}
+
+// The prompt as the customer fills in the form: empty fields show as [Label], with their sections
+export function previewPromptTemplate(prompt: string, fields: PromptTemplateField[], values: Record<string, string>): string {
+  return prompt.replace(OPTIONAL_SECTION_PATTERN, '$1').replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => {
+    const field = fields.find(f => f.key === key);
+    if (!field) {
+      return placeholder;
+    }
+    return values[key]?.trim() || `[${field.label}]`;
+  });
+}
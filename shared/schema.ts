@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, json, timestamp, index, jsonb, numeric, unique, boolean, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, json, timestamp, index, jsonb, numeric, unique, boolean, integer, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -36,29 +36,133 @@ export const users = pgTable("users", {
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
+// A recurring character in a storybook. The first character is the main character;
+// pages list the ids of the characters that appear in them.
+export interface StoryCharacter {
+  id: string;
+  name: string;
+  role: string; // e.g. "main character", "older sister", "pet dog"
+  appearance: string;
+  clothing: string;
+  referenceImageIndex?: number; // Index into the inspiration images showing this character
+  referenceImageUrl?: string;
+}
+
+// What happens on a page, as planned by the story model alongside the page's image prompt
+export interface PageScene {
+  mainAction: string;
+  setting: string;
+  keyObjects: string[];
+  emotionalTone: string;
+}
+
+export interface StorybookPage {
+  pageNumber: number;
+  text: string;
+  imageUrl: string;
+  imagePrompt: string;
+  characterIds?: string[]; // Characters appearing on this page (absent on books created before casts)
+  scene?: PageScene; // Absent on books created before scenes were stored
+  secondaryText?: string; // Page text in the book's secondary language (bilingual books only)
+  userSupplied?: boolean; // The illustration was uploaded by the owner, so it is never redrawn
+}
+
+// Reading level of a book's text, scored against the band for the reader age chosen at creation
+export interface ReadabilityBand {
+  minWords: number; // Per page
+  maxWords: number;
+  maxSentenceLength: number; // Average words per sentence
+  maxGradeLevel: number; // Flesch-Kincaid grade
+}
+
+export type ReadabilityIssue = 'too_short' | 'too_long' | 'long_sentences' | 'reading_level';
+
+export interface PageReadability {
+  pageNumber: number;
+  wordCount: number;
+  sentenceCount: number;
+  averageSentenceLength: number;
+  gradeLevel: number;
+  issues: ReadabilityIssue[]; // Empty when the page fits the band
+}
+
+export interface ReadabilityReport {
+  age: string | null;
+  band: ReadabilityBand;
+  averageGradeLevel: number;
+  pages: PageReadability[];
+}
+
+// Word counts and grade levels follow English rules, so books in other languages are not scored
+export function isReadabilityScored(language?: StoryLanguage | null): boolean {
+  return !language || language === 'en';
+}
+
+// 'draft' books have text only and no illustrations until the owner starts the illustrate step
+export type StorybookStatus = 'draft' | 'illustrating' | 'complete';
+
+// 'pending' books have not finished the automated content checks yet; 'clear' books passed them
+// (or predate them); 'flagged' books wait in the admin review queue. Only clear and approved books
+// reach the public gallery.
+export type ModerationStatus = 'pending' | 'clear' | 'flagged' | 'approved' | 'rejected';
+
+// Languages a story can be written in - the same locales the site itself is translated into
+export const STORY_LANGUAGES = ['en', 'es', 'fr', 'de', 'zh'] as const;
+export type StoryLanguage = typeof STORY_LANGUAGES[number];
+
+// English names of the story languages, used in generation prompts
+export const STORY_LANGUAGE_NAMES: Record<StoryLanguage, string> = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  zh: 'Simplified Chinese',
+};
+
+export function isStoryLanguage(value: unknown): value is StoryLanguage {
+  return typeof value === 'string' && (STORY_LANGUAGES as readonly string[]).includes(value);
+}
+
+// Reader age groups a story can be written for
+export const STORY_AGES = ['3-5', '6-8', '9-12'] as const;
+export type StoryAge = typeof STORY_AGES[number];
+
 export const storybooks = pgTable("storybooks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id, { onDelete: 'cascade' }),
   title: text("title").notNull(),
   author: text("author"),
   age: text("age"),
+  language: text("language").$type<StoryLanguage>().notNull().default('en'), // Language the story text, cover and book pages are written in
+  secondaryLanguage: text("secondary_language").$type<StoryLanguage>(), // Set on bilingual books: every page also carries its text in this language
+  sourceStorybookId: varchar("source_storybook_id").references((): AnyPgColumn => storybooks.id, { onDelete: 'set null' }), // Set on translated editions: the original book they share illustrations with
+  seriesId: varchar("series_id"), // Books of a series share this id (the first book's id, kept when that book is deleted)
+  seriesNumber: integer("series_number"), // Place of the book in its series, from 1
+  seriesLastNumber: integer("series_last_number"), // On a series' first book: the last number handed to a sequel
   prompt: text("prompt").notNull(),
-  pages: json("pages").$type<Array<{
-    pageNumber: number;
-    text: string;
-    imageUrl: string;
-    imagePrompt: string;
-  }>>().notNull(),
+  pages: json("pages").$type<StorybookPage[]>().notNull(),
   inspirationImages: json("inspiration_images").$type<string[]>().notNull().default([]),
+  styleReferenceImages: json("style_reference_images").$type<string[]>().notNull().default([]), // Sample pictures whose palette and technique every illustration borrows
   coverImageUrl: text("cover_image_url"),
   backCoverImageUrl: text("back_cover_image_url"),
+  coverImageUserSupplied: boolean("cover_image_user_supplied").notNull().default(false), // Owner uploaded the cover; it is never redrawn
+  backCoverImageUserSupplied: boolean("back_cover_image_user_supplied").notNull().default(false),
+  characterSheetUrl: text("character_sheet_url"), // Turnaround of the cast in the book's art style, the main reference for every illustration
+  coverImagePrompt: text("cover_image_prompt"),
+  status: text("status").$type<StorybookStatus>().notNull().default('complete'),
   mainCharacterDescription: text("main_character_description"),
   defaultClothing: text("default_clothing"),
+  characters: json("characters").$type<StoryCharacter[]>(),
   storyArc: text("story_arc"),
-  artStyle: text("art_style"),
+  artStyle: text("art_style"), // Resolved style prompt every illustration is drawn in
+  illustrationStyleId: varchar("illustration_style_id").references((): AnyPgColumn => illustrationStyles.id, { onDelete: 'set null' }), // Catalog style artStyle came from; null for custom styles
+  samplePromptId: varchar("sample_prompt_id").references((): AnyPgColumn => samplePrompts.id, { onDelete: 'set null' }), // Templated sample prompt the story was written from
   orientation: text("orientation").default('portrait'),
+  bookLength: text("book_length"), // Id of the book length option picked on the create form
+  readability: json("readability").$type<ReadabilityReport>(), // Absent on books created before reading levels were scored
   foreword: varchar("foreword", { length: 500 }),
   isPublic: boolean("is_public").notNull().default(false),
+  moderationStatus: text("moderation_status").$type<ModerationStatus>().notNull().default('clear'), // New books are inserted as 'pending'
   shareCount: numeric("share_count").notNull().default('0'),
   viewCount: numeric("view_count").notNull().default('0'),
   createdAt: timestamp("created_at").defaultNow(),
@@ -67,6 +171,8 @@ export const storybooks = pgTable("storybooks", {
 }, (table) => [
   index("idx_storybooks_user_deleted").on(table.userId, table.deletedAt),
   index("idx_storybooks_public").on(table.isPublic, table.createdAt),
+  index("idx_storybooks_source").on(table.sourceStorybookId),
+  index("idx_storybooks_series").on(table.seriesId),
 ]);
 
 export const insertStorybookSchema = createInsertSchema(storybooks).omit({
@@ -75,29 +181,350 @@ export const insertStorybookSchema = createInsertSchema(storybooks).omit({
   shareUrl: true,
   deletedAt: true,
   isPublic: true,
+  moderationStatus: true,
   shareCount: true,
   viewCount: true,
 });
 
+// Pages of the previous book a sequel can use as illustration references, besides its cover
+export const MAX_SEQUEL_REFERENCE_PAGES = 2;
+
+// Saved characters that can star in one book, and reference photos kept per saved character
+export const MAX_SAVED_CHARACTERS_PER_BOOK = 4;
+export const MAX_CHARACTER_PHOTOS = 3;
+
+// Style references uploaded on the create form, separate from the character photos
+export const MAX_STYLE_REFERENCE_IMAGES = 2;
+
+// Options drawn for one illustration when the owner wants to choose, and how long unchosen ones are kept
+export const MIN_ILLUSTRATION_CANDIDATES = 2;
+export const MAX_ILLUSTRATION_CANDIDATES = 4;
+export const ILLUSTRATION_CANDIDATE_RETENTION_DAYS = 14;
+
 export const createStorybookSchema = z.object({
   prompt: z.string().min(10, "Story prompt must be at least 10 characters"),
   author: z.string().optional(),
-  age: z.enum(["3-5", "6-8", "9-12"]).optional(),
+  age: z.enum(STORY_AGES).optional(),
   illustrationStyle: z.string().optional(),
+  illustrationStyleId: z.string().optional(), // Catalog style; replaces illustrationStyle with its prompt
+  samplePromptId: z.string().optional(), // Templated sample prompt; the story prompt is assembled from its fields
   inspirationImages: z.array(z.string()).min(0).max(5, "Maximum 5 images allowed"),
+  styleReferenceImages: z.array(z.string()).max(MAX_STYLE_REFERENCE_IMAGES, `Maximum ${MAX_STYLE_REFERENCE_IMAGES} style pictures allowed`).optional(),
+  draftMode: z.boolean().optional(),
+  bookLength: z.string().max(30).optional(),
+  language: z.enum(STORY_LANGUAGES).optional(),
+  secondaryLanguage: z.enum(STORY_LANGUAGES).optional(), // Makes the book bilingual
+  sequelOf: z.string().optional(), // Continues this storybook as the next book of its series
+  sequelPageNumbers: z.array(z.number().int().positive()).max(MAX_SEQUEL_REFERENCE_PAGES, `Pick at most ${MAX_SEQUEL_REFERENCE_PAGES} pages to carry over`).optional(),
+  savedCharacterIds: z.array(z.string()).max(MAX_SAVED_CHARACTERS_PER_BOOK, `Pick at most ${MAX_SAVED_CHARACTERS_PER_BOOK} saved characters`).optional(),
+  illustrationCandidates: z.number().int().min(MIN_ILLUSTRATION_CANDIDATES).max(MAX_ILLUSTRATION_CANDIDATES).optional(), // Options drawn per illustration, when offered at creation
+}).refine(data => !data.secondaryLanguage || data.secondaryLanguage !== (data.language ?? 'en'), {
+  message: "The second language must differ from the story language",
+  path: ["secondaryLanguage"],
+});
+
+// Turn a book into a bilingual one (or back, with null)
+export const updateBilingualSchema = z.object({
+  secondaryLanguage: z.enum(STORY_LANGUAGES).nullable(),
+});
+
+export const translateStorybookSchema = z.object({
+  language: z.enum(STORY_LANGUAGES),
+  regenerateCover: z.boolean().optional(), // Redraw the cover with the translated title instead of reusing the original
+});
+
+// Longest story the create form offers; longer books are written in batches
+export const MAX_STORY_PAGES = 24;
+
+// A book length customers can pick on the create form (site setting 'book_lengths').
+// Prices are in cents; when omitted the global digital/print prices apply.
+export const bookLengthOptionSchema = z.object({
+  id: z.string().trim().min(1).max(30).regex(/^[a-z0-9-]+$/, "Length ids may only contain lowercase letters, numbers and dashes"),
+  label: z.string().trim().min(1, "Label is required").max(50),
+  pages: z.number().int().min(1).max(MAX_STORY_PAGES, `Books can have at most ${MAX_STORY_PAGES} pages`),
+  digitalPrice: z.number().int().nonnegative().optional(),
+  printPrice: z.number().int().nonnegative().optional(),
+});
+
+export const bookLengthOptionsSchema = z.array(bookLengthOptionSchema)
+  .min(1, "At least one book length is required")
+  .max(6)
+  .refine(options => new Set(options.map(option => option.id)).size === options.length, "Book length ids must be unique");
+
+export type BookLengthOption = z.infer<typeof bookLengthOptionSchema>;
+
+// A book length as offered publicly, with the global prices filled in where it doesn't override them
+export type PricedBookLength = Required<BookLengthOption>;
+
+// Owner edits to a draft storybook before it is illustrated
+export const updateStorybookDraftSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  storyArc: z.string().max(2000).optional(),
+  characters: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().trim().min(1).max(100),
+    role: z.string().max(100),
+    appearance: z.string().max(1000),
+    clothing: z.string().max(500),
+  })).max(10).optional(),
+  pages: z.array(z.object({
+    pageNumber: z.number().int().positive(),
+    text: z.string().trim().min(1, "Page text cannot be empty").max(3000),
+    imagePrompt: z.string().trim().min(1, "Scene description cannot be empty").max(2000),
+  })).min(1),
+});
+
+export type UpdateStorybookDraft = z.infer<typeof updateStorybookDraftSchema>;
+
+// What a page regeneration rewrites: only the text, only the illustration, or both
+export const pageRegenerationModes = ['text', 'image', 'both'] as const;
+export type PageRegenerationMode = typeof pageRegenerationModes[number];
+
+export const regeneratePageSchema = z.object({
+  pageNumber: z.number({ required_error: "Valid page number is required" }).int().positive(),
+  mode: z.enum(pageRegenerationModes).default('both'),
+  instruction: z.string().trim().max(500, "Instruction must be 500 characters or less").optional(),
+});
+
+export type RegeneratePageRequest = z.infer<typeof regeneratePageSchema>;
+
+// Owner-supplied artwork (a child's drawing, a photo) replacing an illustration. Sent as multipart
+// form fields, so the page number arrives as a string.
+export const ARTWORK_TARGETS = ['page', 'cover', 'back_cover'] as const;
+export type ArtworkTarget = typeof ARTWORK_TARGETS[number];
+
+export const uploadArtworkSchema = z.object({
+  target: z.enum(ARTWORK_TARGETS, { errorMap: () => ({ message: "Choose a page, the cover or the back cover" }) }),
+  pageNumber: z.coerce.number().int().positive().optional(),
+}).refine(data => data.target !== 'page' || data.pageNumber !== undefined, {
+  message: "Valid page number is required",
+  path: ['pageNumber'],
 });
 
+// Instruction-based edit of a page's current illustration, e.g. "make the dog brown"
+export const editPageImageSchema = z.object({
+  pageNumber: z.number({ required_error: "Valid page number is required" }).int().positive(),
+  instruction: z.string().trim().min(1, "Please describe what to change").max(500, "Instruction must be 500 characters or less"),
+});
+
+// Page management - positions and page numbers are 1-based
+export const addPageSchema = z.object({
+  position: z.number({ required_error: "Position is required" }).int().positive(),
+  instruction: z.string().trim().max(500, "Instruction must be 500 characters or less").optional(),
+});
+
+export const reorderPagesSchema = z.object({
+  order: z.array(z.number().int().positive()).min(1, "Page order is required"),
+});
+
+export type AddPageRequest = z.infer<typeof addPageSchema>;
+export type ReorderPagesRequest = z.infer<typeof reorderPagesSchema>;
+
 export type InsertStorybook = z.infer<typeof insertStorybookSchema>;
 export type Storybook = typeof storybooks.$inferSelect;
 export type CreateStorybookRequest = z.infer<typeof createStorybookSchema>;
 
 export interface StoryGenerationProgress {
-  step: 'processing_images' | 'generating_story' | 'generating_illustrations' | 'finalizing';
+  step: 'queued' | 'processing_images' | 'generating_story' | 'generating_illustrations' | 'finalizing';
   progress: number;
   message: string;
   error?: string;
+  queuePosition?: number; // 1-based position while step is 'queued'
+  storybookId?: string; // Set once generation has completed
 }
 
+// Typed events pushed by GET /api/generation/:sessionId/events (Server-Sent Events)
+export type GenerationStreamEvent =
+  | { type: 'progress'; progress: StoryGenerationProgress }
+  | { type: 'story_outline'; title: string; pages: Array<{ pageNumber: number; text: string }> }
+  | { type: 'page_illustration'; pageNumber: number; imageUrl: string }
+  | { type: 'back_cover'; imageUrl: string }
+  | { type: 'final_cover'; imageUrl: string }
+  | { type: 'completed'; storybookId: string }
+  | { type: 'failed'; error: string };
+
+// Page Revisions - the previous version of a page, saved whenever the page is replaced so it can be restored.
+// changeType, instruction, createdBy and createdAt describe the change that replaced this version.
+export type PageRevisionChangeType = `regenerate_${PageRegenerationMode}` | 'edit_image' | 'upload' | 'revert' | 'candidate';
+
+export const pageRevisions = pgTable("page_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  storybookId: varchar("storybook_id").notNull().references(() => storybooks.id, { onDelete: 'cascade' }),
+  pageNumber: integer("page_number").notNull(),
+  text: text("text").notNull(),
+  imageUrl: text("image_url").notNull(),
+  imagePrompt: text("image_prompt").notNull(),
+  characterIds: json("character_ids").$type<string[]>(),
+  scene: json("scene").$type<PageScene>(),
+  imageUserSupplied: boolean("image_user_supplied").notNull().default(false),
+  changeType: varchar("change_type").$type<PageRevisionChangeType>().notNull(),
+  instruction: text("instruction"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_page_revisions_storybook_page").on(table.storybookId, table.pageNumber, table.createdAt),
+]);
+
+export type PageRevision = typeof pageRevisions.$inferSelect;
+export type InsertPageRevision = typeof pageRevisions.$inferInsert;
+
+// Who made a change to a page and why, recorded alongside the version it replaces
+export type PageRevisionChange = Pick<InsertPageRevision, 'changeType' | 'instruction' | 'createdBy'>;
+
+// Illustration Candidates - alternative images drawn for a page or the cover, side by side with the
+// current one until the owner picks. Candidates drawn together share a batchId; those not chosen are
+// deleted ILLUSTRATION_CANDIDATE_RETENTION_DAYS after the owner decided, and undecided ones are kept.
+export const ILLUSTRATION_TARGETS = ['page', 'cover'] as const;
+export type IllustrationTarget = typeof ILLUSTRATION_TARGETS[number];
+export type IllustrationCandidateStatus = 'pending' | 'chosen' | 'rejected';
+export type IllustrationCandidateSource = 'creation' | 'viewer';
+
+export const illustrationCandidates = pgTable("illustration_candidates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  storybookId: varchar("storybook_id").notNull().references(() => storybooks.id, { onDelete: 'cascade' }),
+  target: text("target").$type<IllustrationTarget>().notNull(),
+  pageNumber: integer("page_number"), // Null for the cover
+  batchId: varchar("batch_id").notNull(),
+  imageUrl: text("image_url").notNull(),
+  imagePrompt: text("image_prompt").notNull(), // Scene the candidate was drawn from
+  source: text("source").$type<IllustrationCandidateSource>().notNull(),
+  status: text("status").$type<IllustrationCandidateStatus>().notNull().default('pending'),
+  createdAt: timestamp("created_at").defaultNow(),
+  decidedAt: timestamp("decided_at"),
+}, (table) => [
+  index("idx_illustration_candidates_storybook").on(table.storybookId, table.status),
+  index("idx_illustration_candidates_batch").on(table.batchId),
+  index("idx_illustration_candidates_status_created").on(table.status, table.createdAt),
+]);
+
+export type IllustrationCandidate = typeof illustrationCandidates.$inferSelect;
+export type InsertIllustrationCandidate = typeof illustrationCandidates.$inferInsert;
+
+const illustrationCandidateCountSchema = z.number().int()
+  .min(MIN_ILLUSTRATION_CANDIDATES, `Draw at least ${MIN_ILLUSTRATION_CANDIDATES} options`)
+  .max(MAX_ILLUSTRATION_CANDIDATES, `Draw at most ${MAX_ILLUSTRATION_CANDIDATES} options`);
+
+export const requestIllustrationCandidatesSchema = z.object({
+  target: z.enum(ILLUSTRATION_TARGETS),
+  pageNumber: z.number().int().positive().optional(),
+  count: illustrationCandidateCountSchema,
+}).refine(data => data.target === 'cover' || data.pageNumber !== undefined, {
+  message: "Choose the page to draw options for",
+  path: ["pageNumber"],
+});
+
+// candidateId null keeps the current illustration and rejects the whole batch
+export const chooseIllustrationCandidateSchema = z.object({
+  batchId: z.string().min(1),
+  candidateId: z.string().nullable(),
+});
+
+// Saved Characters - a user's recurring characters (e.g. their child), reused across books instead
+// of uploading photos and retyping descriptions every time
+export const savedCharacters = pgTable("saved_characters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text("name").notNull(),
+  age: text("age"), // Free text, e.g. "6" or "grandma"
+  appearance: text("appearance").notNull().default(''),
+  outfit: text("outfit").notNull().default(''), // What the character usually wears
+  photoUrls: json("photo_urls").$type<string[]>().notNull().default([]), // Reference photos in object storage
+  portraitUrl: text("portrait_url"), // Generated canonical portrait, preferred as the illustration reference
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_saved_characters_user").on(table.userId),
+]);
+
+export const savedCharacterSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(60),
+  age: z.string().trim().max(20).optional(),
+  appearance: z.string().trim().max(500, "Appearance notes must be 500 characters or less").default(''),
+  outfit: z.string().trim().max(300, "Outfit must be 300 characters or less").default(''),
+});
+
+export type SavedCharacter = typeof savedCharacters.$inferSelect;
+export type InsertSavedCharacter = typeof savedCharacters.$inferInsert;
+
+// Generation Jobs - durable queue for storybook generation
+// Status flow: queued -> running -> completed | failed (running jobs with an expired lease are reclaimed)
+export const generationJobs = pgTable("generation_jobs", {
+  id: varchar("id").primaryKey(), // Session ID polled by the client
+  userId: varchar("user_id").references(() => users.id, { onDelete: 'cascade' }),
+  status: varchar("status").notNull().default('queued'), // queued, running, completed, failed
+  currentStep: varchar("current_step"), // inspiration, story, cover, pages, back_cover, final_cover, finalize
+  params: jsonb("params").$type<GenerationJobParams>().notNull(),
+  checkpoint: jsonb("checkpoint").$type<GenerationJobCheckpoint>().notNull().default({}),
+  progress: jsonb("progress").$type<StoryGenerationProgress>(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  leaseOwner: varchar("lease_owner"),
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  lastError: text("last_error"),
+  storybookId: varchar("storybook_id").references(() => storybooks.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_generation_jobs_status_created").on(table.status, table.createdAt),
+  index("idx_generation_jobs_lease").on(table.status, table.leaseExpiresAt),
+]);
+
+// Everything the worker needs to (re)start a job, captured when the request is accepted
+export interface GenerationJobParams {
+  prompt: string;
+  author: string;
+  age?: string;
+  language?: StoryLanguage; // Absent on jobs queued before stories could be written in other languages
+  secondaryLanguage?: StoryLanguage; // Bilingual books: pages are translated into this language once the story is final
+  series?: {
+    seriesId: string;
+    seriesNumber: number;
+    previousStory: string; // Summary of the earlier book(s) the story is written to follow on from
+  };
+  imagePaths: string[];
+  styleImagePaths?: string[]; // Style reference pictures, kept apart from the character photos in imagePaths
+  pagesPerBook: number;
+  bookLength?: string; // Id of the book length option pagesPerBook came from
+  illustrationStyle: string;
+  illustrationStyleId?: string; // Catalog style illustrationStyle was resolved from
+  samplePromptId?: string; // Templated sample prompt the prompt was assembled from
+  foreword?: string;
+  characterDescriptions: string[];
+  draftMode?: boolean; // Stop after the story step and save a text-only draft storybook
+  draftStorybookId?: string; // Illustrate this existing draft instead of creating a new storybook
+  illustrationCandidates?: number; // Options drawn per page and for the cover (the first one is used until the owner picks)
+}
+
+// Results of completed steps - a resumed job skips every step already recorded here
+export interface GenerationJobCheckpoint {
+  inspirationImageUrls?: string[];
+  styleReferenceUrls?: string[];
+  story?: {
+    title: string;
+    author: string;
+    coverImagePrompt: string;
+    mainCharacterDescription: string;
+    defaultClothing: string;
+    characters?: StoryCharacter[];
+    storyArc: string;
+    artStyle?: string;
+    pages: Array<{ pageNumber: number; text: string; imagePrompt: string; characterIds?: string[]; scene?: PageScene }>;
+  };
+  characterSheetUrl?: string;
+  cleanCoverUrl?: string;
+  orientation?: 'portrait' | 'landscape';
+  pageImageUrls?: Record<string, string>; // pageNumber -> imageUrl
+  backCoverImageUrl?: string;
+  coverImageUrl?: string;
+  illustrationCandidates?: Record<string, { imagePrompt: string; imageUrls: string[] }>; // 'cover' or pageNumber -> extra options drawn
+  storybookId?: string; // Set as soon as the storybook row exists so a resume never creates a duplicate
+}
+
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type InsertGenerationJob = typeof generationJobs.$inferInsert;
+
 export const purchases = pgTable("purchases", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").references(() => users.id, { onDelete: 'cascade' }),
@@ -275,11 +702,68 @@ export const adminAuditLogs = pgTable("admin_audit_logs", {
 export type AdminAuditLog = typeof adminAuditLogs.$inferSelect;
 export type InsertAdminAuditLog = typeof adminAuditLogs.$inferInsert;
 
-// Sample Prompts - pre-made story ideas for users to get started
+// Moderation Flags - content the automated checks could not clear, queued for admin review.
+// Approving every flag on a book approves the book; rejecting any flag rejects it.
+export type ModerationSource = 'prompt' | 'character_description' | 'page_text' | 'page_image' | 'cover_image' | 'back_cover_image' | 'uploaded_image';
+export type ModerationFlagStatus = 'pending' | 'approved' | 'rejected';
+
+export const moderationFlags = pgTable("moderation_flags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  storybookId: varchar("storybook_id").notNull().references(() => storybooks.id, { onDelete: 'cascade' }),
+  source: varchar("source").$type<ModerationSource>().notNull(),
+  pageNumber: integer("page_number"),
+  content: text("content").notNull(), // The flagged text, or the URL of the flagged image
+  reason: text("reason").notNull(),
+  matchedTerms: json("matched_terms").$type<string[]>().notNull().default([]),
+  status: varchar("status").$type<ModerationFlagStatus>().notNull().default('pending'),
+  reviewedBy: varchar("reviewed_by").references(() => adminUsers.id, { onDelete: 'set null' }),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_moderation_flags_status").on(table.status, table.createdAt),
+  index("idx_moderation_flags_storybook").on(table.storybookId),
+]);
+
+export type ModerationFlag = typeof moderationFlags.$inferSelect;
+export type InsertModerationFlag = typeof moderationFlags.$inferInsert;
+
+// A flag in the admin review queue, with the book it belongs to
+export type ModerationQueueItem = ModerationFlag & {
+  storybook: Pick<Storybook, 'id' | 'title' | 'userId' | 'coverImageUrl' | 'isPublic' | 'moderationStatus'>;
+};
+
+export const reviewModerationFlagSchema = z.object({
+  decision: z.enum(['approved', 'rejected']),
+  note: z.string().trim().max(500).optional(),
+});
+
+// Kinds of personalization field a templated sample prompt can ask for
+export const PROMPT_FIELD_TYPES = ['text', 'name', 'number', 'select'] as const;
+export type PromptFieldType = typeof PROMPT_FIELD_TYPES[number];
+
+// A personalization field of a templated sample prompt; its value replaces {key} in the prompt
+export const promptTemplateFieldSchema = z.object({
+  key: z.string().regex(/^[a-zA-Z][a-zA-Z0-9]*$/, "Field keys are letters and digits, e.g. childName"),
+  label: z.string().trim().min(1, "Every field needs a label").max(60),
+  type: z.enum(PROMPT_FIELD_TYPES),
+  required: z.boolean().default(true),
+  maxLength: z.number().int().min(1).max(200).optional(),
+  options: z.array(z.string().trim().min(1).max(60)).max(20).optional(), // Choices of a 'select' field
+  placeholder: z.string().max(60).optional(),
+}).refine(field => field.type !== 'select' || (field.options && field.options.length > 0), {
+  message: "Choice fields need at least one option",
+  path: ["options"],
+});
+
+export type PromptTemplateField = z.infer<typeof promptTemplateFieldSchema>;
+
+// Sample Prompts - pre-made story ideas for users to get started. Prompts with fields are
+// templates: their {placeholders} are filled in from the create form
 export const samplePrompts = pgTable("sample_prompts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
   prompt: text("prompt").notNull(),
+  fields: json("fields").$type<PromptTemplateField[]>().notNull().default([]),
   ageRange: varchar("age_range").notNull(),
   isActive: boolean("is_active").notNull().default(true),
   displayOrder: numeric("display_order").notNull().default('0'),
@@ -290,7 +774,9 @@ export const samplePrompts = pgTable("sample_prompts", {
   index("idx_sample_prompts_active_order").on(table.isActive, table.displayOrder),
 ]);
 
-export const insertSamplePromptSchema = createInsertSchema(samplePrompts).omit({
+export const insertSamplePromptSchema = createInsertSchema(samplePrompts, {
+  fields: z.array(promptTemplateFieldSchema),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -299,6 +785,36 @@ export const insertSamplePromptSchema = createInsertSchema(samplePrompts).omit({
 export type SamplePrompt = typeof samplePrompts.$inferSelect;
 export type InsertSamplePrompt = z.infer<typeof insertSamplePromptSchema>;
 
+// Illustration Styles - the art styles offered on the create page, managed by admins
+export const illustrationStyles = pgTable("illustration_styles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  promptFragment: text("prompt_fragment").notNull(), // How the style is described to the image model
+  negativePrompt: text("negative_prompt").notNull().default(''), // What illustrations in this style must avoid
+  exampleImageUrl: text("example_image_url"),
+  displayOrder: integer("display_order").notNull().default(0),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  allowedAges: json("allowed_ages").$type<StoryAge[]>().notNull().default([]), // Empty: offered for every age group
+  updatedBy: varchar("updated_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_illustration_styles_enabled_order").on(table.isEnabled, table.displayOrder),
+]);
+
+export const illustrationStyleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(80),
+  promptFragment: z.string().trim().min(5, "Prompt fragment must be at least 5 characters").max(500),
+  negativePrompt: z.string().trim().max(500).default(''),
+  exampleImageUrl: z.string().trim().max(500).nullable().optional(),
+  displayOrder: z.number().int().default(0),
+  isEnabled: z.boolean().default(true),
+  allowedAges: z.array(z.enum(STORY_AGES)).default([]),
+});
+
+export type IllustrationStyle = typeof illustrationStyles.$inferSelect;
+export type InsertIllustrationStyle = typeof illustrationStyles.$inferInsert;
+
 // Analytics Events - track user actions and engagement
 export const analyticsEvents = pgTable("analytics_events", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
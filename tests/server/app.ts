@@ -6,8 +6,8 @@ import { registerRoutes } from '@server/routes';
 // To avoid conflicts, tests should use unique identifiers (timestamps, UUIDs, etc.)
 
 // Mock external services before importing routes
-vi.mock('@server/services/gemini', () => ({
-  generateStoryFromPrompt: vi.fn(async (prompt: string, inspirationImages: string[], pagesPerBook: number) => ({
+vi.mock('@server/services/gemini', () => {
+  const generateStoryFromPrompt = vi.fn(async (prompt: string, inspirationImages: string[], pagesPerBook: number) => ({
     title: 'Test Story Title',
     author: 'AI Storybook',
     coverImagePrompt: 'A beautiful story cover with the main character',
@@ -20,12 +20,20 @@ vi.mock('@server/services/gemini', () => ({
       text: `This is page ${i + 1} of the story.`,
       imagePrompt: `Scene showing the character in situation ${i + 1}`,
     })),
-  })),
-  generateIllustration: vi.fn(async (prompt: string) => {
-    return 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
-  }),
-  optimizeImageForWeb: vi.fn(async (imageBuffer: Buffer) => imageBuffer),
-}));
+  }));
+
+  return {
+    STORY_BATCH_PAGES: 8,
+    generateStoryFromPrompt,
+    generateStoryInBatches: vi.fn(async function* (prompt: string, inspirationImages: string[], pagesPerBook: number) {
+      yield { batch: 1, totalBatches: 1, story: await generateStoryFromPrompt(prompt, inspirationImages, pagesPerBook), isComplete: true };
+    }),
+    generateIllustration: vi.fn(async (prompt: string) => {
+      return 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==';
+    }),
+    optimizeImageForWeb: vi.fn(async (imageBuffer: Buffer) => imageBuffer),
+  };
+});
 
 vi.mock('stripe', () => {
   const mockStripe = {
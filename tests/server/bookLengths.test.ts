@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_STORY_PAGES } from '@shared/schema';
+import {
+  DEFAULT_BOOK_PRICES,
+  findBookLength,
+  getBookPrices,
+  getDefaultBookLengths,
+  getMaxPages,
+  parseBookLengths,
+} from '@server/utils/bookLengths';
+
+const configured = JSON.stringify([
+  { id: 'mini', label: 'Mini', pages: 4, digitalPrice: 199 },
+  { id: 'epic', label: 'Epic', pages: 24, digitalPrice: 799, printPrice: 3499 },
+]);
+
+describe('parseBookLengths', () => {
+  it('should offer short/standard/long until lengths are configured', () => {
+    const options = parseBookLengths(undefined, 10);
+
+    expect(options.map(option => [option.id, option.pages])).toEqual([['short', 6], ['standard', 10], ['long', 24]]);
+  });
+
+  it('should keep the standard length within the supported page range', () => {
+    expect(getDefaultBookLengths(50)[1].pages).toBe(24);
+    expect(getDefaultBookLengths(NaN)[1].pages).toBe(12);
+  });
+
+  it('should use the configured lengths', () => {
+    expect(parseBookLengths(configured).map(option => option.id)).toEqual(['mini', 'epic']);
+  });
+
+  it('should fall back to the defaults for an invalid setting', () => {
+    expect(parseBookLengths('not json')[1].id).toBe('standard');
+    expect(parseBookLengths(JSON.stringify([{ id: 'huge', label: 'Huge', pages: 40 }]))[1].id).toBe('standard');
+    expect(parseBookLengths(JSON.stringify([
+      { id: 'same', label: 'One', pages: 4 },
+      { id: 'same', label: 'Two', pages: 8 },
+    ]))[1].id).toBe('standard');
+  });
+});
+
+describe('findBookLength', () => {
+  it('should default to the standard length, or the first one', () => {
+    expect(findBookLength(getDefaultBookLengths())?.id).toBe('standard');
+    expect(findBookLength(parseBookLengths(configured))?.id).toBe('mini');
+  });
+
+  it('should reject lengths that are not offered', () => {
+    expect(findBookLength(getDefaultBookLengths(), 'long')?.pages).toBe(24);
+    expect(findBookLength(getDefaultBookLengths(), 'epic')).toBeUndefined();
+  });
+});
+
+describe('getBookPrices', () => {
+  const options = parseBookLengths(configured);
+
+  it('should apply the prices a length overrides', () => {
+    expect(getBookPrices(options, DEFAULT_BOOK_PRICES, 'epic')).toEqual({ digitalPrice: 799, printPrice: 3499 });
+    expect(getBookPrices(options, DEFAULT_BOOK_PRICES, 'mini')).toEqual({ digitalPrice: 199, printPrice: 2499 });
+  });
+
+  it('should use the global prices for books without a current length', () => {
+    expect(getBookPrices(options, DEFAULT_BOOK_PRICES, null)).toEqual(DEFAULT_BOOK_PRICES);
+    expect(getBookPrices(options, DEFAULT_BOOK_PRICES, 'removed')).toEqual(DEFAULT_BOOK_PRICES);
+  });
+});
+
+describe('getMaxPages', () => {
+  const options = parseBookLengths(configured);
+
+  it('should hold a book to the pages of its length', () => {
+    expect(getMaxPages(options, 'mini')).toBe(4);
+    expect(getMaxPages(options, 'epic')).toBe(24);
+  });
+
+  it('should fall back to the page limit for books without a current length', () => {
+    expect(getMaxPages(options, null)).toBe(MAX_STORY_PAGES);
+    expect(getMaxPages(options, 'removed')).toBe(MAX_STORY_PAGES);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+
+const { mockDb, where } = vi.hoisted(() => {
+  const where = vi.fn((_condition: unknown) => ({ limit: async () => [] }));
+  return { mockDb: { select: () => ({ from: () => ({ where }) }) }, where };
+});
+
+vi.mock('@server/db', () => ({ db: mockDb }));
+
+import { storage } from '@server/storage';
+
+describe('getExpiredIllustrationCandidates', () => {
+  it('should leave batches the owner has not decided on yet', async () => {
+    const decidedBefore = new Date('2026-01-01T00:00:00Z');
+    await storage.getExpiredIllustrationCandidates(decidedBefore);
+
+    const { sql, params } = new PgDialect().sqlToQuery(where.mock.calls[0][0] as SQL);
+    // Only turned-down options, counted from when the owner decided rather than when they were drawn
+    expect(sql).toContain('"illustration_candidates"."status" = $1');
+    expect(params[0]).toBe('rejected');
+    expect(sql).toContain('"illustration_candidates"."decided_at" < $2');
+    expect(sql).not.toContain('created_at');
+    expect(params).not.toContain('pending');
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { buildStylePrompt, isStyleAvailableForAge } from '@server/utils/illustrationStyles';
+
+describe('isStyleAvailableForAge', () => {
+  it('should offer unrestricted styles to every age group', () => {
+    expect(isStyleAvailableForAge({ isEnabled: true, allowedAges: [] }, '3-5')).toBe(true);
+    expect(isStyleAvailableForAge({ isEnabled: true, allowedAges: [] }, undefined)).toBe(true);
+  });
+
+  it('should only offer restricted styles to their age groups', () => {
+    const style = { isEnabled: true, allowedAges: ['9-12' as const] };
+    expect(isStyleAvailableForAge(style, '9-12')).toBe(true);
+    expect(isStyleAvailableForAge(style, '3-5')).toBe(false);
+    expect(isStyleAvailableForAge(style, null)).toBe(true);
+  });
+
+  it('should never offer disabled styles', () => {
+    expect(isStyleAvailableForAge({ isEnabled: false, allowedAges: [] }, '6-8')).toBe(false);
+  });
+});
+
+describe('buildStylePrompt', () => {
+  it('should append what the style must avoid', () => {
+    expect(buildStylePrompt({ promptFragment: 'soft watercolor', negativePrompt: 'harsh outlines' })).toBe('soft watercolor. Avoid: harsh outlines');
+    expect(buildStylePrompt({ promptFragment: 'soft watercolor', negativePrompt: '' })).toBe('soft watercolor');
+  });
+});
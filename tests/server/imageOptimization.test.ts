@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import { ARTWORK_DIMENSIONS, normalizeArtwork } from '@server/utils/imageOptimization';
+
+// A wide transparent PNG, like a scanned drawing with the background removed
+const drawing = () => sharp({
+  create: { width: 400, height: 200, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 0 } },
+}).png().toBuffer();
+
+describe('normalizeArtwork', () => {
+  it('should fit the picture to the book orientation as a JPEG', async () => {
+    const input = await drawing();
+
+    for (const orientation of ['portrait', 'landscape'] as const) {
+      const metadata = await sharp(await normalizeArtwork(input, orientation)).metadata();
+      expect(metadata.format).toBe('jpeg');
+      expect(metadata.width).toBe(ARTWORK_DIMENSIONS[orientation].width);
+      expect(metadata.height).toBe(ARTWORK_DIMENSIONS[orientation].height);
+      expect(metadata.space).toBe('srgb');
+    }
+  });
+
+  it('should apply the EXIF rotation of phone photos', async () => {
+    // Stored sideways (wide) with orientation 6: displayed rotated 90° clockwise, so tall
+    const photo = await sharp({ create: { width: 1200, height: 900, channels: 3, background: '#3366cc' } })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+
+    const { data, info } = await sharp(await normalizeArtwork(photo, 'portrait')).raw().toBuffer({ resolveWithObject: true });
+    // Upright, the photo fills the portrait page; sideways it would leave white bands above and below
+    const topCenter = data.readUInt8(Math.floor(info.width / 2) * info.channels);
+    expect(topCenter).toBeLessThan(200);
+  });
+
+  it('should flatten transparency onto white', async () => {
+    const { data } = await sharp(await normalizeArtwork(await drawing(), 'landscape')).raw().toBuffer({ resolveWithObject: true });
+    expect([data[0], data[1], data[2]].every(channel => channel > 245)).toBe(true);
+  });
+});
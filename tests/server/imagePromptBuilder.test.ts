@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import type { StoryCharacter } from '@shared/schema';
+import {
+  applySceneInstruction,
+  buildCharacterSheetPrompt,
+  buildFinalImagePrompt,
+  buildImageEditPrompt,
+  buildStyleReferenceNote,
+  getCastPhotoUrls,
+  getCharacterReferenceIndexes,
+  selectSceneCharacters,
+} from '@server/utils/imagePromptBuilder';
+
+const cast: StoryCharacter[] = [
+  { id: 'mia', name: 'Mia', role: 'main character', appearance: 'A six-year-old girl with black curls', clothing: 'a yellow dress', referenceImageIndex: 0 },
+  { id: 'max', name: 'Max', role: 'pet dog', appearance: 'A small brown terrier', clothing: 'a red collar' },
+  { id: 'grandpa', name: 'Grandpa', role: 'grandfather', appearance: 'A tall man with a white beard', clothing: 'a tweed jacket', referenceImageIndex: 2 },
+];
+
+describe('buildFinalImagePrompt', () => {
+  it('should keep the single-character behaviour without a cast', () => {
+    const prompt = buildFinalImagePrompt({
+      mainCharacterDescription: 'A brave girl',
+      defaultClothing: 'a blue coat',
+      scenePrompt: 'Flying a kite on a hill',
+    });
+
+    expect(prompt).toBe('A brave girl, a blue coat. Flying a kite on a hill');
+  });
+
+  it('should describe only the characters in the scene', () => {
+    const prompt = buildFinalImagePrompt({
+      mainCharacterDescription: 'ignored',
+      characters: cast,
+      characterIds: ['mia', 'grandpa'],
+      scenePrompt: 'Baking cookies in the kitchen',
+    });
+
+    expect(prompt).toContain('Mia (main character)');
+    expect(prompt).toContain('Grandpa (grandfather)');
+    expect(prompt).not.toContain('Max');
+    expect(prompt).not.toContain('ignored');
+    expect(prompt).toContain('Mia (main character): A six-year-old girl with black curls, a yellow dress (matches reference photo 1)');
+    expect(prompt).toContain('(matches reference photo 2)');
+    expect(prompt.endsWith('Baking cookies in the kitchen')).toBe(true);
+  });
+
+  it('should leave out default clothing when the scene sets an outfit', () => {
+    const prompt = buildFinalImagePrompt({
+      characters: cast,
+      characterIds: ['max'],
+      scenePrompt: 'Sleeping by the fire wearing a tiny sweater',
+    });
+
+    expect(prompt).toBe('Max (pet dog): A small brown terrier. Sleeping by the fire wearing a tiny sweater');
+  });
+});
+
+describe('character sheet', () => {
+  it('should point at the sheet first and number the photos after it', () => {
+    const prompt = buildFinalImagePrompt({
+      characters: cast,
+      characterIds: ['mia', 'grandpa'],
+      scenePrompt: 'Baking cookies in the kitchen',
+      hasCharacterSheet: true,
+    });
+
+    expect(prompt.startsWith('Reference image 1 is the character sheet')).toBe(true);
+    expect(prompt).toContain('a yellow dress (matches reference photo 2)');
+    expect(prompt).toContain('a tweed jacket (matches reference photo 3)');
+  });
+
+  it('should draw the whole cast in their default clothing', () => {
+    const prompt = buildCharacterSheetPrompt({ characters: cast });
+
+    expect(prompt).toContain('Mia (main character): A six-year-old girl with black curls, a yellow dress (matches reference photo 1)');
+    expect(prompt).toContain('Max (pet dog): A small brown terrier, a red collar');
+    expect(prompt).toContain('Character reference sheet');
+    expect(prompt).not.toContain('Reference image 1 is the character sheet');
+  });
+});
+
+describe('scene character helpers', () => {
+  it('should return the whole cast when no ids are given', () => {
+    expect(selectSceneCharacters(cast)).toHaveLength(3);
+    expect(selectSceneCharacters(cast, [])).toHaveLength(0);
+  });
+
+  it('should list reference photo indexes in cast order', () => {
+    expect(getCharacterReferenceIndexes(selectSceneCharacters(cast, ['grandpa', 'max', 'mia']))).toEqual([0, 2]);
+  });
+
+  it('should pick the photos of the cast, or every inspiration image without a cast', () => {
+    const photos = ['/api/storage/mia.jpg', '/api/storage/park.jpg', '/api/storage/grandpa.jpg'];
+    expect(getCastPhotoUrls(cast, photos)).toEqual(['/api/storage/mia.jpg', '/api/storage/grandpa.jpg']);
+    expect(getCastPhotoUrls(undefined, photos)).toEqual(photos);
+    expect(getCastPhotoUrls(cast, photos.slice(0, 1))).toEqual(['/api/storage/mia.jpg']);
+  });
+});
+
+describe('applySceneInstruction', () => {
+  it('should append the requested change to the scene', () => {
+    expect(applySceneInstruction('Flying a kite on a hill', 'same scene but at night'))
+      .toBe('Flying a kite on a hill. Requested change: same scene but at night');
+    expect(applySceneInstruction('Flying a kite on a hill.', 'add a rainbow'))
+      .toBe('Flying a kite on a hill. Requested change: add a rainbow');
+  });
+
+  it('should leave the scene alone without an instruction', () => {
+    expect(applySceneInstruction('Flying a kite on a hill', '  ')).toBe('Flying a kite on a hill');
+    expect(applySceneInstruction('Flying a kite on a hill')).toBe('Flying a kite on a hill');
+  });
+});
+
+describe('buildImageEditPrompt', () => {
+  it('should ask for only the requested change', () => {
+    const prompt = buildImageEditPrompt('  make the dog brown ', { artStyle: 'watercolor painting style' });
+    expect(prompt).toContain('Make only this change: make the dog brown\n');
+    expect(prompt).toContain('Keep the art style (watercolor painting style).');
+    expect(prompt).not.toContain('character sheet');
+  });
+
+  it('should point at the character sheet when it is passed along', () => {
+    expect(buildImageEditPrompt('remove the extra finger', { hasCharacterSheet: true }))
+      .toContain('Image 2 is the character sheet');
+  });
+});
+
+describe('buildStyleReferenceNote', () => {
+  it('should be empty without style references', () => {
+    expect(buildStyleReferenceNote(3, 0)).toBe('');
+  });
+
+  it('should number the style samples after the other references', () => {
+    expect(buildStyleReferenceNote(3, 1)).toMatch(/^Reference image 3 is a style sample: /);
+    const note = buildStyleReferenceNote(2, 2);
+    expect(note).toMatch(/^Reference images 2 to 3 are style samples: /);
+    expect(note).toContain('Do NOT copy their characters');
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { countImageReferences, releaseImageReferences } from '@server/utils/imageReferences';
+
+const page = (pageNumber: number, imageUrl: string) => ({ pageNumber, text: '', imageUrl, imagePrompt: '' });
+
+const original = {
+  coverImageUrl: '/api/storage/2024/05/cover.png',
+  backCoverImageUrl: '/api/storage/2024/05/back.png',
+  characterSheetUrl: null,
+  pages: [page(1, '/api/storage/2024/05/page-1.png'), page(2, '/api/storage/2024/05/page-2.png')],
+};
+// A translated edition with its own cover that shows the original's pages and back cover
+const edition = {
+  ...original,
+  coverImageUrl: '/api/storage/2024/06/cover-es.png',
+};
+
+describe('image references', () => {
+  it('should count each storybook that shows a file once', () => {
+    const counts = countImageReferences([original, edition]);
+
+    expect(counts.get('page-1.png')).toBe(2);
+    expect(counts.get('back.png')).toBe(2);
+    expect(counts.get('cover.png')).toBe(1);
+    expect(counts.get('cover-es.png')).toBe(1);
+  });
+
+  it('should keep files an edition still shows until the last book using them is migrated', () => {
+    const counts = countImageReferences([original, edition]);
+    const originalFiles = ['cover.png', 'back.png', 'page-1.png', 'page-2.png'];
+
+    expect(releaseImageReferences(counts, originalFiles)).toEqual(['cover.png']);
+    expect(releaseImageReferences(counts, ['cover-es.png', 'back.png', 'page-1.png', 'page-2.png']))
+      .toEqual(['cover-es.png', 'back.png', 'page-1.png', 'page-2.png']);
+  });
+
+  it('should treat files no storybook was counted for as unused', () => {
+    expect(releaseImageReferences(new Map(), ['orphan.png'])).toEqual(['orphan.png']);
+  });
+});
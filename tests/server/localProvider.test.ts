@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
+import {
+  createLocalStoryTextProvider,
+  createLocalIllustrationProvider,
+} from '@server/services/localProvider';
+
+describe('Local AI provider', () => {
+  const textProvider = createLocalStoryTextProvider();
+  const illustrationProvider = createLocalIllustrationProvider();
+
+  const request = {
+    prompt: 'A dragon who is afraid of the dark',
+    pagesPerBook: 5,
+    systemInstruction: 'Write a story',
+    inspirationImages: [],
+  };
+
+  it('should return a complete story with the requested number of pages', async () => {
+    const story = await textProvider.generateStory(request);
+
+    expect(story.title).toBeTruthy();
+    expect(story.characters.length).toBeGreaterThan(0);
+    expect(story.characters[0].appearance).toBeTruthy();
+    expect(story.characters[0].clothing).toBeTruthy();
+    expect(story.coverImagePrompt).toBeTruthy();
+    expect(story.pages).toHaveLength(5);
+    story.pages.forEach((page, index) => {
+      expect(page.pageNumber).toBe(index + 1);
+      expect(page.text).toBeTruthy();
+      expect(page.imagePrompt).toBeTruthy();
+      expect(page.key_objects.length).toBeGreaterThan(0);
+      expect(page.characterIds).toContain(story.characters[0].id);
+    });
+  });
+
+  it('should link one cast member to each uploaded photo', async () => {
+    const photo = { data: Buffer.from('photo'), mimeType: 'image/jpeg' };
+    const story = await textProvider.generateStory({ ...request, inspirationImages: [photo, photo, photo] });
+
+    expect(story.characters.map(c => c.referenceImageNumber)).toEqual([1, 2, 3]);
+    expect(new Set(story.pages.flatMap(p => p.characterIds)).size).toBe(3);
+  });
+
+  it('should be deterministic for the same request', async () => {
+    const first = await textProvider.generateStory(request);
+    const second = await textProvider.generateStory(request);
+
+    expect(second).toEqual(first);
+  });
+
+  it('should regenerate a single page with scene metadata', async () => {
+    const story = await textProvider.generateStory(request);
+    const page = await textProvider.regeneratePage({
+      pageNumber: 3,
+      systemInstruction: 'Regenerate page 3',
+      storybook: {
+        ...story,
+        mainCharacterDescription: story.characters[0].appearance,
+        defaultClothing: story.characters[0].clothing,
+      },
+    });
+
+    expect(page.text).toBeTruthy();
+    expect(page.main_action).toBeTruthy();
+    expect(page.imagePrompt).toBeTruthy();
+  });
+
+  it('should return one translation per text, in order', async () => {
+    const translations = await textProvider.translateTexts({
+      language: 'es',
+      systemInstruction: 'Translate into Spanish',
+      texts: ['The Lost Kite', '', 'Mia runs up the hill.'],
+    });
+
+    expect(translations).toEqual(['[es] The Lost Kite', '', '[es] Mia runs up the hill.']);
+  });
+
+  it('should render identical placeholder images for identical prompts', async () => {
+    const first = await illustrationProvider.generateImage({ prompt: 'A red kite over a hill', referenceImages: [] });
+    const second = await illustrationProvider.generateImage({ prompt: 'A red kite over a hill', referenceImages: [] });
+    const other = await illustrationProvider.generateImage({ prompt: 'A boat on a lake', referenceImages: [] });
+
+    expect(first.equals(second)).toBe(true);
+    expect(first.equals(other)).toBe(false);
+
+    const metadata = await sharp(first).metadata();
+    expect(metadata.format).toBe('jpeg');
+    expect(metadata.width).toBe(1024);
+    expect(metadata.height).toBe(1024);
+  });
+
+  it('should return a changed copy of the image when editing', async () => {
+    const original = await illustrationProvider.generateImage({ prompt: 'A red kite over a hill', referenceImages: [] });
+    const request = { image: { data: original, mimeType: 'image/jpeg' }, prompt: 'Make the kite blue', referenceImages: [] };
+    const first = await illustrationProvider.editImage(request);
+    const second = await illustrationProvider.editImage(request);
+
+    expect(first.equals(second)).toBe(true);
+    expect(first.equals(original)).toBe(false);
+    const metadata = await sharp(first).metadata();
+    expect(metadata.format).toBe('jpeg');
+    expect(metadata.width).toBe(1024);
+  });
+});
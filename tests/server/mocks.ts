@@ -14,12 +14,20 @@ export const mockGemini = {
       coverImagePrompt: 'A beautiful story cover with the main character',
       mainCharacterDescription: 'A brave young adventurer with bright eyes and a curious smile',
       defaultClothing: 'Red jacket and blue jeans',
+      characters: [{
+        id: 'adventurer',
+        name: 'Sam',
+        role: 'main character',
+        appearance: 'A brave young adventurer with bright eyes and a curious smile',
+        clothing: 'Red jacket and blue jeans',
+      }],
       storyArc: 'Discovery, challenge, and growth',
       artStyle: 'custom',
       pages: Array.from({ length: pagesPerBook }, (_, i) => ({
         pageNumber: i + 1,
         text: `This is page ${i + 1} of the story.`,
         imagePrompt: `Scene showing the character in situation ${i + 1}`,
+        characterIds: ['adventurer'],
       })),
     };
   }),
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_BLOCKED_TERMS,
+  findBlockedTerms,
+  findBlockedTermsIn,
+  parseBlockedTerms,
+} from '@server/utils/moderation';
+import { moderateStorybook, moderateStorybookInBackground } from '@server/services/moderation';
+import type { ModerationVerdict } from '@server/services/aiProvider';
+
+const { mockStorage, mockClassifier } = vi.hoisted(() => ({
+  mockStorage: {
+    getStorybook: vi.fn(),
+    getSetting: vi.fn(async () => undefined),
+    recordModerationFlags: vi.fn(async () => undefined),
+    markModerationClear: vi.fn(async () => undefined),
+  },
+  mockClassifier: {
+    classifyText: vi.fn(async (): Promise<ModerationVerdict> => ({ flagged: false, categories: [], reason: '' })),
+    classifyImage: vi.fn(async (): Promise<ModerationVerdict> => ({ flagged: false, categories: [], reason: '' })),
+  },
+}));
+
+vi.mock('@server/storage', () => ({ storage: mockStorage }));
+vi.mock('@server/objectStorage', () => ({
+  ObjectStorageService: vi.fn(() => ({
+    getFileBuffer: vi.fn(async () => Buffer.from('image')),
+  })),
+}));
+vi.mock('@server/services/aiProvider', () => ({ getContentClassifier: () => mockClassifier }));
+
+describe('parseBlockedTerms', () => {
+  it('should use the built-in list until terms are configured', () => {
+    expect(parseBlockedTerms(undefined)).toBe(DEFAULT_BLOCKED_TERMS);
+    expect(parseBlockedTerms('  \n ')).toBe(DEFAULT_BLOCKED_TERMS);
+  });
+
+  it('should accept terms one per line or comma-separated', () => {
+    expect(parseBlockedTerms('Gore\nblood bath, gore ,\n\nzombie')).toEqual(['gore', 'blood bath', 'zombie']);
+  });
+});
+
+describe('findBlockedTerms', () => {
+  const terms = ['heroin', 'blood bath', 'self-harm'];
+
+  it('should match whole words regardless of case', () => {
+    expect(findBlockedTerms('A story about HEROIN.', terms)).toEqual(['heroin']);
+    expect(findBlockedTerms('The heroine saves the day', terms)).toEqual([]);
+  });
+
+  it('should match phrases across any whitespace', () => {
+    expect(findBlockedTerms('a blood\n  bath in the castle', terms)).toEqual(['blood bath']);
+    expect(findBlockedTerms('no self-harm please', terms)).toEqual(['self-harm']);
+  });
+
+  it('should ignore empty text', () => {
+    expect(findBlockedTerms('', terms)).toEqual([]);
+  });
+});
+
+describe('findBlockedTermsIn', () => {
+  it('should list each term found across the texts once', () => {
+    expect(findBlockedTermsIn(['gore everywhere', undefined, 'more gore', null, 'a naked tree'], ['gore', 'naked']))
+      .toEqual(['gore', 'naked']);
+  });
+});
+
+describe('moderateStorybook', () => {
+  const book = {
+    id: 'book-1',
+    prompt: 'A picnic in the park',
+    characters: [],
+    inspirationImages: [],
+    styleReferenceImages: [],
+    coverImageUrl: null,
+    backCoverImageUrl: null,
+    pages: [{ pageNumber: 1, text: 'The ducks shared their bread.', imageUrl: '' }],
+  };
+
+  it('should clear a book once nothing is flagged', async () => {
+    mockStorage.getStorybook.mockResolvedValueOnce(book);
+
+    expect(await moderateStorybook('book-1')).toBe(0);
+    expect(mockStorage.markModerationClear).toHaveBeenCalledWith('book-1');
+    expect(mockStorage.recordModerationFlags).not.toHaveBeenCalled();
+  });
+
+  it('should hold the book for review when the check fails', async () => {
+    mockStorage.getSetting.mockRejectedValueOnce(new Error('Connection lost'));
+    mockStorage.getStorybook.mockResolvedValueOnce(book).mockResolvedValueOnce(book);
+
+    moderateStorybookInBackground('book-1');
+
+    await vi.waitFor(() => expect(mockStorage.recordModerationFlags).toHaveBeenCalledWith('book-1', [
+      expect.objectContaining({ source: 'prompt', reason: 'The automated check could not be completed' }),
+    ]));
+    expect(mockStorage.markModerationClear).not.toHaveBeenCalled();
+  });
+
+  it('should check the uploaded style pictures like the uploaded photos', async () => {
+    mockStorage.getStorybook.mockResolvedValueOnce({
+      id: 'book-1',
+      prompt: 'A picnic in the park',
+      characters: [],
+      inspirationImages: ['/api/storage/uploads/photo.jpg'],
+      styleReferenceImages: ['/api/storage/uploads/style-1.png', '/api/storage/uploads/style-2.jpg'],
+      coverImageUrl: null,
+      backCoverImageUrl: null,
+      pages: [],
+    });
+    mockClassifier.classifyImage
+      .mockResolvedValueOnce({ flagged: false, categories: [], reason: '' })
+      .mockResolvedValueOnce({ flagged: false, categories: [], reason: '' })
+      .mockResolvedValueOnce({ flagged: true, categories: ['violence'], reason: 'Graphic injury' });
+
+    expect(await moderateStorybook('book-1')).toBe(1);
+    expect(mockClassifier.classifyImage).toHaveBeenCalledTimes(3);
+    expect(mockStorage.recordModerationFlags).toHaveBeenCalledWith('book-1', [
+      expect.objectContaining({ source: 'uploaded_image', content: '/api/storage/uploads/style-2.jpg' }),
+    ]);
+  });
+});
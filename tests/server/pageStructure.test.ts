@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import type { StorybookPage } from '@shared/schema';
+import {
+  getPageNumberMoves,
+  insertPage,
+  InvalidPageStructureError,
+  removePage,
+  reorderPages,
+} from '@server/utils/pageStructure';
+
+const pages: StorybookPage[] = [1, 2, 3].map(pageNumber => ({
+  pageNumber,
+  text: `Text ${pageNumber}`,
+  imageUrl: `/api/storage/page_${pageNumber}.jpg`,
+  imagePrompt: `Scene ${pageNumber}`,
+}));
+
+const texts = (result: StorybookPage[]) => result.map(page => page.text);
+const numbers = (result: StorybookPage[]) => result.map(page => page.pageNumber);
+
+describe('insertPage', () => {
+  it('should insert between neighbours and renumber the pages after it', () => {
+    const { pages: result, pageNumberMap } = insertPage(pages, 2, { text: 'New', imageUrl: '', imagePrompt: 'New scene' });
+
+    expect(texts(result)).toEqual(['Text 1', 'New', 'Text 2', 'Text 3']);
+    expect(numbers(result)).toEqual([1, 2, 3, 4]);
+    expect(getPageNumberMoves(pageNumberMap)).toEqual([[2, 3], [3, 4]]);
+  });
+
+  it('should append at the end', () => {
+    const { pages: result, pageNumberMap } = insertPage(pages, 4, { text: 'New', imageUrl: '', imagePrompt: 'New scene' });
+
+    expect(texts(result)).toEqual(['Text 1', 'Text 2', 'Text 3', 'New']);
+    expect(getPageNumberMoves(pageNumberMap)).toEqual([]);
+  });
+
+  it('should reject positions outside the book', () => {
+    expect(() => insertPage(pages, 0, { text: 'New', imageUrl: '', imagePrompt: '' })).toThrow(InvalidPageStructureError);
+    expect(() => insertPage(pages, 5, { text: 'New', imageUrl: '', imagePrompt: '' })).toThrow(InvalidPageStructureError);
+  });
+});
+
+describe('removePage', () => {
+  it('should close the gap left by the removed page', () => {
+    const { pages: result, pageNumberMap } = removePage(pages, 2);
+
+    expect(texts(result)).toEqual(['Text 1', 'Text 3']);
+    expect(numbers(result)).toEqual([1, 2]);
+    expect(getPageNumberMoves(pageNumberMap)).toEqual([[3, 2], [2, null]]);
+  });
+
+  it('should keep at least one page', () => {
+    expect(() => removePage([pages[0]], 1)).toThrow('at least one page');
+    expect(() => removePage(pages, 7)).toThrow(InvalidPageStructureError);
+  });
+});
+
+describe('reorderPages', () => {
+  it('should follow the given order', () => {
+    const { pages: result, pageNumberMap } = reorderPages(pages, [3, 1, 2]);
+
+    expect(texts(result)).toEqual(['Text 3', 'Text 1', 'Text 2']);
+    expect(numbers(result)).toEqual([1, 2, 3]);
+    expect(getPageNumberMoves(pageNumberMap)).toEqual([[3, 1], [1, 2], [2, 3]]);
+  });
+
+  it('should require every page exactly once', () => {
+    expect(() => reorderPages(pages, [1, 2])).toThrow(InvalidPageStructureError);
+    expect(() => reorderPages(pages, [1, 1, 2])).toThrow(InvalidPageStructureError);
+    expect(() => reorderPages(pages, [1, 2, 4])).toThrow(InvalidPageStructureError);
+  });
+});
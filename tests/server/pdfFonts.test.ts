@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from 'vitest';
+import { tmpdir } from 'os';
+import { PDFDocument } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { embedFontChain } from '@server/services/pdfFonts';
+
+describe('embedFontChain', () => {
+  it('should draw Chinese and Japanese text without leaving characters out', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.registerFontkit(fontkit);
+
+    for (const role of ['body', 'heading'] as const) {
+      const chain = await embedFontChain(pdfDoc, role);
+      expect(chain.widthOfTextAtSize('小兔子说：“你好！” うさぎ', 12)).toBeGreaterThan(0);
+    }
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('should find the CJK font when the server starts outside the repository', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const cwd = process.cwd();
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.registerFontkit(fontkit);
+
+    try {
+      process.chdir(tmpdir());
+      const chain = await embedFontChain(pdfDoc, 'heading');
+      expect(chain.widthOfTextAtSize('你好', 12)).toBeGreaterThan(0);
+    } finally {
+      process.chdir(cwd);
+    }
+    const messages = warn.mock.calls.map(call => String(call[0]));
+    expect(messages.some(message => message.includes('noto-sans-sc') || message.includes('No heading font'))).toBe(false);
+    warn.mockRestore();
+  });
+});
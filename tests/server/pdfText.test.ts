@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MIN_TEXT_SCALE,
+  breakIntoLines,
+  fitPageText,
+  normalizeTextForPDF,
+  splitIntoBreakableSegments,
+  splitIntoFontRuns,
+  type GlyphCoverage,
+} from '@server/utils/pdfText';
+
+// Fake fonts: one with only ASCII glyphs, one that also covers Latin Extended and Cyrillic
+const asciiFont: GlyphCoverage = { hasGlyphForCodePoint: codePoint => codePoint < 0x80 };
+const extendedFont: GlyphCoverage = { hasGlyphForCodePoint: codePoint => codePoint < 0x500 || (codePoint >= 0x2010 && codePoint <= 0x2026) };
+
+// Every character is one unit wide
+const measure = (text: string) => Array.from(text).length;
+
+describe('normalizeTextForPDF', () => {
+  it('should keep accents, typographic quotes and dashes', () => {
+    expect(normalizeTextForPDF('“Zoë” — José…')).toBe('“Zoë” — José…');
+  });
+
+  it('should compose accents and unify line breaks', () => {
+    expect(normalizeTextForPDF('Zoë\r\nnext\rline')).toBe('Zoë\nnext\nline');
+  });
+
+  it('should drop control and invisible format characters', () => {
+    expect(normalizeTextForPDF('a\u0007b\uFEFFc\u00ADd')).toBe('abcd');
+  });
+});
+
+describe('splitIntoFontRuns', () => {
+  it('should use the first font that has each glyph', () => {
+    const { runs, missing } = splitIntoFontRuns('Hi Łucja — Жук', [asciiFont, extendedFont]);
+
+    expect(runs).toEqual([
+      { text: 'Hi ', font: 0 },
+      { text: 'Ł', font: 1 },
+      { text: 'ucja ', font: 0 },
+      { text: '— Жук', font: 1 },
+    ]);
+    expect(missing).toEqual([]);
+  });
+
+  it('should leave out and report characters no font covers', () => {
+    const { runs, missing } = splitIntoFontRuns('ab中c', [asciiFont]);
+
+    expect(runs).toEqual([{ text: 'abc', font: 0 }]);
+    expect(missing).toEqual(['中']);
+  });
+});
+
+describe('splitIntoBreakableSegments', () => {
+  it('should break after spaces between words', () => {
+    expect(splitIntoBreakableSegments('the  red ball')).toEqual(['the  ', 'red ', 'ball']);
+  });
+
+  it('should break between Chinese characters but not before closing punctuation', () => {
+    expect(splitIntoBreakableSegments('小狗跑。「好」')).toEqual(['小', '狗', '跑。', '「好」']);
+  });
+});
+
+describe('breakIntoLines', () => {
+  it('should wrap words to the width and keep paragraphs', () => {
+    expect(breakIntoLines('one two three four\n\nfive', 9, measure)).toEqual(['one two', 'three', 'four', '', 'five']);
+  });
+
+  it('should wrap text without spaces between characters', () => {
+    expect(breakIntoLines('小明和他的狗去公园玩。', 4, measure)).toEqual(['小明和他', '的狗去公', '园玩。']);
+  });
+
+  it('should split a word longer than a line', () => {
+    expect(breakIntoLines('abcdefghij', 4, measure)).toEqual(['abcd', 'efgh', 'ij']);
+  });
+});
+
+describe('fitPageText', () => {
+  const box = { width: 300, height: 500 };
+  const styles = { primary: { fontSize: 16, lineSpacing: 1.8 }, secondary: { fontSize: 13, lineSpacing: 1.7 }, gapLines: 2 };
+  // Every character is half as wide as the type is tall
+  const measureAtSize = (text: string, fontSize: number) => Array.from(text).length * fontSize / 2;
+  const storyText = 'The little fox ran home. '.repeat(20).trim();
+  const translation = 'El pequeño zorro corrió a casa. '.repeat(16).trim();
+
+  it('should keep the normal sizes when both languages fit', () => {
+    const fitted = fitPageText('The fox ran home.', 'El zorro corrió a casa.', box, styles, measureAtSize);
+
+    expect(fitted.fits).toBe(true);
+    expect(fitted.primary.fontSize).toBe(16);
+    expect(fitted.secondary?.fontSize).toBe(13);
+  });
+
+  it('should shrink both languages of a long bilingual page until all of it fits', () => {
+    const unshrunk = breakIntoLines(storyText, box.width, text => measureAtSize(text, 16)).length * 16 * 1.8
+      + 32 + breakIntoLines(translation, box.width, text => measureAtSize(text, 13)).length * 13 * 1.7;
+    expect(unshrunk).toBeGreaterThan(box.height);
+
+    const fitted = fitPageText(storyText, translation, box, styles, measureAtSize);
+
+    expect(fitted.fits).toBe(true);
+    expect(fitted.height).toBeLessThanOrEqual(box.height);
+    expect(fitted.primary.fontSize).toBeLessThan(16);
+    expect(fitted.secondary!.fontSize / fitted.primary.fontSize).toBeCloseTo(13 / 16);
+    expect(fitted.secondary!.lines.join(' ')).toBe(translation);
+  });
+
+  it('should report text that is too long even at the smallest size', () => {
+    const fitted = fitPageText(storyText.repeat(4), translation.repeat(4), box, styles, measureAtSize);
+
+    expect(fitted.fits).toBe(false);
+    expect(fitted.primary.fontSize).toBeCloseTo(16 * MIN_TEXT_SCALE);
+  });
+
+  it('should lay out a page without a second language', () => {
+    const fitted = fitPageText('The fox ran home.', undefined, box, styles, measureAtSize);
+
+    expect(fitted.secondary).toBeUndefined();
+    expect(fitted.gap).toBe(0);
+    expect(fitted.height).toBeCloseTo(16 * 1.8);
+  });
+});
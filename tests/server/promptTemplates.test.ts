@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { fillPromptTemplate, findTemplateDefinitionError, getTemplatePlaceholders, InvalidTemplateValuesError } from '@shared/promptTemplates';
+import type { PromptTemplateField } from '@shared/schema';
+
+const prompt = 'A birthday adventure for {childName}, who turns {age} and rides a {favoriteAnimal}[ through {city}].';
+const fields: PromptTemplateField[] = [
+  { key: 'childName', label: "Child's name", type: 'name', required: true },
+  { key: 'age', label: 'Age', type: 'number', required: true },
+  { key: 'favoriteAnimal', label: 'Favorite animal', type: 'select', required: true, options: ['dragon', 'unicorn'] },
+  { key: 'city', label: 'Home town', type: 'text', required: false },
+];
+
+describe('findTemplateDefinitionError', () => {
+  it('should accept templates whose fields match their placeholders', () => {
+    expect(getTemplatePlaceholders(prompt)).toEqual(['childName', 'age', 'favoriteAnimal', 'city']);
+    expect(findTemplateDefinitionError(prompt, fields)).toBeNull();
+  });
+
+  it('should report placeholders without a field and unused fields', () => {
+    expect(findTemplateDefinitionError(prompt, fields.slice(1))).toBe('The placeholder {childName} has no field');
+    expect(findTemplateDefinitionError('A story for {childName}.', fields.slice(0, 2))).toBe('The field {age} is not used in the prompt');
+  });
+
+  it('should require optional fields to sit in a [section]', () => {
+    expect(findTemplateDefinitionError('A story for {childName} in {city}.', [fields[0], fields[3]]))
+      .toBe('The optional field {city} must be inside [brackets] with the words that go with it');
+  });
+});
+
+describe('fillPromptTemplate', () => {
+  it('should replace every placeholder with its trimmed value', () => {
+    const filled = fillPromptTemplate(prompt, fields, { childName: '  Mary-Jane ', age: '6', favoriteAnimal: 'dragon', city: 'Leeds' });
+    expect(filled).toBe('A birthday adventure for Mary-Jane, who turns 6 and rides a dragon through Leeds.');
+  });
+
+  it('should drop the section of an optional field that was left empty', () => {
+    const template = 'A story for {childName}[ in {city}], where it always rains.';
+    expect(fillPromptTemplate(template, [fields[0], fields[3]], { childName: 'Mia' })).toBe('A story for Mia, where it always rains.');
+    expect(fillPromptTemplate(template, [fields[0], fields[3]], { childName: 'Mia', city: 'Leeds' })).toBe('A story for Mia in Leeds, where it always rains.');
+  });
+
+  it('should reject values that do not fit their field', () => {
+    const values = { childName: 'Mia', age: '6', favoriteAnimal: 'dragon' };
+    expect(() => fillPromptTemplate(prompt, fields, { ...values, childName: '' })).toThrow("Please fill in Child's name");
+    expect(() => fillPromptTemplate(prompt, fields, { ...values, age: 'six' })).toThrow('Age must be a whole number');
+    expect(() => fillPromptTemplate(prompt, fields, { ...values, favoriteAnimal: 'shark' })).toThrow(InvalidTemplateValuesError);
+    expect(() => fillPromptTemplate(prompt, fields, { ...values, childName: 'Mia <script>' })).toThrow("Child's name should only contain letters");
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { storybooks } from '@shared/schema';
+import { escapeLikePattern, publicStorybooksCondition } from '@server/utils/publicStorybooks';
+
+const dialect = new PgDialect();
+
+function render(search?: string) {
+  return dialect.sqlToQuery(publicStorybooksCondition(search)!);
+}
+
+describe('publicStorybooksCondition', () => {
+  it('should keep listing books created before moderation existed', () => {
+    // Rows that predate the column take its default when the schema is pushed
+    const defaultStatus = storybooks.moderationStatus.default;
+    expect(defaultStatus).toBe('clear');
+    expect(render().params).toContain(defaultStatus);
+  });
+
+  it('should hide books that are still waiting for their moderation check', () => {
+    const { params } = render();
+    expect(params).toEqual(expect.arrayContaining(['clear', 'approved']));
+    expect(params).not.toContain('pending');
+    expect(params).not.toContain('flagged');
+  });
+
+  it('should search the title and the pages', () => {
+    const { sql, params } = render('dragon');
+    expect(sql).toContain('ilike');
+    expect(params).toContain('%dragon%');
+  });
+
+  it('should match wildcard characters in the search literally', () => {
+    expect(render('100%_sure').params).toContain('%100\\%\\_sure%');
+  });
+});
+
+describe('escapeLikePattern', () => {
+  it('should escape percent signs, underscores and backslashes', () => {
+    expect(escapeLikePattern('50% off_now \\o/')).toBe('50\\% off\\_now \\\\o/');
+    expect(escapeLikePattern('plain words')).toBe('plain words');
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRewriteInstruction,
+  countSyllables,
+  DEFAULT_READABILITY_BAND,
+  getReadabilityBand,
+  READABILITY_BANDS,
+  scorePage,
+  scoreStorybook,
+} from '@server/utils/readability';
+
+const simpleText = 'Mia has a red ball. She throws it to her dog. The dog runs fast. Mia laughs and claps.';
+const complexText = 'Notwithstanding the considerable atmospheric disturbance, the intrepid expedition continued methodically ascending the treacherous, precipitous mountainside, deliberately documenting extraordinary geological formations encountered throughout their remarkable journey.';
+
+describe('countSyllables', () => {
+  it('should estimate syllables from vowel groups', () => {
+    expect(countSyllables('cat')).toBe(1);
+    expect(countSyllables('rabbit')).toBe(2);
+    expect(countSyllables('make')).toBe(1);
+    expect(countSyllables('butterfly')).toBe(3);
+  });
+});
+
+describe('scorePage', () => {
+  it('should count words and sentences', () => {
+    const score = scorePage(1, simpleText, READABILITY_BANDS['3-5']);
+
+    expect(score.wordCount).toBe(19);
+    expect(score.sentenceCount).toBe(4);
+    expect(score.averageSentenceLength).toBe(4.8);
+  });
+
+  it('should give harder text a higher grade level', () => {
+    const simple = scorePage(1, simpleText, DEFAULT_READABILITY_BAND);
+    const complex = scorePage(2, complexText, DEFAULT_READABILITY_BAND);
+
+    expect(simple.gradeLevel).toBeLessThan(2);
+    expect(complex.gradeLevel).toBeGreaterThan(12);
+  });
+
+  it('should flag pages outside the band', () => {
+    expect(scorePage(1, simpleText, READABILITY_BANDS['3-5']).issues).toEqual(['too_short']);
+    expect(scorePage(1, complexText, READABILITY_BANDS['3-5']).issues).toEqual(['long_sentences', 'reading_level']);
+    expect(scorePage(1, `${simpleText} `.repeat(3), READABILITY_BANDS['3-5']).issues).toEqual([]);
+  });
+
+  it('should score an empty page as empty', () => {
+    expect(scorePage(1, '', DEFAULT_READABILITY_BAND)).toMatchObject({ wordCount: 0, sentenceCount: 0, gradeLevel: 0 });
+  });
+});
+
+describe('scoreStorybook', () => {
+  it('should score every page against the band for the age', () => {
+    const report = scoreStorybook([
+      { pageNumber: 1, text: simpleText },
+      { pageNumber: 2, text: complexText },
+    ], '6-8')!;
+
+    expect(report.age).toBe('6-8');
+    expect(report.band).toEqual(READABILITY_BANDS['6-8']);
+    expect(report.pages.map(page => page.pageNumber)).toEqual([1, 2]);
+    expect(report.averageGradeLevel).toBe(Math.round((report.pages[0].gradeLevel + report.pages[1].gradeLevel) * 5) / 10);
+  });
+
+  it('should not score books in languages other than English', () => {
+    expect(scoreStorybook([{ pageNumber: 1, text: '小兔子跳过了小河。' }], '3-5', 'zh')).toBeNull();
+    expect(scoreStorybook([{ pageNumber: 1, text: simpleText }], '6-8', 'es')).toBeNull();
+    expect(scoreStorybook([{ pageNumber: 1, text: simpleText }], '6-8', 'en')).not.toBeNull();
+  });
+
+  it('should use the default band without an age', () => {
+    expect(getReadabilityBand(null)).toBe(DEFAULT_READABILITY_BAND);
+    expect(getReadabilityBand('13-99')).toBe(DEFAULT_READABILITY_BAND);
+  });
+});
+
+describe('buildRewriteInstruction', () => {
+  it('should ask for the changes that bring the page into the band', () => {
+    const band = READABILITY_BANDS['3-5'];
+    const instruction = buildRewriteInstruction(scorePage(1, complexText, band), band, '3-5');
+
+    expect(instruction).toContain('children aged 3-5');
+    expect(instruction).toContain('shorter sentences');
+    expect(instruction).toContain('simpler');
+    expect(instruction).not.toContain('expand');
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { buildPortraitPrompt, describeSavedCharacter, getSavedCharacterReferenceUrl } from '@server/utils/savedCharacters';
+
+const mia = { name: 'Mia', age: '6', appearance: 'curly red hair, freckles', outfit: 'a yellow raincoat' };
+
+describe('describeSavedCharacter', () => {
+  it('should give the name, age, looks and usual outfit', () => {
+    expect(describeSavedCharacter(mia)).toBe('Mia (age 6): curly red hair, freckles; usually wears a yellow raincoat');
+  });
+
+  it('should leave out details the user did not fill in', () => {
+    expect(describeSavedCharacter({ ...mia, age: null, appearance: '' })).toBe('Mia: usually wears a yellow raincoat');
+    expect(describeSavedCharacter({ name: 'Grandpa', age: null, appearance: '', outfit: '' })).toBe('Grandpa');
+  });
+});
+
+describe('getSavedCharacterReferenceUrl', () => {
+  it('should prefer the generated portrait over the photos', () => {
+    expect(getSavedCharacterReferenceUrl({ portraitUrl: '/api/storage/portrait.png', photoUrls: ['/api/storage/photo.jpg'] })).toBe('/api/storage/portrait.png');
+    expect(getSavedCharacterReferenceUrl({ portraitUrl: null, photoUrls: ['/api/storage/photo.jpg'] })).toBe('/api/storage/photo.jpg');
+  });
+});
+
+describe('buildPortraitPrompt', () => {
+  it('should describe the character on a plain background', () => {
+    const prompt = buildPortraitPrompt(mia);
+    expect(prompt).toContain('Mia (age 6)');
+    expect(prompt).toContain('plain light background');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { buildSequelPrompt, formatSeriesLabel, getSeriesSpineText, summarizeForSequel } from '@server/utils/series';
+
+const { mockDb, set, returning } = vi.hoisted(() => {
+  const returning = vi.fn(async (): Promise<{ seriesNumber: number | null }[]> => [{ seriesNumber: 3 }]);
+  const set = vi.fn((_values: { seriesLastNumber: unknown }) => ({ where: () => ({ returning }) }));
+  return { mockDb: { update: () => ({ set }) }, set, returning };
+});
+
+vi.mock('@server/db', () => ({ db: mockDb }));
+
+import { storage } from '@server/storage';
+
+const previousBook = {
+  title: 'The Lost Kite',
+  storyArc: 'Mia loses her kite in a storm and finds it with help from her dog Biscuit.',
+  characters: [
+    { id: 'mia', name: 'Mia', role: 'main character', appearance: 'a girl with curly red hair', clothing: 'a yellow raincoat' },
+    { id: 'biscuit', name: 'Biscuit', role: 'pet dog', appearance: 'a small brown terrier', clothing: 'a blue collar' },
+  ],
+  mainCharacterDescription: 'a girl with curly red hair',
+  defaultClothing: 'a yellow raincoat',
+  pages: [
+    { pageNumber: 1, text: 'Mia loved her kite.', imageUrl: '', imagePrompt: '' },
+    { pageNumber: 2, text: 'They flew it home together.', imageUrl: '', imagePrompt: '' },
+  ],
+};
+
+describe('summarizeForSequel', () => {
+  it('should describe the earlier story, its ending and the recurring cast', () => {
+    const summary = summarizeForSequel(previousBook, 2);
+
+    expect(summary).toContain('book 2 of a series');
+    expect(summary).toContain('sequel to "The Lost Kite"');
+    expect(summary).toContain(previousBook.storyArc);
+    expect(summary).toContain('How it ended: They flew it home together.');
+    expect(summary).toContain('- Mia (main character): a girl with curly red hair; usually wears a yellow raincoat');
+    expect(summary).toContain('- Biscuit (pet dog): a small brown terrier; usually wears a blue collar');
+  });
+
+  it('should fall back to the main character description for books without a cast', () => {
+    const summary = summarizeForSequel({ ...previousBook, characters: null }, 3);
+
+    expect(summary).toContain('- Main character: a girl with curly red hair; usually wears a yellow raincoat');
+  });
+});
+
+describe('buildSequelPrompt', () => {
+  it('should put the earlier story before the new idea', () => {
+    expect(buildSequelPrompt('Earlier story.', 'Mia goes to the beach')).toBe('Earlier story.\n\nIDEA FOR THIS BOOK: Mia goes to the beach');
+  });
+});
+
+describe('series labels', () => {
+  it('should number the book in its own language', () => {
+    expect(formatSeriesLabel(2, 'en')).toBe('Book 2');
+    expect(formatSeriesLabel(3, 'de')).toBe('Band 3');
+  });
+
+  it('should only give books of a series a default spine text', () => {
+    expect(getSeriesSpineText({ title: 'The Lost Kite', language: 'en', seriesNumber: 2 })).toBe('The Lost Kite · Book 2');
+    expect(getSeriesSpineText({ title: 'The Lost Kite', language: 'en', seriesNumber: null })).toBe('');
+  });
+});
+
+describe('reserveSeriesNumber', () => {
+  it('should bump the counter on the first book in the same statement that reads it', async () => {
+    await expect(storage.reserveSeriesNumber('series-1')).resolves.toBe(3);
+
+    const { sql, params } = new PgDialect().sqlToQuery(set.mock.calls[0][0].seriesLastNumber as SQL);
+    // Later books of a series made before the counter existed are counted too
+    expect(sql).toContain('greatest');
+    expect(sql).toContain('max(book.series_number)');
+    expect(params).toEqual(['series-1']);
+  });
+
+  it('should fail when the series has no first book', async () => {
+    returning.mockResolvedValueOnce([]);
+    await expect(storage.reserveSeriesNumber('missing')).rejects.toThrow('Series missing not found');
+  });
+});
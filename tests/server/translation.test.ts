@@ -0,0 +1,37 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { translateStoryText } from '@server/services/gemini';
+
+const { translateTexts } = vi.hoisted(() => ({ translateTexts: vi.fn() }));
+
+vi.mock('@server/services/aiProvider', () => ({
+  getStoryTextProvider: () => ({ translateTexts }),
+  getIllustrationProvider: vi.fn(),
+}));
+
+describe('translateStoryText', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should ask again when a translation is missing', async () => {
+    vi.useFakeTimers();
+    translateTexts
+      .mockResolvedValueOnce(['Le renard', '', ''])
+      .mockResolvedValueOnce(['Le renard', '', '', 'Il était une fois un renard.']);
+
+    const translation = translateStoryText({
+      title: 'The Fox',
+      language: 'en',
+      pages: [{ pageNumber: 1, text: 'Once upon a time there was a fox.' }],
+    }, 'fr');
+    await vi.runAllTimersAsync();
+
+    expect(await translation).toEqual({
+      title: 'Le renard',
+      foreword: null,
+      storyArc: null,
+      pages: [{ pageNumber: 1, text: 'Il était une fois un renard.' }],
+    });
+    expect(translateTexts).toHaveBeenCalledTimes(2);
+  });
+});